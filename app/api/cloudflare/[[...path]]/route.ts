@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import nodeFetch from 'node-fetch';
+import { isSandboxRequest } from '@/lib/sandbox-mode';
+import { handleSandboxCloudflareRequest } from '@/lib/sandbox-cloudflare';
 
 export async function GET(
 		request: NextRequest,
@@ -35,6 +39,21 @@ export async function DELETE(
 		return handleCloudflareProxy(request, await params);
 }
 
+// Built from the x-proxy-* headers the client sends for accounts with an assigned proxy
+function createProxyAgent(request: NextRequest): SocksProxyAgent | undefined {
+		const host = request.headers.get('x-proxy-host');
+		const port = request.headers.get('x-proxy-port');
+		if (!host || !port) return undefined;
+
+		const proxyUrl = new URL(`socks5://${host}:${port}`);
+		const username = request.headers.get('x-proxy-username');
+		const password = request.headers.get('x-proxy-password');
+		if (username) proxyUrl.username = username;
+		if (password) proxyUrl.password = password;
+
+		return new SocksProxyAgent(proxyUrl.toString());
+}
+
 async function handleCloudflareProxy(
 		request: NextRequest,
 		params: { path?: string[] }
@@ -51,22 +70,56 @@ async function handleCloudflareProxy(
 				const cloudflareUrl = url.toString();
 				const method = request.method;
 				const authHeader = request.headers.get('authorization');
+				const authEmail = request.headers.get('x-auth-email');
+				const authKey = request.headers.get('x-auth-key');
 
-				const fetchOptions: RequestInit = {
-						method,
-						headers: {
-								'Content-Type': 'application/json',
-								'Authorization': authHeader || '',
-						},
+				// Global API Keys authenticate with email + key instead of a Bearer token
+				const authHeaders: Record<string, string> = authKey
+						? { 'X-Auth-Email': authEmail || '', 'X-Auth-Key': authKey }
+						: { 'Authorization': authHeader || '' };
+
+				const headers = {
+						'Content-Type': 'application/json',
+						...authHeaders,
 				};
 
+				let body: string | undefined;
 				if (['POST', 'PATCH', 'PUT'].includes(method)) {
-						const body = await request.json();
-						fetchOptions.body = JSON.stringify(body);
+						body = JSON.stringify(await request.json());
 				}
 
-				const response = await fetch(cloudflareUrl, fetchOptions);
-				const data = await response.json();
+				if (isSandboxRequest(request)) {
+						const sandbox = handleSandboxCloudflareRequest({
+								method,
+								path: cloudflareApiPath,
+								searchParams: request.nextUrl.searchParams,
+								body: body ? JSON.parse(body) : undefined,
+								credential: authKey || authHeader || '',
+						});
+						return NextResponse.json(sandbox.data, { status: sandbox.status, headers: sandbox.headers });
+				}
+
+				// Global fetch cannot take an agent, so proxied calls go through node-fetch like the Namecheap client
+				const proxyAgent = createProxyAgent(request);
+				let response;
+				if (proxyAgent) {
+						try {
+								response = await nodeFetch(cloudflareUrl, { method, headers, body, agent: proxyAgent as any });
+						} catch (error) {
+								const proxyHost = `${request.headers.get('x-proxy-host')}:${request.headers.get('x-proxy-port')}`;
+								console.error(`Proxy connection error (${proxyHost}):`, error);
+								return NextResponse.json(
+										{
+												success: false,
+												errors: [{ message: `Failed to connect through proxy ${proxyHost}: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+										},
+										{ status: 502 }
+								);
+						}
+				} else {
+						response = await fetch(cloudflareUrl, { method, headers, body });
+				}
+				const data: any = await response.json();
 
 				// Prepare response headers
 				const responseHeaders = new Headers();
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isSandboxRequest } from '@/lib/sandbox-mode';
+import { createSandboxNPMAuthResponse } from '@/lib/sandbox-npm';
 
 export async function POST(request: NextRequest) {
     try {
@@ -12,6 +14,10 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (isSandboxRequest(request)) {
+            return NextResponse.json(createSandboxNPMAuthResponse(identity));
+        }
+
         // Forward authentication request to NPM
         const npmUrl = `${host}/api/tokens`;
         const response = await fetch(npmUrl, {
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isSandboxRequest } from '@/lib/sandbox-mode';
+import { handleSandboxNPMRequest } from '@/lib/sandbox-npm';
 
 export async function GET(request: NextRequest) {
     return handleProxyRequest(request, 'GET');
@@ -29,22 +31,30 @@ async function handleProxyRequest(request: NextRequest, method: string) {
             );
         }
 
+        if (isSandboxRequest(request)) {
+            return handleSandboxProxyRequest(request, method, endpoint);
+        }
+
         // Build NPM URL
         const npmUrl = `${host}${endpoint}`;
 
+        // Certificate uploads are multipart; forward them with their original boundary
+        const contentType = request.headers.get('Content-Type') || '';
+        const isMultipart = contentType.startsWith('multipart/form-data');
+
         // Prepare request options
         const options: RequestInit = {
             method,
             headers: {
-                'Content-Type': 'application/json',
+                'Content-Type': isMultipart ? contentType : 'application/json',
                 'Authorization': `Bearer ${token}`,
             },
         };
 
         // Add body for POST/PUT requests
         if (method === 'POST' || method === 'PUT') {
-            const body = await request.text();
-            if (body) {
+            const body = isMultipart ? await request.arrayBuffer() : await request.text();
+            if (typeof body === 'string' ? body : body.byteLength > 0) {
                 options.body = body;
             }
         }
@@ -75,3 +85,21 @@ async function handleProxyRequest(request: NextRequest, method: string) {
         );
     }
 }
+
+async function handleSandboxProxyRequest(request: NextRequest, method: string, endpoint: string) {
+    // Certificate uploads are multipart and not inspected by the fake
+    const isJson = (request.headers.get('Content-Type') || '').startsWith('application/json');
+    const text = (method === 'POST' || method === 'PUT') && isJson ? await request.text() : '';
+    const sandbox = handleSandboxNPMRequest(method, endpoint, text ? JSON.parse(text) : undefined);
+
+    if (sandbox.status >= 400) {
+        return NextResponse.json(
+            { error: `NPM API error: ${JSON.stringify(sandbox.data)}` },
+            { status: sandbox.status }
+        );
+    }
+    if (method === 'DELETE') {
+        return NextResponse.json({ success: true });
+    }
+    return NextResponse.json(sandbox.data);
+}
@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRegistrarAdapter, isRegisteredRegistrar } from '@/lib/registrar-adapters';
+import { isSandboxRequest } from '@/lib/sandbox-mode';
+import { normalizeRegistrarContact, validateRegistrarContact } from '@/lib/registrar-contacts';
+import type { DSRecord } from '@/types/cloudflare';
+import type { RegistrarAdapter, RegistrarContact, RegistrarCredentials, RegistrarHostRecord } from '@/types/registrar';
+
+type RouteParams = { params: Promise<{ name: string; action: string }> };
+
+function createErrorResponse(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status });
+}
+
+// Validation failures raised while dispatching an action; anything else is a registrar error
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+function extractCredentials(request: NextRequest): RegistrarCredentials | null {
+  const accountId = request.headers.get('x-account-id');
+  const apiKey = request.headers.get('x-api-key');
+  if (!accountId || !apiKey) return null;
+
+  const proxyHost = request.headers.get('x-proxy-host');
+  const proxyPort = request.headers.get('x-proxy-port');
+
+  return {
+    accountId,
+    apiKey,
+    apiUser: request.headers.get('x-api-user') || undefined,
+    apiSecret: request.headers.get('x-api-secret') || undefined,
+    clientIp: proxyHost || undefined,
+    proxy: proxyHost && proxyPort ? {
+      host: proxyHost,
+      port: proxyPort,
+      username: request.headers.get('x-proxy-username') || undefined,
+      password: request.headers.get('x-proxy-password') || undefined,
+    } : undefined,
+  };
+}
+
+function isValidDSRecord(ds: Partial<DSRecord> | undefined): ds is DSRecord {
+  return !!ds &&
+    Number.isInteger(ds.keyTag) &&
+    Number.isInteger(ds.algorithm) &&
+    Number.isInteger(ds.digestType) &&
+    typeof ds.digest === 'string' &&
+    /^[0-9a-fA-F]+$/.test(ds.digest);
+}
+
+function parseHostRecords(value: unknown): RegistrarHostRecord[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const records: RegistrarHostRecord[] = [];
+  for (const item of value as Partial<RegistrarHostRecord>[]) {
+    if (
+      !item ||
+      typeof item.name !== 'string' || !item.name.trim() ||
+      typeof item.type !== 'string' || !item.type.trim() ||
+      typeof item.address !== 'string' || !item.address.trim() ||
+      !Number.isInteger(item.ttl) ||
+      (item.mxPref !== undefined && !Number.isInteger(item.mxPref))
+    ) {
+      return null;
+    }
+    records.push({
+      name: item.name.trim(),
+      type: item.type.trim().toUpperCase(),
+      address: item.address.trim(),
+      ttl: item.ttl as number,
+      mxPref: item.mxPref,
+    });
+  }
+  return records;
+}
+
+function parseContact(value: unknown): RegistrarContact {
+  const contact = normalizeRegistrarContact(value);
+  const error = validateRegistrarContact(contact);
+  if (error) throw new RequestError(error);
+  return contact;
+}
+
+const MAX_AVAILABILITY_DOMAINS = 200;
+
+function parseDomainList(value: string | null): string[] {
+  const domains = [...new Set((value ?? '').split(',').map(d => d.trim().toLowerCase()).filter(Boolean))];
+  if (domains.length === 0) throw new RequestError('Missing required query parameter: domains');
+  if (domains.length > MAX_AVAILABILITY_DOMAINS) {
+    throw new RequestError(`At most ${MAX_AVAILABILITY_DOMAINS} domains can be checked at once`);
+  }
+  return domains;
+}
+
+function parseYears(value: unknown): number {
+  const years = Number(value ?? 1);
+  if (!Number.isInteger(years) || years < 1 || years > 10) {
+    throw new RequestError('years must be an integer between 1 and 10');
+  }
+  return years;
+}
+
+function unsupported(name: string, action: string) {
+  return createErrorResponse(`${name} does not support ${action}`, 501);
+}
+
+async function handleGet(name: string, adapter: RegistrarAdapter, action: string, request: NextRequest) {
+  const domain = request.nextUrl.searchParams.get('domain');
+
+  switch (action) {
+    case 'domains':
+      return adapter.listDomains();
+    case 'nameservers': {
+      if (!domain) throw new RequestError('Missing required query parameter: domain');
+      return adapter.getNameservers(domain);
+    }
+    case 'hosts': {
+      if (!adapter.getHostRecords) return unsupported(name, action);
+      if (!domain) throw new RequestError('Missing required query parameter: domain');
+      return adapter.getHostRecords(domain);
+    }
+    case 'renewal-price': {
+      if (!adapter.getRenewalPrice) return unsupported(name, action);
+      if (!domain) throw new RequestError('Missing required query parameter: domain');
+      return adapter.getRenewalPrice(domain, parseYears(request.nextUrl.searchParams.get('years')));
+    }
+    case 'balance':
+      if (!adapter.getBalance) return unsupported(name, action);
+      return adapter.getBalance();
+    case 'availability': {
+      if (!adapter.checkAvailability) return unsupported(name, action);
+      const { searchParams } = request.nextUrl;
+      return adapter.checkAvailability(parseDomainList(searchParams.get('domains')), parseYears(searchParams.get('years')));
+    }
+    case 'test':
+      return { connected: await adapter.testConnection() };
+  }
+  throw new RequestError(`Unknown action: ${action}`, 404);
+}
+
+async function handlePost(name: string, adapter: RegistrarAdapter, action: string, request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    throw new RequestError('Invalid JSON body');
+  }
+
+  const domain = typeof body.domain === 'string' ? body.domain.trim().toLowerCase() : '';
+  if (!domain) throw new RequestError('Missing required field: domain');
+
+  switch (action) {
+    case 'nameservers': {
+      if (!Array.isArray(body.nameservers) || body.nameservers.some(ns => typeof ns !== 'string')) {
+        throw new RequestError('Missing or invalid required field: nameservers (array of strings)');
+      }
+      const nameservers = (body.nameservers as string[]).map(ns => ns.trim()).filter(Boolean);
+      await adapter.setNameservers(domain, nameservers);
+      return { domain, nameservers };
+    }
+    case 'renew': {
+      if (!adapter.renewDomain) return unsupported(name, action);
+      return adapter.renewDomain(domain, parseYears(body.years));
+    }
+    case 'register': {
+      if (!adapter.registerDomain) return unsupported(name, action);
+      return adapter.registerDomain(domain, parseYears(body.years), parseContact(body.contact));
+    }
+    case 'lock': {
+      if (!adapter.setLock) return unsupported(name, action);
+      if (typeof body.locked !== 'boolean') throw new RequestError('locked must be a boolean');
+      await adapter.setLock(domain, body.locked);
+      return { domain, locked: body.locked };
+    }
+    case 'autorenew': {
+      if (!adapter.setAutorenew) return unsupported(name, action);
+      if (typeof body.enabled !== 'boolean') throw new RequestError('enabled must be a boolean');
+      await adapter.setAutorenew(domain, body.enabled);
+      return { domain, autorenew: body.enabled };
+    }
+    case 'dnssec': {
+      if (!adapter.setDnssec) return unsupported(name, action);
+      const ds = body.ds as Partial<DSRecord> | undefined;
+      if (!isValidDSRecord(ds)) throw new RequestError('Missing or invalid required field: ds');
+      await adapter.setDnssec(domain, ds);
+      return { domain, dnssec: true };
+    }
+    case 'hosts': {
+      if (!adapter.setHostRecords) return unsupported(name, action);
+      const records = parseHostRecords(body.records);
+      if (!records) throw new RequestError('Missing or invalid required field: records');
+      await adapter.setHostRecords(domain, records);
+      return { domain, records: records.length };
+    }
+  }
+  throw new RequestError(`Unknown action: ${action}`, 404);
+}
+
+async function handleRegistrarRequest(request: NextRequest, { params }: RouteParams) {
+  const { name, action } = await params;
+  if (!isRegisteredRegistrar(name)) {
+    return createErrorResponse(`Unknown registrar: ${name}`, 404);
+  }
+
+  const credentials = extractCredentials(request);
+  if (!credentials) {
+    return createErrorResponse('Missing required headers: x-account-id, x-api-key');
+  }
+
+  try {
+    const adapter = createRegistrarAdapter(name, credentials, isSandboxRequest(request));
+    const result = request.method === 'GET'
+      ? await handleGet(name, adapter, action, request)
+      : await handlePost(name, adapter, action, request);
+
+    if (result instanceof NextResponse) return result;
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return createErrorResponse(error.message, error.status);
+    }
+    console.error(`Error in ${name} ${action} route:`, error);
+    return createErrorResponse(error instanceof Error ? error.message : 'Unknown error occurred', 500);
+  }
+}
+
+// GET /api/registrar/{name}/domains | nameservers?domain= | hosts?domain= | renewal-price?domain=&years= | balance
+//   | availability?domains=a.com,b.com&years= | test
+export async function GET(request: NextRequest, context: RouteParams) {
+  return handleRegistrarRequest(request, context);
+}
+
+// POST /api/registrar/{name}/nameservers | renew | register | lock | autorenew | dnssec | hosts
+// Body: { domain, ...action fields }
+export async function POST(request: NextRequest, context: RouteParams) {
+  return handleRegistrarRequest(request, context);
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSandboxRequest } from '@/lib/sandbox-mode';
+import { resetSandboxState } from '@/lib/sandbox-store';
+
+// POST /api/sandbox resets the fake backends to sandbox-fixtures.json
+export async function POST(request: NextRequest) {
+		if (!isSandboxRequest(request)) {
+				return NextResponse.json({ success: false, error: 'Sandbox mode is not enabled' }, { status: 400 });
+		}
+
+		resetSandboxState();
+		return NextResponse.json({ success: true });
+}
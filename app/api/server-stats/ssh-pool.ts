@@ -151,6 +151,74 @@ class SSHConnectionPool {
         });
     }
 
+    /**
+     * Execute a command and report its exit code alongside stdout/stderr
+     */
+    async executeCommandWithStatus(credentials: SSHCredentials, command: string): Promise<{ stdout: string; stderr: string; code: number }> {
+        const client = await this.getConnection(credentials);
+
+        return new Promise((resolve, reject) => {
+            client.exec(command, (err, stream) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                let stdout = '';
+                let stderr = '';
+                stream.on('data', (data: Buffer) => {
+                    stdout += data.toString();
+                });
+                stream.stderr.on('data', (data: Buffer) => {
+                    stderr += data.toString();
+                });
+
+                // code is null when a signal ended the command; report it as a failure, with 128 like a shell
+                stream.on('close', (code: number | null, signal?: string) => {
+                    if (code === null) {
+                        const killed = `Command terminated by signal ${signal ?? 'unknown'}`;
+                        resolve({ stdout: stdout.trim(), stderr: [stderr.trim(), killed].filter(Boolean).join('\n'), code: 128 });
+                        return;
+                    }
+                    resolve({ stdout: stdout.trim(), stderr: stderr.trim(), code });
+                });
+            });
+        });
+    }
+
+    /**
+     * Write a file over SFTP, creating or overwriting it with the given permissions
+     */
+    async writeFile(credentials: SSHCredentials, remotePath: string, content: string, mode = 0o644): Promise<void> {
+        const client = await this.getConnection(credentials);
+
+        return new Promise((resolve, reject) => {
+            client.sftp((err, sftp) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                sftp.writeFile(remotePath, content, { mode }, (writeErr) => {
+                    if (writeErr) {
+                        sftp.end();
+                        reject(writeErr);
+                        return;
+                    }
+                    // The mode only applies when the file is created, so set it again for overwritten files
+                    sftp.chmod(remotePath, mode, (chmodErr) => {
+                        sftp.end();
+                        if (chmodErr) {
+                            reject(chmodErr);
+                            return;
+                        }
+                        resolve();
+                    });
+                });
+            });
+        });
+    }
+
     /**
      * Close a specific connection
      */
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { getSSHPool } from '../server-stats/ssh-pool';
+
+interface SSHCredentials {
+    host: string;
+    port: number;
+    username: string;
+    privateKey: string;
+    passphrase?: string;
+}
+
+interface DeployFile {
+    path: string;
+    content: string;
+    mode?: number;
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * POST /api/ssh-deploy
+ * Writes files to a server over SFTP (creating parent directories) and optionally runs a command afterwards,
+ * e.g. reloading nginx after a certificate is replaced
+ */
+export async function POST(request: Request) {
+    try {
+        const { credentials, files, command } = await request.json() as {
+            credentials?: SSHCredentials;
+            files?: DeployFile[];
+            command?: string;
+        };
+
+        if (!credentials?.host || !credentials.username || !credentials.privateKey) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid SSH credentials' },
+                { status: 400 }
+            );
+        }
+
+        if (!Array.isArray(files) || files.length === 0 || files.some(file => !file.path?.startsWith('/'))) {
+            return NextResponse.json(
+                { success: false, error: 'Files must have absolute paths' },
+                { status: 400 }
+            );
+        }
+
+        const pool = getSSHPool();
+
+        try {
+            const directories = Array.from(new Set(files.map(file => file.path.slice(0, file.path.lastIndexOf('/')) || '/')));
+            const mkdir = await pool.executeCommandWithStatus(credentials, `mkdir -p ${directories.map(shellQuote).join(' ')}`);
+            if (mkdir.code !== 0) {
+                throw new Error(mkdir.stderr || `mkdir exited with code ${mkdir.code}`);
+            }
+
+            for (const file of files) {
+                await pool.writeFile(credentials, file.path, file.content, file.mode);
+            }
+
+            let output: string | undefined;
+            if (command?.trim()) {
+                const result = await pool.executeCommandWithStatus(credentials, command);
+                if (result.code !== 0) {
+                    throw new Error(`Files written, but "${command}" failed: ${result.stderr || result.stdout || `exit code ${result.code}`}`);
+                }
+                output = result.stdout;
+            }
+
+            return NextResponse.json({ success: true, output });
+        } catch (error) {
+            console.error('SSH deploy error:', error);
+            return NextResponse.json(
+                { success: false, error: error instanceof Error ? error.message : 'Failed to deploy files' },
+                { status: 500 }
+            );
+        }
+    } catch (error) {
+        console.error('SSH deploy API error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
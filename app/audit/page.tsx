@@ -0,0 +1,15 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import ZoneAuditPage from '@/views/zone-audit';
+
+export default function Audit() {
+	const { loadAccounts } = useAccountStore();
+
+	useEffect(() => {
+		loadAccounts();
+	}, [loadAccounts]);
+
+	return <ZoneAuditPage />;
+}
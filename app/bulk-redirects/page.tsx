@@ -0,0 +1,15 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import BulkRedirectsPage from '@/views/bulk-redirects';
+
+export default function BulkRedirects() {
+	const { loadAccounts } = useAccountStore();
+
+	useEffect(() => {
+		loadAccounts();
+	}, [loadAccounts]);
+
+	return <BulkRedirectsPage />;
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import DNSSECPage from '@/views/dnssec';
+
+export default function DNSSEC() {
+	const { loadAccounts } = useAccountStore();
+
+	useEffect(() => {
+		loadAccounts();
+	}, [loadAccounts]);
+
+	return <DNSSECPage />;
+}
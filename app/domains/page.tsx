@@ -18,6 +18,7 @@ import { useLoadingToast } from '@/views/registrars/hooks/use-loading-toast';
 import { useNameservers } from '@/hooks/use-nameservers';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { SetNameserversDialog } from '@/views/registrars/components/set-nameservers-dialog';
+import { HostRecordsDrawer } from '@/views/registrars/components/host-records-drawer';
 import {
   loadRegistrarColumnVisibility,
   saveRegistrarColumnVisibility,
@@ -27,6 +28,7 @@ import {
   type RegistrarColumnVisibility
 } from '@/views/registrars/registrar-columns';
 import { processInParallel } from '@/lib/utils';
+import { REGISTRARS } from '@/lib/registrars';
 
 export default function RegistrarsPage() {
   const router = useRouter();
@@ -35,9 +37,7 @@ export default function RegistrarsPage() {
     domains,
     isLoading,
     isRefreshing,
-    namecheapAccounts,
-    njallaAccounts,
-    dynadotAccounts,
+    registrarAccounts,
     loadDomains,
     refreshAccount,
   } = useRegistrars();
@@ -49,25 +49,22 @@ export default function RegistrarsPage() {
   }, [loadAccounts, loadProxyAccounts]);
 
   // Initialize nameservers hook
-  const { accounts, proxyAccounts } = useAccountStore();
+  const { proxyAccounts } = useAccountStore();
   const { fetchNameservers, setNameservers, loadingStates: nsLoadingStates } = useNameservers(
-    namecheapAccounts,
-    proxyAccounts,
-    njallaAccounts,
-    dynadotAccounts
+    registrarAccounts,
+    proxyAccounts
   );
   const { nameservers: nameserversCache } = useCloudflareCache();
 
   // State for editing single domain
   const [editingDomain, setEditingDomain] = useState<UnifiedDomain | null>(null);
+  const [hostRecordsDomain, setHostRecordsDomain] = useState<UnifiedDomain | null>(null);
 
   const accountEmails = useMemo(() => {
     const emails: Record<string, string> = {};
-    namecheapAccounts.forEach(acc => emails[acc.id] = acc.email);
-    njallaAccounts.forEach(acc => emails[acc.id] = acc.email);
-    dynadotAccounts.forEach(acc => emails[acc.id] = acc.email);
+    registrarAccounts.forEach(acc => emails[acc.id] = acc.email);
     return emails;
-  }, [namecheapAccounts, njallaAccounts, dynadotAccounts]);
+  }, [registrarAccounts]);
 
   const {
     searchTerm,
@@ -179,8 +176,7 @@ export default function RegistrarsPage() {
 
   const handleRefreshNameservers = async () => {
     // Fetch nameservers for all visible registrar domains
-    const registrarsWithNameservers = ['namecheap', 'njalla', 'dynadot'];
-    const domainsToUpdate = sortedDomains.filter(d => registrarsWithNameservers.includes(d.registrar));
+    const domainsToUpdate = sortedDomains.filter(d => d.registrar in REGISTRARS);
 
     // Group domains by account
     const domainsByAccount: Record<string, UnifiedDomain[]> = {};
@@ -273,15 +269,14 @@ export default function RegistrarsPage() {
         onRefreshNameservers={handleRefreshNameservers}
         isRefreshing={isRefreshing}
         isNameserversLoading={isNameserversLoading}
-        namecheapAccounts={namecheapAccounts}
-        njallaAccounts={njallaAccounts}
-        dynadotAccounts={dynadotAccounts}
+        registrarAccounts={registrarAccounts}
         selectedAccount={selectedAccount}
         onAccountChange={handleAccountChange}
         selectedRegistrar={selectedRegistrar}
         onRegistrarChange={setSelectedRegistrar}
         domainCounts={domainCounts}
         columnVisibilityItems={columnVisibilityItems}
+        onRegisterComplete={(accountId) => void refreshAccount(accountId)}
       />
 
       {/* Main content */}
@@ -291,6 +286,7 @@ export default function RegistrarsPage() {
         onCopySelected={() => void handleCopySelected()}
         onClearSelection={clear}
         onSetNameservers={handleSetNameservers}
+        onRenewComplete={(accountIds) => accountIds.forEach((accountId) => void refreshAccount(accountId))}
       />
 
       {isLoading || isRefreshing ? (
@@ -330,6 +326,7 @@ export default function RegistrarsPage() {
               nameserversLoading={nsLoadingStates}
               onRefreshNameservers={handleRefreshSingleNameserver}
               onEditNameservers={handleEditNameservers}
+              onEditHostRecords={setHostRecordsDomain}
               visibleColumns={columnVisibility}
               accountEmails={accountEmails}
             />
@@ -355,6 +352,17 @@ export default function RegistrarsPage() {
         />
       )}
 
+      {hostRecordsDomain && (
+        <HostRecordsDrawer
+          key={hostRecordsDomain.id}
+          domain={hostRecordsDomain}
+          open={true}
+          onOpenChange={(open) => {
+            if (!open) setHostRecordsDomain(null);
+          }}
+        />
+      )}
+
     </div>
   )
 }
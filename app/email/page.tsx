@@ -0,0 +1,15 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import EmailPage from '@/views/email';
+
+export default function Email() {
+	const { loadAccounts } = useAccountStore();
+
+	useEffect(() => {
+		loadAccounts();
+	}, [loadAccounts]);
+
+	return <EmailPage />;
+}
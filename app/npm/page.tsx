@@ -2,14 +2,15 @@
 
 import { useEffect, useState, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
-import { NPMAPIClient } from '@/lib/npm-api';
+import { NPMAPIClient, decodeNPMSettings } from '@/lib/npm-api';
 import { useAccountStore } from '@/store/account-store';
 import { NginxLocationsTable } from '@/views/redirects/components/nginx-locations-table';
 import { parseNginxLocations } from '@/lib/nginx-parser';
 import { AddRedirectDialog } from '@/components/redirects/add-redirect-dialog';
 import { ExportRedirectsDialog } from '@/components/redirects/export-redirects-dialog';
+import { ConvertToRedirectRulesDialog } from '@/components/redirects/convert-to-redirect-rules-dialog';
 import { extractNginxError, formatNginxError } from '@/lib/nginx-error';
-import { RefreshCw, ArrowRightLeft, Download } from 'lucide-react';
+import { RefreshCw, ArrowRightLeft, Download, Cloud } from 'lucide-react';
 import { Empty, EmptyHeader, EmptyMedia, EmptyTitle, EmptyDescription } from '@/components/ui/empty';
 import type { NPMBulkAddRedirectsResponse, NPMRedirectListResponse } from '@/types/npm';
 import type { CloudflareAccount } from '@/types/cloudflare';
@@ -27,6 +28,7 @@ export default function NPMPage() {
     const [npmToken, setNpmToken] = useState<{ token: string; expires: string } | null>(null);
     const [selectedDomain, setSelectedDomain] = useState<string>('all');
     const [exportDialogOpen, setExportDialogOpen] = useState(false);
+    const [convertDialogOpen, setConvertDialogOpen] = useState(false);
 
     // Load accounts on mount
     useEffect(() => {
@@ -35,20 +37,7 @@ export default function NPMPage() {
 
     // Find and decode NPM account (stored as CloudflareAccount with category='npm')
     const npmCredentials = useMemo(() => {
-        const npmAcc = accounts.find((acc) => acc.category === 'npm') as CloudflareAccount | undefined;
-        if (!npmAcc) return null;
-
-        try {
-            const decoded = JSON.parse(npmAcc.apiToken);
-            return {
-                host: decoded.host as string,
-                identity: npmAcc.email,
-                secret: decoded.secret as string,
-            };
-        } catch {
-            console.error('Failed to decode NPM credentials');
-            return null;
-        }
+        return decodeNPMSettings(accounts.find((acc) => acc.category === 'npm') as CloudflareAccount | undefined);
     }, [accounts]);
 
     const loadRedirects = async (forceRefresh = false) => {
@@ -460,6 +449,14 @@ export default function NPMPage() {
                             <Download className="h-4 w-4 mr-2" />
                             Export
                         </Button>
+                        <Button
+                            variant="outline"
+                            onClick={() => setConvertDialogOpen(true)}
+                            disabled={parsedLocations.length === 0}
+                        >
+                            <Cloud className="h-4 w-4 mr-2" />
+                            To Cloudflare
+                        </Button>
                         <AddRedirectDialog
                             availableDomains={uniqueDomains}
                             initialDomain={selectedDomain !== 'all' ? selectedDomain : undefined}
@@ -519,6 +516,11 @@ export default function NPMPage() {
                 onOpenChange={setExportDialogOpen}
                 locations={parsedLocations}
             />
+            <ConvertToRedirectRulesDialog
+                open={convertDialogOpen}
+                onOpenChange={setConvertDialogOpen}
+                locations={parsedLocations}
+            />
         </div>
     );
 }
@@ -0,0 +1,15 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import TunnelsPage from '@/views/tunnels';
+
+export default function Tunnels() {
+	const { loadAccounts } = useAccountStore();
+
+	useEffect(() => {
+		loadAccounts();
+	}, [loadAccounts]);
+
+	return <TunnelsPage />;
+}
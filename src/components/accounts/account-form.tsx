@@ -7,7 +7,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { DatePicker } from "@/components/ui/date-picker"
 import { useAccountStore } from '@/store/account-store'
 import type { AccountFormData } from "@/hooks/use-account-form"
-import type { AccountCategory, RegistrarType } from "@/types/cloudflare"
+import type { AccountCategory, CloudflareAuthMode, RegistrarType } from "@/types/cloudflare"
+import { detectCloudflareAuthMode } from "@/lib/credential-parsers"
+import { REGISTRARS, REGISTRAR_TYPES } from "@/lib/registrars"
 import { getCategoryColorClasses, getCategoryLabel, parseExpirationDate, formatExpirationDate } from "@/lib/utils"
 import { AccountCategorySelect } from "./account-category-select"
 
@@ -208,24 +210,14 @@ export function AccountForm({ formData, setFormData, isEditing = false }: Accoun
                 <SelectValue placeholder="Select registrar" />
               </SelectTrigger>
                 <SelectContent>
-                <SelectItem value="namecheap">
-                  <div className="flex items-center gap-2">
-                    <Globe className="h-4 w-4" />
-                    Namecheap
-                  </div>
-                </SelectItem>
-                <SelectItem value="dynadot">
-                  <div className="flex items-center gap-2">
-                    <Globe className="h-4 w-4" />
-                    Dynadot
-                  </div>
-                </SelectItem>
-                <SelectItem value="njalla">
-                  <div className="flex items-center gap-2">
-                    <Globe className="h-4 w-4" />
-                    Njalla
-                  </div>
-                </SelectItem>
+                {REGISTRAR_TYPES.map((registrar) => (
+                  <SelectItem key={registrar} value={registrar}>
+                    <div className="flex items-center gap-2">
+                      <Globe className="h-4 w-4" />
+                      {REGISTRARS[registrar].label}
+                    </div>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -307,6 +299,30 @@ export function AccountForm({ formData, setFormData, isEditing = false }: Accoun
               </p>
             </div>
           )}
+
+          {formData.registrarName === 'porkbun' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="api-secret" className="text-sm font-medium">
+                  Secret API Key <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="api-secret"
+                  type="password"
+                  placeholder="sk1_..."
+                  value={formData.apiSecret || ''}
+                  onChange={(e) => setFormData({ ...formData, apiSecret: e.target.value })}
+                  className="font-mono text-sm transition-colors focus:ring-2"
+                />
+              </div>
+
+              <div className="rounded-lg bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 p-4">
+                <p className="text-sm text-blue-900 dark:text-blue-100">
+                  <strong>Porkbun API Keys:</strong> Enter the API key (pk1_...) above and its secret key here. Turn on API Access for each domain in the Porkbun dashboard, or it will be missing from the list.
+                </p>
+              </div>
+            </>
+          )}
         </>
       )}
 
@@ -555,14 +571,19 @@ export function AccountForm({ formData, setFormData, isEditing = false }: Accoun
       {formData.category !== 'proxy' && formData.category !== 'ssh' && formData.category !== 'npm' && formData.category !== 'vps' && (
         <div className="space-y-2">
           <Label htmlFor="apiToken" className="text-sm font-medium">
-            API Token <span className="text-destructive">*</span>
+            {formData.category === 'cloudflare' && formData.authMode === 'global_key' ? 'Global API Key' : 'API Token'} <span className="text-destructive">*</span>
           </Label>
           <Input
             id="apiToken"
             type="password"
             placeholder="Your API token"
             value={formData.apiToken}
-            onChange={(e) => setFormData({ ...formData, apiToken: e.target.value })}
+            onChange={(e) => setFormData({
+              ...formData,
+              apiToken: e.target.value,
+              // Re-detect the key type whenever a Cloudflare key is pasted or typed
+              authMode: formData.category === 'cloudflare' ? detectCloudflareAuthMode(e.target.value) : formData.authMode,
+            })}
             className="font-mono text-sm transition-colors focus:ring-2"
           />
           <p className="text-xs text-muted-foreground">
@@ -570,6 +591,66 @@ export function AccountForm({ formData, setFormData, isEditing = false }: Accoun
           </p>
         </div>
       )}
+
+      {/* Authentication mode for Cloudflare accounts */}
+      {formData.category === 'cloudflare' && (
+        <div className="space-y-2">
+          <Label htmlFor="auth-mode" className="text-sm font-medium">
+            Authentication
+          </Label>
+          <Select
+            value={formData.authMode}
+            onValueChange={(value) => setFormData({ ...formData, authMode: value as CloudflareAuthMode })}
+          >
+            <SelectTrigger id="auth-mode" className="transition-colors focus:ring-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="api_token">API Token (Bearer)</SelectItem>
+              <SelectItem value="global_key">Global API Key (email + key)</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Detected from the key format. Global API Keys use the account email above and have full access.
+          </p>
+        </div>
+      )}
+
+      {/* Proxy Selection for Cloudflare Accounts */}
+      {formData.category === 'cloudflare' && (
+        <div className="space-y-2">
+          <Label htmlFor="cloudflare-proxy-account" className="text-sm font-medium">
+            Proxy Account (Optional)
+          </Label>
+          <Select
+            value={formData.proxyId || "none"}
+            onValueChange={(value) => setFormData({ ...formData, proxyId: value === "none" ? undefined : value })}
+          >
+            <SelectTrigger id="cloudflare-proxy-account" className="transition-colors focus:ring-2">
+              <SelectValue placeholder="Select proxy for API calls" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">
+                <div className="flex items-center gap-2">
+                  <X className="h-4 w-4" />
+                  No proxy (direct connection)
+                </div>
+              </SelectItem>
+              {proxyAccounts.map((proxy) => (
+                <SelectItem key={proxy.id} value={proxy.id}>
+                  <div className="flex items-center gap-2">
+                    <Server className="h-4 w-4" />
+                    {proxy.name || `${proxy.host}:${proxy.port}`}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Cloudflare API calls for this account leave through this SOCKS5 proxy instead of the server IP.
+          </p>
+        </div>
+      )}
     </div>
   )
 }
@@ -21,6 +21,7 @@ import { useBulkImport } from "@/hooks/use-bulk-import"
 import { useAccountStore } from "@/store/account-store"
 import type { AccountCategory, RegistrarType } from "@/types/cloudflare"
 import { getCategoryLabel } from "@/lib/utils"
+import { REGISTRARS, REGISTRAR_TYPES } from "@/lib/registrars"
 import { PARSERS } from "@/lib/credential-parsers"
 
 interface AddCredentialsDialogProps {
@@ -202,24 +203,14 @@ export function AddCredentialsDialog({
                                                 <SelectValue placeholder="Select registrar" />
                                             </SelectTrigger>
                                             <SelectContent>
-                                                <SelectItem value="namecheap">
-                                                    <div className="flex items-center gap-2">
-                                                        <Globe className="h-4 w-4" />
-                                                        Namecheap
-                                                    </div>
-                                                </SelectItem>
-                                                <SelectItem value="dynadot">
-                                                    <div className="flex items-center gap-2">
-                                                        <Globe className="h-4 w-4" />
-                                                        Dynadot
-                                                    </div>
-                                                </SelectItem>
-                                                <SelectItem value="njalla">
-                                                    <div className="flex items-center gap-2">
-                                                        <Globe className="h-4 w-4" />
-                                                        Njalla
-                                                    </div>
-                                                </SelectItem>
+                                                {REGISTRAR_TYPES.map((registrar) => (
+                                                    <SelectItem key={registrar} value={registrar}>
+                                                        <div className="flex items-center gap-2">
+                                                            <Globe className="h-4 w-4" />
+                                                            {REGISTRARS[registrar].label}
+                                                        </div>
+                                                    </SelectItem>
+                                                ))}
                                             </SelectContent>
                                         </Select>
                                     </div>
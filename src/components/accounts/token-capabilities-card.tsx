@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useRef } from "react"
+import { Check, HelpCircle, KeyRound, Loader2, RefreshCw, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTokenIntrospection } from "@/hooks/use-token-capabilities"
+import { TOKEN_CAPABILITIES } from "@/lib/token-capabilities"
+import { useAccountStore } from "@/store/account-store"
+import { useCloudflareCache } from "@/store/cloudflare-cache"
+
+const CapabilityIcon = ({ value }: { value: boolean | null | undefined }) => {
+  if (value === true) return <Check className="h-4 w-4 text-green-600" />
+  if (value === false) return <X className="h-4 w-4 text-destructive" />
+  return <HelpCircle className="h-4 w-4 text-muted-foreground" />
+}
+
+export function TokenCapabilitiesCard() {
+  const accounts = useAccountStore((s) => s.accounts)
+  const tokenCapabilities = useCloudflareCache((s) => s.tokenCapabilities)
+  const { check, checking, errors } = useTokenIntrospection()
+  const autoCheckedRef = useRef<Set<string>>(new Set())
+
+  const cloudflareAccounts = useMemo(
+    () => accounts.filter(account => account.category === "cloudflare"),
+    [accounts]
+  )
+
+  // Introspect credentials that have never been checked, e.g. right after they were added or their token changed
+  useEffect(() => {
+    cloudflareAccounts
+      .filter(account => !autoCheckedRef.current.has(`${account.id}:${account.apiToken}`) && !useCloudflareCache.getState().getTokenCapabilities(account.id))
+      .forEach(account => {
+        autoCheckedRef.current.add(`${account.id}:${account.apiToken}`)
+        void check(account)
+      })
+  }, [cloudflareAccounts, check])
+
+  if (cloudflareAccounts.length === 0) return null
+
+  const isChecking = Object.values(checking).some(Boolean)
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5" />
+              <span>Token Permissions</span>
+            </CardTitle>
+            <CardDescription>
+              What each Cloudflare API token is allowed to do. Actions a token cannot perform are disabled in the dashboard.
+              A question mark means the token cannot read its own policies (it lacks API Tokens Read).
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => cloudflareAccounts.forEach(account => { void check(account) })}
+            disabled={isChecking}
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${isChecking ? "animate-spin" : ""}`} />
+            Check all
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[200px]">Account</TableHead>
+                <TableHead>Token</TableHead>
+                {TOKEN_CAPABILITIES.map(capability => (
+                  <TableHead key={capability.key} className="text-center text-xs whitespace-nowrap">
+                    {capability.label}
+                  </TableHead>
+                ))}
+                <TableHead className="w-[60px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cloudflareAccounts.map(account => {
+                const introspection = tokenCapabilities[account.id]
+                const error = errors[account.id]
+
+                return (
+                  <TableRow key={account.id}>
+                    <TableCell>
+                      <div className="font-medium">{account.name || account.email}</div>
+                      {introspection && (
+                        <div className="text-xs text-muted-foreground">
+                          Checked {new Date(introspection.checkedAt).toLocaleString()}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {error ? (
+                        <Badge variant="destructive" title={error}>Invalid</Badge>
+                      ) : introspection ? (
+                        <Badge variant={introspection.status === "active" ? "secondary" : "destructive"} className="capitalize">
+                          {account.authMode === "global_key" ? "Global key" : introspection.status}
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Not checked</span>
+                      )}
+                      {introspection?.expiresOn && (
+                        <div className="text-[10px] text-muted-foreground mt-1">
+                          Expires {new Date(introspection.expiresOn).toLocaleDateString()}
+                        </div>
+                      )}
+                    </TableCell>
+                    {TOKEN_CAPABILITIES.map(capability => (
+                      <TableCell key={capability.key}>
+                        <div className="flex justify-center">
+                          <CapabilityIcon value={error ? false : introspection?.capabilities[capability.key]} />
+                        </div>
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => { void check(account) }}
+                        disabled={checking[account.id]}
+                        title="Check again"
+                      >
+                        {checking[account.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,279 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useZoneAnalytics, type AnalyticsZone } from '@/hooks/use-zone-analytics';
+import { ANALYTICS_RANGES, formatBytes, formatCount, getCachedRatio } from '@/lib/cloudflare-analytics';
+import type { AnalyticsRange, ZoneTrafficTotals } from '@/types/cloudflare';
+
+interface ZoneAnalyticsDialogProps {
+  zones: AnalyticsZone[];
+  trigger?: React.ReactNode;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+type TrafficMetric = 'requests' | 'bytes';
+
+const trafficChartConfig = {
+  requests: { label: 'Requests', color: 'var(--chart-1)' },
+  cachedRequests: { label: 'Cached', color: 'var(--chart-2)' },
+  bytes: { label: 'Bandwidth', color: 'var(--chart-1)' },
+  cachedBytes: { label: 'Cached', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+const breakdownChartConfig = {
+  requests: { label: 'Requests', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const formatPercent = (ratio: number | null) => (ratio === null ? '—' : `${(ratio * 100).toFixed(1)}%`);
+
+export function ZoneAnalyticsDialog({ zones, trigger, open: controlledOpen, onOpenChange: controlledOnOpenChange }: ZoneAnalyticsDialogProps) {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const setOpen = isControlled ? controlledOnOpenChange! : setInternalOpen;
+
+  const [range, setRange] = useState<AnalyticsRange>('24h');
+  const [metric, setMetric] = useState<TrafficMetric>('requests');
+  const { results, errors, combined, isLoading, reload } = useZoneAnalytics(zones, range, open);
+
+  const isSingleZone = zones.length === 1;
+  const hasData = Object.keys(results).length > 0;
+  const failedZones = zones.filter(zone => errors[zone.zoneId]);
+
+  const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return range === '24h'
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  };
+
+  const statusCodes = useMemo(
+    () => combined.statusCodes.map(item => ({ ...item, label: String(item.status) })),
+    [combined.statusCodes]
+  );
+
+  // Busiest first, so zones without traffic end up at the bottom
+  const zoneRows = useMemo(
+    () => zones
+      .map(zone => ({ zone, totals: results[zone.zoneId]?.totals, error: errors[zone.zoneId] }))
+      .sort((a, b) => (b.totals?.requests ?? -1) - (a.totals?.requests ?? -1)),
+    [zones, results, errors]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Traffic analytics</DialogTitle>
+          <DialogDescription>
+            {isSingleZone ? zones[0].zoneName : `Combined traffic of ${zones.length} domains`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <Tabs value={metric} onValueChange={(value) => setMetric(value as TrafficMetric)}>
+            <TabsList>
+              <TabsTrigger value="requests">Requests</TabsTrigger>
+              <TabsTrigger value="bytes">Bandwidth</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center gap-2">
+            <Select value={range} onValueChange={(value) => setRange(value as AnalyticsRange)}>
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANALYTICS_RANGES.map(item => (
+                  <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" className="h-8 px-2" onClick={() => { void reload(); }} disabled={isLoading} title="Reload">
+              <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {failedZones.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              <div className="space-y-0.5">
+                {failedZones.slice(0, 3).map(zone => (
+                  <div key={zone.zoneId}>{zone.zoneName}: {errors[zone.zoneId]}</div>
+                ))}
+                {failedZones.length > 3 && <div>+{failedZones.length - 3} more domains failed to load</div>}
+              </div>
+            </div>
+          )}
+
+          <TrafficSummary totals={combined.totals} isLoading={isLoading && !hasData} />
+
+          <div className="rounded-md border p-3">
+            {isLoading && !hasData ? (
+              <Skeleton className="h-56 w-full" />
+            ) : (
+              <ChartContainer config={trafficChartConfig} className="aspect-auto h-56 w-full">
+                <AreaChart data={combined.series} margin={{ left: 4, right: 8, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="timestamp" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={formatTimestamp} />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={56}
+                    tickFormatter={(value: number) => (metric === 'bytes' ? formatBytes(value) : formatCount(value))}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => payload?.[0] ? formatTimestamp(payload[0].payload.timestamp) : ''}
+                        formatter={(value, name) => (
+                          <div className="flex flex-1 justify-between gap-4">
+                            <span className="text-muted-foreground">{trafficChartConfig[name as keyof typeof trafficChartConfig]?.label}</span>
+                            <span className="font-mono">{metric === 'bytes' ? formatBytes(Number(value)) : Number(value).toLocaleString()}</span>
+                          </div>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Area
+                    dataKey={metric}
+                    type="monotone"
+                    stroke={`var(--color-${metric})`}
+                    fill={`var(--color-${metric})`}
+                    fillOpacity={0.15}
+                  />
+                  <Area
+                    dataKey={metric === 'bytes' ? 'cachedBytes' : 'cachedRequests'}
+                    type="monotone"
+                    stroke={`var(--color-${metric === 'bytes' ? 'cachedBytes' : 'cachedRequests'})`}
+                    fill={`var(--color-${metric === 'bytes' ? 'cachedBytes' : 'cachedRequests'})`}
+                    fillOpacity={0.3}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <BreakdownChart
+              title="Top countries"
+              data={combined.countries}
+              dataKey="country"
+              isLoading={isLoading && !hasData}
+            />
+            <BreakdownChart
+              title="Status codes"
+              data={statusCodes}
+              dataKey="label"
+              isLoading={isLoading && !hasData}
+            />
+          </div>
+
+          {!isSingleZone && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Domain</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    <TableHead className="text-right">Bandwidth</TableHead>
+                    <TableHead className="text-right">Cached</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {zoneRows.map(({ zone, totals, error }) => (
+                    <TableRow key={`${zone.accountId}-${zone.zoneId}`}>
+                      <TableCell className="font-medium">{zone.zoneName}</TableCell>
+                      {error ? (
+                        <TableCell colSpan={3} className="text-right text-xs text-destructive">Failed to load</TableCell>
+                      ) : totals ? (
+                        <>
+                          <TableCell className="text-right font-mono text-xs">{totals.requests.toLocaleString()}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{formatBytes(totals.bytes)}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{formatPercent(getCachedRatio(totals))}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={3}><Skeleton className="h-4 w-full" /></TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TrafficSummary({ totals, isLoading }: { totals: ZoneTrafficTotals; isLoading: boolean }) {
+  const stats = [
+    { label: 'Requests', value: totals.requests.toLocaleString() },
+    { label: 'Bandwidth', value: formatBytes(totals.bytes) },
+    { label: 'Cached requests', value: formatPercent(getCachedRatio(totals)) },
+    { label: 'Cached bandwidth', value: formatPercent(totals.bytes > 0 ? totals.cachedBytes / totals.bytes : null) },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+      {stats.map(stat => (
+        <div key={stat.label} className="rounded-md border p-3">
+          <div className="text-xs text-muted-foreground">{stat.label}</div>
+          {isLoading ? (
+            <Skeleton className="h-6 w-20 mt-1" />
+          ) : (
+            <div className="text-lg font-semibold font-mono">{stat.value}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface BreakdownChartProps<T extends { requests: number }> {
+  title: string;
+  data: T[];
+  dataKey: keyof T & string;
+  isLoading: boolean;
+}
+
+function BreakdownChart<T extends { requests: number }>({ title, data, dataKey, isLoading }: BreakdownChartProps<T>) {
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="text-sm font-medium">{title}</div>
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : data.length === 0 ? (
+        <div className="flex h-48 items-center justify-center text-xs text-muted-foreground">No traffic in this range</div>
+      ) : (
+        <ChartContainer config={breakdownChartConfig} className="aspect-auto h-48 w-full">
+          <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+            <XAxis type="number" hide />
+            <YAxis type="category" dataKey={dataKey} tickLine={false} axisLine={false} width={48} />
+            <ChartTooltip cursor={false} content={<ChartTooltipContent hideIndicator />} />
+            <Bar dataKey="requests" fill="var(--color-requests)" radius={3} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
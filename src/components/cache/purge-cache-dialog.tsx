@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Eraser } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { useAccountStore } from '@/store/account-store';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { CACHE_PURGE_MODES, resolvePurgeValues } from '@/lib/cache-purge';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { formatCloudflareError } from '@/lib/utils';
+import type { CachePurgeMode } from '@/types/cloudflare';
+
+export interface PurgeCacheZone {
+  zoneId: string;
+  zoneName: string;
+  accountId: string;
+}
+
+interface PurgeCacheDialogProps {
+  zones: PurgeCacheZone[];
+  onComplete?: () => void;
+  trigger?: React.ReactNode;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export function PurgeCacheDialog({ zones, onComplete, trigger, open: controlledOpen, onOpenChange: controlledOnOpenChange }: PurgeCacheDialogProps) {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const setOpen = isControlled ? controlledOnOpenChange! : setInternalOpen;
+
+  const [mode, setMode] = useState<CachePurgeMode>('everything');
+  const [input, setInput] = useState('');
+  const { accounts } = useAccountStore();
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+  const lines = input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const currentMode = CACHE_PURGE_MODES.find(item => item.value === mode)!;
+  const isSingleZone = zones.length === 1;
+
+  const handlePurge = async () => {
+    const targets = [...zones];
+    const purgeMode = mode;
+    const purgeLines = [...lines];
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+
+    setOpen(false);
+    onComplete?.();
+    startTask(
+      'purge_cache',
+      `Purging ${purgeMode === 'everything' ? 'all cached files' : currentMode.label.toLowerCase()} on ${targets.length} domain${targets.length !== 1 ? 's' : ''}`,
+      targets.length
+    );
+
+    let successCount = 0;
+    let failCount = 0;
+    let skippedCount = 0;
+
+    try {
+      for (let i = 0; i < targets.length; i++) {
+        await checkTaskStatus();
+
+        const target = targets[i];
+        const account = accounts.find(acc => acc.id === target.accountId);
+        const values = resolvePurgeValues(purgeMode, purgeLines, target.zoneName);
+
+        if (!account) {
+          addLog(`${target.zoneName}: account not found`, 'error');
+          failCount++;
+        } else if (!canPerform(await loadTokenCapabilities(account), 'cachePurge')) {
+          addLog(`${target.zoneName}: ${getMissingCapabilityMessage('cachePurge')}`, 'error');
+          failCount++;
+        } else if (purgeMode !== 'everything' && values.length === 0) {
+          addLog(`${target.zoneName}: nothing to purge for this zone`);
+          skippedCount++;
+        } else {
+          try {
+            const api = new CloudflareAPI(account);
+            await api.purgeCache(target.zoneId, { mode: purgeMode, values });
+            addLog(
+              purgeMode === 'everything'
+                ? `${target.zoneName}: purged everything`
+                : `${target.zoneName}: purged ${values.length} ${currentMode.label.toLowerCase()}`,
+              'success'
+            );
+            successCount++;
+          } catch (error) {
+            addLog(`${target.zoneName}: ${formatCloudflareError(error)}`, 'error');
+            failCount++;
+          }
+        }
+
+        updateProgress(Math.round(((i + 1) / targets.length) * 100), i + 1);
+      }
+
+      const summary = [`${successCount} purged`, `${failCount} failed`];
+      if (skippedCount > 0) summary.push(`${skippedCount} skipped`);
+      addLog(`Done: ${summary.join(', ')}`, failCount > 0 ? 'error' : 'success');
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        addLog(`Stopped after ${successCount + failCount + skippedCount} of ${targets.length} domains`);
+        return;
+      }
+      console.error('Cache purge error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to purge cache');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Eraser className="h-5 w-5" />
+            Purge Cache
+          </DialogTitle>
+          <DialogDescription>
+            {isSingleZone
+              ? <>Remove cached content for <strong>{zones[0].zoneName}</strong> from Cloudflare&apos;s edge.</>
+              : `Remove cached content on ${zones.length} selected domains. Progress is shown in the task window.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as CachePurgeMode)} className="grid grid-cols-4 gap-2">
+            {CACHE_PURGE_MODES.map(item => (
+              <div key={item.value} className="flex items-center gap-2">
+                <RadioGroupItem value={item.value} id={`purge-mode-${item.value}`} />
+                <Label htmlFor={`purge-mode-${item.value}`} className="font-normal">{item.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {mode === 'everything' ? (
+            <p className="text-sm text-muted-foreground">
+              Every cached file is dropped and refetched from the origin on the next request.
+            </p>
+          ) : (
+            <div className="space-y-1.5">
+              <Textarea
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={currentMode.placeholder}
+                className="min-h-[140px] font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                One per line. {mode === 'hosts'
+                  ? 'Use @ for the apex and bare labels for subdomains of each zone.'
+                  : 'Paths starting with / apply to every selected zone; full URLs only to their own zone.'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} className="w-full sm:w-auto">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => { void handlePurge(); }}
+            disabled={isTaskRunning || zones.length === 0 || (mode !== 'everything' && lines.length === 0)}
+            variant={mode === 'everything' ? 'destructive' : 'default'}
+            className="w-full sm:w-auto"
+          >
+            {isTaskRunning ? 'Another task is running' : 'Purge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
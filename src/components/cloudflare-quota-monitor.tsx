@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, Gauge } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { getCloudflareRateLimitKey } from '@/lib/cloudflare-rate-limit';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareQuotaStore, type CloudflareQuota } from '@/store/cloudflare-quota-store';
+
+type QuotaStatus = 'healthy' | 'warning' | 'error';
+
+const getQuotaStatus = (quota: CloudflareQuota, now: number): QuotaStatus | null => {
+    if (quota.pausedUntil && quota.pausedUntil > now) return 'error';
+    if (quota.remaining === null || !quota.resetAt || quota.resetAt <= now) return null;
+    if (quota.limit && quota.remaining <= quota.limit * 0.25) return 'warning';
+    return 'healthy';
+};
+
+const formatSeconds = (ms: number) => `${Math.max(0, Math.ceil(ms / 1000))}s`;
+
+export function CloudflareQuotaMonitor() {
+    const { accounts, loadAccounts } = useAccountStore();
+    const quotas = useCloudflareQuotaStore((state) => state.quotas);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        loadAccounts();
+    }, [loadAccounts]);
+
+    // Tick for the reset and pause countdowns
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const rows = useMemo(() => accounts
+        .filter(account => account.category === 'cloudflare' && account.apiToken)
+        .map(account => ({
+            account,
+            quota: quotas[getCloudflareRateLimitKey(account.apiToken)] as CloudflareQuota | undefined,
+        })), [accounts, quotas]);
+
+    if (rows.length === 0) return null;
+
+    const statuses = rows.map(row => (row.quota ? getQuotaStatus(row.quota, now) : null));
+    const aggregateStatus: QuotaStatus | null = statuses.includes('error')
+        ? 'error'
+        : statuses.includes('warning')
+            ? 'warning'
+            : statuses.includes('healthy') ? 'healthy' : null;
+    const totalQueued = rows.reduce((sum, row) => sum + (row.quota?.queued ?? 0), 0);
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <button className="group flex items-center gap-2 h-8 pl-2 pr-3 rounded-md border bg-card/50 text-card-foreground shadow-sm hover:bg-accent/50 hover:text-accent-foreground transition-all focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring">
+                    <div className="flex items-center gap-2">
+                        <div className="flex items-center justify-center w-5 h-5 rounded bg-primary/10 text-primary">
+                            <Gauge className="h-3 w-3" />
+                        </div>
+                        <span className="text-xs font-medium text-muted-foreground group-hover:text-foreground transition-colors">
+                            {totalQueued > 0 ? `API quota · ${totalQueued} queued` : 'API quota'}
+                        </span>
+                    </div>
+
+                    <div className="h-4 w-[1px] bg-border mx-1" />
+                    <div className={`w-2 h-2 rounded-full ${aggregateStatus === 'error' ? 'bg-red-500' :
+                        aggregateStatus === 'warning' ? 'bg-yellow-500' :
+                            aggregateStatus === 'healthy' ? 'bg-green-500' :
+                                'bg-muted'
+                        }`} />
+
+                    <ChevronDown className="h-3 w-3 text-muted-foreground/50 ml-1 opacity-0 group-hover:opacity-100 transition-opacity" />
+                </button>
+            </PopoverTrigger>
+
+            <PopoverContent className="w-80 p-0 overflow-hidden" align="end" sideOffset={8}>
+                <div className="flex items-center gap-2 p-2 bg-muted/40 border-b">
+                    <Gauge className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="text-xs font-semibold">Cloudflare API Quota</span>
+                </div>
+
+                <div className="max-h-[500px] overflow-y-auto divide-y">
+                    {rows.map(({ account, quota }) => {
+                        const windowActive = !!quota?.resetAt && quota.resetAt > now && quota.remaining !== null;
+                        const isPaused = !!quota?.pausedUntil && quota.pausedUntil > now;
+                        const percentage = windowActive && quota?.limit
+                            ? Math.round(((quota.remaining ?? 0) / quota.limit) * 100)
+                            : 100;
+
+                        return (
+                            <div key={account.id} className="p-2 space-y-1.5">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-xs font-medium truncate">{account.name || account.email}</span>
+                                    <span className="text-[10px] font-mono text-muted-foreground whitespace-nowrap">
+                                        {windowActive
+                                            ? `${quota?.remaining}${quota?.limit ? ` / ${quota.limit}` : ''}`
+                                            : 'No recent requests'}
+                                    </span>
+                                </div>
+                                <Progress
+                                    value={percentage}
+                                    className={`h-1.5 ${isPaused ? '[&>div]:bg-red-500' : percentage <= 25 ? '[&>div]:bg-yellow-500' : ''}`}
+                                />
+                                <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+                                    <span>
+                                        {isPaused
+                                            ? `Rate limited, resuming in ${formatSeconds(quota!.pausedUntil! - now)}`
+                                            : windowActive
+                                                ? `Resets in ${formatSeconds(quota!.resetAt! - now)}`
+                                                : 'Full quota available'}
+                                    </span>
+                                    {!!quota?.queued && <span>{quota.queued} queued</span>}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { CopyButton } from '@/components/ui/copy-button';
 import { Button } from '@/components/ui/button';
+import type { ZoneSettingsValues } from '@/types/cloudflare';
 
 export type StepStatus = 'pending' | 'processing' | 'success' | 'error';
 
@@ -26,6 +27,8 @@ export interface DomainQueueItem {
   rootIPAddress?: string;
   proxied?: boolean;
   zoneId?: string;
+  // Snapshot of the settings profile chosen when the domain was queued
+  zoneSettings?: ZoneSettingsValues;
 }
 
 interface ConfigurationConsoleProps {
@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Plus, Edit, Trash2, RefreshCw, Globe, X } from 'lucide-react';
+import { Plus, Edit, Trash2, RefreshCw, Globe, X, FileDown, FileUp, Eraser } from 'lucide-react';
 import {
 	Drawer,
 	DrawerClose,
@@ -22,10 +22,14 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Switch } from '@/components/ui/switch';
 import { useAccountStore } from '@/store/account-store';
+import { useTokenCapabilities } from '@/hooks/use-token-capabilities';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
 import { NameserversSection } from '@/components/nameservers-section';
 import { VPSIPCombobox } from '@/components/vps-ip-combobox';
+import { ExportZoneFileDialog } from '@/components/dns/export-zone-file-dialog';
+import { ImportZoneFileDialog } from '@/components/dns/import-zone-file-dialog';
+import { PurgeCacheDialog } from '@/components/cache/purge-cache-dialog';
 import { toast } from 'sonner';
 import type { DNSRecord } from '@/types/cloudflare';
 
@@ -67,6 +71,10 @@ export function DNSDrawer({
 	const [zone, setZone] = useState<any | null>(null);
 	const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
 	const [isEditing, setIsEditing] = useState<string | null>(null);
+	const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+	const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+	const [isPurgeDialogOpen, setIsPurgeDialogOpen] = useState(false);
+	const { can, reason } = useTokenCapabilities(accountId);
 	const [formData, setFormData] = useState({
 		type: 'A' as DNSRecord['type'],
 		name: '',
@@ -123,7 +131,7 @@ export function DNSDrawer({
 		setLoading('zoneDetails', cacheKey, true);
 
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 			const zoneData = await api.getZone(zoneId);
 			setZone(zoneData);
 			setZoneDetails(zoneId, accountId, zoneData);
@@ -157,7 +165,7 @@ export function DNSDrawer({
 
 		setLoading('dnsRecords', cacheKey, true);
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 			const recordsData = await api.getDNSRecords(zoneId);
 			setRecords(recordsData);
 			setDNSRecords(zoneId, accountId, recordsData);
@@ -175,7 +183,7 @@ export function DNSDrawer({
 		if (!account || !zoneId || !accountId) return;
 
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 
 			if (isEditing) {
 				await api.updateDNSRecord(zoneId, isEditing, formData);
@@ -208,7 +216,7 @@ export function DNSDrawer({
 
 		if (window.confirm('Are you sure you want to delete this DNS record?')) {
 			try {
-				const api = new CloudflareAPI(account.apiToken);
+				const api = new CloudflareAPI(account);
 				await api.deleteDNSRecord(zoneId, recordId);
 				toast.success('DNS record deleted successfully');
 				clearZoneCache(zoneId, accountId);
@@ -247,10 +255,10 @@ export function DNSDrawer({
 	};
 
 	const getRecordTypeVariant = (type: DNSRecord['type']) => {
-		const variants: Record<
+		const variants: Partial<Record<
 			DNSRecord['type'],
 			'default' | 'secondary' | 'outline' | 'destructive'
-		> = {
+		>> = {
 			A: 'default',
 			AAAA: 'secondary',
 			CNAME: 'outline',
@@ -325,7 +333,35 @@ export function DNSDrawer({
 										/>
 										Refresh
 									</Button>
-									<Button onClick={() => setIsAddDialogOpen(true)} size="sm">
+									<Button
+										onClick={() => setIsImportDialogOpen(true)}
+										disabled={isLoadingRecords || !zone}
+										variant="outline"
+										size="sm"
+									>
+										<FileUp className="h-3 w-3 mr-1.5" />
+										Import
+									</Button>
+									<Button
+										onClick={() => setIsExportDialogOpen(true)}
+										disabled={isLoadingRecords || records.length === 0}
+										variant="outline"
+										size="sm"
+									>
+										<FileDown className="h-3 w-3 mr-1.5" />
+										Export
+									</Button>
+									<Button
+										onClick={() => setIsPurgeDialogOpen(true)}
+										disabled={!zone || !can('cachePurge')}
+										title={reason('cachePurge')}
+										variant="outline"
+										size="sm"
+									>
+										<Eraser className="h-3 w-3 mr-1.5" />
+										Purge Cache
+									</Button>
+									<Button onClick={() => setIsAddDialogOpen(true)} disabled={!can('dnsEdit')} title={reason('dnsEdit')} size="sm">
 										<Plus className="h-4 w-4 mr-1.5" />
 										Add Record
 									</Button>
@@ -341,7 +377,7 @@ export function DNSDrawer({
 								<div className="py-8 flex flex-col items-center justify-center text-center">
 									<Globe className="h-10 w-10 text-muted-foreground mb-2" />
 									<p className="text-sm font-medium mb-1">No DNS records found</p>
-									<Button onClick={() => setIsAddDialogOpen(true)} size="sm">
+									<Button onClick={() => setIsAddDialogOpen(true)} disabled={!can('dnsEdit')} title={reason('dnsEdit')} size="sm">
 										<Plus className="h-4 w-4 mr-1.5" />
 										Add First Record
 									</Button>
@@ -426,6 +462,34 @@ export function DNSDrawer({
 				</DrawerFooter> */}
 			</DrawerContent>
 
+			{/* Zone file import/export */}
+			<ExportZoneFileDialog
+				open={isExportDialogOpen}
+				onOpenChange={setIsExportDialogOpen}
+				zoneName={zone?.name || zoneName || ''}
+				records={records}
+			/>
+			{account && (
+				<ImportZoneFileDialog
+					open={isImportDialogOpen}
+					onOpenChange={setIsImportDialogOpen}
+					account={account}
+					zoneId={zoneId}
+					zoneName={zone?.name || zoneName || ''}
+					existingRecords={records}
+					onImported={() => {
+						clearZoneCache(zoneId, accountId);
+						loadRecords(true);
+					}}
+				/>
+			)}
+
+			<PurgeCacheDialog
+				zones={[{ zoneId, zoneName: zone?.name || zoneName || '', accountId }]}
+				open={isPurgeDialogOpen}
+				onOpenChange={setIsPurgeDialogOpen}
+			/>
+
 			{/* Add/Edit DNS Record Dialog */}
 			<Dialog open={isAddDialogOpen} onOpenChange={(open) => {
 				setIsAddDialogOpen(open);
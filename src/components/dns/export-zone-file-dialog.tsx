@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { Download, Copy, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { copyToClipboard } from '@/lib/utils';
+import { exportBindZone } from '@/lib/bind-zone';
+import { toast } from 'sonner';
+import type { DNSRecord } from '@/types/cloudflare';
+
+interface ExportZoneFileDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	zoneName: string;
+	records: DNSRecord[];
+}
+
+export function ExportZoneFileDialog({ open, onOpenChange, zoneName, records }: ExportZoneFileDialogProps) {
+	const zoneFile = useMemo(
+		() => (open ? exportBindZone(zoneName, records) : ''),
+		[open, zoneName, records]
+	);
+
+	const handleDownload = () => {
+		const blob = new Blob([zoneFile], { type: 'text/dns' });
+		const url = URL.createObjectURL(blob);
+		const anchor = document.createElement('a');
+		anchor.href = url;
+		anchor.download = `${zoneName}.zone`;
+		document.body.appendChild(anchor);
+		anchor.click();
+		document.body.removeChild(anchor);
+		URL.revokeObjectURL(url);
+		toast.success(`Downloaded ${records.length} records`);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[720px] max-h-[85vh] flex flex-col">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<FileText className="h-5 w-5" />
+						Export Zone File
+					</DialogTitle>
+					<DialogDescription>
+						{records.length} record{records.length !== 1 ? 's' : ''} of <strong>{zoneName}</strong> in BIND format.
+						Proxied records are tagged with <code>cf_tags=cf-proxied:true</code>.
+					</DialogDescription>
+				</DialogHeader>
+
+				<Textarea
+					readOnly
+					value={zoneFile}
+					className="min-h-[320px] flex-1 font-mono text-xs resize-none bg-muted/50 cursor-default"
+				/>
+
+				<DialogFooter className="gap-2 sm:gap-0">
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Close
+					</Button>
+					<Button
+						variant="outline"
+						onClick={() => { void copyToClipboard(zoneFile, `Copied ${records.length} records to clipboard`); }}
+					>
+						<Copy className="mr-2 h-4 w-4" />
+						Copy to Clipboard
+					</Button>
+					<Button onClick={handleDownload} disabled={records.length === 0}>
+						<Download className="mr-2 h-4 w-4" />
+						Download .zone
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
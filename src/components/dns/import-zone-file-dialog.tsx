@@ -0,0 +1,274 @@
+import { useMemo, useRef, useState } from 'react';
+import { FileUp, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { parseBindZone, planZoneImport, type ZoneImportPlanItem } from '@/lib/bind-zone';
+import { formatCloudflareError } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { CloudflareAccount, DNSRecord } from '@/types/cloudflare';
+
+interface ImportZoneFileDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	account: CloudflareAccount;
+	zoneId: string;
+	zoneName: string;
+	existingRecords: DNSRecord[];
+	onImported: () => void;
+}
+
+const ACTION_VARIANTS: Record<ZoneImportPlanItem['action'], 'default' | 'secondary' | 'outline'> = {
+	create: 'default',
+	update: 'secondary',
+	skip: 'outline',
+};
+
+export function ImportZoneFileDialog({
+	open,
+	onOpenChange,
+	account,
+	zoneId,
+	zoneName,
+	existingRecords,
+	onImported,
+}: ImportZoneFileDialogProps) {
+	const [zoneFile, setZoneFile] = useState('');
+	const [isImporting, setIsImporting] = useState(false);
+	const [processedCount, setProcessedCount] = useState(0);
+	const [failures, setFailures] = useState<Record<number, string>>({});
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const parsed = useMemo(() => parseBindZone(zoneFile, zoneName), [zoneFile, zoneName]);
+	const plan = useMemo(() => planZoneImport(parsed.records, existingRecords), [parsed.records, existingRecords]);
+	const pending = plan.filter(item => item.action !== 'skip');
+
+	const counts = useMemo(() => ({
+		create: plan.filter(item => item.action === 'create').length,
+		update: plan.filter(item => item.action === 'update').length,
+		skip: plan.filter(item => item.action === 'skip').length + parsed.skipped.length,
+	}), [plan, parsed.skipped.length]);
+
+	const reset = () => {
+		setZoneFile('');
+		setProcessedCount(0);
+		setFailures({});
+	};
+
+	const handleOpenChange = (nextOpen: boolean) => {
+		if (isImporting) return;
+		if (!nextOpen) reset();
+		onOpenChange(nextOpen);
+	};
+
+	const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		if (!file) return;
+		setZoneFile(await file.text());
+		setFailures({});
+		event.target.value = '';
+	};
+
+	const handleImport = async () => {
+		if (pending.length === 0) return;
+
+		setIsImporting(true);
+		setProcessedCount(0);
+		setFailures({});
+
+		const api = new CloudflareAPI(account);
+		const nextFailures: Record<number, string> = {};
+		let successCount = 0;
+
+		for (let i = 0; i < pending.length; i++) {
+			const { action, record, existing } = pending[i];
+			try {
+				if (action === 'update' && existing) {
+					await api.updateDNSRecord(zoneId, existing.id, { ...record, comment: existing.comment });
+				} else {
+					await api.createDNSRecord(zoneId, record);
+				}
+				successCount++;
+			} catch (error) {
+				console.error(`Error importing ${record.type} ${record.name}:`, error);
+				nextFailures[record.line] = formatCloudflareError(error);
+			}
+			setProcessedCount(i + 1);
+		}
+
+		setFailures(nextFailures);
+		setIsImporting(false);
+
+		const failCount = Object.keys(nextFailures).length;
+		if (successCount > 0) {
+			toast.success(`Imported ${successCount} record${successCount !== 1 ? 's' : ''} into ${zoneName}`);
+			onImported();
+		}
+		if (failCount > 0) {
+			toast.error(`Failed to import ${failCount} record${failCount !== 1 ? 's' : ''}`);
+		} else {
+			reset();
+			onOpenChange(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent
+				className="max-w-5xl max-h-[90vh] flex flex-col"
+				onInteractOutside={(e) => e.preventDefault()}
+			>
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<FileUp className="h-5 w-5" />
+						Import Zone File
+					</DialogTitle>
+					<DialogDescription>
+						Paste or upload a BIND zone file for <strong>{zoneName}</strong>. Records identical to existing ones are skipped,
+						changed CNAMEs and TTL/proxy differences are updated, everything else is created.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+					<div className="flex items-center justify-between gap-2">
+						<p className="text-xs text-muted-foreground font-mono">$ORIGIN {zoneName}.</p>
+						<input
+							ref={fileInputRef}
+							type="file"
+							accept=".zone,.txt,.db,text/plain"
+							className="hidden"
+							onChange={(e) => { void handleFileSelected(e); }}
+						/>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => fileInputRef.current?.click()}
+							disabled={isImporting}
+						>
+							<Upload className="mr-1.5 h-3.5 w-3.5" />
+							Upload file
+						</Button>
+					</div>
+					<Textarea
+						value={zoneFile}
+						onChange={(e) => {
+							setZoneFile(e.target.value);
+							setFailures({});
+						}}
+						placeholder={`@\t3600\tIN\tA\t192.0.2.1 ; cf_tags=cf-proxied:true\nwww\t3600\tIN\tCNAME\t${zoneName}.`}
+						className="min-h-[160px] font-mono text-xs"
+						disabled={isImporting}
+					/>
+
+					{parsed.errors.length > 0 && (
+						<div className="rounded-md border border-destructive/40 bg-destructive/5 p-3 space-y-1">
+							{parsed.errors.map((error) => (
+								<p key={`${error.line}-${error.message}`} className="text-xs text-destructive font-mono">
+									Line {error.line}: {error.message}
+								</p>
+							))}
+						</div>
+					)}
+
+					{(plan.length > 0 || parsed.skipped.length > 0) && (
+						<>
+							<div className="flex flex-wrap items-center gap-2 text-xs">
+								<Badge variant="default">{counts.create} create</Badge>
+								<Badge variant="secondary">{counts.update} update</Badge>
+								<Badge variant="outline">{counts.skip} skip</Badge>
+							</div>
+							<div className="overflow-hidden rounded-lg border">
+								<div className="overflow-y-auto max-h-[40vh]">
+									<Table>
+										<TableHeader className="sticky top-0 bg-background z-10 border-b">
+											<TableRow>
+												<TableHead className="w-[80px] bg-background">Action</TableHead>
+												<TableHead className="w-[70px] bg-background">Type</TableHead>
+												<TableHead className="bg-background">Name</TableHead>
+												<TableHead className="bg-background">Content</TableHead>
+												<TableHead className="w-[70px] bg-background">TTL</TableHead>
+												<TableHead className="w-[90px] bg-background">Proxy</TableHead>
+												<TableHead className="bg-background">Note</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{plan.map((item) => (
+												<TableRow key={item.record.line} className={item.action === 'skip' ? 'opacity-60' : undefined}>
+													<TableCell>
+														<Badge variant={ACTION_VARIANTS[item.action]} className="text-xs capitalize">
+															{item.action}
+														</Badge>
+													</TableCell>
+													<TableCell className="text-xs font-mono">{item.record.type}</TableCell>
+													<TableCell className="text-xs font-mono break-all">{item.record.name}</TableCell>
+													<TableCell className="text-xs font-mono break-all">
+														{item.record.priority !== undefined && item.record.type === 'MX' ? `${item.record.priority} ` : ''}
+														{item.record.content}
+													</TableCell>
+													<TableCell className="text-xs">{item.record.ttl === 1 ? 'Auto' : `${item.record.ttl}s`}</TableCell>
+													<TableCell className="text-xs">{item.record.proxied ? 'Proxied' : 'DNS Only'}</TableCell>
+													<TableCell className="text-xs">
+														{failures[item.record.line] ? (
+															<span className="text-destructive">{failures[item.record.line]}</span>
+														) : (
+															<span className="text-muted-foreground">{item.reason}</span>
+														)}
+													</TableCell>
+												</TableRow>
+											))}
+											{parsed.skipped.map((item) => (
+												<TableRow key={`skipped-${item.line}`} className="opacity-60">
+													<TableCell>
+														<Badge variant="outline" className="text-xs">skip</Badge>
+													</TableCell>
+													<TableCell className="text-xs font-mono">{item.type}</TableCell>
+													<TableCell colSpan={4} className="text-xs text-muted-foreground">Line {item.line}</TableCell>
+													<TableCell className="text-xs text-muted-foreground">{item.reason}</TableCell>
+												</TableRow>
+											))}
+										</TableBody>
+									</Table>
+								</div>
+							</div>
+						</>
+					)}
+
+					{isImporting && (
+						<div className="space-y-2">
+							<div className="flex items-center justify-between text-sm">
+								<span className="text-muted-foreground">Importing...</span>
+								<span className="font-medium">{processedCount} / {pending.length}</span>
+							</div>
+							<Progress value={(processedCount / pending.length) * 100} className="h-2" />
+						</div>
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+						Cancel
+					</Button>
+					<Button onClick={handleImport} disabled={isImporting || pending.length === 0}>
+						{isImporting ? (
+							<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+						) : (
+							<FileUp className="mr-2 h-4 w-4" />
+						)}
+						Import {pending.length} Record{pending.length !== 1 ? 's' : ''}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
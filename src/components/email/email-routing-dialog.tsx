@@ -0,0 +1,349 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Mail, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { formatCloudflareError } from '@/lib/utils';
+import type {
+  CloudflareAccount,
+  EmailRoutingAction,
+  EmailRoutingAddress,
+  EmailRoutingRule,
+  EmailRoutingSettings,
+} from '@/types/cloudflare';
+
+interface EmailRoutingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: CloudflareAccount | undefined;
+  // Destination addresses live on the Cloudflare account that owns the zone
+  cfAccountId: string | undefined;
+  zoneId: string;
+  zoneName: string;
+  onChanged?: () => void;
+}
+
+const DROP = 'drop';
+const DISABLED = 'disabled';
+
+const describeActions = (actions: EmailRoutingAction[]) =>
+  actions.map(action => (action.type === 'forward' ? action.value?.join(', ') : action.type === 'drop' ? 'Drop' : `Worker ${action.value?.join(', ')}`)).join('; ');
+
+const toAction = (target: string): EmailRoutingAction =>
+  target === DROP ? { type: 'drop' } : { type: 'forward', value: [target] };
+
+export function EmailRoutingDialog({ open, onOpenChange, account, cfAccountId, zoneId, zoneName, onChanged }: EmailRoutingDialogProps) {
+  const [settings, setSettings] = useState<EmailRoutingSettings | null>(null);
+  const [rules, setRules] = useState<EmailRoutingRule[]>([]);
+  const [catchAll, setCatchAll] = useState<EmailRoutingRule | null>(null);
+  const [addresses, setAddresses] = useState<EmailRoutingAddress[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const [newLocalPart, setNewLocalPart] = useState('');
+  const [newTarget, setNewTarget] = useState('');
+  const [newAddress, setNewAddress] = useState('');
+
+  const load = useCallback(async () => {
+    if (!account) return;
+    setIsLoading(true);
+    try {
+      const api = new CloudflareAPI(account);
+      const [nextSettings, nextRules, nextCatchAll, nextAddresses] = await Promise.all([
+        api.getEmailRouting(zoneId),
+        api.getEmailRoutingRules(zoneId),
+        api.getEmailRoutingCatchAll(zoneId),
+        cfAccountId ? api.getEmailRoutingAddresses(cfAccountId) : Promise.resolve([]),
+      ]);
+      setSettings(nextSettings);
+      // The catch-all shows up in the rule list too; it is edited separately
+      setRules(nextRules.filter(rule => !rule.matchers.some(matcher => matcher.type === 'all')));
+      setCatchAll(nextCatchAll);
+      setAddresses(nextAddresses);
+    } catch (error) {
+      console.error('Error loading email routing:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, cfAccountId, zoneId]);
+
+  useEffect(() => {
+    if (open) {
+      void load();
+    }
+  }, [open, load]);
+
+  const run = async (key: string, action: (api: CloudflareAPI) => Promise<void>, successMessage?: string) => {
+    if (!account) return;
+    setBusyKey(key);
+    try {
+      await action(new CloudflareAPI(account));
+      if (successMessage) toast.success(successMessage);
+    } catch (error) {
+      console.error('Error updating email routing:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleToggleRouting = (enabled: boolean) => {
+    if (enabled && !window.confirm(`Enabling Email Routing replaces the MX records of ${zoneName} and adds an SPF record. Continue?`)) return;
+    void run('routing', async (api) => {
+      setSettings(await api.setEmailRoutingEnabled(zoneId, enabled));
+      onChanged?.();
+    }, enabled ? 'Email Routing enabled' : 'Email Routing disabled');
+  };
+
+  const handleAddRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    const localPart = newLocalPart.trim().toLowerCase();
+    if (!localPart || !newTarget) return;
+    void run('new-rule', async (api) => {
+      const rule = await api.createEmailRoutingRule(zoneId, {
+        enabled: true,
+        matchers: [{ type: 'literal', field: 'to', value: `${localPart}@${zoneName}` }],
+        actions: [toAction(newTarget)],
+      });
+      setRules(prev => [...prev, rule]);
+      setNewLocalPart('');
+    }, 'Rule created');
+  };
+
+  const handleToggleRule = (rule: EmailRoutingRule, enabled: boolean) => {
+    void run(rule.tag!, async (api) => {
+      const updated = await api.updateEmailRoutingRule(zoneId, rule.tag!, { ...rule, enabled });
+      setRules(prev => prev.map(item => (item.tag === rule.tag ? updated : item)));
+    });
+  };
+
+  const handleDeleteRule = (rule: EmailRoutingRule) => {
+    if (!window.confirm(`Delete the rule for ${rule.matchers[0]?.value}?`)) return;
+    void run(rule.tag!, async (api) => {
+      await api.deleteEmailRoutingRule(zoneId, rule.tag!);
+      setRules(prev => prev.filter(item => item.tag !== rule.tag));
+    }, 'Rule deleted');
+  };
+
+  const handleCatchAllChange = (target: string) => {
+    if (!catchAll) return;
+    void run('catch-all', async (api) => {
+      setCatchAll(await api.updateEmailRoutingCatchAll(zoneId, {
+        ...catchAll,
+        enabled: target !== DISABLED,
+        // A disabled catch-all still needs an action; keep the previous one
+        actions: target === DISABLED ? catchAll.actions : [toAction(target)],
+      }));
+    }, 'Catch-all updated');
+  };
+
+  const handleAddAddress = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = newAddress.trim();
+    if (!email || !cfAccountId) return;
+    void run('new-address', async (api) => {
+      const address = await api.createEmailRoutingAddress(cfAccountId, email);
+      setAddresses(prev => [...prev, address]);
+      setNewAddress('');
+    }, `Verification email sent to ${email}`);
+  };
+
+  const handleDeleteAddress = (address: EmailRoutingAddress) => {
+    if (!cfAccountId || !window.confirm(`Remove ${address.email}? Rules forwarding to it on any zone of this account stop working.`)) return;
+    void run(address.tag, async (api) => {
+      await api.deleteEmailRoutingAddress(cfAccountId, address.tag);
+      setAddresses(prev => prev.filter(item => item.tag !== address.tag));
+    }, 'Destination address removed');
+  };
+
+  const verifiedAddresses = addresses.filter(address => address.verified);
+  const catchAllTarget = !catchAll?.enabled
+    ? DISABLED
+    : catchAll.actions[0]?.type === 'drop' ? DROP : catchAll.actions[0]?.value?.[0] ?? DISABLED;
+
+  const renderTargetOptions = () => (
+    <>
+      {verifiedAddresses.map(address => (
+        <SelectItem key={address.tag} value={address.email}>{address.email}</SelectItem>
+      ))}
+      <SelectItem value={DROP}>Drop</SelectItem>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mail className="h-4 w-4" />
+            Email Routing
+          </DialogTitle>
+          <DialogDescription>{zoneName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={!!settings?.enabled}
+              onCheckedChange={handleToggleRouting}
+              disabled={!settings || busyKey === 'routing'}
+            />
+            <span className="text-sm font-medium">{settings?.enabled ? 'Enabled' : 'Disabled'}</span>
+            {settings && (
+              <Badge variant={settings.status === 'ready' ? 'default' : 'outline'}>{settings.status}</Badge>
+            )}
+          </div>
+          <Button size="sm" variant="outline" className="h-8 px-2" onClick={() => { void load(); }} disabled={isLoading} title="Reload">
+            <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Routing rules</div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead className="w-[80px]">Enabled</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-xs text-muted-foreground">
+                        {isLoading ? 'Loading...' : 'No routing rules'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rules.map(rule => (
+                    <TableRow key={rule.tag}>
+                      <TableCell className="font-mono text-xs">{rule.matchers.map(matcher => matcher.value).join(', ')}</TableCell>
+                      <TableCell className="text-xs">{describeActions(rule.actions)}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={(checked) => handleToggleRule(rule, checked)}
+                          disabled={busyKey === rule.tag}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDeleteRule(rule)} disabled={busyKey === rule.tag}>
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <form onSubmit={handleAddRule} className="flex items-center gap-2">
+              <div className="flex items-center flex-1">
+                <Input
+                  className="h-8 rounded-r-none"
+                  placeholder="info"
+                  value={newLocalPart}
+                  onChange={(e) => setNewLocalPart(e.target.value)}
+                />
+                <span className="h-8 px-2 flex items-center border border-l-0 rounded-r-md bg-muted text-xs text-muted-foreground">@{zoneName}</span>
+              </div>
+              <Select value={newTarget} onValueChange={setNewTarget}>
+                <SelectTrigger className="h-8 w-56">
+                  <SelectValue placeholder="Forward to..." />
+                </SelectTrigger>
+                <SelectContent>{renderTargetOptions()}</SelectContent>
+              </Select>
+              <Button type="submit" size="sm" className="h-8" disabled={!newLocalPart.trim() || !newTarget || busyKey === 'new-rule'}>
+                {busyKey === 'new-rule' ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+                Add rule
+              </Button>
+            </form>
+          </div>
+
+          <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+            <div>
+              <div className="text-sm font-medium">Catch-all</div>
+              <div className="text-xs text-muted-foreground">Mail to any other address at {zoneName}</div>
+            </div>
+            <Select value={catchAllTarget} onValueChange={handleCatchAllChange} disabled={!catchAll || busyKey === 'catch-all'}>
+              <SelectTrigger className="h-8 w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DISABLED}>Disabled</SelectItem>
+                {renderTargetOptions()}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Destination addresses</div>
+            {!cfAccountId ? (
+              <div className="text-xs text-muted-foreground">The Cloudflare account of this zone is unknown; reload zones to manage destination addresses.</div>
+            ) : (
+              <>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableBody>
+                      {addresses.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={3} className="text-center text-xs text-muted-foreground">
+                            {isLoading ? 'Loading...' : 'No destination addresses'}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {addresses.map(address => (
+                        <TableRow key={address.tag}>
+                          <TableCell className="text-xs">{address.email}</TableCell>
+                          <TableCell>
+                            <Badge variant={address.verified ? 'default' : 'outline'}>
+                              {address.verified ? 'Verified' : 'Pending verification'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="w-[60px] text-right">
+                            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDeleteAddress(address)} disabled={busyKey === address.tag}>
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <form onSubmit={handleAddAddress} className="flex items-center gap-2">
+                  <Input
+                    type="email"
+                    className="h-8 flex-1"
+                    placeholder="you@example.org"
+                    value={newAddress}
+                    onChange={(e) => setNewAddress(e.target.value)}
+                  />
+                  <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!newAddress.trim() || busyKey === 'new-address'}>
+                    <Plus className="h-3.5 w-3.5" />
+                    Add address
+                  </Button>
+                </form>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
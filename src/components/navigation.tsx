@@ -8,10 +8,17 @@ import {
   AtSign,
   Globe,
   KeyRound,
-  ArrowRightLeft
+  ArrowRightLeft,
+  ListChecks,
+  Mail,
+  ShieldCheck,
+  Split,
+  Waypoints
 } from 'lucide-react';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { ServerMonitor } from '@/components/server-monitor';
+import { CloudflareQuotaMonitor } from '@/components/cloudflare-quota-monitor';
+import { SandboxToggle } from '@/components/sandbox-toggle';
 
 interface NavigationProps {
   children: ReactNode;
@@ -20,7 +27,12 @@ interface NavigationProps {
 const navigation = [
   { name: 'Cloudflare', href: '/', icon: Globe },
   { name: 'Domains', href: '/domains', icon: AtSign },
+  { name: 'Audit', href: '/audit', icon: ListChecks },
   { name: 'NPM', href: '/npm', icon: ArrowRightLeft },
+  { name: 'Bulk Redirects', href: '/bulk-redirects', icon: Split },
+  { name: 'DNSSEC', href: '/dnssec', icon: ShieldCheck },
+  { name: 'Email', href: '/email', icon: Mail },
+  { name: 'Tunnels', href: '/tunnels', icon: Waypoints },
   { name: 'Credentials', href: '/credentials', icon: KeyRound },
 ];
 
@@ -57,6 +69,8 @@ export function Navigation({ children }: NavigationProps) {
                 })}
               </nav>
               <ServerMonitor />
+              <CloudflareQuotaMonitor />
+              <SandboxToggle />
             </div>
 
 
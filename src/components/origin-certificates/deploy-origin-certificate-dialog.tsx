@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Server, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NPMAPIClient, decodeNPMSettings } from '@/lib/npm-api';
+import { useAccountStore } from '@/store/account-store';
+import { useOriginCertificateStore } from '@/store/origin-certificate-store';
+import type { OriginCertificate } from '@/types/cloudflare';
+
+type DeployTarget = 'npm' | 'ssh';
+
+interface DeployOriginCertificateDialogProps {
+  certificate: OriginCertificate | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DeployOriginCertificateDialog({ certificate, onOpenChange }: DeployOriginCertificateDialogProps) {
+  const { accounts, sshAccounts, loadSSHAccounts } = useAccountStore();
+  const recordDeployment = useOriginCertificateStore((s) => s.recordDeployment);
+
+  const [target, setTarget] = useState<DeployTarget>('npm');
+  const [sshAccountId, setSshAccountId] = useState('');
+  const [directory, setDirectory] = useState('/etc/ssl/cloudflare');
+  const [reloadCommand, setReloadCommand] = useState('');
+  const [isDeploying, setIsDeploying] = useState(false);
+
+  const npmSettings = decodeNPMSettings(accounts.find(acc => acc.category === 'npm'));
+
+  useEffect(() => {
+    if (certificate && sshAccounts.length === 0) {
+      loadSSHAccounts();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [certificate]);
+
+  useEffect(() => {
+    if (certificate) {
+      setTarget(npmSettings ? 'npm' : 'ssh');
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [certificate]);
+
+  if (!certificate) return null;
+
+  const basePath = directory.trim().replace(/\/+$/, '');
+  const certPath = `${basePath}/${certificate.zoneName}.pem`;
+  const keyPath = `${basePath}/${certificate.zoneName}.key`;
+
+  const deployToNPM = async () => {
+    if (!npmSettings) {
+      toast.error('No Nginx Proxy Manager credentials configured');
+      return;
+    }
+    const client = new NPMAPIClient(npmSettings);
+    const name = `Cloudflare Origin - ${certificate.zoneName}`;
+    const created = await client.createCustomCertificate(name, certificate.certificate, certificate.privateKey);
+    recordDeployment(certificate.id, { target: 'npm', destination: `${npmSettings.host} #${created.id}` });
+    toast.success(`Uploaded to Nginx Proxy Manager as "${name}"`);
+  };
+
+  const deployOverSSH = async () => {
+    const sshAccount = sshAccounts.find(acc => acc.id === sshAccountId);
+    if (!sshAccount) {
+      toast.error('Select a server');
+      return;
+    }
+    if (!basePath.startsWith('/')) {
+      toast.error('Directory must be an absolute path');
+      return;
+    }
+
+    const response = await fetch('/api/ssh-deploy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        credentials: {
+          host: sshAccount.host,
+          port: sshAccount.port,
+          username: sshAccount.username,
+          privateKey: sshAccount.privateKey,
+          passphrase: sshAccount.passphrase,
+        },
+        files: [
+          { path: certPath, content: certificate.certificate, mode: 0o644 },
+          { path: keyPath, content: certificate.privateKey, mode: 0o600 },
+        ],
+        command: reloadCommand.trim() || undefined,
+      }),
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to deploy certificate');
+    }
+
+    recordDeployment(certificate.id, { target: 'ssh', destination: `${sshAccount.name}:${basePath}` });
+    toast.success(`Deployed to ${sshAccount.name}`);
+  };
+
+  const handleDeploy = async () => {
+    setIsDeploying(true);
+    try {
+      if (target === 'npm') {
+        await deployToNPM();
+      } else {
+        await deployOverSSH();
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Origin certificate deploy error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to deploy certificate');
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!certificate} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Deploy Origin Certificate</DialogTitle>
+          <DialogDescription>{certificate.hostnames.join(', ')}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={target} onValueChange={(value) => setTarget(value as DeployTarget)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="npm">
+              <Upload className="mr-2 h-4 w-4" />
+              Nginx Proxy Manager
+            </TabsTrigger>
+            <TabsTrigger value="ssh">
+              <Server className="mr-2 h-4 w-4" />
+              Server (SSH)
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="npm" className="space-y-2 pt-2">
+            {npmSettings ? (
+              <p className="text-sm text-muted-foreground">
+                The pair is uploaded to <span className="font-mono">{npmSettings.host}</span> as a custom certificate.
+                Select it on the proxy hosts that sit behind Cloudflare.
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Add Nginx Proxy Manager credentials on the Credentials page first.
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="ssh" className="space-y-4 pt-2">
+            <div className="space-y-1.5">
+              <Label>Server</Label>
+              <Select value={sshAccountId} onValueChange={setSshAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={sshAccounts.length > 0 ? 'Select a server' : 'No SSH accounts configured'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {sshAccounts.map(acc => (
+                    <SelectItem key={acc.id} value={acc.id}>
+                      {acc.name} ({acc.username}@{acc.host})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="origin-cert-directory">Directory</Label>
+              <Input
+                id="origin-cert-directory"
+                value={directory}
+                onChange={(e) => setDirectory(e.target.value)}
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground font-mono">
+                {certPath}<br />
+                {keyPath}
+              </p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="origin-cert-reload">Run afterwards (optional)</Label>
+              <Input
+                id="origin-cert-reload"
+                value={reloadCommand}
+                onChange={(e) => setReloadCommand(e.target.value)}
+                placeholder="systemctl reload nginx"
+                className="font-mono"
+              />
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isDeploying}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => { void handleDeploy(); }}
+            disabled={isDeploying || (target === 'npm' ? !npmSettings : !sshAccountId)}
+          >
+            {isDeploying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Deploy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
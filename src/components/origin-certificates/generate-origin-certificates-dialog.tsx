@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { FilePlus2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTokenCapabilities } from '@/hooks/use-token-capabilities';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { generateCSR } from '@/lib/csr';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { formatCloudflareError } from '@/lib/utils';
+import { useOriginCertificateStore } from '@/store/origin-certificate-store';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import type { CloudflareAccount, OriginCertificateValidity } from '@/types/cloudflare';
+
+const VALIDITY_OPTIONS: { value: OriginCertificateValidity; label: string }[] = [
+  { value: 5475, label: '15 years' },
+  { value: 1095, label: '3 years' },
+  { value: 730, label: '2 years' },
+  { value: 365, label: '1 year' },
+  { value: 90, label: '90 days' },
+  { value: 30, label: '30 days' },
+  { value: 7, label: '7 days' },
+];
+
+interface GenerateOriginCertificatesDialogProps {
+  account: CloudflareAccount;
+  zones: { id: string; name: string }[];
+  defaultZoneId: string;
+}
+
+export function GenerateOriginCertificatesDialog({ account, zones, defaultZoneId }: GenerateOriginCertificatesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set([defaultZoneId]));
+  const [includeWildcard, setIncludeWildcard] = useState(true);
+  const [validity, setValidity] = useState<OriginCertificateValidity>(5475);
+  const [searchTerm, setSearchTerm] = useState('');
+  const addCertificate = useOriginCertificateStore((s) => s.addCertificate);
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+  const { can, reason } = useTokenCapabilities(account.id);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setSelectedIds(new Set([defaultZoneId]));
+      setSearchTerm('');
+    }
+  };
+
+  const toggleZone = (zoneId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(zoneId);
+      else next.delete(zoneId);
+      return next;
+    });
+  };
+
+  const visibleZones = zones.filter(zone => zone.name.toLowerCase().includes(searchTerm.trim().toLowerCase()));
+
+  const handleGenerate = async () => {
+    const targets = zones.filter(zone => selectedIds.has(zone.id));
+    const wildcard = includeWildcard;
+    const validityDays = validity;
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+
+    setOpen(false);
+    startTask(
+      'issue_origin_certificates',
+      `Issuing origin certificates for ${targets.length} domain${targets.length !== 1 ? 's' : ''}`,
+      targets.length
+    );
+
+    let successCount = 0;
+    let failCount = 0;
+
+    try {
+      if (!canPerform(await loadTokenCapabilities(account), 'sslEdit')) {
+        throw new Error(getMissingCapabilityMessage('sslEdit'));
+      }
+      const api = new CloudflareAPI(account);
+
+      for (let i = 0; i < targets.length; i++) {
+        await checkTaskStatus();
+
+        const zone = targets[i];
+        const hostnames = wildcard ? [zone.name, `*.${zone.name}`] : [zone.name];
+
+        try {
+          const { csr, privateKey } = await generateCSR(zone.name);
+          const result = await api.createOriginCertificate(hostnames, csr, validityDays);
+          addCertificate({
+            id: result.id,
+            zoneId: zone.id,
+            zoneName: zone.name,
+            accountId: account.id,
+            hostnames: result.hostnames || hostnames,
+            certificate: result.certificate,
+            privateKey,
+            requestType: 'origin-ecc',
+            expiresOn: result.expires_on,
+            createdAt: new Date(),
+            deployments: [],
+          });
+          addLog(`${zone.name}: issued, expires ${new Date(result.expires_on).toLocaleDateString()}`, 'success');
+          successCount++;
+        } catch (error) {
+          addLog(`${zone.name}: ${formatCloudflareError(error)}`, 'error');
+          failCount++;
+        }
+
+        updateProgress(Math.round(((i + 1) / targets.length) * 100), i + 1);
+      }
+
+      addLog(`Done: ${successCount} issued, ${failCount} failed`, failCount > 0 ? 'error' : 'success');
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        addLog(`Stopped after ${successCount + failCount} of ${targets.length} domains`);
+        return;
+      }
+      console.error('Origin certificate error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to issue origin certificates');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={!can('sslEdit')} title={reason('sslEdit')}>
+          <FilePlus2 className="mr-2 h-4 w-4" />
+          Create Origin Certificate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Create Origin CA Certificates</DialogTitle>
+          <DialogDescription>
+            Keys are generated in your browser and stored with the certificate. Cloudflare only receives the signing request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div className="space-y-1.5">
+              <Label>Validity</Label>
+              <Select value={String(validity)} onValueChange={(value) => setValidity(Number(value) as OriginCertificateValidity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VALIDITY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="origin-wildcard" checked={includeWildcard} onCheckedChange={setIncludeWildcard} />
+              <Label htmlFor="origin-wildcard">Include *.domain</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Domains ({selectedIds.size})</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSelectedIds(new Set(visibleZones.map(zone => zone.id)))}
+              >
+                Select all
+              </Button>
+            </div>
+            {zones.length > 5 && (
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                <Input
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Filter domains"
+                  className="pl-10"
+                />
+              </div>
+            )}
+            <div className="max-h-[40vh] overflow-y-auto rounded-lg border divide-y">
+              {visibleZones.map(zone => (
+                <label key={zone.id} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={selectedIds.has(zone.id)}
+                    onCheckedChange={(checked) => toggleZone(zone.id, checked === true)}
+                  />
+                  {zone.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => { void handleGenerate(); }} disabled={isTaskRunning || selectedIds.size === 0}>
+            {isTaskRunning ? 'Another task is running' : `Create ${selectedIds.size}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
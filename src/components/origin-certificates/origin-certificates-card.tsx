@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Download, KeyRound, Loader2, Rocket, Trash2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CopyButton } from '@/components/ui/copy-button';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useOriginCertificateStore } from '@/store/origin-certificate-store';
+import type { CloudflareAccount, OriginCertificate } from '@/types/cloudflare';
+import { DeployOriginCertificateDialog } from './deploy-origin-certificate-dialog';
+import { GenerateOriginCertificatesDialog } from './generate-origin-certificates-dialog';
+
+interface OriginCertificatesCardProps {
+  account: CloudflareAccount;
+  zoneId: string;
+  zoneName: string;
+}
+
+const downloadPEM = (filename: string, content: string) => {
+  const blob = new Blob([content], { type: 'application/x-pem-file' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+};
+
+export function OriginCertificatesCard({ account, zoneId, zoneName }: OriginCertificatesCardProps) {
+  const allCertificates = useOriginCertificateStore((s) => s.certificates);
+  const removeCertificate = useOriginCertificateStore((s) => s.removeCertificate);
+  const cachedZones = useCloudflareCache((s) => s.zones);
+  const [deploying, setDeploying] = useState<OriginCertificate | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const certificates = allCertificates.filter(item => item.zoneId === zoneId);
+  const accountZones = cachedZones
+    .filter(item => item.accountId === account.id)
+    .map(item => ({ id: item.zone.id, name: item.zone.name }));
+  if (!accountZones.some(item => item.id === zoneId)) {
+    accountZones.push({ id: zoneId, name: zoneName });
+  }
+  accountZones.sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleRevoke = async (certificate: OriginCertificate) => {
+    if (!window.confirm(`Revoke the origin certificate for ${certificate.hostnames.join(', ')}? Servers still using it will fail Full (Strict) checks.`)) {
+      return;
+    }
+
+    setRevokingId(certificate.id);
+    try {
+      const api = new CloudflareAPI(account);
+      await api.revokeOriginCertificate(certificate.id);
+      removeCertificate(certificate.id);
+      toast.success('Origin certificate revoked');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke origin certificate');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleForget = (certificate: OriginCertificate) => {
+    if (!window.confirm('Remove this certificate and its private key from this browser? It stays valid at Cloudflare.')) {
+      return;
+    }
+    removeCertificate(certificate.id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5" />
+              <span>Origin CA Certificates</span>
+            </CardTitle>
+            <CardDescription>
+              Certificates trusted by Cloudflare for the connection to your origin, for use with Full (Strict)
+            </CardDescription>
+          </div>
+          <GenerateOriginCertificatesDialog
+            account={account}
+            zones={accountZones}
+            defaultZoneId={zoneId}
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {certificates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No origin certificates were created from this browser for this zone.
+          </p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {certificates.map(certificate => {
+              const expires = new Date(certificate.expiresOn);
+              const lastDeployment = certificate.deployments[certificate.deployments.length - 1];
+
+              return (
+                <div key={certificate.id} className="flex flex-col gap-3 p-3 md:flex-row md:items-center md:justify-between">
+                  <div className="min-w-0 space-y-1">
+                    <div className="font-medium text-sm truncate">{certificate.hostnames.join(', ')}</div>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>Expires {expires.toLocaleDateString()}</span>
+                      {expires.getTime() < Date.now() && <Badge variant="destructive">Expired</Badge>}
+                      {lastDeployment ? (
+                        <Badge variant="secondary">
+                          {lastDeployment.target === 'npm' ? 'NPM' : 'SSH'}: {lastDeployment.destination}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">Not deployed</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <CopyButton text={certificate.certificate} successMessage="Certificate copied" variant="ghost" size="sm">
+                      Cert
+                    </CopyButton>
+                    <CopyButton text={certificate.privateKey} successMessage="Private key copied" variant="ghost" size="sm">
+                      Key
+                    </CopyButton>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        downloadPEM(`${certificate.zoneName}.pem`, certificate.certificate);
+                        downloadPEM(`${certificate.zoneName}.key`, certificate.privateKey);
+                      }}
+                    >
+                      <Download className="mr-1 h-4 w-4" />
+                      Download
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setDeploying(certificate)}>
+                      <Rocket className="mr-1 h-4 w-4" />
+                      Deploy
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => { void handleRevoke(certificate); }}
+                      disabled={revokingId === certificate.id}
+                      title="Revoke at Cloudflare"
+                    >
+                      {revokingId === certificate.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleForget(certificate)}
+                      title="Remove from this browser"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <DeployOriginCertificateDialog
+        certificate={deploying}
+        onOpenChange={(open) => { if (!open) setDeploying(null); }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Cloud } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { planRulesetPush } from '@/lib/rulesets';
+import {
+    REDIRECT_STATUS_CODES,
+    getNginxRedirectRef,
+    nginxLocationToRedirect,
+    toRedirectRule,
+    type RedirectStatusCode,
+} from '@/lib/redirect-rules';
+import { formatCloudflareError } from '@/lib/utils';
+import type { ParsedNginxLocation } from '@/types/npm';
+import type { Zone } from '@/types/cloudflare';
+
+const KEEP_STATUS = 'keep';
+
+// Free plans allow 10 single redirects per zone; larger conversions will fail there
+const FREE_PLAN_RULE_LIMIT = 10;
+
+interface ConvertToRedirectRulesDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    locations: ParsedNginxLocation[];
+}
+
+interface ZoneConversion {
+    zone: Zone;
+    accountId: string;
+    locations: ParsedNginxLocation[];
+}
+
+export function ConvertToRedirectRulesDialog({ open, onOpenChange, locations }: ConvertToRedirectRulesDialogProps) {
+    const { accounts } = useAccountStore();
+    const cachedZones = useCloudflareCache((s) => s.zones);
+    const [statusOverride, setStatusOverride] = useState<string>(KEEP_STATUS);
+    const [preserveQueryString, setPreserveQueryString] = useState(false);
+    const taskStatus = useTaskStore((s) => s.status);
+    const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+    // Group locations by the Cloudflare zone that serves their host (longest zone name wins for subdomains)
+    const { conversions, unmatchedDomains, duplicateCount } = useMemo(() => {
+        const byZone = new Map<string, ZoneConversion>();
+        const unmatched = new Set<string>();
+        let duplicates = 0;
+
+        locations.forEach((loc) => {
+            if (loc.isDuplicate) {
+                duplicates++;
+                return;
+            }
+            const host = loc.sourceDomain.toLowerCase();
+            const match = cachedZones
+                .filter(({ zone }) => host === zone.name || host.endsWith(`.${zone.name}`))
+                .sort((a, b) => b.zone.name.length - a.zone.name.length)[0];
+
+            if (!match) {
+                unmatched.add(loc.sourceDomain);
+                return;
+            }
+
+            const key = `${match.zone.id}-${match.accountId}`;
+            const existing = byZone.get(key);
+            if (existing) {
+                existing.locations.push(loc);
+            } else {
+                byZone.set(key, { zone: match.zone, accountId: match.accountId, locations: [loc] });
+            }
+        });
+
+        return {
+            conversions: Array.from(byZone.values()).sort((a, b) => a.zone.name.localeCompare(b.zone.name)),
+            unmatchedDomains: Array.from(unmatched).sort(),
+            duplicateCount: duplicates,
+        };
+    }, [locations, cachedZones]);
+
+    const ruleCount = conversions.reduce((sum, item) => sum + item.locations.length, 0);
+
+    const handleConvert = async () => {
+        // Snapshot so reloading the NPM list mid-run doesn't change what gets pushed
+        const items = conversions.map(item => ({ ...item, locations: [...item.locations] }));
+        const statusCode = statusOverride === KEEP_STATUS ? null : (Number(statusOverride) as RedirectStatusCode);
+        const keepQuery = preserveQueryString;
+        const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+
+        onOpenChange(false);
+        startTask(
+            'push_redirect_rules',
+            `Converting ${ruleCount} nginx redirect${ruleCount !== 1 ? 's' : ''} on ${items.length} zone${items.length !== 1 ? 's' : ''}`,
+            items.length
+        );
+
+        let successCount = 0;
+        let failCount = 0;
+
+        try {
+            for (let i = 0; i < items.length; i++) {
+                await checkTaskStatus();
+
+                const { zone, accountId, locations: zoneLocations } = items[i];
+                const account = accounts.find(acc => acc.id === accountId);
+                if (!account) {
+                    addLog(`${zone.name}: account not found`, 'error');
+                    failCount++;
+                } else {
+                    try {
+                        const rules = zoneLocations.map((loc) => {
+                            const redirect = nginxLocationToRedirect(loc);
+                            return toRedirectRule(
+                                { ...redirect, statusCode: statusCode ?? redirect.statusCode, preserveQueryString: keepQuery },
+                                getNginxRedirectRef(loc.sourceDomain, loc.location)
+                            );
+                        });
+
+                        const api = new CloudflareAPI(account);
+                        const entrypoint = await api.getPhaseEntrypoint(zone.id, 'http_request_dynamic_redirect');
+                        const plan = planRulesetPush(entrypoint?.rules || [], rules, 'merge');
+                        await api.updatePhaseEntrypoint(zone.id, 'http_request_dynamic_redirect', plan.rules);
+
+                        addLog(`${zone.name}: ${plan.created} created, ${plan.updated} updated`, 'success');
+                        successCount++;
+                    } catch (error) {
+                        addLog(`${zone.name}: ${formatCloudflareError(error)}`, 'error');
+                        failCount++;
+                    }
+                }
+
+                updateProgress(Math.round(((i + 1) / items.length) * 100), i + 1);
+            }
+
+            addLog(`Done: ${successCount} zones succeeded, ${failCount} failed`, failCount > 0 ? 'error' : 'success');
+            completeTask();
+        } catch (error) {
+            if (error instanceof Error && error.message === 'Task stopped by user') {
+                addLog(`Stopped after ${successCount + failCount} of ${items.length} zones`);
+                return;
+            }
+            console.error('Redirect conversion error:', error);
+            failTask(error instanceof Error ? error.message : 'Failed to convert redirects');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Cloud className="h-5 w-5" />
+                        Convert to Cloudflare Redirect Rules
+                    </DialogTitle>
+                    <DialogDescription>
+                        Each nginx location becomes a single redirect on the Cloudflare zone for its domain.
+                        Running the conversion again updates the same rules instead of adding copies.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+                    <div className="grid grid-cols-[200px_1fr] gap-3 items-end">
+                        <div className="space-y-1.5">
+                            <Label>Status code</Label>
+                            <Select value={statusOverride} onValueChange={setStatusOverride}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={KEEP_STATUS}>Same as nginx</SelectItem>
+                                    {REDIRECT_STATUS_CODES.map(code => (
+                                        <SelectItem key={code} value={String(code)}>{code}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex items-center gap-2 pb-2">
+                            <Switch
+                                id="convert-preserve-query"
+                                checked={preserveQueryString}
+                                onCheckedChange={setPreserveQueryString}
+                            />
+                            <Label htmlFor="convert-preserve-query">Preserve query string</Label>
+                        </div>
+                    </div>
+
+                    {conversions.length === 0 ? (
+                        <div className="rounded-lg border border-dashed py-8 text-center text-sm text-muted-foreground">
+                            None of these domains match a cached Cloudflare zone. Refresh zones on the Cloudflare page first.
+                        </div>
+                    ) : (
+                        <div className="rounded-lg border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Zone</TableHead>
+                                        <TableHead>Hosts</TableHead>
+                                        <TableHead className="w-[100px] text-right">Rules</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {conversions.map((item) => (
+                                        <TableRow key={`${item.zone.id}-${item.accountId}`}>
+                                            <TableCell className="font-medium">{item.zone.name}</TableCell>
+                                            <TableCell className="text-xs text-muted-foreground">
+                                                {Array.from(new Set(item.locations.map(loc => loc.sourceDomain))).join(', ')}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <div className="flex items-center justify-end gap-1.5">
+                                                    {item.locations.length > FREE_PLAN_RULE_LIMIT && (
+                                                        <Badge variant="outline" className="text-[10px] text-yellow-600 border-yellow-600/40">
+                                                            over free limit
+                                                        </Badge>
+                                                    )}
+                                                    {item.locations.length}
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+
+                    {unmatchedDomains.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                            Skipped {unmatchedDomains.length} domain{unmatchedDomains.length !== 1 ? 's' : ''} without a Cloudflare zone: {unmatchedDomains.join(', ')}
+                        </p>
+                    )}
+                    {duplicateCount > 0 && (
+                        <p className="text-xs text-destructive">
+                            Skipped {duplicateCount} duplicate location{duplicateCount !== 1 ? 's' : ''}. Resolve them in NPM to convert them.
+                        </p>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button onClick={() => { void handleConvert(); }} disabled={isTaskRunning || ruleCount === 0}>
+                        {isTaskRunning ? 'Another task is running' : `Convert ${ruleCount} redirect${ruleCount !== 1 ? 's' : ''}`}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    EMPTY_REDIRECT,
+    REDIRECT_STATUS_CODES,
+    buildRedirectMatchExpression,
+    fromRedirectRule,
+    toRedirectRule,
+    type RedirectStatusCode,
+    type SingleRedirect,
+} from '@/lib/redirect-rules';
+import { toast } from 'sonner';
+import type { RulesetRule } from '@/types/cloudflare';
+
+interface RedirectRuleFormDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    zoneName: string;
+    rule?: RulesetRule | null;
+    onSubmit: (rule: RulesetRule) => Promise<void> | void;
+}
+
+export function RedirectRuleFormDialog({ open, onOpenChange, zoneName, rule, onSubmit }: RedirectRuleFormDialogProps) {
+    const [draft, setDraft] = useState<SingleRedirect>(EMPTY_REDIRECT);
+    const [matchMode, setMatchMode] = useState<'simple' | 'custom'>('simple');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (open) {
+            const next = rule ? fromRedirectRule(rule) : { ...EMPTY_REDIRECT, sourceHost: zoneName };
+            setDraft(next);
+            setMatchMode(next.customExpression ? 'custom' : 'simple');
+        }
+    }, [open, rule, zoneName]);
+
+    const update = (patch: Partial<SingleRedirect>) => setDraft(prev => ({ ...prev, ...patch }));
+
+    const handleMatchModeChange = (mode: string) => {
+        // Carry the simple match over so switching to custom starts from something editable
+        if (mode === 'custom' && !draft.customExpression) {
+            update({ customExpression: buildRedirectMatchExpression(draft) });
+        }
+        if (mode === 'simple') {
+            update({ customExpression: undefined });
+        }
+        setMatchMode(mode as 'simple' | 'custom');
+    };
+
+    const handleSubmit = async () => {
+        if (!draft.description.trim()) {
+            toast.error('Rule name is required');
+            return;
+        }
+        if (matchMode === 'simple' && !draft.sourceHost.trim() && !draft.sourcePath.trim()) {
+            toast.error('Enter a hostname or path to match');
+            return;
+        }
+        if (matchMode === 'custom' && !draft.customExpression?.trim()) {
+            toast.error('Expression is required');
+            return;
+        }
+        if (!draft.target.trim()) {
+            toast.error('Target URL is required');
+            return;
+        }
+        if (draft.targetType === 'static' && !/^https?:\/\//i.test(draft.target.trim())) {
+            toast.error('Static target must start with http:// or https://');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            // Keep the original ref so rules pushed from the NPM page stay matched on the next conversion
+            await onSubmit(toRedirectRule(draft, rule?.ref));
+            onOpenChange(false);
+        } catch (error) {
+            console.error('Error saving redirect rule:', error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+            <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>{rule ? 'Edit Redirect Rule' : 'New Redirect Rule'}</DialogTitle>
+                    <DialogDescription>
+                        Single redirects run at the edge before the request reaches your origin.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+                    <div className="space-y-1.5">
+                        <Label htmlFor="redirect-rule-name">Rule name</Label>
+                        <Input
+                            id="redirect-rule-name"
+                            value={draft.description}
+                            onChange={(e) => update({ description: e.target.value })}
+                            placeholder="Old landing page"
+                            disabled={isSaving}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label>When incoming requests match</Label>
+                            <Tabs value={matchMode} onValueChange={handleMatchModeChange}>
+                                <TabsList className="h-8">
+                                    <TabsTrigger value="simple" className="text-xs">Host and path</TabsTrigger>
+                                    <TabsTrigger value="custom" className="text-xs">Expression</TabsTrigger>
+                                </TabsList>
+                            </Tabs>
+                        </div>
+                        {matchMode === 'simple' ? (
+                            <div className="grid grid-cols-2 gap-3">
+                                <Input
+                                    value={draft.sourceHost}
+                                    onChange={(e) => update({ sourceHost: e.target.value })}
+                                    placeholder={`Any host on ${zoneName}`}
+                                    disabled={isSaving}
+                                />
+                                <Input
+                                    value={draft.sourcePath}
+                                    onChange={(e) => update({ sourcePath: e.target.value })}
+                                    placeholder="/old-path (any path if empty)"
+                                    disabled={isSaving}
+                                />
+                            </div>
+                        ) : (
+                            <Textarea
+                                value={draft.customExpression || ''}
+                                onChange={(e) => update({ customExpression: e.target.value })}
+                                placeholder='(http.host eq "example.com" and starts_with(http.request.uri.path, "/blog/"))'
+                                className="font-mono text-xs min-h-[80px]"
+                                disabled={isSaving}
+                            />
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label>Then redirect to</Label>
+                            <Tabs value={draft.targetType} onValueChange={(targetType) => update({ targetType: targetType as SingleRedirect['targetType'] })}>
+                                <TabsList className="h-8">
+                                    <TabsTrigger value="static" className="text-xs">Static</TabsTrigger>
+                                    <TabsTrigger value="dynamic" className="text-xs">Dynamic</TabsTrigger>
+                                </TabsList>
+                            </Tabs>
+                        </div>
+                        <Input
+                            value={draft.target}
+                            onChange={(e) => update({ target: e.target.value })}
+                            placeholder={draft.targetType === 'static'
+                                ? 'https://example.com/new-path'
+                                : 'concat("https://example.com", http.request.uri.path)'}
+                            className={draft.targetType === 'dynamic' ? 'font-mono text-xs' : undefined}
+                            disabled={isSaving}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-[160px_1fr] gap-3 items-end">
+                        <div className="space-y-1.5">
+                            <Label>Status code</Label>
+                            <Select
+                                value={String(draft.statusCode)}
+                                onValueChange={(value) => update({ statusCode: Number(value) as RedirectStatusCode })}
+                                disabled={isSaving}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {REDIRECT_STATUS_CODES.map(code => (
+                                        <SelectItem key={code} value={String(code)}>{code}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex items-center gap-6 pb-2">
+                            <div className="flex items-center gap-2">
+                                <Switch
+                                    id="redirect-rule-query"
+                                    checked={draft.preserveQueryString}
+                                    onCheckedChange={(preserveQueryString) => update({ preserveQueryString })}
+                                    disabled={isSaving}
+                                />
+                                <Label htmlFor="redirect-rule-query">Preserve query string</Label>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Switch
+                                    id="redirect-rule-enabled"
+                                    checked={draft.enabled}
+                                    onCheckedChange={(enabled) => update({ enabled })}
+                                    disabled={isSaving}
+                                />
+                                <Label htmlFor="redirect-rule-enabled">Enabled</Label>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={isSaving}>
+                        {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Save Rule
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
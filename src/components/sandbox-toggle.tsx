@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FlaskConical, RotateCcw, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import {
+    SANDBOX_ACCOUNTS,
+    SANDBOX_PROXY_ACCOUNT,
+    isSandboxEnabled,
+    isSandboxForced,
+    setSandboxEnabled,
+} from '@/lib/sandbox-mode';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+
+export function SandboxToggle() {
+    const { accounts, proxyAccounts, loadAccounts, loadProxyAccounts, addAccount, addProxyAccount } = useAccountStore();
+    const [enabled, setEnabled] = useState(false);
+    const [isResetting, setIsResetting] = useState(false);
+
+    // The cookie is only readable after hydration
+    useEffect(() => {
+        setEnabled(isSandboxEnabled());
+        loadAccounts();
+        loadProxyAccounts();
+    }, [loadAccounts, loadProxyAccounts]);
+
+    const handleToggle = (checked: boolean) => {
+        setSandboxEnabled(checked);
+        // Cached zones belong to whichever backend loaded them
+        useCloudflareCache.getState().clearCache();
+        window.location.reload();
+    };
+
+    const missingAccounts = SANDBOX_ACCOUNTS.filter(account => !accounts.some(existing => existing.id === account.id));
+    const missingProxy = !proxyAccounts.some(existing => existing.id === SANDBOX_PROXY_ACCOUNT.id);
+
+    const handleAddAccounts = () => {
+        if (missingProxy) addProxyAccount(SANDBOX_PROXY_ACCOUNT);
+        missingAccounts.forEach(account => addAccount(account));
+        toast.success('Sandbox accounts added');
+    };
+
+    const handleReset = async () => {
+        setIsResetting(true);
+        try {
+            const response = await fetch('/api/sandbox', { method: 'POST' });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to reset sandbox');
+            useCloudflareCache.getState().clearCache();
+            toast.success('Sandbox data reset to fixtures');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to reset sandbox');
+        } finally {
+            setIsResetting(false);
+        }
+    };
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <button
+                    className={`flex items-center gap-2 h-8 px-3 rounded-md border text-xs font-medium shadow-sm transition-all focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring ${enabled
+                        ? 'border-amber-500/50 bg-amber-500/10 text-amber-600 dark:text-amber-400 hover:bg-amber-500/20'
+                        : 'bg-card/50 text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground'
+                        }`}
+                >
+                    <FlaskConical className="h-3.5 w-3.5" />
+                    {enabled ? 'Sandbox' : 'Live'}
+                </button>
+            </PopoverTrigger>
+
+            <PopoverContent className="w-72 p-0 overflow-hidden" align="end" sideOffset={8}>
+                <div className="flex items-center justify-between gap-2 p-2 bg-muted/40 border-b">
+                    <span className="text-xs font-semibold">Sandbox mode</span>
+                    <Switch checked={enabled} onCheckedChange={handleToggle} disabled={isSandboxForced()} />
+                </div>
+
+                <div className="p-2 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                        {isSandboxForced()
+                            ? 'Enabled by NEXT_PUBLIC_SANDBOX_MODE. Cloudflare, registrar and NPM calls are answered by local fakes.'
+                            : 'Cloudflare, registrar and NPM calls are answered by local fakes instead of the real APIs.'}
+                    </p>
+                    {enabled && (
+                        <div className="flex flex-col gap-1.5">
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="justify-start"
+                                onClick={handleAddAccounts}
+                                disabled={missingAccounts.length === 0 && !missingProxy}
+                            >
+                                <UserPlus className="h-3.5 w-3.5" />
+                                {missingAccounts.length === 0 && !missingProxy ? 'Sandbox accounts added' : 'Add sandbox accounts'}
+                            </Button>
+                            <Button size="sm" variant="outline" className="justify-start" onClick={handleReset} disabled={isResetting}>
+                                <RotateCcw className="h-3.5 w-3.5" />
+                                {isResetting ? 'Resetting...' : 'Reset sandbox data'}
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { AlertCircle, RefreshCw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CopyButton } from '@/components/ui/copy-button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useSecurityEvents } from '@/hooks/use-security-events';
+import type { AnalyticsZone } from '@/hooks/use-zone-analytics';
+import {
+  SECURITY_EVENT_ACTIONS,
+  SECURITY_EVENT_RANGES,
+  SECURITY_EVENT_SOURCES,
+  getSecurityEventActionLabel,
+  getSecurityEventSourceLabel,
+} from '@/lib/cloudflare-security-events';
+import type { SecurityEventFilters, SecurityEventsRange } from '@/types/cloudflare';
+
+interface SecurityEventsDialogProps {
+  zones: AnalyticsZone[];
+  trigger?: React.ReactNode;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const ALL = 'all';
+
+const getActionBadgeVariant = (action: string): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  if (action === 'block' || action === 'connection_close') return 'destructive';
+  if (action.includes('challenge')) return 'secondary';
+  return 'outline';
+};
+
+export function SecurityEventsDialog({ zones, trigger, open: controlledOpen, onOpenChange: controlledOnOpenChange }: SecurityEventsDialogProps) {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const setOpen = isControlled ? controlledOnOpenChange! : setInternalOpen;
+
+  const [range, setRange] = useState<SecurityEventsRange>('24h');
+  // Text filters are edited here and only queried once applied
+  const [draft, setDraft] = useState<SecurityEventFilters>({});
+  const [filters, setFilters] = useState<SecurityEventFilters>({});
+  const { events, rules, errors, isLoading, reload } = useSecurityEvents(zones, range, filters, open);
+
+  const isSingleZone = zones.length === 1;
+  const failedZones = zones.filter(zone => errors[zone.zoneId]);
+  const hasFilters = Object.values(filters).some(value => value);
+
+  const applyFilters = (next: SecurityEventFilters) => {
+    setDraft(next);
+    setFilters(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+  };
+
+  const updateDraft = (key: keyof SecurityEventFilters, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const formatDatetime = (datetime: string) =>
+    new Date(datetime).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
+      <DialogContent className="max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Security events</DialogTitle>
+          <DialogDescription>
+            {isSingleZone ? zones[0].zoneName : `${zones.length} domains`} · Requests blocked, challenged or skipped by WAF rules, Bot Fight Mode and rate limiting
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-2 md:grid-cols-4">
+          <Select value={range} onValueChange={(value) => setRange(value as SecurityEventsRange)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SECURITY_EVENT_RANGES.map(item => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.action || ALL}
+            onValueChange={(value) => applyFilters({ ...draft, action: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {SECURITY_EVENT_ACTIONS.map(item => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.source || ALL}
+            onValueChange={(value) => applyFilters({ ...draft, source: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All sources</SelectItem>
+              {SECURITY_EVENT_SOURCES.map(item => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="h-8"
+            placeholder="Rule ID"
+            value={draft.ruleId ?? ''}
+            onChange={(e) => updateDraft('ruleId', e.target.value)}
+          />
+          <Input
+            className="h-8"
+            placeholder="Country (e.g. US)"
+            maxLength={2}
+            value={draft.country ?? ''}
+            onChange={(e) => updateDraft('country', e.target.value)}
+          />
+          <Input
+            className="h-8"
+            placeholder="Client IP"
+            value={draft.ip ?? ''}
+            onChange={(e) => updateDraft('ip', e.target.value)}
+          />
+          <Input
+            className="h-8"
+            placeholder="Path contains"
+            value={draft.path ?? ''}
+            onChange={(e) => updateDraft('path', e.target.value)}
+          />
+          <div className="flex items-center gap-2">
+            <Button type="submit" size="sm" className="h-8 flex-1" disabled={isLoading}>
+              Apply
+            </Button>
+            {hasFilters && (
+              <Button type="button" size="sm" variant="outline" className="h-8 px-2" onClick={() => applyFilters({})} title="Clear filters">
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            <Button type="button" size="sm" variant="outline" className="h-8 px-2" onClick={() => { void reload(); }} disabled={isLoading} title="Reload">
+              <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </form>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {failedZones.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              <div className="space-y-0.5">
+                {failedZones.slice(0, 3).map(zone => (
+                  <div key={zone.zoneId}>{zone.zoneName}: {errors[zone.zoneId]}</div>
+                ))}
+                {failedZones.length > 3 && <div>+{failedZones.length - 3} more domains failed to load</div>}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Top rules</div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead className="text-right">Events</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && rules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4}><Skeleton className="h-4 w-full" /></TableCell>
+                    </TableRow>
+                  ) : rules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-xs text-muted-foreground">No security events in this range</TableCell>
+                    </TableRow>
+                  ) : (
+                    rules.slice(0, 10).map(rule => (
+                      <TableRow
+                        key={`${rule.action}-${rule.source}-${rule.ruleId}-${rule.description}`}
+                        className="cursor-pointer"
+                        onClick={() => applyFilters({ ...filters, ruleId: rule.ruleId || undefined, source: rule.source, action: rule.action })}
+                        title="Show events for this rule"
+                      >
+                        <TableCell>
+                          <Badge variant={getActionBadgeVariant(rule.action)}>{getSecurityEventActionLabel(rule.action)}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">{getSecurityEventSourceLabel(rule.source)}</TableCell>
+                        <TableCell className="text-xs">
+                          {rule.description || <span className="font-mono text-muted-foreground">{rule.ruleId || '—'}</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-xs">{rule.count.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium">Events</div>
+              <div className="text-xs text-muted-foreground">Latest 100 per domain</div>
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    {!isSingleZone && <TableHead>Domain</TableHead>}
+                    <TableHead>Action</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Request</TableHead>
+                    <TableHead>Ray ID</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && events.length === 0 ? (
+                    Array.from({ length: 5 }, (_, index) => (
+                      <TableRow key={index}>
+                        <TableCell colSpan={isSingleZone ? 6 : 7}><Skeleton className="h-4 w-full" /></TableCell>
+                      </TableRow>
+                    ))
+                  ) : events.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={isSingleZone ? 6 : 7} className="text-center text-xs text-muted-foreground">
+                        {hasFilters ? 'No events match these filters' : 'No security events in this range'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    events.map(event => (
+                      <TableRow key={`${event.zoneId}-${event.rayName}-${event.datetime}-${event.ruleId}`}>
+                        <TableCell className="text-xs whitespace-nowrap">{formatDatetime(event.datetime)}</TableCell>
+                        {!isSingleZone && <TableCell className="text-xs">{event.zoneName}</TableCell>}
+                        <TableCell>
+                          <Badge variant={getActionBadgeVariant(event.action)}>{getSecurityEventActionLabel(event.action)}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs max-w-[200px]">
+                          <div className="truncate" title={event.description || event.ruleId}>
+                            {event.description || event.ruleId || '—'}
+                          </div>
+                          <div className="text-muted-foreground">{getSecurityEventSourceLabel(event.source)}</div>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          <button
+                            type="button"
+                            className="font-mono hover:underline"
+                            onClick={() => applyFilters({ ...filters, ip: event.clientIP })}
+                            title="Show events from this IP"
+                          >
+                            {event.clientIP}
+                          </button>
+                          <div className="text-muted-foreground">{event.clientCountryName}</div>
+                        </TableCell>
+                        <TableCell className="text-xs max-w-[280px]">
+                          <div className="truncate font-mono" title={`${event.clientRequestHTTPHost}${event.clientRequestPath}${event.clientRequestQuery}`}>
+                            {event.clientRequestHTTPMethodName} {event.clientRequestHTTPHost}{event.clientRequestPath}{event.clientRequestQuery}
+                          </div>
+                          <div className="truncate text-muted-foreground" title={event.userAgent}>{event.userAgent}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <code className="text-xs">{event.rayName}</code>
+                            <CopyButton
+                              text={event.rayName}
+                              successMessage="Copied Ray ID"
+                              errorMessage="Failed to copy Ray ID"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              title="Copy Ray ID"
+                              copyIconClassName="h-3 w-3"
+                              checkIconClassName="h-3 w-3"
+                            />
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import {
+	WAF_CONDITION_FIELDS,
+	WAF_OPERATOR_LABELS,
+	buildWAFExpression,
+	createWAFCondition,
+	parseWAFExpression,
+	type WAFCondition,
+	type WAFConditionField,
+	type WAFConditionJoin,
+	type WAFConditionOperator,
+} from '@/lib/waf-expression';
+
+interface ExpressionBuilderProps {
+	value: string;
+	onChange: (expression: string) => void;
+	disabled?: boolean;
+}
+
+const splitValues = (input: string) => input.split(/[,\n]/).map(value => value.trim()).filter(Boolean);
+
+export function ExpressionBuilder({ value, onChange, disabled }: ExpressionBuilderProps) {
+	const parsed = parseWAFExpression(value);
+	const [mode, setMode] = useState<'builder' | 'raw'>(parsed ? 'builder' : 'raw');
+	const [conditions, setConditions] = useState<WAFCondition[]>(
+		parsed && parsed.conditions.length > 0 ? parsed.conditions : [createWAFCondition()]
+	);
+	const [join, setJoin] = useState<WAFConditionJoin>(parsed?.join || 'and');
+	// Keep the typed text so "a, " isn't collapsed while the user is still typing
+	const [valueDrafts, setValueDrafts] = useState<string[]>(conditions.map(condition => condition.values.join(', ')));
+
+	useEffect(() => {
+		if (mode === 'builder') {
+			onChange(buildWAFExpression({ conditions, join }));
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [conditions, join, mode]);
+
+	const updateCondition = (index: number, updates: Partial<WAFCondition>) => {
+		setConditions(prev => prev.map((condition, i) => (i === index ? { ...condition, ...updates } : condition)));
+	};
+
+	const handleFieldChange = (index: number, field: WAFConditionField) => {
+		updateCondition(index, { field, operator: WAF_CONDITION_FIELDS[field].operators[0] });
+	};
+
+	const handleValuesChange = (index: number, input: string) => {
+		setValueDrafts(prev => prev.map((draft, i) => (i === index ? input : draft)));
+		updateCondition(index, { values: splitValues(input) });
+	};
+
+	const handleAdd = () => {
+		setConditions(prev => [...prev, createWAFCondition()]);
+		setValueDrafts(prev => [...prev, '']);
+	};
+
+	const handleRemove = (index: number) => {
+		setConditions(prev => prev.filter((_, i) => i !== index));
+		setValueDrafts(prev => prev.filter((_, i) => i !== index));
+	};
+
+	const handleModeChange = (nextMode: string) => {
+		if (nextMode === 'builder') {
+			const next = parseWAFExpression(value);
+			if (!next) return;
+			const nextConditions = next.conditions.length > 0 ? next.conditions : [createWAFCondition()];
+			setConditions(nextConditions);
+			setValueDrafts(nextConditions.map(condition => condition.values.join(', ')));
+			setJoin(next.join);
+		}
+		setMode(nextMode as 'builder' | 'raw');
+	};
+
+	const canUseBuilder = !!parseWAFExpression(value);
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-center justify-between">
+				<Label>Expression</Label>
+				<Tabs value={mode} onValueChange={handleModeChange}>
+					<TabsList className="h-8">
+						<TabsTrigger value="builder" className="text-xs" disabled={disabled || (mode === 'raw' && !canUseBuilder)}>
+							Builder
+						</TabsTrigger>
+						<TabsTrigger value="raw" className="text-xs" disabled={disabled}>
+							Expression
+						</TabsTrigger>
+					</TabsList>
+				</Tabs>
+			</div>
+
+			{mode === 'builder' ? (
+				<div className="space-y-2">
+					{conditions.map((condition, index) => {
+						const definition = WAF_CONDITION_FIELDS[condition.field];
+						return (
+							<div key={index} className="space-y-2">
+								{index > 0 && (
+									<Select value={join} onValueChange={(next) => setJoin(next as WAFConditionJoin)} disabled={disabled}>
+										<SelectTrigger className="h-7 w-[80px] text-xs uppercase">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="and">AND</SelectItem>
+											<SelectItem value="or">OR</SelectItem>
+										</SelectContent>
+									</Select>
+								)}
+								<div className="flex items-center gap-2">
+									<Select
+										value={condition.field}
+										onValueChange={(next) => handleFieldChange(index, next as WAFConditionField)}
+										disabled={disabled}
+									>
+										<SelectTrigger className="w-[130px] h-9">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{(Object.keys(WAF_CONDITION_FIELDS) as WAFConditionField[]).map(field => (
+												<SelectItem key={field} value={field}>{WAF_CONDITION_FIELDS[field].label}</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									<Select
+										value={condition.negate ? 'not' : 'is'}
+										onValueChange={(next) => updateCondition(index, { negate: next === 'not' })}
+										disabled={disabled}
+									>
+										<SelectTrigger className="w-[80px] h-9">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="is">is</SelectItem>
+											<SelectItem value="not">not</SelectItem>
+										</SelectContent>
+									</Select>
+									{definition.operators.length > 1 && (
+										<Select
+											value={condition.operator}
+											onValueChange={(next) => updateCondition(index, { operator: next as WAFConditionOperator })}
+											disabled={disabled}
+										>
+											<SelectTrigger className="w-[120px] h-9">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{definition.operators.map(operator => (
+													<SelectItem key={operator} value={operator}>{WAF_OPERATOR_LABELS[operator]}</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									)}
+									<Input
+										value={valueDrafts[index] ?? ''}
+										onChange={(e) => handleValuesChange(index, e.target.value)}
+										placeholder={definition.placeholder}
+										className="flex-1 h-9 font-mono text-xs"
+										disabled={disabled}
+									/>
+									<Button
+										type="button"
+										variant="ghost"
+										size="icon"
+										className="h-9 w-9 shrink-0"
+										onClick={() => handleRemove(index)}
+										disabled={disabled || conditions.length === 1}
+									>
+										<X className="h-4 w-4" />
+									</Button>
+								</div>
+							</div>
+						);
+					})}
+					<Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={disabled}>
+						<Plus className="mr-1.5 h-3.5 w-3.5" />
+						Add condition
+					</Button>
+					<p className="text-xs text-muted-foreground">
+						Separate multiple values with commas; a condition matches if any value matches.
+					</p>
+					{value && (
+						<pre className="rounded-md bg-muted/50 p-2 text-xs font-mono whitespace-pre-wrap break-all">{value}</pre>
+					)}
+				</div>
+			) : (
+				<div className="space-y-1">
+					<Textarea
+						value={value}
+						onChange={(e) => onChange(e.target.value)}
+						placeholder='(ip.src.country in {"CN" "RU"}) or (starts_with(http.request.uri.path, "/wp-admin"))'
+						className="min-h-[120px] font-mono text-xs"
+						disabled={disabled}
+					/>
+					{!canUseBuilder && value.trim() && (
+						<p className="text-xs text-muted-foreground">
+							This expression uses fields or operators the builder doesn&apos;t support; edit it directly.
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
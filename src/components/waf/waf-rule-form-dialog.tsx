@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { WAF_RULE_ACTIONS } from '@/lib/rulesets';
+import { toast } from 'sonner';
+import type { RulesetRule } from '@/types/cloudflare';
+import { ExpressionBuilder } from './expression-builder';
+
+interface WAFRuleFormDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	rule?: RulesetRule | null;
+	onSubmit: (rule: RulesetRule) => Promise<void> | void;
+}
+
+const EMPTY_RULE: RulesetRule = {
+	description: '',
+	expression: '',
+	action: 'block',
+	enabled: true,
+};
+
+export function WAFRuleFormDialog({ open, onOpenChange, rule, onSubmit }: WAFRuleFormDialogProps) {
+	const [draft, setDraft] = useState<RulesetRule>(EMPTY_RULE);
+	const [isSaving, setIsSaving] = useState(false);
+	// Remount the builder for every rule so it re-parses the expression
+	const [builderKey, setBuilderKey] = useState(0);
+
+	useEffect(() => {
+		if (open) {
+			setDraft(rule ? { ...rule } : EMPTY_RULE);
+			setBuilderKey(prev => prev + 1);
+		}
+	}, [open, rule]);
+
+	// Skip rules carry action parameters the form doesn't edit; keep their action as-is
+	const isSkipRule = draft.action === 'skip';
+
+	const handleSubmit = async () => {
+		if (!draft.description?.trim()) {
+			toast.error('Rule name is required');
+			return;
+		}
+		if (!draft.expression.trim()) {
+			toast.error('Add at least one condition');
+			return;
+		}
+
+		setIsSaving(true);
+		try {
+			await onSubmit({ ...draft, description: draft.description.trim(), expression: draft.expression.trim() });
+			onOpenChange(false);
+		} catch (error) {
+			// Callers report their own errors; keep the dialog open so the rule can be fixed
+			console.error('Error saving WAF rule:', error);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+			<DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+				<DialogHeader>
+					<DialogTitle>{rule ? 'Edit Custom Rule' : 'New Custom Rule'}</DialogTitle>
+					<DialogDescription>
+						Rules in the custom rules phase run in order; the first terminating action wins.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+					<div className="grid grid-cols-[1fr_200px] gap-3">
+						<div className="space-y-1.5">
+							<Label htmlFor="waf-rule-name">Rule name</Label>
+							<Input
+								id="waf-rule-name"
+								value={draft.description || ''}
+								onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+								placeholder="Block admin paths outside office"
+								disabled={isSaving}
+							/>
+						</div>
+						<div className="space-y-1.5">
+							<Label>Action</Label>
+							{isSkipRule ? (
+								<Input value="Skip" disabled />
+							) : (
+								<Select
+									value={draft.action}
+									onValueChange={(action) => setDraft(prev => ({ ...prev, action }))}
+									disabled={isSaving}
+								>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{WAF_RULE_ACTIONS.map(action => (
+											<SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							)}
+						</div>
+					</div>
+
+					<ExpressionBuilder
+						key={builderKey}
+						value={draft.expression}
+						onChange={(expression) => setDraft(prev => ({ ...prev, expression }))}
+						disabled={isSaving}
+					/>
+
+					<div className="flex items-center gap-2">
+						<Switch
+							id="waf-rule-enabled"
+							checked={draft.enabled}
+							onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, enabled }))}
+							disabled={isSaving}
+						/>
+						<Label htmlFor="waf-rule-enabled">Enabled</Label>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+						Cancel
+					</Button>
+					<Button onClick={handleSubmit} disabled={isSaving}>
+						{isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+						Save Rule
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
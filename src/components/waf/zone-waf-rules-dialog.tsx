@@ -0,0 +1,257 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, RefreshCw, Shield, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { getWAFActionLabel } from '@/lib/rulesets';
+import { formatCloudflareError } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { CloudflareAccount, Ruleset, RulesetRule } from '@/types/cloudflare';
+import { WAFRuleFormDialog } from './waf-rule-form-dialog';
+
+const PHASE = 'http_request_firewall_custom';
+
+interface ZoneWAFRulesDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	account: CloudflareAccount | undefined;
+	zoneId: string;
+	zoneName: string;
+}
+
+export function ZoneWAFRulesDialog({ open, onOpenChange, account, zoneId, zoneName }: ZoneWAFRulesDialogProps) {
+	const [ruleset, setRuleset] = useState<Ruleset | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	const [busyRuleId, setBusyRuleId] = useState<string | null>(null);
+	const [editingRule, setEditingRule] = useState<RulesetRule | null>(null);
+	const [isFormOpen, setIsFormOpen] = useState(false);
+
+	const loadRules = useCallback(async () => {
+		if (!account) return;
+		setIsLoading(true);
+		try {
+			const api = new CloudflareAPI(account);
+			setRuleset(await api.getPhaseEntrypoint(zoneId, PHASE));
+		} catch (error) {
+			console.error('Error loading WAF rules:', error);
+			toast.error(formatCloudflareError(error));
+		} finally {
+			setIsLoading(false);
+		}
+	}, [account, zoneId]);
+
+	useEffect(() => {
+		if (open) {
+			void loadRules();
+		}
+	}, [open, loadRules]);
+
+	const rules = ruleset?.rules || [];
+
+	// Every mutation returns the whole updated ruleset, so the table is replaced instead of refetched
+	const runRuleAction = async (ruleId: string, action: (api: CloudflareAPI, rulesetId: string) => Promise<Ruleset>, successMessage?: string) => {
+		if (!account || !ruleset) return;
+		setBusyRuleId(ruleId);
+		try {
+			const api = new CloudflareAPI(account);
+			setRuleset(await action(api, ruleset.id));
+			if (successMessage) toast.success(successMessage);
+		} catch (error) {
+			console.error('Error updating WAF rule:', error);
+			toast.error(formatCloudflareError(error));
+		} finally {
+			setBusyRuleId(null);
+		}
+	};
+
+	const handleToggle = (rule: RulesetRule, enabled: boolean) => {
+		void runRuleAction(rule.id!, (api, rulesetId) =>
+			api.updateRulesetRule(zoneId, rulesetId, rule.id!, { ...rule, enabled })
+		);
+	};
+
+	const handleMove = (index: number, direction: -1 | 1) => {
+		const rule = rules[index];
+		// Positions are 1-based
+		void runRuleAction(rule.id!, (api, rulesetId) =>
+			api.updateRulesetRule(zoneId, rulesetId, rule.id!, rule, index + 1 + direction)
+		);
+	};
+
+	const handleDelete = (rule: RulesetRule) => {
+		if (!window.confirm(`Delete rule "${rule.description || rule.expression}"?`)) return;
+		void runRuleAction(rule.id!, (api, rulesetId) =>
+			api.deleteRulesetRule(zoneId, rulesetId, rule.id!),
+			'Rule deleted'
+		);
+	};
+
+	const handleSubmit = async (rule: RulesetRule) => {
+		if (!account) return;
+		const api = new CloudflareAPI(account);
+		try {
+			if (editingRule?.id && ruleset) {
+				setRuleset(await api.updateRulesetRule(zoneId, ruleset.id, editingRule.id, rule));
+				toast.success('Rule updated');
+			} else {
+				setRuleset(await api.createPhaseRule(zoneId, PHASE, rule));
+				toast.success('Rule created');
+			}
+		} catch (error) {
+			toast.error(formatCloudflareError(error));
+			throw error;
+		}
+	};
+
+	return (
+		<>
+			<Dialog open={open} onOpenChange={onOpenChange}>
+				<DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+					<DialogHeader>
+						<DialogTitle className="flex items-center gap-2">
+							<Shield className="h-5 w-5" />
+							WAF Custom Rules
+						</DialogTitle>
+						<DialogDescription>
+							Custom rules for <strong>{zoneName}</strong>, evaluated top to bottom.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="flex items-center justify-end gap-2">
+						<Button variant="outline" size="sm" onClick={() => { void loadRules(); }} disabled={isLoading}>
+							<RefreshCw className={`mr-1.5 h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+							Refresh
+						</Button>
+						<Button
+							size="sm"
+							onClick={() => {
+								setEditingRule(null);
+								setIsFormOpen(true);
+							}}
+							disabled={isLoading || !account}
+						>
+							<Plus className="mr-1.5 h-3.5 w-3.5" />
+							Add Rule
+						</Button>
+					</div>
+
+					<div className="flex-1 min-h-0 overflow-y-auto rounded-lg border">
+						{isLoading && !ruleset ? (
+							<div className="flex items-center justify-center py-12">
+								<Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+							</div>
+						) : rules.length === 0 ? (
+							<div className="py-12 text-center text-sm text-muted-foreground">
+								No custom rules on this zone yet.
+							</div>
+						) : (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead className="w-[70px]">Order</TableHead>
+										<TableHead>Rule</TableHead>
+										<TableHead className="w-[150px]">Action</TableHead>
+										<TableHead className="w-[80px]">Enabled</TableHead>
+										<TableHead className="w-[90px]" />
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{rules.map((rule, index) => {
+										const isBusy = busyRuleId === rule.id;
+										return (
+											<TableRow key={rule.id} className={!rule.enabled ? 'opacity-60' : undefined}>
+												<TableCell>
+													<div className="flex items-center gap-0.5">
+														<Button
+															variant="ghost"
+															size="icon"
+															className="h-7 w-7"
+															onClick={() => handleMove(index, -1)}
+															disabled={index === 0 || !!busyRuleId}
+														>
+															<ArrowUp className="h-3.5 w-3.5" />
+														</Button>
+														<Button
+															variant="ghost"
+															size="icon"
+															className="h-7 w-7"
+															onClick={() => handleMove(index, 1)}
+															disabled={index === rules.length - 1 || !!busyRuleId}
+														>
+															<ArrowDown className="h-3.5 w-3.5" />
+														</Button>
+													</div>
+												</TableCell>
+												<TableCell>
+													<div className="font-medium text-sm">{rule.description || 'Untitled rule'}</div>
+													<div className="text-xs font-mono text-muted-foreground break-all line-clamp-2">{rule.expression}</div>
+												</TableCell>
+												<TableCell>
+													<Badge variant={rule.action === 'block' ? 'destructive' : 'secondary'} className="capitalize">
+														{getWAFActionLabel(rule.action)}
+													</Badge>
+												</TableCell>
+												<TableCell>
+													{isBusy ? (
+														<Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+													) : (
+														<Switch
+															checked={rule.enabled}
+															onCheckedChange={(enabled) => handleToggle(rule, enabled)}
+															disabled={!!busyRuleId}
+														/>
+													)}
+												</TableCell>
+												<TableCell>
+													<div className="flex items-center justify-end gap-0.5">
+														<Button
+															variant="ghost"
+															size="icon"
+															className="h-7 w-7"
+															onClick={() => {
+																setEditingRule(rule);
+																setIsFormOpen(true);
+															}}
+															disabled={!!busyRuleId}
+														>
+															<Pencil className="h-3.5 w-3.5" />
+														</Button>
+														<Button
+															variant="ghost"
+															size="icon"
+															className="h-7 w-7 text-destructive"
+															onClick={() => handleDelete(rule)}
+															disabled={!!busyRuleId}
+														>
+															<Trash2 className="h-3.5 w-3.5" />
+														</Button>
+													</div>
+												</TableCell>
+											</TableRow>
+										);
+									})}
+								</TableBody>
+							</Table>
+						)}
+					</div>
+				</DialogContent>
+			</Dialog>
+
+			<WAFRuleFormDialog
+				open={isFormOpen}
+				onOpenChange={setIsFormOpen}
+				rule={editingRule}
+				onSubmit={handleSubmit}
+			/>
+		</>
+	);
+}
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { ArrowRightLeft, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfigurationConsole } from '@/components/configuration-console';
+import { AccountSelectors, type RegistrarAccountOption } from '@/views/domains/components/add-domain-dialog/AccountSelectors';
+import { useCloudflareDestinationAccount } from '@/hooks/use-cloudflare-destination-account';
+import { useZoneMigration } from '@/hooks/use-zone-migration';
+import { downloadZoneSnapshot } from '@/lib/zone-migration';
+import { isRegistrarAccount } from '@/lib/registrars';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+
+interface MigrateZoneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  zone: { id: string; name: string; account?: { id: string; name?: string } };
+  sourceAccountId: string;
+}
+
+export function MigrateZoneDialog({ open, onOpenChange, zone, sourceAccountId }: MigrateZoneDialogProps) {
+  const allAccounts = useAccountStore((s) => s.accounts);
+  const proxyAccounts = useAccountStore((s) => s.proxyAccounts);
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+  const [selectedRegistrarAccountId, setSelectedRegistrarAccountId] = useState('');
+
+  const cloudflareCredentials = useMemo(
+    () => allAccounts.filter(acc => acc.category === 'cloudflare'),
+    [allAccounts]
+  );
+  const sourceAccount = allAccounts.find(acc => acc.id === sourceAccountId);
+
+  const registrarAccounts = useMemo<RegistrarAccountOption[]>(() =>
+    allAccounts
+      .filter(isRegistrarAccount)
+      .map((a) => ({
+        id: a.id,
+        name: a.name || a.email || 'Unnamed',
+        registrar: a.registrarName,
+      })),
+    [allAccounts]);
+
+  const {
+    accountsToUse,
+    selectedAccount,
+    cloudflareAccounts,
+    selectedCloudflareAccountId,
+    setSelectedCloudflareAccountId,
+    isLoadingAccounts,
+    destinationAccountMessage,
+  } = useCloudflareDestinationAccount({
+    selectedAccountId,
+    accounts: cloudflareCredentials,
+  });
+
+  const migration = useZoneMigration({
+    zone,
+    sourceAccount,
+    targetAccount: selectedAccount,
+    targetCloudflareAccountId: selectedCloudflareAccountId,
+    registrarAccount: allAccounts.find(acc => acc.id === selectedRegistrarAccountId),
+    proxyAccounts,
+  });
+
+  const isSameAccount = !!zone.account?.id && zone.account.id === selectedCloudflareAccountId;
+  const canStart = !!sourceAccount && !!selectedAccount && !!selectedCloudflareAccountId && !isSameAccount;
+
+  // Pre-select the registrar that holds this domain, based on the cached registrar domain lists
+  useEffect(() => {
+    if (!open || selectedRegistrarAccountId) return;
+
+    const cache = useCloudflareCache.getState();
+    const match = registrarAccounts.find(acc =>
+      (cache.getRegistrarDomains(acc.id)?.domains || []).some(domain => domain.name.toLowerCase() === zone.name.toLowerCase())
+    );
+    if (match) {
+      setSelectedRegistrarAccountId(match.id);
+    }
+  }, [open, registrarAccounts, selectedRegistrarAccountId, zone.name]);
+
+  const handleStart = async () => {
+    if (!canStart) return;
+    const confirmed = window.confirm(
+      `Move ${zone.name} to another Cloudflare account? The zone is deleted from ${sourceAccount?.name || sourceAccount?.email} before it is recreated, so the domain stops resolving until the new nameservers are live.`
+    );
+    if (!confirmed) return;
+    await migration.start();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && migration.isRunning) {
+      toast.error('Wait for the migration step to finish');
+      return;
+    }
+    if (!nextOpen && migration.sourceDeleted && !migration.isComplete) {
+      const confirmed = window.confirm(
+        `${zone.name} has already been deleted from the source account. Close anyway? The snapshot downloaded before the deletion has what you need to finish by hand.`
+      );
+      if (!confirmed) return;
+    }
+    if (!nextOpen && migration.hasStarted) {
+      void migration.syncCache();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Move {zone.name}</DialogTitle>
+          <DialogDescription>
+            DNS records and managed zone settings are copied to the target account and the registrar is pointed at the new nameservers.
+            A snapshot of the zone is downloaded before it is deleted from the source account.
+            Currently in {zone.account?.name || sourceAccount?.name || sourceAccount?.email}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!migration.hasStarted ? (
+          <AccountSelectors
+            accounts={accountsToUse}
+            cloudflareAccounts={cloudflareAccounts}
+            selectedAccountId={selectedAccountId}
+            selectedCloudflareAccountId={selectedCloudflareAccountId}
+            isLoadingAccounts={isLoadingAccounts}
+            onAccountChange={setSelectedAccountId}
+            onCloudflareAccountChange={setSelectedCloudflareAccountId}
+            destinationAccountMessage={isSameAccount ? 'The zone already lives in this Cloudflare account.' : destinationAccountMessage}
+            registrarAccounts={registrarAccounts}
+            selectedRegistrarAccountId={selectedRegistrarAccountId}
+            onRegistrarAccountChange={setSelectedRegistrarAccountId}
+          />
+        ) : (
+          <ConfigurationConsole
+            steps={migration.steps}
+            title="Migration Progress"
+            dense
+            maxHeight="50vh"
+            onRetryStep={(domain, step) => { void migration.retryStep(domain, step); }}
+          />
+        )}
+
+        {!!migration.targetZone?.name_servers.length && !selectedRegistrarAccountId && (
+          <p className="text-xs text-muted-foreground">
+            Set these nameservers at the registrar: <span className="font-mono">{migration.targetZone.name_servers.join(', ')}</span>
+          </p>
+        )}
+
+        <DialogFooter>
+          {migration.snapshot && (
+            <Button variant="outline" onClick={() => migration.snapshot && downloadZoneSnapshot(migration.snapshot)}>
+              <Download className="mr-2 h-4 w-4" />
+              Download snapshot
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={migration.isRunning}>
+            {migration.hasStarted ? 'Close' : 'Cancel'}
+          </Button>
+          {!migration.hasStarted && (
+            <Button onClick={() => { void handleStart(); }} disabled={!canStart}>
+              <ArrowRightLeft className="mr-2 h-4 w-4" />
+              Move Zone
+            </Button>
+          )}
+          {migration.isRunning && (
+            <Button disabled>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Migrating...
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
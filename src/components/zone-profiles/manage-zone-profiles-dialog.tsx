@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { Plus, RotateCcw, Save, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { ZONE_SETTING_FIELDS } from '@/lib/zone-settings';
+import { useZoneProfileStore } from '@/store/zone-profile-store';
+import { toast } from 'sonner';
+import type { ZoneSettingsValues } from '@/types/cloudflare';
+
+interface ManageZoneProfilesDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	initialProfileId?: string;
+}
+
+export function ManageZoneProfilesDialog({ open, onOpenChange, initialProfileId }: ManageZoneProfilesDialogProps) {
+	const { profiles, addProfile, updateProfile, removeProfile, resetProfiles } = useZoneProfileStore();
+	const [selectedId, setSelectedId] = useState('');
+	const [name, setName] = useState('');
+	const [description, setDescription] = useState('');
+	const [settings, setSettings] = useState<ZoneSettingsValues | null>(null);
+
+	const selectedProfile = profiles.find(profile => profile.id === selectedId);
+
+	useEffect(() => {
+		if (open) {
+			setSelectedId(initialProfileId || profiles[0]?.id || '');
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [open]);
+
+	useEffect(() => {
+		if (selectedProfile) {
+			setName(selectedProfile.name);
+			setDescription(selectedProfile.description || '');
+			setSettings({ ...selectedProfile.settings });
+		}
+	}, [selectedProfile]);
+
+	const setValue = <K extends keyof ZoneSettingsValues>(key: K, value: ZoneSettingsValues[K]) => {
+		setSettings(prev => (prev ? { ...prev, [key]: value } : prev));
+	};
+
+	const handleSave = () => {
+		if (!selectedProfile || !settings) return;
+		if (!name.trim()) {
+			toast.error('Profile name is required');
+			return;
+		}
+		updateProfile(selectedProfile.id, {
+			name: name.trim(),
+			description: description.trim() || undefined,
+			settings,
+		});
+		toast.success(`Saved profile "${name.trim()}"`);
+	};
+
+	const handleDuplicate = () => {
+		if (!settings) return;
+		const profile = addProfile(`${name.trim() || 'Profile'} copy`, settings, description.trim() || undefined);
+		setSelectedId(profile.id);
+	};
+
+	const handleDelete = () => {
+		if (!selectedProfile || selectedProfile.isDefault) return;
+		removeProfile(selectedProfile.id);
+		setSelectedId(profiles.find(profile => profile.isDefault)?.id || '');
+		toast.success(`Deleted profile "${selectedProfile.name}"`);
+	};
+
+	const handleReset = () => {
+		resetProfiles();
+		setSelectedId('');
+		toast.success('Restored built-in profiles');
+	};
+
+	const isDirty = !!selectedProfile && !!settings && (
+		name !== selectedProfile.name ||
+		description !== (selectedProfile.description || '') ||
+		JSON.stringify(settings) !== JSON.stringify(selectedProfile.settings)
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<SlidersHorizontal className="h-5 w-5" />
+						Zone Settings Profiles
+					</DialogTitle>
+					<DialogDescription>
+						Profiles describe the settings applied to new zones and to zones updated in bulk.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex-1 min-h-0 grid grid-cols-[220px_1fr] gap-4">
+					<div className="flex flex-col gap-1 overflow-y-auto border-r pr-3">
+						{profiles.map(profile => (
+							<button
+								key={profile.id}
+								type="button"
+								onClick={() => setSelectedId(profile.id)}
+								className={cn(
+									'rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted',
+									profile.id === selectedId && 'bg-muted font-medium'
+								)}
+							>
+								<span className="flex items-center gap-2">
+									<span className="truncate">{profile.name}</span>
+									{profile.isDefault && <Badge variant="outline" className="text-[10px] px-1 py-0">built-in</Badge>}
+								</span>
+							</button>
+						))}
+						<div className="mt-auto flex flex-col gap-1 pt-3">
+							<Button variant="outline" size="sm" onClick={handleDuplicate} disabled={!settings}>
+								<Plus className="mr-1.5 h-3.5 w-3.5" />
+								Duplicate
+							</Button>
+							<Button variant="ghost" size="sm" onClick={handleReset}>
+								<RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+								Restore built-ins
+							</Button>
+						</div>
+					</div>
+
+					{selectedProfile && settings ? (
+						<div className="overflow-y-auto space-y-4 pr-1">
+							<div className="grid grid-cols-2 gap-3">
+								<div className="space-y-1.5">
+									<Label htmlFor="zone-profile-name">Name</Label>
+									<Input
+										id="zone-profile-name"
+										value={name}
+										onChange={(e) => setName(e.target.value)}
+									/>
+								</div>
+								<div className="space-y-1.5">
+									<Label htmlFor="zone-profile-description">Description</Label>
+									<Input
+										id="zone-profile-description"
+										value={description}
+										onChange={(e) => setDescription(e.target.value)}
+									/>
+								</div>
+							</div>
+
+							<div className="divide-y rounded-lg border">
+								{ZONE_SETTING_FIELDS.map(field => (
+									<div key={field.key} className="flex items-center justify-between gap-4 px-3 py-2">
+										<div className="min-w-0">
+											<p className="text-sm font-medium">{field.label}</p>
+											<p className="text-xs text-muted-foreground">{field.description}</p>
+										</div>
+										{field.kind === 'boolean' ? (
+											<Switch
+												checked={settings[field.key] as boolean}
+												onCheckedChange={(checked) => setValue(field.key, checked as never)}
+											/>
+										) : (
+											<Select
+												value={settings[field.key] as string}
+												onValueChange={(value) => setValue(field.key, value as never)}
+											>
+												<SelectTrigger className="w-[170px] h-8">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													{field.options.map(option => (
+														<SelectItem key={option.value} value={option.value}>
+															{option.label}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										)}
+									</div>
+								))}
+							</div>
+						</div>
+					) : (
+						<div className="flex items-center justify-center text-sm text-muted-foreground">
+							Select a profile to edit
+						</div>
+					)}
+				</div>
+
+				<DialogFooter className="gap-2 sm:gap-0">
+					<Button
+						variant="outline"
+						className="text-destructive mr-auto"
+						onClick={handleDelete}
+						disabled={!selectedProfile || selectedProfile.isDefault}
+					>
+						<Trash2 className="mr-2 h-4 w-4" />
+						Delete
+					</Button>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Close
+					</Button>
+					<Button onClick={handleSave} disabled={!isDirty}>
+						<Save className="mr-2 h-4 w-4" />
+						Save Profile
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
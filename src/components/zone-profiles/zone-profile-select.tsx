@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { useZoneProfileStore } from '@/store/zone-profile-store';
+import { ManageZoneProfilesDialog } from './manage-zone-profiles-dialog';
+
+interface ZoneProfileSelectProps {
+	value: string;
+	onChange: (profileId: string) => void;
+	disabled?: boolean;
+	label?: string;
+}
+
+export function ZoneProfileSelect({ value, onChange, disabled, label = 'Zone settings profile' }: ZoneProfileSelectProps) {
+	const profiles = useZoneProfileStore((s) => s.profiles);
+	const getProfile = useZoneProfileStore((s) => s.getProfile);
+	const [isManageOpen, setIsManageOpen] = useState(false);
+
+	const selectedProfile = getProfile(value);
+
+	return (
+		<div className="space-y-1.5">
+			<Label>{label}</Label>
+			<div className="flex items-center gap-2">
+				<Select value={selectedProfile.id} onValueChange={onChange} disabled={disabled}>
+					<SelectTrigger className="flex-1">
+						<SelectValue placeholder="Select profile" />
+					</SelectTrigger>
+					<SelectContent>
+						{profiles.map(profile => (
+							<SelectItem key={profile.id} value={profile.id}>
+								{profile.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Button
+					type="button"
+					variant="outline"
+					size="icon"
+					onClick={() => setIsManageOpen(true)}
+					disabled={disabled}
+					title="Manage profiles"
+				>
+					<Settings2 className="h-4 w-4" />
+				</Button>
+			</div>
+			{selectedProfile.description && (
+				<p className="text-xs text-muted-foreground">{selectedProfile.description}</p>
+			)}
+			<ManageZoneProfilesDialog
+				open={isManageOpen}
+				onOpenChange={setIsManageOpen}
+				initialProfileId={selectedProfile.id}
+			/>
+		</div>
+	);
+}
@@ -1,14 +1,16 @@
 import { useState, useEffect, useCallback } from 'react'
 import { toast } from 'sonner'
 import { useAccountStore } from '@/store/account-store'
-import type { CloudflareAccount, ProxyAccount, SSHAccount, VPSAccount, NPMAccount, AccountCategory, RegistrarType } from '@/types/cloudflare'
+import type { CloudflareAccount, CloudflareAuthMode, ProxyAccount, SSHAccount, VPSAccount, NPMAccount, AccountCategory, RegistrarType } from '@/types/cloudflare'
 
 export interface AccountFormData {
   email: string
   apiToken: string
+  authMode: CloudflareAuthMode
   category: AccountCategory
   registrarName: RegistrarType | undefined
   username: string // API username for registrar accounts
+  apiSecret: string // Secret API key for registrars with key pairs (Porkbun)
   proxyId: string | undefined
   proxyName: string
   proxyHost: string
@@ -35,9 +37,11 @@ export interface AccountFormData {
 const initialFormData: AccountFormData = {
   email: "",
   apiToken: "",
+  authMode: "api_token",
   category: "cloudflare",
   registrarName: undefined,
   username: "",
+  apiSecret: "",
   proxyId: undefined,
   proxyName: "",
   proxyHost: "",
@@ -131,8 +135,10 @@ export function useAccountForm(existingAccount?: CloudflareAccount | ProxyAccoun
           category: account.category || 'cloudflare',
           email: account.email,
           apiToken: account.apiToken,
+          authMode: account.authMode || 'api_token',
           registrarName: account.registrarName,
           username: account.username || defaultUsername,
+          apiSecret: account.apiSecret || "",
           proxyId: account.proxyId,
         })
       }
@@ -179,6 +185,10 @@ export function useAccountForm(existingAccount?: CloudflareAccount | ProxyAccoun
         toast.error('Please fill in all required fields')
         return false
       }
+      if (formData.category === 'registrar' && formData.registrarName === 'porkbun' && !formData.apiSecret) {
+        toast.error('Please fill in the Porkbun secret API key')
+        return false
+      }
     }
     return true
   }
@@ -230,11 +240,15 @@ export function useAccountForm(existingAccount?: CloudflareAccount | ProxyAccoun
           updateAccount(existingAccount.id, {
             email: formData.email,
             apiToken: formData.apiToken,
+            authMode: formData.category === 'cloudflare' ? formData.authMode : undefined,
             category: formData.category,
             registrarName: formData.registrarName,
             username: formData.category === 'registrar' && formData.registrarName === 'namecheap'
               ? formData.username
               : undefined,
+            apiSecret: formData.category === 'registrar' && formData.registrarName === 'porkbun'
+              ? formData.apiSecret
+              : undefined,
             proxyId: formData.proxyId,
           })
           toast.success('Account updated successfully')
@@ -299,12 +313,16 @@ export function useAccountForm(existingAccount?: CloudflareAccount | ProxyAccoun
             id: crypto.randomUUID(),
             email: formData.email,
             apiToken: formData.apiToken,
+            authMode: formData.category === 'cloudflare' ? formData.authMode : undefined,
             category: formData.category,
             registrarName: formData.category === 'registrar' ? (formData.registrarName || "namecheap") : undefined,
             username: formData.category === 'registrar' && (formData.registrarName || 'namecheap') === 'namecheap'
               ? (formData.username?.replaceAll('.', '') || defaultUsername)
               : undefined,
-            proxyId: formData.category === 'registrar' && (formData.registrarName || 'namecheap') === 'namecheap'
+            apiSecret: formData.category === 'registrar' && formData.registrarName === 'porkbun'
+              ? formData.apiSecret
+              : undefined,
+            proxyId: formData.category === 'cloudflare' || (formData.category === 'registrar' && (formData.registrarName || 'namecheap') === 'namecheap')
               ? formData.proxyId
               : undefined,
             createdAt: new Date(),
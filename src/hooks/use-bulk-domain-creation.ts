@@ -1,12 +1,13 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { CloudflareAPI, type ZoneSettingsProgressCallback } from '@/lib/cloudflare-api';
+import { CloudflareAPI, DEFAULT_ZONE_SETTINGS, type ZoneSettingsProgressCallback } from '@/lib/cloudflare-api';
 import { useAccountStore } from '@/store/account-store';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { toast } from 'sonner';
 import { formatCloudflareError } from '@/lib/utils';
-import { runDynadotRateLimitedRequest } from '@/lib/dynadot-rate-limit';
+import { setRegistrarNameserversWithVerification } from '@/lib/registrar-nameservers';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
 import type { DomainQueueItem, ConfigurationStep } from '@/components/configuration-console';
-import type { CloudflareAccount, DNSRecord, ProxyAccount } from '@/types/cloudflare';
+import type { CloudflareAccount, DNSRecord, ProxyAccount, ZoneSettingsValues } from '@/types/cloudflare';
 
 interface UseBulkDomainCreationOptions {
 	account: CloudflareAccount;
@@ -16,9 +17,11 @@ interface UseBulkDomainCreationOptions {
 	registrarAccountId?: string;
 	registrarAccounts?: CloudflareAccount[];
 	proxyAccounts?: ProxyAccount[];
+	// Zone settings applied after creation; falls back to the built-in defaults
+	zoneSettings?: ZoneSettingsValues;
 }
 
-export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess, registrarAccountId, registrarAccounts = [], proxyAccounts = [] }: UseBulkDomainCreationOptions) {
+export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess, registrarAccountId, registrarAccounts = [], proxyAccounts = [], zoneSettings = DEFAULT_ZONE_SETTINGS }: UseBulkDomainCreationOptions) {
 	const { setDomainNameservers } = useAccountStore();
 	const { addZone, setDNSRecords } = useCloudflareCache();
 	const [isCreating, setIsCreating] = useState(false);
@@ -91,208 +94,6 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 		}));
 	};
 
-	const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-	const normalizeNameservers = (nameservers: string[]) =>
-		nameservers
-			.map(ns => ns.trim().toLowerCase())
-			.filter(Boolean)
-			.sort();
-
-	const nameserversMatch = (expected: string[], actual: string[]) => {
-		const normalizedExpected = normalizeNameservers(expected);
-		const normalizedActual = normalizeNameservers(actual);
-
-		return normalizedExpected.length === normalizedActual.length &&
-			normalizedExpected.every((nameserver, index) => nameserver === normalizedActual[index]);
-	};
-
-	const formatNameservers = (nameservers: string[]) =>
-		nameservers.length > 0 ? nameservers.join(', ') : '(none)';
-
-	const getNamecheapHeaders = (regAccount: CloudflareAccount) => {
-		if (!regAccount.proxyId) {
-			throw new Error(`No proxy assigned to Namecheap account ${regAccount.name || regAccount.email}`);
-		}
-
-		const proxy = proxyAccounts.find((p) => p.id === regAccount.proxyId);
-		if (!proxy) {
-			throw new Error(`Proxy (id: ${regAccount.proxyId}) not found for Namecheap account ${regAccount.name || regAccount.email}`);
-		}
-
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json',
-			'x-account-id': regAccount.id,
-			'x-api-user': regAccount.username || regAccount.email.split('@')[0].replaceAll('.', ''),
-			'x-api-key': regAccount.apiToken,
-			'x-proxy-host': proxy.host,
-			'x-proxy-port': proxy.port?.toString() || '',
-		};
-
-		if (proxy.username) headers['x-proxy-username'] = proxy.username;
-		if (proxy.password) headers['x-proxy-password'] = proxy.password;
-
-		return headers;
-	};
-
-	const parseDomain = (domain: string) => {
-		const parts = domain.split('.');
-		if (parts.length < 2) {
-			throw new Error(`Invalid domain format: ${domain}`);
-		}
-
-		return {
-			sld: parts.slice(0, -1).join('.'),
-			tld: parts[parts.length - 1],
-		};
-	};
-
-	const fetchRegistrarNameservers = async (domain: string, regAccount: CloudflareAccount): Promise<string[]> => {
-		if (regAccount.registrarName === 'namecheap') {
-			const { sld, tld } = parseDomain(domain);
-			const response = await fetch(`/api/namecheap/nameservers?sld=${encodeURIComponent(sld)}&tld=${encodeURIComponent(tld)}`, {
-				method: 'GET',
-				headers: getNamecheapHeaders(regAccount),
-			});
-			const data = await response.json();
-
-			if (!response.ok || !data.success) {
-				throw new Error(data.error || 'Failed to fetch registrar nameservers');
-			}
-
-			return Array.isArray(data.data?.nameservers) ? data.data.nameservers : [];
-		}
-
-		if (regAccount.registrarName === 'njalla') {
-			const response = await fetch(`/api/njalla/nameservers?domain=${encodeURIComponent(domain)}`, {
-				method: 'GET',
-				headers: {
-					'x-api-key': regAccount.apiToken,
-				},
-			});
-			const data = await response.json();
-
-			if (!response.ok || !data.success) {
-				throw new Error(data.error || 'Failed to fetch registrar nameservers');
-			}
-
-			return Array.isArray(data.data?.nameservers) ? data.data.nameservers : [];
-		}
-
-		if (regAccount.registrarName === 'dynadot') {
-			const response = await runDynadotRateLimitedRequest(regAccount.id, () => fetch(
-				`/api/dynadot/nameservers?domain=${encodeURIComponent(domain)}`,
-				{
-					method: 'GET',
-					headers: {
-						'x-api-key': regAccount.apiToken,
-					},
-				}
-			));
-			const data = await response.json();
-
-			if (!response.ok || !data.success) {
-				throw new Error(data.error || 'Failed to fetch registrar nameservers');
-			}
-
-			return Array.isArray(data.data?.nameservers) ? data.data.nameservers : [];
-		}
-
-		throw new Error(`Unsupported registrar: ${regAccount.registrarName || 'unknown'}`);
-	};
-
-	const setRegistrarNameservers = async (domain: string, nameservers: string[], regAccount: CloudflareAccount) => {
-		if (regAccount.registrarName === 'namecheap') {
-			const { sld, tld } = parseDomain(domain);
-			const response = await fetch('/api/namecheap/nameservers', {
-				method: 'POST',
-				headers: getNamecheapHeaders(regAccount),
-				body: JSON.stringify({ sld, tld, nameservers }),
-			});
-			const data = await response.json();
-
-			if (!response.ok || !data.success) {
-				throw new Error(data.error || 'Failed to set nameservers');
-			}
-
-			return;
-		}
-
-		if (regAccount.registrarName === 'njalla') {
-			const response = await fetch('/api/njalla/nameservers', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'x-api-key': regAccount.apiToken,
-				},
-				body: JSON.stringify({ domain, nameservers }),
-			});
-			const data = await response.json();
-
-			if (!response.ok || !data.success) {
-				throw new Error(data.error || 'Failed to set nameservers');
-			}
-
-			return;
-		}
-
-		if (regAccount.registrarName === 'dynadot') {
-			const response = await runDynadotRateLimitedRequest(regAccount.id, () => fetch('/api/dynadot/nameservers', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'x-api-key': regAccount.apiToken,
-				},
-				body: JSON.stringify({ domain, nameservers }),
-			}));
-			const data = await response.json();
-
-			if (!response.ok || !data.success) {
-				throw new Error(data.error || 'Failed to set nameservers');
-			}
-
-			return;
-		}
-
-		throw new Error(`Unsupported registrar: ${regAccount.registrarName || 'unknown'}`);
-	};
-
-	const setRegistrarNameserversWithVerification = async (
-		domain: string,
-		expectedNameservers: string[],
-		regAccount: CloudflareAccount
-	) => {
-		await setRegistrarNameservers(domain, expectedNameservers, regAccount);
-
-		let lastSeenNameservers: string[] = [];
-		let lastVerificationError: Error | null = null;
-
-		for (let attempt = 1; attempt <= 3; attempt++) {
-			try {
-				const currentNameservers = await fetchRegistrarNameservers(domain, regAccount);
-				lastSeenNameservers = currentNameservers;
-
-				if (nameserversMatch(expectedNameservers, currentNameservers)) {
-					return;
-				}
-			} catch (error) {
-				lastVerificationError = error instanceof Error ? error : new Error(String(error));
-			}
-
-			if (attempt < 3) {
-				await sleep(1500);
-			}
-		}
-
-		if (lastVerificationError && lastSeenNameservers.length === 0) {
-			throw new Error(`Nameserver verification failed: ${lastVerificationError.message}`);
-		}
-
-		throw new Error(
-			`Nameserver verification failed. Expected ${formatNameservers(expectedNameservers)} but registrar returned ${formatNameservers(lastSeenNameservers)}`
-		);
-	};
-
 	const refreshDNSRecords = async (zoneId: string, api: CloudflareAPI) => {
 		try {
 			const records = await api.getDNSRecords(zoneId);
@@ -329,6 +130,11 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 		));
 
 		try {
+			const capabilities = await loadTokenCapabilities(account);
+			if (!canPerform(capabilities, 'zoneEdit')) {
+				throw new Error(getMissingCapabilityMessage('zoneEdit'));
+			}
+
 			// Step 1: Create zone
 			const zone = await api.createZone(domain, cloudflareAccountId);
 
@@ -364,7 +170,7 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 					setStepState(domain, nsStepName, 'processing');
 
 					try {
-						await setRegistrarNameserversWithVerification(domain, zone.name_servers, regAccount);
+						await setRegistrarNameserversWithVerification(domain, zone.name_servers, regAccount, proxyAccounts);
 						setStepState(domain, nsStepName, 'success');
 					} catch (nsError) {
 						console.error(`Error setting nameservers for ${domain}:`, nsError);
@@ -525,7 +331,9 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 			}
 
 			// Step 5: Configure default zone settings
-			if (zone?.id) {
+			if (zone?.id && !canPerform(capabilities, 'zoneSettingsEdit')) {
+				setStepState(domain, 'Applying zone settings', 'error', `${getMissingCapabilityMessage('zoneSettingsEdit')}, skipped`);
+			} else if (zone?.id) {
 				setIsConfiguring(true);
 
 				const progressCallback: ZoneSettingsProgressCallback = (step) => {
@@ -558,7 +366,7 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 				};
 
 				try {
-					await api.configureDefaultZoneSettings(zone.id, progressCallback);
+					await api.applyZoneSettings(zone.id, queueItem.zoneSettings || DEFAULT_ZONE_SETTINGS, progressCallback);
 				} catch (configError) {
 					console.error(`Error configuring settings for ${domain}:`, configError);
 				}
@@ -616,7 +424,7 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 		}
 		const signal = abortControllerRef.current.signal;
 
-		const api = new CloudflareAPI(account.apiToken);
+		const api = new CloudflareAPI(account);
 		let successCount = 0;
 		let errorCount = 0;
 
@@ -672,6 +480,7 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 			steps: [],
 			rootIPAddress: rootIPAddress.trim(),
 			proxied: proxied,
+			zoneSettings,
 		}));
 
 		updateQueue(prev => {
@@ -702,32 +511,19 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 		const queueItem = domainQueueRef.current.find(item => item.domain === domain);
 		if (!queueItem) return;
 
-		const api = new CloudflareAPI(account.apiToken);
+		const api = new CloudflareAPI(account);
 
 		const runSettingRetry = async (zoneId: string, name: string) => {
-			const settingActions: Record<string, () => Promise<void>> = {
-				'SSL mode': () => api.setSSLMode(zoneId, 'strict'),
-				'Always use HTTPS': () => api.setAlwaysUseHTTPS(zoneId, true),
-				'HSTS': () => api.setHSTS(zoneId, true),
-				'TLS 1.3': () => api.setTLS13(zoneId, false),
-				'Authenticated Origin Pulls': () => api.setAuthenticatedOriginPulls(zoneId, true),
-				'Bot Fight Mode': () => api.setBotFightMode(zoneId, true),
-				'AI Bots Protection': () => api.setAIBotsProtection(zoneId, 'disabled'),
-				'WAF Custom Rule': () => api.createSkipBotsWAFRule(zoneId),
-				'Early Hints': () => api.setEarlyHints(zoneId, true),
-				'0-RTT': () => api.set0RTT(zoneId, true),
-				'Pseudo IPv4': () => api.setPseudoIPv4(zoneId, 'overwrite_header'),
-				'Email Obfuscation': () => api.setEmailObfuscation(zoneId, false),
-			};
-
-			const action = settingActions[name];
-			if (!action) {
+			const settingStep = api
+				.getZoneSettingSteps(zoneId, queueItem.zoneSettings || DEFAULT_ZONE_SETTINGS)
+				.find(setting => setting.name === name);
+			if (!settingStep) {
 				throw new Error('Retry not available for this step');
 			}
 
 			setIsConfiguring(true);
 			try {
-				await action();
+				await settingStep.fn();
 			} finally {
 				setIsConfiguring(false);
 			}
@@ -815,7 +611,7 @@ export function useBulkDomainCreation({ account, cloudflareAccountId, onSuccess,
 				const regAccount = registrarAccounts.find((a) => a.id === registrarAccountId);
 				if (!regAccount) throw new Error('Registrar account not found.');
 
-				await setRegistrarNameserversWithVerification(domain, queueItem.nameservers, regAccount);
+				await setRegistrarNameserversWithVerification(domain, queueItem.nameservers, regAccount, proxyAccounts);
 				setStepState(domain, step.name, 'success');
 				syncDomainStatusWithSteps(domain);
 				return;
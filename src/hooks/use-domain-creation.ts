@@ -3,6 +3,7 @@ import { CloudflareAPI, type ZoneSettingsProgressCallback } from '@/lib/cloudfla
 import { useAccountStore } from '@/store/account-store';
 import { toast } from 'sonner';
 import { formatCloudflareError } from '@/lib/utils';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
 import type { ConfigurationStep } from '@/components/configuration-console';
 import type { CloudflareAccount } from '@/types/cloudflare';
 
@@ -30,7 +31,11 @@ export function useDomainCreation({ account, cloudflareAccountId, onSuccess }: U
 		setCreatedNameservers([]);
 
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
+			const capabilities = await loadTokenCapabilities(account);
+			if (!canPerform(capabilities, 'zoneEdit')) {
+				throw new Error(getMissingCapabilityMessage('zoneEdit'));
+			}
 
 			// Step 1: Create zone
 			setConfigurationSteps([{ name: 'Creating domain zone...', status: 'processing' }]);
@@ -103,7 +108,11 @@ export function useDomainCreation({ account, cloudflareAccountId, onSuccess }: U
 			onSuccess();
 
 			// Step 4: Configure default zone settings
-			if (zone?.id) {
+			if (zone?.id && !canPerform(capabilities, 'zoneSettingsEdit')) {
+				// Skip instead of letting every setting fail with an auth error
+				toast.success(`Domain "${domainName.trim()}" created successfully!`);
+				toast.warning(`${getMissingCapabilityMessage('zoneSettingsEdit')}, default settings were not applied.`);
+			} else if (zone?.id) {
 				setIsConfiguring(true);
 				setIsCreating(false);
 
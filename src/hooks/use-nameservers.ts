@@ -1,11 +1,9 @@
 import { useState, useCallback } from 'react';
 import { toast } from 'sonner';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
-import type { NamecheapAccount } from '@/types/namecheap';
-import type { NjallaAccount } from '@/types/njalla';
-import type { DynadotAccount } from '@/types/dynadot';
-import type { ProxyAccount } from '@/types/cloudflare';
-import { runDynadotRateLimitedRequest } from '@/lib/dynadot-rate-limit';
+import type { CloudflareAccount, ProxyAccount } from '@/types/cloudflare';
+import type { RegistrarNameservers } from '@/types/registrar';
+import { registrarRequest } from '@/lib/registrars';
 import { processInParallel } from '@/lib/utils';
 
 interface UseNameserversReturn {
@@ -14,53 +12,13 @@ interface UseNameserversReturn {
     loadingStates: Record<string, boolean>;
 }
 
-interface NameserversAccount {
-    id: string;
-    apiUser: string;
-    apiKey: string;
-    proxyId?: string;
-}
-
 export function useNameservers(
-    accounts: NamecheapAccount[],
-    proxyAccounts: ProxyAccount[],
-    njallaAccounts: NjallaAccount[] = [],
-    dynadotAccounts: DynadotAccount[] = []
+    registrarAccounts: CloudflareAccount[],
+    proxyAccounts: ProxyAccount[]
 ): UseNameserversReturn {
     const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>({});
     const { setNameserversCache, getNameserversCache } = useCloudflareCache();
 
-    /**
-     * Parse domain into SLD and TLD
-     */
-    const parseDomain = useCallback((domain: string): { sld: string, tld: string } | null => {
-        const parts = domain.split('.');
-        if (parts.length < 2) {
-            return null;
-        }
-        const tld = parts[parts.length - 1];
-        const sld = parts.slice(0, -1).join('.');
-        return { sld, tld };
-    }, []);
-
-    /**
-     * Build headers for API request
-     */
-    const buildHeaders = useCallback((account: NameserversAccount, proxy: ProxyAccount): Record<string, string> => {
-        const headers: Record<string, string> = {
-            'x-account-id': account.id,
-            'x-api-user': account.apiUser,
-            'x-api-key': account.apiKey,
-            'x-proxy-host': proxy.host,
-        };
-
-        if (proxy.port) headers['x-proxy-port'] = proxy.port.toString();
-        if (proxy.username) headers['x-proxy-username'] = proxy.username;
-        if (proxy.password) headers['x-proxy-password'] = proxy.password;
-
-        return headers;
-    }, []);
-
     /**
      * Fetch nameservers for a single domain
      */
@@ -77,11 +35,9 @@ export function useNameservers(
             }
         }
 
-        const namecheapAccount = accounts.find((a) => a.id === accountId);
-        const njallaAccount = njallaAccounts.find((a) => a.id === accountId);
-        const dynadotAccount = dynadotAccounts.find((a) => a.id === accountId);
+        const account = registrarAccounts.find((a) => a.id === accountId);
 
-        if (!namecheapAccount && !njallaAccount && !dynadotAccount) {
+        if (!account) {
             toast.error(`Account not found for domain ${domain}`);
             return null;
         }
@@ -89,74 +45,12 @@ export function useNameservers(
         setLoadingStates((prev) => ({ ...prev, [domain]: true }));
 
         try {
-            let nameservers: string[] = [];
-            let isUsingOurDNS = false;
-
-            if (namecheapAccount) {
-                if (!namecheapAccount.proxyId) {
-                    throw new Error(`Proxy missing for account ${namecheapAccount.name || namecheapAccount.email}`);
-                }
-
-                const proxy = proxyAccounts.find((p) => p.id === namecheapAccount.proxyId);
-                if (!proxy) {
-                    throw new Error(`Proxy not found for account ${namecheapAccount.name || namecheapAccount.email}`);
-                }
-
-                const parsed = parseDomain(domain);
-                if (!parsed) {
-                    throw new Error(`Invalid domain format: ${domain}`);
-                }
-
-                const headers = buildHeaders(namecheapAccount, proxy);
-                const response = await fetch(`/api/namecheap/nameservers?sld=${parsed.sld}&tld=${parsed.tld}`, {
-                    method: 'GET',
-                    headers,
-                });
-
-                const data = await response.json();
-
-                if (!response.ok || !data.success) {
-                    throw new Error(data.error || 'Failed to fetch nameservers');
-                }
-
-                nameservers = data.data.nameservers;
-                isUsingOurDNS = data.data.isUsingOurDNS;
-            } else if (njallaAccount) {
-                const response = await fetch(`/api/njalla/nameservers?domain=${domain}`, {
-                    method: 'GET',
-                    headers: {
-                        'x-api-key': njallaAccount.apiKey
-                    }
-                });
-
-                const data = await response.json();
-
-                if (!response.ok || !data.success) {
-                    throw new Error(data.error || 'Failed to fetch nameservers');
-                }
-
-                nameservers = data.data.nameservers;
-                isUsingOurDNS = data.data.isUsingOurDNS;
-            } else if (dynadotAccount) {
-                const response = await runDynadotRateLimitedRequest(dynadotAccount.id, () => fetch(
-                    `/api/dynadot/nameservers?domain=${encodeURIComponent(domain)}`,
-                    {
-                        method: 'GET',
-                        headers: {
-                            'x-api-key': dynadotAccount.apiKey
-                        }
-                    }
-                ));
-
-                const data = await response.json();
-
-                if (!response.ok || !data.success) {
-                    throw new Error(data.error || 'Failed to fetch nameservers');
-                }
-
-                nameservers = data.data.nameservers;
-                isUsingOurDNS = data.data.isUsingOurDNS;
-            }
+            const { nameservers, isUsingOurDNS } = await registrarRequest<RegistrarNameservers>(
+                account,
+                proxyAccounts,
+                'nameservers',
+                { query: { domain } }
+            );
 
             // Cache the result
             setNameserversCache(domain, nameservers, isUsingOurDNS);
@@ -169,7 +63,7 @@ export function useNameservers(
         } finally {
             setLoadingStates((prev) => ({ ...prev, [domain]: false }));
         }
-    }, [accounts, proxyAccounts, njallaAccounts, dynadotAccounts, parseDomain, buildHeaders, getNameserversCache, setNameserversCache]);
+    }, [registrarAccounts, proxyAccounts, getNameserversCache, setNameserversCache]);
 
     /**
      * Set nameservers for multiple domains
@@ -179,40 +73,13 @@ export function useNameservers(
         nameservers: string[],
         accountId: string
     ): Promise<boolean> => {
-        const namecheapAccount = accounts.find((a) => a.id === accountId);
-        const njallaAccount = njallaAccounts.find((a) => a.id === accountId);
-        const dynadotAccount = dynadotAccounts.find((a) => a.id === accountId);
+        const account = registrarAccounts.find((a) => a.id === accountId);
 
-        if (!namecheapAccount && !njallaAccount && !dynadotAccount) {
+        if (!account) {
             toast.error('Account not found');
             return false;
         }
 
-        const headers: Record<string, string> = {};
-        let isNamecheap = false;
-        let isDynadot = false;
-
-        if (namecheapAccount) {
-            if (!namecheapAccount.proxyId) {
-                toast.error(`Proxy missing for account ${namecheapAccount.name || namecheapAccount.email}`);
-                return false;
-            }
-
-            const proxy = proxyAccounts.find((p) => p.id === namecheapAccount.proxyId);
-            if (!proxy) {
-                toast.error(`Proxy not found for account ${namecheapAccount.name || namecheapAccount.email}`);
-                return false;
-            }
-
-            Object.assign(headers, buildHeaders(namecheapAccount, proxy));
-            isNamecheap = true;
-        } else if (njallaAccount) {
-            headers['x-api-key'] = njallaAccount.apiKey;
-        } else if (dynadotAccount) {
-            headers['x-api-key'] = dynadotAccount.apiKey;
-            isDynadot = true;
-        }
-
         // Process each domain
         const results = await processInParallel(
             domains,
@@ -220,49 +87,9 @@ export function useNameservers(
                 setLoadingStates((prev) => ({ ...prev, [domain]: true }));
 
                 try {
-                    let response;
-                    if (isNamecheap) {
-                        const parsed = parseDomain(domain);
-                        if (!parsed) {
-                            throw new Error(`Invalid domain format: ${domain}`);
-                        }
-
-                        response = await fetch('/api/namecheap/nameservers', {
-                            method: 'POST',
-                            headers: {
-                                ...headers,
-                                'Content-Type': 'application/json',
-                            },
-                            body: JSON.stringify({
-                                sld: parsed.sld,
-                                tld: parsed.tld,
-                                nameservers,
-                            }),
-                        });
-                    } else {
-                        const url = isDynadot ? '/api/dynadot/nameservers' : '/api/njalla/nameservers';
-                        const executeRequest = () => fetch(url, {
-                            method: 'POST',
-                            headers: {
-                                'x-api-key': headers['x-api-key'],
-                                'Content-Type': 'application/json',
-                            },
-                            body: JSON.stringify({
-                                domain,
-                                nameservers,
-                            }),
-                        });
-
-                        response = isDynadot && dynadotAccount
-                            ? await runDynadotRateLimitedRequest(dynadotAccount.id, executeRequest)
-                            : await executeRequest();
-                    }
-
-                    const data = await response.json();
-
-                    if (!response.ok || !data.success) {
-                        throw new Error(data.error || 'Failed to set nameservers');
-                    }
+                    await registrarRequest(account, proxyAccounts, 'nameservers', {
+                        body: { domain, nameservers },
+                    });
 
                     // Update cache
                     setNameserversCache(domain, nameservers, false);
@@ -302,7 +129,7 @@ export function useNameservers(
             });
             return true;
         }
-    }, [accounts, proxyAccounts, njallaAccounts, dynadotAccounts, parseDomain, buildHeaders, setNameserversCache]);
+    }, [registrarAccounts, proxyAccounts, setNameserversCache]);
 
     return {
         fetchNameservers,
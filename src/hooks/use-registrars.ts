@@ -2,32 +2,22 @@ import { useState, useCallback, useEffect, useMemo } from 'react';
 import { toast } from 'sonner';
 import { useAccountStore } from '@/store/account-store';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
-import type { NamecheapDomain, NamecheapAccount } from '@/types/namecheap';
-import type { NjallaDomain, NjallaAccount } from '@/types/njalla';
-import type { DynadotDomain, DynadotAccount } from '@/types/dynadot';
 import type { UnifiedDomain } from '@/types/registrar';
-import {
-  toUnifiedDomain,
-  toUnifiedDomainFromDynadot,
-  toUnifiedDomainFromNjalla,
-} from '@/types/registrar';
-import type { ProxyAccount } from '@/types/cloudflare';
+import type { CloudflareAccount } from '@/types/cloudflare';
+import { isRegistrarAccount, registrarRequest } from '@/lib/registrars';
 import { processInParallel } from '@/lib/utils';
 
 interface UseRegistrarsReturn {
   domains: UnifiedDomain[];
   isLoading: boolean;
   isRefreshing: boolean;
-  namecheapAccounts: NamecheapAccount[];
-  njallaAccounts: NjallaAccount[];
-  dynadotAccounts: DynadotAccount[];
+  registrarAccounts: CloudflareAccount[];
   loadDomains: (force?: boolean) => Promise<void>;
   refreshAccount: (accountId: string) => Promise<void>;
 }
 
 interface FetchResult {
   accountId: string;
-  registrar: 'namecheap' | 'njalla' | 'dynadot';
   domains: UnifiedDomain[];
   error?: string;
 }
@@ -38,62 +28,9 @@ export function useRegistrars(): UseRegistrarsReturn {
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   const { accounts, proxyAccounts } = useAccountStore();
-  const {
-    getNamecheapDomains,
-    setNamecheapDomains,
-    getNjallaDomains,
-    setNjallaDomains,
-    getDynadotDomains,
-    setDynadotDomains,
-    isCacheValid,
-    _hasHydrated,
-  } =
-    useCloudflareCache();
+  const { getRegistrarDomains, setRegistrarDomains, isCacheValid, _hasHydrated } = useCloudflareCache();
 
-  // Derive Namecheap accounts from the main account store
-  const namecheapAccounts = useMemo(() => {
-    return accounts
-      .filter((account) => account.category === 'registrar' && account.registrarName === 'namecheap')
-      .map((account) => {
-        const defaultApiUser = account.email.split('@')[0].replaceAll('.', '');
-        const apiUser = account.username || defaultApiUser;
-
-        return {
-          id: account.id,
-          name: account.name || account.email || 'Unnamed Account',
-          email: account.email,
-          apiUser,
-          apiKey: account.apiToken,
-          proxyId: account.proxyId,
-          createdAt: account.createdAt,
-        } as NamecheapAccount;
-      });
-  }, [accounts]);
-
-  // Derive Njalla accounts from the main account store
-  const njallaAccounts = useMemo(() => {
-    return accounts
-      .filter((account) => account.category === 'registrar' && account.registrarName === 'njalla')
-      .map((account) => ({
-        id: account.id,
-        name: account.name || account.email || 'Unnamed Account',
-        email: account.email,
-        apiKey: account.apiToken,
-        createdAt: account.createdAt,
-      } as NjallaAccount));
-  }, [accounts]);
-
-  const dynadotAccounts = useMemo(() => {
-    return accounts
-      .filter((account) => account.category === 'registrar' && account.registrarName === 'dynadot')
-      .map((account) => ({
-        id: account.id,
-        name: account.name || account.email || 'Unnamed Account',
-        email: account.email,
-        apiKey: account.apiToken,
-        createdAt: account.createdAt,
-      } as DynadotAccount));
-  }, [accounts]);
+  const registrarAccounts = useMemo(() => accounts.filter(isRegistrarAccount), [accounts]);
 
   // Load cached domains on mount or when hydration completes
   useEffect(() => {
@@ -102,38 +39,11 @@ export function useRegistrars(): UseRegistrarsReturn {
     const cachedDomains: UnifiedDomain[] = [];
     let hasCache = false;
 
-    // Load cached Namecheap domains
-    for (const account of namecheapAccounts) {
-      if (isCacheValid('namecheapDomains', account.id)) {
-        const data = getNamecheapDomains(account.id);
-        if (data?.domains && Array.isArray(data.domains)) {
-          const unifiedDomains = data.domains.map((d) => toUnifiedDomain({ ...d, accountId: account.id }, account.id));
-          cachedDomains.push(...unifiedDomains);
-          hasCache = true;
-        }
-      }
-    }
-
-    // Load cached Njalla domains
-    for (const account of njallaAccounts) {
-      if (isCacheValid('njallaDomains', account.id)) {
-        const data = getNjallaDomains(account.id);
-        if (data?.domains && Array.isArray(data.domains)) {
-          const unifiedDomains = data.domains.map((d) => toUnifiedDomainFromNjalla({ ...d, accountId: account.id }, account.id));
-          cachedDomains.push(...unifiedDomains);
-          hasCache = true;
-        }
-      }
-    }
-
-    for (const account of dynadotAccounts) {
-      if (isCacheValid('dynadotDomains', account.id)) {
-        const data = getDynadotDomains(account.id);
+    for (const account of registrarAccounts) {
+      if (isCacheValid('registrarDomains', account.id)) {
+        const data = getRegistrarDomains(account.id);
         if (data?.domains && Array.isArray(data.domains)) {
-          const unifiedDomains = data.domains.map((d) =>
-            toUnifiedDomainFromDynadot({ ...d, accountId: account.id }, account.id)
-          );
-          cachedDomains.push(...unifiedDomains);
+          cachedDomains.push(...data.domains);
           hasCache = true;
         }
       }
@@ -142,265 +52,33 @@ export function useRegistrars(): UseRegistrarsReturn {
     if (hasCache) {
       setDomains(cachedDomains);
     }
-  }, [
-    namecheapAccounts,
-    njallaAccounts,
-    dynadotAccounts,
-    getNamecheapDomains,
-    getNjallaDomains,
-    getDynadotDomains,
-    isCacheValid,
-    _hasHydrated,
-  ]);
-
-  /**
-   * Fetches domains for a single Namecheap account.
-   */
-  const fetchNamecheapAccountDomains = useCallback(
-    async (account: NamecheapAccount): Promise<FetchResult> => {
-      if (!account.proxyId) {
-        return {
-          accountId: account.id,
-          registrar: 'namecheap',
-          domains: [],
-          error: `Proxy missing for account ${account.name}`,
-        };
-      }
-
-      const proxy = proxyAccounts.find((p) => p.id === account.proxyId);
-      if (!proxy) {
-        return {
-          accountId: account.id,
-          registrar: 'namecheap',
-          domains: [],
-          error: `Proxy with ID ${account.proxyId} not found for account ${account.name}`,
-        };
-      }
-
-      const proxyHeaders: Record<string, string> = {
-        'x-proxy-host': proxy.host,
-        'x-proxy-port': proxy.port?.toString() || '',
-      };
-      if (proxy.username) proxyHeaders['x-proxy-username'] = proxy.username;
-      if (proxy.password) proxyHeaders['x-proxy-password'] = proxy.password;
-
-      const headers: Record<string, string> = {
-        'x-account-id': account.id,
-        'x-api-user': account.apiUser,
-        'x-api-key': account.apiKey,
-        ...proxyHeaders,
-      };
-
-      try {
-        const response = await fetch('/api/namecheap/domains', {
-          method: 'GET',
-          headers,
-        });
-
-        let data;
-        try {
-          data = await response.json();
-        } catch (jsonError) {
-          console.error(`JSON Parse error for ${account.name}`, jsonError);
-          return {
-            accountId: account.id,
-            registrar: 'namecheap',
-            domains: [],
-            error: `Invalid JSON response for ${account.name}`,
-          };
-        }
-
-        if (!response.ok) {
-          return {
-            accountId: account.id,
-            registrar: 'namecheap',
-            domains: [],
-            error: data.error || `Failed to load domains for ${account.name}`,
-          };
-        }
-
-        if (data.success && data.data && Array.isArray(data.data.domains)) {
-          setNamecheapDomains(account.id, account.name || account.email, data.data.domains);
-          const unifiedDomains = data.data.domains.map((d: NamecheapDomain) =>
-            toUnifiedDomain({ ...d, accountId: account.id }, account.id)
-          );
-          return {
-            accountId: account.id,
-            registrar: 'namecheap',
-            domains: unifiedDomains,
-          };
-        } else {
-          return {
-            accountId: account.id,
-            registrar: 'namecheap',
-            domains: [],
-          };
-        }
-      } catch (error) {
-        const errMsg = error instanceof Error ? error.message : 'Unknown network error';
-        console.error(`Network error for ${account.name}:`, error);
-        return {
-          accountId: account.id,
-          registrar: 'namecheap',
-          domains: [],
-          error: errMsg,
-        };
-      }
-    },
-    [proxyAccounts, setNamecheapDomains]
-  );
-
-  /**
-   * Fetches domains for a single Njalla account.
-   */
-  const fetchNjallaAccountDomains = useCallback(
-    async (account: NjallaAccount): Promise<FetchResult> => {
-      try {
-        const response = await fetch('/api/njalla/domains', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-njalla-key': account.apiKey,
-            'x-account-id': account.id,
-          },
-          body: JSON.stringify({
-            method: 'list-domains',
-            params: {},
-          }),
-        });
-
-        let data;
-        try {
-          data = await response.json();
-        } catch (jsonError) {
-          console.error(`JSON Parse error for ${account.name}`, jsonError);
-          return {
-            accountId: account.id,
-            registrar: 'njalla',
-            domains: [],
-            error: `Invalid JSON response for ${account.name}`,
-          };
-        }
-
-        if (!response.ok) {
-          return {
-            accountId: account.id,
-            registrar: 'njalla',
-            domains: [],
-            error: data.error || `Failed to load domains for ${account.name}`,
-          };
-        }
-
-        if (data.result && Array.isArray(data.result.domains)) {
-          const njallaDomains: NjallaDomain[] = data.result.domains.map((d: any) => ({
-            name: d.name,
-            status: d.status,
-            expiry: d.expiry,
-            autorenew: d.autorenew,
-            registrar: 'njalla' as const,
-            accountId: account.id,
-          }));
-
-          setNjallaDomains(account.id, account.name || account.email, njallaDomains);
-          const unifiedDomains = njallaDomains.map((d) => toUnifiedDomainFromNjalla(d, account.id));
-          return {
-            accountId: account.id,
-            registrar: 'njalla',
-            domains: unifiedDomains,
-          };
-        } else {
-          return {
-            accountId: account.id,
-            registrar: 'njalla',
-            domains: [],
-          };
-        }
-      } catch (error) {
-        const errMsg = error instanceof Error ? error.message : 'Unknown network error';
-        console.error(`Network error for ${account.name}:`, error);
-        return {
-          accountId: account.id,
-          registrar: 'njalla',
-          domains: [],
-          error: errMsg,
-        };
-      }
-    },
-    [setNjallaDomains]
-  );
+  }, [registrarAccounts, getRegistrarDomains, isCacheValid, _hasHydrated]);
 
   /**
-   * Fetches domains for a single Dynadot account.
+   * Fetches domains for a single registrar account through its adapter.
    */
-  const fetchDynadotAccountDomains = useCallback(
-    async (account: DynadotAccount): Promise<FetchResult> => {
+  const fetchAccountDomains = useCallback(
+    async (account: CloudflareAccount): Promise<FetchResult> => {
+      const accountName = account.name || account.email;
       try {
-        const response = await fetch('/api/dynadot/domains', {
-          method: 'GET',
-          headers: {
-            'x-account-id': account.id,
-            'x-account-email': account.email,
-            'x-account-name': account.name || account.email,
-            'x-api-key': account.apiKey,
-          },
-        });
-
-        let data;
-        try {
-          data = await response.json();
-        } catch (jsonError) {
-          console.error(`JSON Parse error for ${account.name}`, jsonError);
-          return {
-            accountId: account.id,
-            registrar: 'dynadot',
-            domains: [],
-            error: `Invalid JSON response for ${account.name}`,
-          };
-        }
-
-        if (!response.ok) {
-          return {
-            accountId: account.id,
-            registrar: 'dynadot',
-            domains: [],
-            error: data.error || `Failed to load domains for ${account.name}`,
-          };
-        }
-
-        if (data.success && data.data && Array.isArray(data.data.domains)) {
-          setDynadotDomains(account.id, account.name || account.email, data.data.domains);
-          const unifiedDomains = data.data.domains.map((d: DynadotDomain) =>
-            toUnifiedDomainFromDynadot({ ...d, accountId: account.id }, account.id)
-          );
-          return {
-            accountId: account.id,
-            registrar: 'dynadot',
-            domains: unifiedDomains,
-          };
-        }
-
-        return {
-          accountId: account.id,
-          registrar: 'dynadot',
-          domains: [],
-        };
+        const accountDomains = await registrarRequest<UnifiedDomain[]>(account, proxyAccounts, 'domains');
+        setRegistrarDomains(account.id, accountName, account.registrarName!, accountDomains);
+        return { accountId: account.id, domains: accountDomains };
       } catch (error) {
-        const errMsg = error instanceof Error ? error.message : 'Unknown network error';
-        console.error(`Network error for ${account.name}:`, error);
+        console.error(`Error loading domains for ${accountName}:`, error);
         return {
           accountId: account.id,
-          registrar: 'dynadot',
           domains: [],
-          error: errMsg,
+          error: error instanceof Error ? error.message : `Failed to load domains for ${accountName}`,
         };
       }
     },
-    [setDynadotDomains]
+    [proxyAccounts, setRegistrarDomains]
   );
 
   const loadDomains = useCallback(
     async (force = false) => {
-      if (namecheapAccounts.length === 0 && njallaAccounts.length === 0 && dynadotAccounts.length === 0) {
+      if (registrarAccounts.length === 0) {
         setDomains([]);
         return;
       }
@@ -409,22 +87,11 @@ export function useRegistrars(): UseRegistrarsReturn {
       setLoadingState(true);
 
       try {
-        const namecheapResults = await processInParallel(
-          namecheapAccounts,
-          fetchNamecheapAccountDomains,
+        const results = await processInParallel(
+          registrarAccounts,
+          fetchAccountDomains,
           3 // Limit concurrency
         );
-        const njallaResults = await processInParallel(
-          njallaAccounts,
-          fetchNjallaAccountDomains,
-          3 // Limit concurrency
-        );
-        const dynadotResults = await processInParallel(
-          dynadotAccounts,
-          fetchDynadotAccountDomains,
-          3 // Limit concurrency
-        );
-        const results = [...namecheapResults, ...njallaResults, ...dynadotResults];
 
         const allDomains: UnifiedDomain[] = [];
         const errors: string[] = [];
@@ -455,36 +122,18 @@ export function useRegistrars(): UseRegistrarsReturn {
         setLoadingState(false);
       }
     },
-    [
-      namecheapAccounts,
-      njallaAccounts,
-      dynadotAccounts,
-      fetchNamecheapAccountDomains,
-      fetchNjallaAccountDomains,
-      fetchDynadotAccountDomains,
-      domains.length,
-    ]
+    [registrarAccounts, fetchAccountDomains, domains.length]
   );
 
   const refreshAccount = useCallback(
     async (accountId: string) => {
-      const namecheapAccount = namecheapAccounts.find((a) => a.id === accountId);
-      const njallaAccount = njallaAccounts.find((a) => a.id === accountId);
-      const dynadotAccount = dynadotAccounts.find((a) => a.id === accountId);
-
-      if (!namecheapAccount && !njallaAccount && !dynadotAccount) return;
+      const account = registrarAccounts.find((a) => a.id === accountId);
+      if (!account) return;
 
+      const accountName = account.name || account.email;
       setIsRefreshing(true);
       try {
-        let result: FetchResult;
-
-        if (namecheapAccount) {
-          result = await fetchNamecheapAccountDomains(namecheapAccount);
-        } else if (dynadotAccount) {
-          result = await fetchDynadotAccountDomains(dynadotAccount);
-        } else {
-          result = await fetchNjallaAccountDomains(njallaAccount!);
-        }
+        const result = await fetchAccountDomains(account);
 
         if (result.error) {
           toast.error(result.error);
@@ -493,10 +142,10 @@ export function useRegistrars(): UseRegistrarsReturn {
             const filtered = prev.filter((d) => d.accountId !== accountId);
             return [...filtered, ...result.domains];
           });
-          toast.success(`Loaded ${result.domains.length} domains for ${namecheapAccount?.name || njallaAccount?.name || dynadotAccount?.name}`);
+          toast.success(`Loaded ${result.domains.length} domains for ${accountName}`);
         } else {
           setDomains((prev) => prev.filter((d) => d.accountId !== accountId));
-          toast.info(`No domains found for ${namecheapAccount?.name || njallaAccount?.name || dynadotAccount?.name}`);
+          toast.info(`No domains found for ${accountName}`);
         }
       } catch (error) {
         console.error('Error refreshing account:', error);
@@ -505,23 +154,14 @@ export function useRegistrars(): UseRegistrarsReturn {
         setIsRefreshing(false);
       }
     },
-    [
-      namecheapAccounts,
-      njallaAccounts,
-      dynadotAccounts,
-      fetchNamecheapAccountDomains,
-      fetchNjallaAccountDomains,
-      fetchDynadotAccountDomains,
-    ]
+    [registrarAccounts, fetchAccountDomains]
   );
 
   return {
     domains,
     isLoading,
     isRefreshing,
-    namecheapAccounts,
-    njallaAccounts,
-    dynadotAccounts,
+    registrarAccounts,
     loadDomains,
     refreshAccount,
   };
@@ -47,7 +47,7 @@ export function useRootARecord({ zoneId, accountId, onSuccess }: UseRootARecordO
 		setIsProcessing(true);
 
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 			await api.createDNSRecord(zoneId!, {
 				type: 'A',
 				name: '@',
@@ -80,7 +80,7 @@ export function useRootARecord({ zoneId, accountId, onSuccess }: UseRootARecordO
 		setIsProcessing(true);
 
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 			await api.updateDNSRecord(zoneId!, recordId, {
 				type: 'A',
 				name: '@',
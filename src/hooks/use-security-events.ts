@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { formatCloudflareError, processInParallel } from '@/lib/utils';
+import type { AnalyticsZone } from '@/hooks/use-zone-analytics';
+import type { SecurityEvent, SecurityEventFilters, SecurityEventRuleSummary, SecurityEventsRange, ZoneSecurityEvents } from '@/types/cloudflare';
+
+export interface ZoneSecurityEvent extends SecurityEvent {
+  zoneId: string;
+  zoneName: string;
+}
+
+/**
+ * Loads security events for one or more zones and merges them, newest first.
+ * Rules are summed across zones so a rule shared by every zone (e.g. the default
+ * "Skip known bots" rule) shows up once with its total.
+ */
+export function useSecurityEvents(
+  zones: AnalyticsZone[],
+  range: SecurityEventsRange,
+  filters: SecurityEventFilters,
+  enabled: boolean
+) {
+  const { accounts } = useAccountStore();
+  const [results, setResults] = useState<Record<string, ZoneSecurityEvents>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const requestIdRef = useRef(0);
+
+  const zoneKey = zones.map(zone => `${zone.accountId}-${zone.zoneId}`).join(',');
+  const filterKey = JSON.stringify(filters);
+
+  const load = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setResults({});
+    setErrors({});
+
+    await processInParallel(zones, async (zone) => {
+      const account = accounts.find(acc => acc.id === zone.accountId);
+      try {
+        if (!account) throw new Error('Account not found');
+        const events = await new CloudflareAPI(account).getSecurityEvents(zone.zoneId, range, filters);
+        // A newer range, filter or zone selection has started loading; drop this result
+        if (requestId !== requestIdRef.current) return;
+        setResults(prev => ({ ...prev, [zone.zoneId]: events }));
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        setErrors(prev => ({ ...prev, [zone.zoneId]: formatCloudflareError(error) }));
+      }
+    }, 4);
+
+    if (requestId === requestIdRef.current) setIsLoading(false);
+    // zoneKey and filterKey stand in for zones and filters, which are new objects on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoneKey, range, filterKey, accounts]);
+
+  useEffect(() => {
+    if (enabled && zones.length > 0) {
+      load();
+    }
+  }, [enabled, zones.length, load]);
+
+  const events = useMemo(() => {
+    const zoneNames = new Map(zones.map(zone => [zone.zoneId, zone.zoneName]));
+    return Object.entries(results)
+      .flatMap(([zoneId, result]) => result.events.map(event => ({ ...event, zoneId, zoneName: zoneNames.get(zoneId) ?? zoneId })))
+      .sort((a, b) => b.datetime.localeCompare(a.datetime));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [results, zoneKey]);
+
+  const rules = useMemo(() => {
+    const merged = new Map<string, SecurityEventRuleSummary>();
+    Object.values(results).forEach(result => {
+      result.rules.forEach(rule => {
+        const key = `${rule.action}|${rule.source}|${rule.ruleId}|${rule.description}`;
+        const existing = merged.get(key);
+        if (existing) {
+          existing.count += rule.count;
+        } else {
+          merged.set(key, { ...rule });
+        }
+      });
+    });
+    return Array.from(merged.values()).sort((a, b) => b.count - a.count);
+  }, [results]);
+
+  return { events, rules, errors, isLoading, reload: load };
+}
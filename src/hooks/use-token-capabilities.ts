@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { introspectToken, canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { formatCloudflareError } from '@/lib/utils';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import type { CloudflareAccount, TokenCapability } from '@/types/cloudflare';
+
+/**
+ * Capabilities of one credential's token, introspected on first use. Capabilities that have
+ * not been checked yet are treated as available.
+ */
+export function useTokenCapabilities(accountId: string | undefined) {
+  const introspection = useCloudflareCache((s) => (accountId ? s.tokenCapabilities[accountId] : undefined));
+  const account = useAccountStore((s) => s.accounts.find(acc => acc.id === accountId));
+
+  useEffect(() => {
+    if (account?.category === 'cloudflare' && !introspection) {
+      void loadTokenCapabilities(account);
+    }
+  }, [account, introspection]);
+
+  const can = useCallback(
+    (capability: TokenCapability) => canPerform(introspection, capability),
+    [introspection]
+  );
+
+  // Tooltip text for disabled actions
+  const reason = useCallback(
+    (capability: TokenCapability) => (canPerform(introspection, capability) ? undefined : getMissingCapabilityMessage(capability)),
+    [introspection]
+  );
+
+  return { introspection, can, reason };
+}
+
+export function useTokenIntrospection() {
+  const [checking, setChecking] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const check = useCallback(async (account: CloudflareAccount) => {
+    setChecking(prev => ({ ...prev, [account.id]: true }));
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[account.id];
+      return next;
+    });
+
+    try {
+      const introspection = await introspectToken(account);
+      useCloudflareCache.getState().setTokenCapabilities(account.id, introspection);
+    } catch (error) {
+      setErrors(prev => ({ ...prev, [account.id]: formatCloudflareError(error) }));
+    } finally {
+      setChecking(prev => ({ ...prev, [account.id]: false }));
+    }
+  }, []);
+
+  return { check, checking, errors };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { mergeZoneAnalytics } from '@/lib/cloudflare-analytics';
+import { formatCloudflareError, processInParallel } from '@/lib/utils';
+import type { AnalyticsRange, ZoneAnalytics } from '@/types/cloudflare';
+
+export interface AnalyticsZone {
+  zoneId: string;
+  zoneName: string;
+  accountId: string;
+}
+
+/**
+ * Loads analytics for one or more zones over a range and merges them into a combined view.
+ * Nothing is cached: analytics go stale within the hour and the dialog is opened on demand.
+ */
+export function useZoneAnalytics(zones: AnalyticsZone[], range: AnalyticsRange, enabled: boolean) {
+  const { accounts } = useAccountStore();
+  const [results, setResults] = useState<Record<string, ZoneAnalytics>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const requestIdRef = useRef(0);
+
+  const zoneKey = zones.map(zone => `${zone.accountId}-${zone.zoneId}`).join(',');
+
+  const load = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setResults({});
+    setErrors({});
+
+    await processInParallel(zones, async (zone) => {
+      const account = accounts.find(acc => acc.id === zone.accountId);
+      try {
+        if (!account) throw new Error('Account not found');
+        const analytics = await new CloudflareAPI(account).getZoneAnalytics(zone.zoneId, range);
+        // A newer range or zone selection has started loading; drop this result
+        if (requestId !== requestIdRef.current) return;
+        setResults(prev => ({ ...prev, [zone.zoneId]: analytics }));
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        setErrors(prev => ({ ...prev, [zone.zoneId]: formatCloudflareError(error) }));
+      }
+    }, 4);
+
+    if (requestId === requestIdRef.current) setIsLoading(false);
+    // zoneKey stands in for zones, which is a new array on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoneKey, range, accounts]);
+
+  useEffect(() => {
+    if (enabled && zones.length > 0) {
+      load();
+    }
+  }, [enabled, zones.length, load]);
+
+  const combined = useMemo(
+    () => mergeZoneAnalytics(Object.values(results), range),
+    [results, range]
+  );
+
+  return { results, errors, combined, isLoading, reload: load };
+}
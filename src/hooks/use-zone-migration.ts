@@ -0,0 +1,240 @@
+import { useCallback, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { CloudflareAPI, DEFAULT_ZONE_SETTINGS } from '@/lib/cloudflare-api';
+import { setRegistrarNameserversWithVerification } from '@/lib/registrar-nameservers';
+import { formatCloudflareError } from '@/lib/utils';
+import {
+	MIGRATION_STEPS,
+	MIGRATION_STEP_ORDER,
+	downloadZoneSnapshot,
+	isReplayableRecord,
+	type MigrationStepKey,
+	type ZoneSnapshot,
+} from '@/lib/zone-migration';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import type { ConfigurationStep } from '@/components/configuration-console';
+import type { CloudflareAccount, ProxyAccount, Zone, ZoneSettingsValues } from '@/types/cloudflare';
+
+interface UseZoneMigrationOptions {
+	zone: { id: string; name: string };
+	sourceAccount?: CloudflareAccount;
+	targetAccount?: CloudflareAccount;
+	targetCloudflareAccountId: string;
+	registrarAccount?: CloudflareAccount;
+	proxyAccounts: ProxyAccount[];
+}
+
+export function useZoneMigration({
+	zone,
+	sourceAccount,
+	targetAccount,
+	targetCloudflareAccountId,
+	registrarAccount,
+	proxyAccounts,
+}: UseZoneMigrationOptions) {
+	const { setDomainNameservers } = useAccountStore();
+	const [steps, setSteps] = useState<ConfigurationStep[]>([]);
+	const [snapshot, setSnapshot] = useState<ZoneSnapshot | null>(null);
+	const [targetZone, setTargetZone] = useState<Zone | null>(null);
+	const [isRunning, setIsRunning] = useState(false);
+
+	// Refs so a retry picks up where the previous run stopped
+	const snapshotRef = useRef<ZoneSnapshot | null>(null);
+	const snapshotDownloadedRef = useRef(false);
+	const targetZoneRef = useRef<Zone | null>(null);
+	const sourceDeletedRef = useRef(false);
+	const replayedRecordIdsRef = useRef<Set<string>>(new Set());
+	const stepKeysRef = useRef<MigrationStepKey[]>([]);
+
+	const setStepState = (key: MigrationStepKey, status: ConfigurationStep['status'], error?: string, variable?: string) => {
+		setSteps(prev => prev.map(step =>
+			step.name === MIGRATION_STEPS[key]
+				? { ...step, status, error, variable: variable ?? step.variable }
+				: step
+		));
+	};
+
+	const runStep = async (key: MigrationStepKey): Promise<string | undefined> => {
+		if (!sourceAccount || !targetAccount) {
+			throw new Error('Source or target credential not found');
+		}
+		const sourceAPI = new CloudflareAPI(sourceAccount);
+		const targetAPI = new CloudflareAPI(targetAccount);
+
+		switch (key) {
+			case 'snapshot': {
+				const [records, settings] = await Promise.all([
+					sourceAPI.getDNSRecords(zone.id),
+					sourceAPI.getZoneSettings(zone.id),
+				]);
+				const taken: ZoneSnapshot = {
+					zoneName: zone.name,
+					sourceZoneId: zone.id,
+					sourceAccountId: sourceAccount.id,
+					records,
+					settings,
+					takenAt: new Date().toISOString(),
+				};
+				snapshotRef.current = taken;
+				snapshotDownloadedRef.current = false;
+				replayedRecordIdsRef.current = new Set();
+				setSnapshot(taken);
+				return `${records.length} records`;
+			}
+
+			case 'deleteSource': {
+				if (!snapshotRef.current) throw new Error('Take a snapshot first');
+				// The snapshot is the only copy of the records once the source is gone, so save it to disk first
+				if (!snapshotDownloadedRef.current) {
+					downloadZoneSnapshot(snapshotRef.current);
+					snapshotDownloadedRef.current = true;
+				}
+				await sourceAPI.deleteZone(zone.id);
+				sourceDeletedRef.current = true;
+				return undefined;
+			}
+
+			case 'createTarget': {
+				const created = await targetAPI.createZone(zone.name, targetCloudflareAccountId);
+				targetZoneRef.current = created;
+				setTargetZone(created);
+				if (created.name_servers.length > 0) {
+					setDomainNameservers(zone.name, created.name_servers);
+				}
+				return created.name_servers.join(', ');
+			}
+
+			case 'replayRecords': {
+				const taken = snapshotRef.current;
+				const created = targetZoneRef.current;
+				if (!taken || !created) throw new Error('Target zone has not been created');
+
+				const records = taken.records.filter(record => isReplayableRecord(record, zone.name));
+				const failures: string[] = [];
+				for (const record of records) {
+					if (replayedRecordIdsRef.current.has(record.id)) continue;
+					try {
+						await targetAPI.createDNSRecord(created.id, record);
+						replayedRecordIdsRef.current.add(record.id);
+					} catch (error) {
+						failures.push(`${record.type} ${record.name}: ${formatCloudflareError(error)}`);
+					}
+				}
+
+				if (failures.length > 0) {
+					throw new Error(`${failures.length} of ${records.length} records failed. ${failures.join('; ')}`);
+				}
+				return `${records.length} records`;
+			}
+
+			case 'applySettings': {
+				const taken = snapshotRef.current;
+				const created = targetZoneRef.current;
+				if (!taken || !created) throw new Error('Target zone has not been created');
+
+				const only = Object.keys(taken.settings) as (keyof ZoneSettingsValues)[];
+				if (only.length === 0) return 'nothing to apply';
+
+				const result = await targetAPI.applyZoneSettings(
+					created.id,
+					{ ...DEFAULT_ZONE_SETTINGS, ...taken.settings },
+					undefined,
+					only
+				);
+				if (result.failureCount > 0) {
+					throw new Error(`Failed to apply: ${result.errors.join(', ')}`);
+				}
+				return `${result.successCount} settings`;
+			}
+
+			case 'nameservers': {
+				const created = targetZoneRef.current;
+				if (!registrarAccount) throw new Error('Registrar account not found');
+				if (!created?.name_servers.length) throw new Error('Target zone has no nameservers');
+				await setRegistrarNameserversWithVerification(zone.name, created.name_servers, registrarAccount, proxyAccounts);
+				return registrarAccount.registrarName;
+			}
+		}
+	};
+
+	const runFrom = async (startKey: MigrationStepKey) => {
+		const keys = stepKeysRef.current;
+		const startIndex = keys.indexOf(startKey);
+		if (startIndex === -1) return;
+
+		setIsRunning(true);
+		try {
+			for (const key of keys.slice(startIndex)) {
+				setStepState(key, 'processing');
+				try {
+					const variable = await runStep(key);
+					setStepState(key, 'success', undefined, variable);
+				} catch (error) {
+					console.error(`Zone migration step "${key}" failed:`, error);
+					setStepState(key, 'error', formatCloudflareError(error));
+					toast.error(`${zone.name}: ${MIGRATION_STEPS[key]} failed`);
+					return;
+				}
+			}
+			toast.success(`${zone.name} moved to ${targetAccount?.name || targetAccount?.email || 'the target account'}`);
+		} finally {
+			setIsRunning(false);
+		}
+	};
+
+	const start = async () => {
+		const keys = MIGRATION_STEP_ORDER.filter(key => key !== 'nameservers' || !!registrarAccount);
+		stepKeysRef.current = keys;
+		snapshotRef.current = null;
+		snapshotDownloadedRef.current = false;
+		targetZoneRef.current = null;
+		sourceDeletedRef.current = false;
+		replayedRecordIdsRef.current = new Set();
+		setSnapshot(null);
+		setTargetZone(null);
+		setSteps(keys.map(key => ({ name: MIGRATION_STEPS[key], status: 'pending' })));
+		await runFrom(keys[0]);
+	};
+
+	const retryStep = async (_domain: string | undefined, step: ConfigurationStep) => {
+		const key = stepKeysRef.current.find(candidate => MIGRATION_STEPS[candidate] === step.name);
+		if (!key || isRunning) return;
+		await runFrom(key);
+	};
+
+	/**
+	 * Mirrors whatever the migration got through into the zone cache. Called when the dialog closes,
+	 * because dropping the source zone earlier would unmount the row that hosts the dialog.
+	 */
+	const syncCache = useCallback(async () => {
+		const cache = useCloudflareCache.getState();
+		if (sourceDeletedRef.current && sourceAccount) {
+			cache.removeZone(zone.id, sourceAccount.id);
+		}
+
+		const created = targetZoneRef.current;
+		if (created && targetAccount) {
+			cache.addZone(created, targetAccount.id, targetAccount.name || 'Unnamed Account');
+			try {
+				const records = await new CloudflareAPI(targetAccount).getDNSRecords(created.id);
+				cache.setDNSRecords(created.id, targetAccount.id, records);
+			} catch (error) {
+				console.error('Failed to refresh DNS records for migrated zone:', error);
+			}
+		}
+	}, [zone.id, sourceAccount, targetAccount]);
+
+	return {
+		steps,
+		snapshot,
+		targetZone,
+		isRunning,
+		hasStarted: steps.length > 0,
+		sourceDeleted: steps.some(step => step.name === MIGRATION_STEPS.deleteSource && step.status === 'success'),
+		isComplete: steps.length > 0 && steps.every(step => step.status === 'success'),
+		start,
+		retryStep,
+		syncCache,
+	};
+}
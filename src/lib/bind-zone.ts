@@ -0,0 +1,431 @@
+import type { DNSRecord } from '@/types/cloudflare';
+
+/**
+ * A record parsed from a BIND zone file, normalized to the shape
+ * accepted by CloudflareAPI.createDNSRecord / updateDNSRecord
+ */
+export interface ZoneFileRecord {
+  type: DNSRecord['type'];
+  name: string; // Fully qualified, without trailing dot
+  content: string;
+  ttl: number;
+  proxied: boolean;
+  priority?: number;
+  data?: Record<string, string | number>;
+  line: number; // 1-based line number in the source file
+}
+
+export interface ZoneFileParseError {
+  line: number;
+  message: string;
+}
+
+export interface ZoneFileParseResult {
+  records: ZoneFileRecord[];
+  skipped: { line: number; type: string; reason: string }[];
+  errors: ZoneFileParseError[];
+}
+
+export type ZoneImportAction = 'create' | 'update' | 'skip';
+
+export interface ZoneImportPlanItem {
+  action: ZoneImportAction;
+  record: ZoneFileRecord;
+  existing?: DNSRecord;
+  reason?: string;
+}
+
+const SUPPORTED_TYPES: DNSRecord['type'][] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR', 'SRV', 'CAA'];
+// Record types where only a single record may exist per name
+const SINGLE_VALUE_TYPES: DNSRecord['type'][] = ['CNAME'];
+const HOSTNAME_TYPES: DNSRecord['type'][] = ['CNAME', 'NS', 'PTR'];
+const CLASSES = ['IN', 'CH', 'HS', 'CS'];
+
+const trimDot = (value: string) => value.replace(/\.$/, '');
+
+const toFQDN = (value: string) => (value.endsWith('.') ? value : `${value}.`);
+
+/**
+ * Parse a BIND TTL value, including unit suffixes (e.g. "1h30m", "1d")
+ */
+function parseTTL(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  const regex = /(\d+)([smhdw])/gi;
+  let total = 0;
+  let consumed = '';
+  let match;
+  while ((match = regex.exec(value)) !== null) {
+    total += parseInt(match[1], 10) * units[match[2].toLowerCase()];
+    consumed += match[0];
+  }
+
+  return consumed.length === value.length && consumed.length > 0 ? total : null;
+}
+
+/**
+ * Strip a trailing ";" comment from a line, ignoring semicolons inside quotes.
+ * Returns the remaining text and the comment (without the leading ";").
+ */
+function splitComment(line: string): { text: string; comment: string } {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ';' && !inQuotes) {
+      return { text: line.slice(0, i), comment: line.slice(i + 1).trim() };
+    }
+  }
+  return { text: line, comment: '' };
+}
+
+/**
+ * Split a record line into tokens, keeping quoted strings intact (with quotes)
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const regex = /"(?:[^"\\]|\\.)*"|[^\s()]+/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    tokens.push(match[0]);
+  }
+  return tokens;
+}
+
+const unquote = (value: string) =>
+  value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+
+/**
+ * Join logical lines: entries wrapped in parentheses (e.g. SOA) span several physical lines
+ */
+function joinLogicalLines(input: string): { text: string; comment: string; line: number; startsWithSpace: boolean }[] {
+  const result: { text: string; comment: string; line: number; startsWithSpace: boolean }[] = [];
+  const lines = input.replace(/\r\n?/g, '\n').split('\n');
+
+  let buffer = '';
+  let comments: string[] = [];
+  let startLine = 0;
+  let startsWithSpace = false;
+  let depth = 0;
+
+  lines.forEach((rawLine, index) => {
+    const { text, comment } = splitComment(rawLine);
+    if (depth === 0) {
+      buffer = '';
+      comments = [];
+      startLine = index + 1;
+      startsWithSpace = /^\s/.test(rawLine);
+    }
+
+    buffer += ` ${text}`;
+    if (comment) comments.push(comment);
+
+    for (const char of text.replace(/"(?:[^"\\]|\\.)*"/g, '')) {
+      if (char === '(') depth++;
+      if (char === ')') depth = Math.max(0, depth - 1);
+    }
+
+    if (depth === 0 && buffer.trim().length > 0) {
+      result.push({ text: buffer, comment: comments.join(' '), line: startLine, startsWithSpace });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Build record content in the format Cloudflare expects for the given type
+ */
+function buildRecordContent(
+  type: DNSRecord['type'],
+  rdata: string[],
+  origin: string
+): Pick<ZoneFileRecord, 'content' | 'priority' | 'data'> {
+  const expandHost = (value: string) => {
+    if (value === '@') return trimDot(origin);
+    return value.endsWith('.') ? trimDot(value) : `${value}.${trimDot(origin)}`;
+  };
+
+  switch (type) {
+    case 'A':
+    case 'AAAA':
+      if (rdata.length !== 1) throw new Error(`${type} record expects a single address`);
+      return { content: rdata[0] };
+
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+      if (rdata.length !== 1) throw new Error(`${type} record expects a single hostname`);
+      return { content: expandHost(rdata[0]) };
+
+    case 'MX': {
+      const priority = parseInt(rdata[0], 10);
+      if (rdata.length !== 2 || Number.isNaN(priority)) throw new Error('MX record expects "<priority> <exchange>"');
+      return { content: expandHost(rdata[1]), priority };
+    }
+
+    case 'TXT':
+      if (rdata.length === 0) throw new Error('TXT record has no value');
+      // Multiple character-strings are concatenated into a single value
+      return { content: rdata.map(unquote).join('') };
+
+    case 'SRV': {
+      const [priority, weight, port, target] = rdata.map((value, i) => (i < 3 ? parseInt(value, 10) : value));
+      if (rdata.length !== 4 || [priority, weight, port].some(v => Number.isNaN(v))) {
+        throw new Error('SRV record expects "<priority> <weight> <port> <target>"');
+      }
+      const targetHost = expandHost(String(target));
+      return {
+        content: `${weight} ${port} ${targetHost}`,
+        priority: priority as number,
+        data: { priority: priority as number, weight: weight as number, port: port as number, target: targetHost },
+      };
+    }
+
+    case 'CAA': {
+      const flags = parseInt(rdata[0], 10);
+      if (rdata.length < 3 || Number.isNaN(flags)) throw new Error('CAA record expects "<flags> <tag> <value>"');
+      const value = unquote(rdata.slice(2).join(' '));
+      return {
+        content: `${flags} ${rdata[1]} "${value}"`,
+        data: { flags, tag: rdata[1], value },
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported record type ${type}`);
+  }
+}
+
+/**
+ * Parse a BIND zone file into Cloudflare-compatible records.
+ * Supports $ORIGIN/$TTL directives, relative and absolute owner names, "@",
+ * blank owners (repeat previous owner), TTL unit suffixes and multi-line entries.
+ * Cloudflare's own "cf_tags=cf-proxied:true" comment is honored for the proxy flag.
+ * SOA records and unsupported types are reported as skipped.
+ */
+export function parseBindZone(input: string, zoneName: string): ZoneFileParseResult {
+  const records: ZoneFileRecord[] = [];
+  const skipped: ZoneFileParseResult['skipped'] = [];
+  const errors: ZoneFileParseError[] = [];
+
+  let origin = toFQDN(zoneName);
+  let defaultTTL = 1;
+  let previousOwner = origin;
+
+  for (const entry of joinLogicalLines(input)) {
+    const tokens = tokenize(entry.text);
+    if (tokens.length === 0) continue;
+
+    const directive = tokens[0].toUpperCase();
+    if (directive === '$ORIGIN') {
+      if (tokens[1]) origin = toFQDN(tokens[1]);
+      continue;
+    }
+    if (directive === '$TTL') {
+      const ttl = tokens[1] ? parseTTL(tokens[1]) : null;
+      if (ttl === null) {
+        errors.push({ line: entry.line, message: `Invalid $TTL value "${tokens[1] ?? ''}"` });
+      } else {
+        defaultTTL = ttl;
+      }
+      continue;
+    }
+    if (directive.startsWith('$')) {
+      skipped.push({ line: entry.line, type: directive, reason: 'Directive not supported' });
+      continue;
+    }
+
+    // Owner name is omitted when the line starts with whitespace
+    let owner = previousOwner;
+    let index = 0;
+    if (!entry.startsWithSpace) {
+      const rawOwner = tokens[0];
+      owner = rawOwner === '@' ? origin : rawOwner.endsWith('.') ? rawOwner : `${rawOwner}.${origin}`;
+      index = 1;
+    }
+    previousOwner = owner;
+
+    // TTL and class may appear in either order
+    let ttl = defaultTTL;
+    for (let i = 0; i < 2 && index < tokens.length; i++) {
+      const token = tokens[index];
+      const parsedTTL = parseTTL(token);
+      if (parsedTTL !== null) {
+        ttl = parsedTTL;
+        index++;
+      } else if (CLASSES.includes(token.toUpperCase())) {
+        index++;
+      }
+    }
+
+    const type = tokens[index]?.toUpperCase();
+    const rdata = tokens.slice(index + 1);
+
+    if (!type) {
+      errors.push({ line: entry.line, message: 'Missing record type' });
+      continue;
+    }
+    if (type === 'SOA') {
+      skipped.push({ line: entry.line, type, reason: 'SOA is managed by Cloudflare' });
+      continue;
+    }
+    if (!SUPPORTED_TYPES.includes(type as DNSRecord['type'])) {
+      skipped.push({ line: entry.line, type, reason: 'Record type not supported' });
+      continue;
+    }
+
+    try {
+      const name = trimDot(owner);
+      const recordType = type as DNSRecord['type'];
+      const proxiable = recordType === 'A' || recordType === 'AAAA' || recordType === 'CNAME';
+
+      if (recordType === 'NS' && name === trimDot(toFQDN(zoneName))) {
+        skipped.push({ line: entry.line, type, reason: 'Apex NS records are managed by Cloudflare' });
+        continue;
+      }
+
+      records.push({
+        type: recordType,
+        name,
+        ...buildRecordContent(recordType, rdata, origin),
+        // Cloudflare treats TTL 1 as "automatic"; anything below 60 is rejected
+        ttl: ttl < 60 ? 1 : ttl,
+        proxied: proxiable && /cf-proxied:true/i.test(entry.comment),
+        line: entry.line,
+      });
+    } catch (error) {
+      errors.push({ line: entry.line, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { records, skipped, errors };
+}
+
+const normalizeContent = (record: { type: string; content: string }) => {
+  let content = record.content.trim();
+  if (record.type === 'TXT') {
+    content = unquote(content);
+  }
+  if (HOSTNAME_TYPES.includes(record.type as DNSRecord['type']) || record.type === 'MX') {
+    content = trimDot(content).toLowerCase();
+  }
+  return content;
+};
+
+/**
+ * Compare parsed zone file records against the records currently in the zone
+ * and decide which ones get created, updated or skipped.
+ */
+export function planZoneImport(records: ZoneFileRecord[], existingRecords: DNSRecord[]): ZoneImportPlanItem[] {
+  const claimed = new Set<string>();
+
+  return records.map((record) => {
+    const sameNameAndType = existingRecords.filter(
+      existing => existing.type === record.type && existing.name.toLowerCase() === record.name.toLowerCase()
+    );
+
+    const identical = sameNameAndType.find(
+      existing => !claimed.has(existing.id) &&
+        normalizeContent(existing) === normalizeContent(record) &&
+        (record.type !== 'MX' || existing.priority === record.priority)
+    );
+
+    if (identical) {
+      claimed.add(identical.id);
+      if (identical.ttl === record.ttl && identical.proxied === record.proxied) {
+        return { action: 'skip', record, existing: identical, reason: 'Identical record exists' };
+      }
+      return { action: 'update', record, existing: identical, reason: 'TTL or proxy status differs' };
+    }
+
+    if (SINGLE_VALUE_TYPES.includes(record.type)) {
+      const existing = sameNameAndType.find(item => !claimed.has(item.id));
+      if (existing) {
+        claimed.add(existing.id);
+        return { action: 'update', record, existing, reason: `Replaces ${existing.content}` };
+      }
+
+      const conflicting = existingRecords.find(
+        item => item.name.toLowerCase() === record.name.toLowerCase() && item.type !== record.type
+      );
+      if (conflicting) {
+        return { action: 'skip', record, reason: `Conflicts with existing ${conflicting.type} record` };
+      }
+    }
+
+    return { action: 'create', record };
+  });
+}
+
+/**
+ * Render DNS records as a BIND zone file. Proxied records carry
+ * Cloudflare's "cf_tags=cf-proxied:true" comment so they round-trip on import.
+ */
+export function exportBindZone(zoneName: string, records: DNSRecord[]): string {
+  const origin = toFQDN(zoneName);
+  const quoteTXT = (value: string) => {
+    const unquoted = unquote(value);
+    // Split long values into 255-byte character-strings
+    const chunks = unquoted.match(/[\s\S]{1,255}/g) || [''];
+    return chunks.map(chunk => `"${chunk.replace(/(["\\])/g, '\\$1')}"`).join(' ');
+  };
+
+  const lines = [
+    `;; Zone file for ${zoneName}`,
+    `;; Exported ${new Date().toISOString()}`,
+    `$ORIGIN ${origin}`,
+    '$TTL 3600',
+    '',
+  ];
+
+  const sorted = [...records].sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+
+  sorted.forEach((record) => {
+    const owner = toFQDN(record.name);
+    let rdata: string;
+
+    switch (record.type) {
+      case 'CNAME':
+      case 'NS':
+      case 'PTR':
+        rdata = toFQDN(record.content);
+        break;
+      case 'MX':
+        rdata = `${record.priority ?? 10} ${toFQDN(record.content)}`;
+        break;
+      case 'TXT':
+        rdata = quoteTXT(record.content);
+        break;
+      case 'SRV': {
+        const [weight, port, target] = record.content.split(/\s+/);
+        rdata = `${record.priority ?? 0} ${weight} ${port} ${toFQDN(target ?? '')}`;
+        break;
+      }
+      default:
+        rdata = record.content;
+    }
+
+    const comments: string[] = [];
+    if (record.proxiable) {
+      comments.push(`cf_tags=cf-proxied:${record.proxied ? 'true' : 'false'}`);
+    }
+    if (record.comment) {
+      comments.push(record.comment.replace(/\s+/g, ' '));
+    }
+
+    lines.push(
+      `${owner}\t${record.ttl}\tIN\t${record.type}\t${rdata}${comments.length > 0 ? ` ; ${comments.join(' ')}` : ''}`
+    );
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,193 @@
+import type { BulkRedirect, Ruleset, RulesetRule, Zone } from '@/types/cloudflare';
+
+/**
+ * Bulk Redirects: account-level lists of kind "redirect", switched on by a rule in the
+ * account's http_request_redirect ruleset that references the list by name.
+ * Reference: https://developers.cloudflare.com/rules/url-forwarding/bulk-redirects/create-api/
+ */
+
+export const BULK_REDIRECT_PHASE = 'http_request_redirect';
+
+export const BULK_REDIRECT_STATUS_CODES = [301, 302, 307, 308] as const;
+
+// Same column order as the CSV the Cloudflare dashboard imports and exports
+export const BULK_REDIRECT_CSV_COLUMNS = [
+  'source_url',
+  'target_url',
+  'status_code',
+  'preserve_query_string',
+  'include_subdomains',
+  'subpath_matching',
+  'preserve_path_suffix',
+] as const;
+
+// List names may only contain lowercase letters, numbers and underscores
+export const isValidListName = (name: string) => /^[a-z0-9_]{1,50}$/.test(name);
+
+export function getBulkRedirectRule(listName: string): RulesetRule {
+  return {
+    ref: `bulk_redirect_${listName}`,
+    description: `Bulk redirects: ${listName}`,
+    expression: `http.request.full_uri in $${listName}`,
+    action: 'redirect',
+    action_parameters: {
+      from_list: {
+        name: listName,
+        key: 'http.request.full_uri',
+      },
+    },
+    enabled: true,
+  };
+}
+
+export function findBulkRedirectRule(ruleset: Ruleset | null, listName: string): RulesetRule | undefined {
+  return ruleset?.rules.find(rule => rule.action_parameters?.from_list?.name === listName);
+}
+
+// Returns the rules to PUT on the account entrypoint with the list's rule switched on or off
+export function setBulkRedirectRuleEnabled(ruleset: Ruleset | null, listName: string, enabled: boolean): RulesetRule[] {
+  const rules = ruleset?.rules || [];
+  const existing = findBulkRedirectRule(ruleset, listName);
+
+  if (!existing) {
+    return enabled ? [...rules, getBulkRedirectRule(listName)] : rules;
+  }
+  return rules.map(rule => (rule === existing ? { ...rule, enabled } : rule));
+}
+
+export function removeBulkRedirectRule(ruleset: Ruleset | null, listName: string): RulesetRule[] {
+  const existing = findBulkRedirectRule(ruleset, listName);
+  return (ruleset?.rules || []).filter(rule => rule !== existing);
+}
+
+// Source URLs in lists have no scheme, e.g. "example.com/path"
+export function getSourceHost(sourceUrl: string): string {
+  return sourceUrl.replace(/^https?:\/\//i, '').split(/[/?#]/)[0].split(':')[0].toLowerCase();
+}
+
+/**
+ * Zones whose traffic a list can redirect: a source host equal to the zone or one of its subdomains.
+ * Sources with include_subdomains also cover zones below the source host.
+ */
+export function getAffectedZones<T extends { zone: Zone }>(redirects: BulkRedirect[], zones: T[]): T[] {
+  const hosts = new Map<string, boolean>();
+  redirects.forEach((redirect) => {
+    const host = getSourceHost(redirect.source_url);
+    hosts.set(host, (hosts.get(host) || false) || !!redirect.include_subdomains);
+  });
+
+  return zones.filter(({ zone }) => {
+    for (const [host, includeSubdomains] of hosts) {
+      if (host === zone.name || host.endsWith(`.${zone.name}`)) return true;
+      if (includeSubdomains && zone.name.endsWith(`.${host}`)) return true;
+    }
+    return false;
+  });
+}
+
+function splitCSVLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+const parseBoolean = (value: string | undefined) => ['true', '1', 'yes'].includes((value || '').toLowerCase());
+
+export interface BulkRedirectCSVResult {
+  redirects: BulkRedirect[];
+  errors: string[];
+}
+
+/**
+ * Parse "source,target[,status,preserve_query,include_subdomains,subpath_matching,preserve_path_suffix]" rows.
+ * A header row is optional; sources lose their scheme since lists reject it.
+ */
+export function parseBulkRedirectCSV(text: string): BulkRedirectCSVResult {
+  const redirects: BulkRedirect[] = [];
+  const errors: string[] = [];
+  const seenSources = new Set<string>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const cells = splitCSVLine(line);
+    if (index === 0 && cells[0].toLowerCase() === 'source_url') return;
+
+    const [source, target, status, preserveQuery, includeSubdomains, subpathMatching, preservePathSuffix] = cells;
+    const lineNumber = index + 1;
+
+    if (!source || !target) {
+      errors.push(`Line ${lineNumber}: expected source and target URL`);
+      return;
+    }
+    if (!/^https?:\/\//i.test(target)) {
+      errors.push(`Line ${lineNumber}: target must start with http:// or https://`);
+      return;
+    }
+
+    const statusCode = status ? Number(status) : 301;
+    if (!(BULK_REDIRECT_STATUS_CODES as readonly number[]).includes(statusCode)) {
+      errors.push(`Line ${lineNumber}: unsupported status code ${status}`);
+      return;
+    }
+
+    const sourceUrl = source.replace(/^https?:\/\//i, '');
+    if (seenSources.has(sourceUrl)) {
+      errors.push(`Line ${lineNumber}: duplicate source ${sourceUrl}`);
+      return;
+    }
+    seenSources.add(sourceUrl);
+
+    redirects.push({
+      source_url: sourceUrl,
+      target_url: target,
+      status_code: statusCode as BulkRedirect['status_code'],
+      preserve_query_string: parseBoolean(preserveQuery),
+      include_subdomains: parseBoolean(includeSubdomains),
+      subpath_matching: parseBoolean(subpathMatching),
+      preserve_path_suffix: parseBoolean(preservePathSuffix),
+    });
+  });
+
+  return { redirects, errors };
+}
+
+const escapeCSVCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function serializeBulkRedirectCSV(redirects: BulkRedirect[]): string {
+  const rows = redirects.map(redirect => [
+    redirect.source_url,
+    redirect.target_url,
+    String(redirect.status_code || 301),
+    String(!!redirect.preserve_query_string),
+    String(!!redirect.include_subdomains),
+    String(!!redirect.subpath_matching),
+    String(!!redirect.preserve_path_suffix),
+  ].map(escapeCSVCell).join(','));
+
+  return [BULK_REDIRECT_CSV_COLUMNS.join(','), ...rows].join('\n');
+}
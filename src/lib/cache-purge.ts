@@ -0,0 +1,46 @@
+import type { CachePurgeMode } from '@/types/cloudflare';
+
+export const CACHE_PURGE_MODES: { value: CachePurgeMode; label: string; placeholder: string }[] = [
+  { value: 'everything', label: 'Everything', placeholder: '' },
+  { value: 'files', label: 'URLs', placeholder: '/index.html\nhttps://example.com/assets/app.js' },
+  { value: 'prefixes', label: 'Prefixes', placeholder: '/blog/\nexample.com/images/' },
+  { value: 'hosts', label: 'Hostnames', placeholder: '@\nwww\ncdn.example.com' },
+];
+
+const belongsToZone = (host: string, zoneName: string) => host === zoneName || host.endsWith(`.${zoneName}`);
+
+const stripScheme = (value: string) => value.replace(/^https?:\/\//i, '');
+
+/**
+ * Expand the lines typed into the purge dialog for one zone, so the same input can run across many zones:
+ * paths ("/foo") are prefixed with the zone name, "@" and bare labels become hostnames in the zone,
+ * and absolute entries are kept only for the zone they belong to.
+ */
+export function resolvePurgeValues(mode: CachePurgeMode, lines: string[], zoneName: string): string[] {
+  if (mode === 'everything') return [];
+
+  const resolved = lines.map((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return null;
+
+    if (mode === 'hosts') {
+      const host = stripScheme(line).split('/')[0].toLowerCase();
+      if (host === '@') return zoneName;
+      if (!host.includes('.')) return `${host}.${zoneName}`;
+      return belongsToZone(host, zoneName) ? host : null;
+    }
+
+    if (line.startsWith('/')) {
+      return mode === 'files' ? `https://${zoneName}${line}` : `${zoneName}${line}`;
+    }
+
+    const host = stripScheme(line).split(/[/?#]/)[0].toLowerCase();
+    if (!belongsToZone(host, zoneName)) return null;
+
+    // Prefixes are matched without a scheme; file URLs need one
+    if (mode === 'prefixes') return stripScheme(line);
+    return /^https?:\/\//i.test(line) ? line : `https://${line}`;
+  });
+
+  return Array.from(new Set(resolved.filter((value): value is string => !!value)));
+}
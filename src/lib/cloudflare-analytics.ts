@@ -0,0 +1,227 @@
+import type { z } from 'zod';
+import type { zoneAdaptiveGroupsSchema, zoneDailyGroupSchema } from '@/lib/cloudflare-schemas';
+import type { AnalyticsRange, ZoneAnalytics, ZoneTrafficPoint, ZoneTrafficTotals } from '@/types/cloudflare';
+
+/**
+ * Queries and aggregation for Cloudflare's GraphQL analytics. The last 24 hours come from
+ * httpRequestsAdaptiveGroups, which has hourly buckets; longer ranges come from
+ * httpRequests1dGroups, which keeps daily rollups far longer than the adaptive dataset.
+ */
+
+export const ANALYTICS_RANGES: { value: AnalyticsRange; label: string; days: number }[] = [
+  { value: '24h', label: 'Last 24 hours', days: 1 },
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+];
+
+// Cache statuses Cloudflare counts as served from cache
+const CACHED_STATUSES = new Set(['hit', 'stale', 'updating', 'revalidated']);
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const ZONE_ADAPTIVE_ANALYTICS_QUERY = `
+  query ZoneAdaptiveAnalytics($zoneTag: string!, $filter: ZoneHttpRequestsAdaptiveGroupsFilter_InputObject!) {
+    viewer {
+      zones(filter: { zoneTag: $zoneTag }) {
+        series: httpRequestsAdaptiveGroups(limit: 5000, filter: $filter, orderBy: [datetimeHour_ASC]) {
+          count
+          dimensions { datetimeHour cacheStatus }
+          sum { edgeResponseBytes }
+        }
+        countries: httpRequestsAdaptiveGroups(limit: 10, filter: $filter, orderBy: [count_DESC]) {
+          count
+          dimensions { clientCountryName }
+        }
+        statusCodes: httpRequestsAdaptiveGroups(limit: 20, filter: $filter, orderBy: [count_DESC]) {
+          count
+          dimensions { edgeResponseStatus }
+        }
+      }
+    }
+  }
+`;
+
+export const ZONE_DAILY_ANALYTICS_QUERY = `
+  query ZoneDailyAnalytics($zoneTag: string!, $since: Date!, $until: Date!) {
+    viewer {
+      zones(filter: { zoneTag: $zoneTag }) {
+        httpRequests1dGroups(limit: 31, filter: { date_geq: $since, date_leq: $until }, orderBy: [date_ASC]) {
+          dimensions { date }
+          sum {
+            requests
+            cachedRequests
+            bytes
+            cachedBytes
+            countryMap { clientCountryName requests }
+            responseStatusMap { edgeResponseStatus requests }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const ZONE_REQUEST_COUNTS_QUERY = `
+  query ZoneRequestCounts($zoneTags: [string!], $since: Time!, $until: Time!) {
+    viewer {
+      zones(filter: { zoneTag_in: $zoneTags }) {
+        zoneTag
+        httpRequestsAdaptiveGroups(limit: 1, filter: { datetime_geq: $since, datetime_lt: $until, requestSource: "eyeball" }) {
+          count
+        }
+      }
+    }
+  }
+`;
+
+export type ZoneAdaptiveGroups = z.infer<typeof zoneAdaptiveGroupsSchema>;
+
+export type ZoneDailyGroup = z.infer<typeof zoneDailyGroupSchema>;
+
+const emptyTotals = (): ZoneTrafficTotals => ({ requests: 0, cachedRequests: 0, bytes: 0, cachedBytes: 0 });
+
+const addTotals = (target: ZoneTrafficTotals, source: ZoneTrafficTotals) => {
+  target.requests += source.requests;
+  target.cachedRequests += source.cachedRequests;
+  target.bytes += source.bytes;
+  target.cachedBytes += source.cachedBytes;
+};
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Time window and bucket starts for a range. Buckets without traffic are missing from the
+ * GraphQL response, so the series is built from these and filled with zeros.
+ */
+export function getAnalyticsWindow(range: AnalyticsRange, now = new Date()) {
+  if (range === '24h') {
+    const end = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS;
+    const buckets = Array.from({ length: 24 }, (_, index) => new Date(end - (23 - index) * HOUR_MS).toISOString());
+    return { since: buckets[0], until: now.toISOString(), buckets };
+  }
+
+  const days = ANALYTICS_RANGES.find(item => item.value === range)!.days;
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const buckets = Array.from({ length: days }, (_, index) => new Date(today - (days - 1 - index) * DAY_MS).toISOString());
+  return { since: toDateString(new Date(buckets[0])), until: toDateString(new Date(today)), buckets };
+}
+
+export function buildAdaptiveFilter(since: string, until: string) {
+  // Matches the dashboard, which leaves out Cloudflare's own worker and health check traffic
+  return { datetime_geq: since, datetime_lt: until, requestSource: 'eyeball' };
+}
+
+const topEntries = <K>(counts: Map<K, number>, limit: number) =>
+  Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit);
+
+export function aggregateAdaptiveGroups(groups: ZoneAdaptiveGroups, buckets: string[]): ZoneAnalytics {
+  const byHour = new Map<string, ZoneTrafficPoint>(
+    buckets.map(timestamp => [timestamp, { timestamp, ...emptyTotals() }])
+  );
+  const totals = emptyTotals();
+
+  for (const group of groups.series) {
+    const timestamp = new Date(group.dimensions.datetimeHour).toISOString();
+    const cached = CACHED_STATUSES.has(group.dimensions.cacheStatus);
+    const bytes = group.sum.edgeResponseBytes;
+    const point = byHour.get(timestamp);
+    const traffic = {
+      requests: group.count,
+      cachedRequests: cached ? group.count : 0,
+      bytes,
+      cachedBytes: cached ? bytes : 0,
+    };
+    if (point) addTotals(point, traffic);
+    addTotals(totals, traffic);
+  }
+
+  return {
+    range: '24h',
+    series: Array.from(byHour.values()),
+    totals,
+    countries: groups.countries.map(group => ({ country: group.dimensions.clientCountryName, requests: group.count })),
+    statusCodes: groups.statusCodes.map(group => ({ status: group.dimensions.edgeResponseStatus, requests: group.count })),
+  };
+}
+
+export function aggregateDailyGroups(groups: ZoneDailyGroup[], range: AnalyticsRange, buckets: string[]): ZoneAnalytics {
+  const byDay = new Map<string, ZoneTrafficPoint>(
+    buckets.map(timestamp => [timestamp.slice(0, 10), { timestamp, ...emptyTotals() }])
+  );
+  const totals = emptyTotals();
+  const countries = new Map<string, number>();
+  const statusCodes = new Map<number, number>();
+
+  for (const group of groups) {
+    const { requests, cachedRequests, bytes, cachedBytes } = group.sum;
+    const traffic = { requests, cachedRequests, bytes, cachedBytes };
+    const point = byDay.get(group.dimensions.date);
+    if (point) addTotals(point, traffic);
+    addTotals(totals, traffic);
+
+    group.sum.countryMap.forEach(item => {
+      countries.set(item.clientCountryName, (countries.get(item.clientCountryName) ?? 0) + item.requests);
+    });
+    group.sum.responseStatusMap.forEach(item => {
+      statusCodes.set(item.edgeResponseStatus, (statusCodes.get(item.edgeResponseStatus) ?? 0) + item.requests);
+    });
+  }
+
+  return {
+    range,
+    series: Array.from(byDay.values()),
+    totals,
+    countries: topEntries(countries, 10).map(([country, count]) => ({ country, requests: count })),
+    statusCodes: topEntries(statusCodes, 20).map(([status, count]) => ({ status, requests: count })),
+  };
+}
+
+/**
+ * Sums the analytics of several zones over the same range into one view.
+ */
+export function mergeZoneAnalytics(items: ZoneAnalytics[], range: AnalyticsRange): ZoneAnalytics {
+  const series = new Map<string, ZoneTrafficPoint>();
+  const totals = emptyTotals();
+  const countries = new Map<string, number>();
+  const statusCodes = new Map<number, number>();
+
+  for (const item of items) {
+    item.series.forEach(point => {
+      const existing = series.get(point.timestamp) ?? { timestamp: point.timestamp, ...emptyTotals() };
+      addTotals(existing, point);
+      series.set(point.timestamp, existing);
+    });
+    addTotals(totals, item.totals);
+    item.countries.forEach(({ country, requests }) => countries.set(country, (countries.get(country) ?? 0) + requests));
+    item.statusCodes.forEach(({ status, requests }) => statusCodes.set(status, (statusCodes.get(status) ?? 0) + requests));
+  }
+
+  return {
+    range,
+    series: Array.from(series.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    totals,
+    countries: topEntries(countries, 10).map(([country, requests]) => ({ country, requests })),
+    statusCodes: topEntries(statusCodes, 20).map(([status, requests]) => ({ status, requests })),
+  };
+}
+
+export function getCachedRatio(totals: ZoneTrafficTotals): number | null {
+  return totals.requests > 0 ? totals.cachedRequests / totals.requests : null;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB', 'PB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[unit]}`;
+}
+
+export function formatCount(count: number): string {
+  return new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 }).format(count);
+}
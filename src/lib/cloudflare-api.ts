@@ -1,3 +1,50 @@
+import { storage } from '@/lib/storage';
+import { getCloudflareRateLimitKey, recordCloudflareRateLimit, runCloudflareRateLimitedRequest } from '@/lib/cloudflare-rate-limit';
+import {
+  accountSchema,
+  botManagementSchema,
+  certificatePackSchema,
+  dnsRecordSchema,
+  emailRoutingAddressSchema,
+  emailRoutingRuleSchema,
+  emailRoutingSettingsSchema,
+  originCertificateSchema,
+  parseCloudflareList,
+  parseCloudflareResult,
+  redirectListItemSchema,
+  rulesetSchema,
+  rulesListSchema,
+  sslSettingSchema,
+  tokenPolicySchema,
+  tokenVerificationSchema,
+  tunnelIngressRuleSchema,
+  tunnelSchema,
+  zoneAdaptiveGroupsSchema,
+  zoneDailyGroupSchema,
+  zoneDNSSECSchema,
+  zoneRequestCountSchema,
+  zoneSchema,
+  zoneSecurityEventsSchema,
+  zoneSettingSchema,
+} from '@/lib/cloudflare-schemas';
+import {
+  aggregateAdaptiveGroups,
+  aggregateDailyGroups,
+  buildAdaptiveFilter,
+  getAnalyticsWindow,
+  ZONE_ADAPTIVE_ANALYTICS_QUERY,
+  ZONE_DAILY_ANALYTICS_QUERY,
+  ZONE_REQUEST_COUNTS_QUERY,
+  type ZoneAdaptiveGroups,
+  type ZoneDailyGroup,
+} from '@/lib/cloudflare-analytics';
+import {
+  buildSecurityEventsFilter,
+  getSecurityEventsWindow,
+  ZONE_SECURITY_EVENTS_QUERY,
+} from '@/lib/cloudflare-security-events';
+import { planRulesetPush } from '@/lib/rulesets';
+import type { AnalyticsRange, BotManagement, BulkRedirect, CachePurgeRequest, CloudflareAccount, CloudflareTunnel, DNSRecord, DNSRecordInput, EmailRoutingAddress, EmailRoutingRule, EmailRoutingSettings, OriginCACertificate, ProxyAccount, OriginCertificateValidity, RedirectListItem, Ruleset, RulesetPhase, RulesetRule, RulesList, SecurityEventFilters, SecurityEventsRange, SSLCertificate, SSLSetting, TokenPolicy, TokenVerification, TunnelIngressRule, Zone, ZoneAnalytics, ZoneDNSSEC, ZoneSecurityEvents, ZoneSetting, ZoneSettingsValues } from '@/types/cloudflare';
 
 /**
  * Generic pagination helper for Cloudflare API endpoints
@@ -89,6 +136,74 @@ export async function paginateCloudflareAPI(
   return allItems;
 }
 
+/**
+ * Baseline applied to newly created zones when no profile is selected
+ */
+export const DEFAULT_ZONE_SETTINGS: ZoneSettingsValues = {
+  sslMode: 'strict',
+  alwaysUseHTTPS: true,
+  hsts: true,
+  tls13: false,
+  authenticatedOriginPulls: true,
+  botFightMode: true,
+  aiBotsProtection: 'disabled',
+  skipBotsWAFRule: true,
+  earlyHints: true,
+  zeroRTT: true,
+  pseudoIPv4: 'overwrite_header',
+  emailObfuscation: false,
+};
+
+/**
+ * A single zone setting update, identified by a stable display name
+ */
+export interface ZoneSettingStep {
+  key: keyof ZoneSettingsValues;
+  name: string;
+  variable: string;
+  fn: () => Promise<unknown>;
+}
+
+// Lets known good bots past the custom rules; the fixed ref lets later applies find it again
+const SKIP_BOTS_RULE: RulesetRule = {
+  ref: 'skip_known_bots',
+  description: 'Skip known bots',
+  expression: '(cf.client.bot)',
+  action: 'skip',
+  action_parameters: {
+    ruleset: 'current',
+    phases: [
+      'http_ratelimit',
+      'http_request_firewall_managed',
+      'http_request_sbfm',
+    ],
+    products: [
+      'zoneLockdown',
+      'bic',
+      'uaBlock',
+      'hot',
+      'securityLevel',
+      'rateLimit',
+      'waf',
+    ],
+  },
+  enabled: true,
+};
+
+const isSkipBotsRule = (rule: RulesetRule) =>
+  rule.ref === SKIP_BOTS_RULE.ref ||
+  (rule.description === SKIP_BOTS_RULE.description && rule.expression === SKIP_BOTS_RULE.expression);
+
+// Fields Cloudflare sets on a rule and rejects on writes
+const READ_ONLY_RULE_FIELDS = ['version', 'last_updated', 'categories'];
+
+// The whole rule minus its read-only fields, so writes keep fields we don't model (e.g. logging)
+function toRulesetRuleBody(rule: RulesetRule): Record<string, unknown> {
+  const body: Record<string, unknown> = { ...rule };
+  READ_ONLY_RULE_FIELDS.forEach(field => delete body[field]);
+  return body;
+}
+
 /**
  * Result of configuring zone settings
  */
@@ -111,11 +226,54 @@ export type ZoneSettingsProgressCallback = (step: {
   variable?: string; // The setting value being applied (e.g., "strict", "on", "off")
 }) => void;
 
+/**
+ * What the client needs to authenticate; a stored CloudflareAccount can be passed as is
+ */
+export type CloudflareCredentials = Pick<CloudflareAccount, 'apiToken' | 'email' | 'authMode' | 'proxyId'>;
+
 export class CloudflareAPI {
   private apiToken: string;
+  private authEmail?: string;
+  private authMode: NonNullable<CloudflareAccount['authMode']>;
+  private proxy?: ProxyAccount;
+  private rateLimitKey: string;
+
+  constructor(credentials: string | CloudflareCredentials) {
+    if (typeof credentials === 'string') {
+      this.apiToken = credentials;
+      this.authMode = 'api_token';
+    } else {
+      this.apiToken = credentials.apiToken;
+      this.authEmail = credentials.email;
+      this.authMode = credentials.authMode || 'api_token';
+      if (credentials.proxyId) {
+        this.proxy = storage.getProxyAccounts().find(proxy => proxy.id === credentials.proxyId);
+      }
+    }
+    this.rateLimitKey = getCloudflareRateLimitKey(this.apiToken);
+  }
+
+  // The /api/cloudflare route tunnels through this SOCKS5 proxy, same headers as the Namecheap routes
+  private getProxyHeaders(): Record<string, string> {
+    if (!this.proxy) return {};
+
+    const headers: Record<string, string> = {
+      'x-proxy-host': this.proxy.host,
+      'x-proxy-port': this.proxy.port.toString(),
+    };
+    if (this.proxy.username) headers['x-proxy-username'] = this.proxy.username;
+    if (this.proxy.password) headers['x-proxy-password'] = this.proxy.password;
+    return headers;
+  }
 
-  constructor(apiToken: string) {
-    this.apiToken = apiToken;
+  private getAuthHeaders(): Record<string, string> {
+    if (this.authMode === 'global_key') {
+      return {
+        'X-Auth-Email': this.authEmail || '',
+        'X-Auth-Key': this.apiToken,
+      };
+    }
+    return { 'Authorization': `Bearer ${this.apiToken}` };
   }
 
   private extractErrorMessage(error: any): string {
@@ -161,7 +319,8 @@ export class CloudflareAPI {
     const fetchOptions: RequestInit = {
       method: options.method,
       headers: {
-        'Authorization': `Bearer ${this.apiToken}`,
+        ...this.getAuthHeaders(),
+        ...this.getProxyHeaders(),
         'Content-Type': 'application/json',
         ...options.headers,
       },
@@ -180,7 +339,12 @@ export class CloudflareAPI {
         : window.location.origin
       : 'http://localhost:3000';
 
-    const response = await fetch(`${baseUrl}/api/cloudflare${endpoint}`, fetchOptions);
+    // Every instance for this credential shares one budget, so parallel hooks pace each other
+    const response = await runCloudflareRateLimitedRequest(this.rateLimitKey, async () => {
+      const result = await fetch(`${baseUrl}/api/cloudflare${endpoint}`, fetchOptions);
+      recordCloudflareRateLimit(this.rateLimitKey, result.status, result.headers, Math.pow(2, retryCount) * 5);
+      return result;
+    });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -189,14 +353,10 @@ export class CloudflareAPI {
       if (response.status === 429 && retryCount < maxRetries) {
         const retryAfter = response.headers.get('retry-after');
         const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : Math.pow(2, retryCount) * 5; // Default: exponential backoff (5s, 10s, 20s)
-        const waitTime = Math.min(retryAfterSeconds * 1000, 300000); // Cap at 5 minutes
 
         console.warn(`Rate limit exceeded (429). Retrying after ${retryAfterSeconds} seconds... (attempt ${retryCount + 1}/${maxRetries})`);
 
-        // Wait for retry-after period before retrying
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-
-        // Retry the request
+        // The scheduler has paused this credential for the retry-after period; the retry waits it out
         return this.makeRequest(endpoint, options, retryCount + 1);
       }
 
@@ -236,41 +396,70 @@ export class CloudflareAPI {
   }
 
   // Account management
-  async getAccounts() {
+  async getAccounts(): Promise<{ id: string; name: string }[]> {
     try {
       const response = await this.makeRequest('/accounts');
-      return response.result || [];
+      return parseCloudflareList(accountSchema, response.result, 'accounts');
     } catch (error) {
       console.error('Error fetching accounts:', error);
       throw this.buildError('Failed to fetch accounts', error);
     }
   }
 
+  // Token introspection
+  // Account-owned tokens are only known to the account endpoints, so pass cfAccountId for those
+  async verifyToken(cfAccountId?: string): Promise<TokenVerification> {
+    try {
+      const endpoint = cfAccountId ? `/accounts/${cfAccountId}/tokens/verify` : '/user/tokens/verify';
+      const response = await this.makeRequest(endpoint);
+      return parseCloudflareResult(tokenVerificationSchema, response.result, 'token verification');
+    } catch (error) {
+      console.error('Error verifying API token:', error);
+      throw this.buildError('Failed to verify API token', error);
+    }
+  }
+
+  /**
+   * Reads the policies of a token. Requires the token to have "API Tokens Read",
+   * which most scoped tokens do not.
+   */
+  async getTokenPolicies(tokenId: string, cfAccountId?: string): Promise<TokenPolicy[]> {
+    try {
+      const endpoint = cfAccountId ? `/accounts/${cfAccountId}/tokens/${tokenId}` : `/user/tokens/${tokenId}`;
+      const response = await this.makeRequest(endpoint);
+      return parseCloudflareList(tokenPolicySchema, response.result?.policies, 'token policies');
+    } catch (error) {
+      console.error('Error fetching token policies:', error);
+      throw this.buildError('Failed to fetch token policies', error);
+    }
+  }
+
   // Zone/Domain management
-  async getZones() {
+  async getZones(): Promise<Zone[]> {
     try {
-      return await paginateCloudflareAPI(
+      const zones = await paginateCloudflareAPI(
         (url) => this.makeRequest(url),
         '/zones',
         50
       );
+      return parseCloudflareList(zoneSchema, zones, 'zones');
     } catch (error) {
       console.error('Error fetching zones:', error);
       throw this.buildError('Failed to fetch zones', error);
     }
   }
 
-  async getZone(zoneId: string) {
+  async getZone(zoneId: string): Promise<Zone> {
     try {
       const response = await this.makeRequest(`/zones/${zoneId}`);
-      return response.result;
+      return parseCloudflareResult(zoneSchema, response.result, 'zone');
     } catch (error) {
       console.error('Error fetching zone:', error);
       throw this.buildError('Failed to fetch zone', error);
     }
   }
 
-  async createZone(domainName: string, accountId?: string) {
+  async createZone(domainName: string, accountId?: string): Promise<Zone> {
     try {
       // If no accountId provided, fetch the first account from Cloudflare API
       let cfAccountId = accountId;
@@ -290,7 +479,7 @@ export class CloudflareAPI {
           jump_start: false,
         },
       });
-      return response.result;
+      return parseCloudflareResult(zoneSchema, response.result, 'created zone');
     } catch (error) {
       console.error('Error creating zone:', error);
       throw error;
@@ -309,22 +498,23 @@ export class CloudflareAPI {
   }
 
   // DNS Records management
-  async getDNSRecords(zoneId: string) {
+  async getDNSRecords(zoneId: string): Promise<DNSRecord[]> {
     try {
-      return await paginateCloudflareAPI(
+      const records = await paginateCloudflareAPI(
         (url) => this.makeRequest(url),
         `/zones/${zoneId}/dns_records`,
         100
       );
+      return parseCloudflareList(dnsRecordSchema, records, 'DNS records');
     } catch (error) {
       console.error('Error fetching DNS records:', error);
       throw this.buildError('Failed to fetch DNS records', error);
     }
   }
 
-  async createDNSRecord(zoneId: string, record: any) {
+  async createDNSRecord(zoneId: string, record: DNSRecordInput): Promise<DNSRecord> {
     try {
-      const body: any = {
+      const body: DNSRecordInput = {
         type: record.type,
         name: record.name,
         content: record.content,
@@ -338,20 +528,25 @@ export class CloudflareAPI {
         body.priority = record.priority ?? 10;
       }
 
+      // Structured records (SRV, CAA) are described by a data object
+      if (record.data) {
+        body.data = record.data;
+      }
+
       const response = await this.makeRequest(`/zones/${zoneId}/dns_records`, {
         method: 'POST',
         body,
       });
-      return response.result;
+      return parseCloudflareResult(dnsRecordSchema, response.result, 'created DNS record');
     } catch (error) {
       console.error('Error creating DNS record:', error);
       throw this.buildError('Failed to create DNS record', error);
     }
   }
 
-  async updateDNSRecord(zoneId: string, recordId: string, record: any) {
+  async updateDNSRecord(zoneId: string, recordId: string, record: DNSRecordInput): Promise<DNSRecord> {
     try {
-      const body: any = {
+      const body: DNSRecordInput = {
         type: record.type,
         name: record.name,
         content: record.content,
@@ -365,11 +560,16 @@ export class CloudflareAPI {
         body.priority = record.priority ?? 10;
       }
 
+      // Structured records (SRV, CAA) are described by a data object
+      if (record.data) {
+        body.data = record.data;
+      }
+
       const response = await this.makeRequest(`/zones/${zoneId}/dns_records/${recordId}`, {
         method: 'PATCH',
         body,
       });
-      return response.result;
+      return parseCloudflareResult(dnsRecordSchema, response.result, 'updated DNS record');
     } catch (error) {
       console.error('Error updating DNS record:', error);
       throw this.buildError('Failed to update DNS record', error);
@@ -388,36 +588,37 @@ export class CloudflareAPI {
   }
 
   // SSL Certificate management
-  async getSSLCertificates(zoneId: string) {
+  async getSSLCertificates(zoneId: string): Promise<SSLCertificate[]> {
     try {
-      return await paginateCloudflareAPI(
+      const certificates = await paginateCloudflareAPI(
         (url) => this.makeRequest(url),
         `/zones/${zoneId}/ssl/certificate_packs`,
         100
       );
+      return parseCloudflareList(certificatePackSchema, certificates, 'certificate packs');
     } catch (error) {
       console.error('Error fetching SSL certificates:', error);
       throw this.buildError('Failed to fetch SSL certificates', error);
     }
   }
 
-  async getSSLSetting(zoneId: string) {
+  async getSSLSetting(zoneId: string): Promise<SSLSetting> {
     try {
       const response = await this.makeRequest(`/zones/${zoneId}/settings/ssl`);
-      return response.result;
+      return parseCloudflareResult(sslSettingSchema, response.result, 'SSL setting');
     } catch (error) {
       console.error('Error fetching SSL setting:', error);
       throw this.buildError('Failed to fetch SSL setting', error);
     }
   }
 
-  async updateSSLSetting(zoneId: string, value: string) {
+  async updateSSLSetting(zoneId: string, value: string): Promise<SSLSetting> {
     try {
       const response = await this.makeRequest(`/zones/${zoneId}/settings/ssl`, {
         method: 'PATCH',
         body: { value },
       });
-      return response.result;
+      return parseCloudflareResult(sslSettingSchema, response.result, 'SSL setting');
     } catch (error) {
       console.error('Error updating SSL setting:', error);
       throw this.buildError('Failed to update SSL setting', error);
@@ -425,13 +626,13 @@ export class CloudflareAPI {
   }
 
   // Zone Settings Management
-  private async updateZoneSetting(zoneId: string, setting: string, value: any) {
+  private async updateZoneSetting(zoneId: string, setting: string, value: string): Promise<ZoneSetting> {
     try {
       const response = await this.makeRequest(`/zones/${zoneId}/settings/${setting}`, {
         method: 'PATCH',
         body: { value },
       });
-      return response.result;
+      return parseCloudflareResult(zoneSettingSchema, response.result, `${setting} setting`);
     } catch (error) {
       console.error(`Error updating ${setting}:`, error);
       throw this.buildError(`Failed to update ${setting}`, error);
@@ -449,7 +650,7 @@ export class CloudflareAPI {
   }
 
   // Edge Certificates: HTTP Strict Transport Security (HSTS)
-  async setHSTS(zoneId: string, enabled: boolean = true) {
+  async setHSTS(zoneId: string, enabled: boolean = true): Promise<ZoneSetting> {
     const hstsValue = enabled
       ? {
         enabled: true,
@@ -469,7 +670,7 @@ export class CloudflareAPI {
           },
         },
       });
-      return response.result;
+      return parseCloudflareResult(zoneSettingSchema, response.result, 'security_header setting');
     } catch (error) {
       console.error('Error updating HSTS:', error);
       throw this.buildError('Failed to update HSTS', error);
@@ -492,7 +693,7 @@ export class CloudflareAPI {
   // Reference: https://developers.cloudflare.com/bots/get-started/bot-fight-mode/
   // PUT /zones/{zone_id}/bot_management
   // Note: enable_js must be true when fight_mode is enabled
-  async setBotFightMode(zoneId: string, enabled: boolean = true) {
+  async setBotFightMode(zoneId: string, enabled: boolean = true): Promise<BotManagement> {
     try {
       const response = await this.makeRequest(`/zones/${zoneId}/bot_management`, {
         method: 'PUT',
@@ -503,7 +704,7 @@ export class CloudflareAPI {
           is_robots_txt_managed: false
         },
       });
-      return response.result;
+      return parseCloudflareResult(botManagementSchema, response.result, 'bot management');
     } catch (error: any) {
       console.error('Error updating Bot Fight Mode:', error);
       throw this.buildError('Failed to update Bot Fight Mode', error);
@@ -513,101 +714,319 @@ export class CloudflareAPI {
   // Security: AI Bots Protection
   // Reference: https://developers.cloudflare.com/bots/get-started/ai-bots/
   // PUT /zones/{zone_id}/bot_management
-  async setAIBotsProtection(zoneId: string, mode: 'disabled' | 'block' = 'disabled') {
+  async setAIBotsProtection(zoneId: string, mode: 'disabled' | 'block' = 'disabled', fightMode: boolean = true): Promise<BotManagement> {
     try {
       const response = await this.makeRequest(`/zones/${zoneId}/bot_management`, {
         method: 'PUT',
         body: {
           ai_bots_protection: mode,
-          fight_mode: true, // Keep it enabled by default in our setup
-          enable_js: true,
+          // Same value as the profile's Bot Fight Mode, so this PUT doesn't undo that step
+          fight_mode: fightMode,
+          enable_js: fightMode,
           is_robots_txt_managed: false
         },
       });
-      return response.result;
+      return parseCloudflareResult(botManagementSchema, response.result, 'bot management');
     } catch (error: any) {
       console.error('Error updating AI Bots Protection:', error);
       throw this.buildError('Failed to update AI Bots Protection', error);
     }
   }
 
-  // WAF: Create custom rule to skip known bots
+  // WAF: Custom rule that lets known bots skip security checks
   // Reference: https://developers.cloudflare.com/waf/custom-rules/create-api/
-  async createSkipBotsWAFRule(zoneId: string) {
-    const ruleData = {
-      description: 'Skip known bots',
-      expression: '(cf.client.bot)',
-      action: 'skip',
-      action_parameters: {
-        ruleset: 'current',
-        phases: [
-          "http_ratelimit",
-          "http_request_firewall_managed",
-          "http_request_sbfm"
-        ],
-        products: [
-          "zoneLockdown",
-          "bic",
-          "uaBlock",
-          "hot",
-          "securityLevel",
-          "rateLimit",
-          "waf"
-        ],
-      },
-      enabled: true,
-    };
+  // Upserts the rule by its ref when enabled and deletes it when disabled, so re-applying a profile is a no-op
+  async setSkipBotsWAFRule(zoneId: string, enabled: boolean): Promise<Ruleset | null> {
+    const phase: RulesetPhase = 'http_request_firewall_custom';
+    const entrypoint = await this.getPhaseEntrypoint(zoneId, phase);
+    const existing = entrypoint?.rules || [];
+
+    if (!enabled) {
+      const remaining = existing.filter(rule => !isSkipBotsRule(rule));
+      if (remaining.length === existing.length) return entrypoint;
+      return this.updatePhaseEntrypoint(zoneId, phase, remaining);
+    }
+
+    // Rules created before the ref existed are matched by content: the first one is adopted
+    // in place, the copies that repeated runs appended are dropped
+    let adopted = false;
+    const deduplicated = existing.flatMap(rule => {
+      if (!isSkipBotsRule(rule)) return [rule];
+      if (adopted) return [];
+      adopted = true;
+      return [{ ...rule, ref: SKIP_BOTS_RULE.ref }];
+    });
+
+    const plan = planRulesetPush(deduplicated, [SKIP_BOTS_RULE], 'merge');
+    return this.updatePhaseEntrypoint(zoneId, phase, plan.rules);
+  }
+
+  // Rulesets: phase entrypoints (WAF custom rules, single redirects)
+  // Reference: https://developers.cloudflare.com/ruleset-engine/rulesets-api/
+  // Returns null when the zone has no entrypoint ruleset for the phase yet
+  async getPhaseEntrypoint(zoneId: string, phase: RulesetPhase): Promise<Ruleset | null> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/rulesets/phases/${phase}/entrypoint`);
+      return parseCloudflareResult(rulesetSchema, response.result, 'ruleset');
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return null;
+      }
+      console.error(`Error fetching ${phase} ruleset:`, error);
+      throw this.buildError('Failed to fetch ruleset', error);
+    }
+  }
+
+  // PUT replaces every rule in the phase and creates the entrypoint if it does not exist
+  async updatePhaseEntrypoint(zoneId: string, phase: RulesetPhase, rules: RulesetRule[]): Promise<Ruleset> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/rulesets/phases/${phase}/entrypoint`, {
+        method: 'PUT',
+        body: { rules: rules.map(toRulesetRuleBody) },
+      });
+      return parseCloudflareResult(rulesetSchema, response.result, 'ruleset');
+    } catch (error) {
+      console.error(`Error updating ${phase} ruleset:`, error);
+      throw this.buildError('Failed to update ruleset', error);
+    }
+  }
+
+  /**
+   * Add a rule to a phase, creating the entrypoint ruleset on first use
+   */
+  async createPhaseRule(zoneId: string, phase: RulesetPhase, rule: RulesetRule): Promise<Ruleset> {
+    const entrypoint = await this.getPhaseEntrypoint(zoneId, phase);
+    if (!entrypoint) {
+      return this.updatePhaseEntrypoint(zoneId, phase, [rule]);
+    }
+
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/rulesets/${entrypoint.id}/rules`, {
+        method: 'POST',
+        body: toRulesetRuleBody(rule),
+      });
+      return parseCloudflareResult(rulesetSchema, response.result, 'ruleset');
+    } catch (error) {
+      console.error('Error creating ruleset rule:', error);
+      throw this.buildError('Failed to create rule', error);
+    }
+  }
+
+  // Pass `position` (1-based) to move the rule within the ruleset
+  async updateRulesetRule(zoneId: string, rulesetId: string, ruleId: string, rule: RulesetRule, position?: number): Promise<Ruleset> {
+    try {
+      const body = toRulesetRuleBody(rule);
+      if (position !== undefined) {
+        body.position = { index: position };
+      }
+
+      const response = await this.makeRequest(`/zones/${zoneId}/rulesets/${rulesetId}/rules/${ruleId}`, {
+        method: 'PATCH',
+        body,
+      });
+      return parseCloudflareResult(rulesetSchema, response.result, 'ruleset');
+    } catch (error) {
+      console.error('Error updating ruleset rule:', error);
+      throw this.buildError('Failed to update rule', error);
+    }
+  }
+
+  async deleteRulesetRule(zoneId: string, rulesetId: string, ruleId: string): Promise<Ruleset> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/rulesets/${rulesetId}/rules/${ruleId}`, {
+        method: 'DELETE',
+      });
+      return parseCloudflareResult(rulesetSchema, response.result, 'ruleset');
+    } catch (error) {
+      console.error('Error deleting ruleset rule:', error);
+      throw this.buildError('Failed to delete rule', error);
+    }
+  }
 
+  // Account-level phase entrypoints (Bulk Redirects run in http_request_redirect)
+  async getAccountPhaseEntrypoint(accountId: string, phase: RulesetPhase): Promise<Ruleset | null> {
     try {
-      // Try to create the entry point ruleset with the rule included
-      const response = await this.makeRequest(`/zones/${zoneId}/rulesets`, {
+      const response = await this.makeRequest(`/accounts/${accountId}/rulesets/phases/${phase}/entrypoint`);
+      return parseCloudflareResult(rulesetSchema, response.result, 'ruleset');
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return null;
+      }
+      console.error(`Error fetching account ${phase} ruleset:`, error);
+      throw this.buildError('Failed to fetch account ruleset', error);
+    }
+  }
+
+  async updateAccountPhaseEntrypoint(accountId: string, phase: RulesetPhase, rules: RulesetRule[]): Promise<Ruleset> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/rulesets/phases/${phase}/entrypoint`, {
+        method: 'PUT',
+        body: { rules: rules.map(toRulesetRuleBody) },
+      });
+      return parseCloudflareResult(rulesetSchema, response.result, 'ruleset');
+    } catch (error) {
+      console.error(`Error updating account ${phase} ruleset:`, error);
+      throw this.buildError('Failed to update account ruleset', error);
+    }
+  }
+
+  // Lists (Bulk Redirects use lists of kind "redirect")
+  // Reference: https://developers.cloudflare.com/api/resources/rules/subresources/lists/
+  async getRulesLists(accountId: string): Promise<RulesList[]> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/rules/lists`);
+      return parseCloudflareList(rulesListSchema, response.result, 'lists');
+    } catch (error) {
+      console.error('Error fetching lists:', error);
+      throw this.buildError('Failed to fetch lists', error);
+    }
+  }
+
+  async createRulesList(accountId: string, name: string, description?: string, kind: RulesList['kind'] = 'redirect'): Promise<RulesList> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/rules/lists`, {
+        method: 'POST',
+        body: { name, kind, description: description || undefined },
+      });
+      return parseCloudflareResult(rulesListSchema, response.result, 'created list');
+    } catch (error) {
+      console.error('Error creating list:', error);
+      throw this.buildError('Failed to create list', error);
+    }
+  }
+
+  async deleteRulesList(accountId: string, listId: string) {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/rules/lists/${listId}`, {
+        method: 'DELETE',
+      });
+      return response.result;
+    } catch (error) {
+      console.error('Error deleting list:', error);
+      throw this.buildError('Failed to delete list', error);
+    }
+  }
+
+  // List items use cursor pagination instead of page numbers
+  async getRedirectListItems(accountId: string, listId: string): Promise<RedirectListItem[]> {
+    const items: RedirectListItem[] = [];
+    let cursor: string | undefined;
+
+    try {
+      do {
+        const query = cursor ? `?per_page=500&cursor=${encodeURIComponent(cursor)}` : '?per_page=500';
+        const response = await this.makeRequest(`/accounts/${accountId}/rules/lists/${listId}/items${query}`);
+        items.push(...parseCloudflareList(redirectListItemSchema, response.result, 'list items'));
+        cursor = response.result_info?.cursors?.after;
+      } while (cursor);
+
+      return items;
+    } catch (error) {
+      console.error('Error fetching list items:', error);
+      throw this.buildError('Failed to fetch list items', error);
+    }
+  }
+
+  /**
+   * Write redirect items to a list. `replace` swaps the whole list, otherwise items are appended.
+   * Cloudflare applies item changes asynchronously, so this waits for the bulk operation to finish.
+   */
+  async setRedirectListItems(accountId: string, listId: string, items: BulkRedirect[], replace: boolean) {
+    let operationId: string;
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/rules/lists/${listId}/items`, {
+        method: replace ? 'PUT' : 'POST',
+        body: items.map(redirect => ({ redirect })),
+      });
+      operationId = response.result?.operation_id;
+    } catch (error) {
+      console.error('Error writing list items:', error);
+      throw this.buildError('Failed to write list items', error);
+    }
+
+    if (operationId) {
+      await this.waitForListOperation(accountId, operationId);
+    }
+  }
+
+  private async waitForListOperation(accountId: string, operationId: string, timeoutMs = 120000) {
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < timeoutMs) {
+      const response = await this.makeRequest(`/accounts/${accountId}/rules/lists/bulk_operations/${operationId}`);
+      const status = response.result?.status;
+      if (status === 'completed') return;
+      if (status === 'failed') {
+        throw new Error(`List update failed: ${response.result?.error || 'unknown error'}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 1500));
+    }
+    throw new Error('Timed out waiting for the list update to finish');
+  }
+
+  // Origin CA certificates
+  // Reference: https://developers.cloudflare.com/api/resources/origin_ca_certificates/
+  async createOriginCertificate(hostnames: string[], csr: string, validityDays: OriginCertificateValidity = 5475): Promise<OriginCACertificate> {
+    try {
+      const response = await this.makeRequest('/certificates', {
         method: 'POST',
         body: {
-          name: 'Custom Rules',
-          kind: 'zone',
-          phase: 'http_request_firewall_custom',
-          rules: [ruleData],
+          hostnames,
+          csr,
+          request_type: 'origin-ecc',
+          requested_validity: validityDays,
         },
       });
+      return parseCloudflareResult(originCertificateSchema, response.result, 'origin certificate');
+    } catch (error) {
+      console.error('Error creating origin certificate:', error);
+      throw this.buildError('Failed to create origin certificate', error);
+    }
+  }
+
+  async getOriginCertificates(zoneId: string): Promise<OriginCACertificate[]> {
+    try {
+      const response = await this.makeRequest(`/certificates?zone_id=${zoneId}`);
+      return parseCloudflareList(originCertificateSchema, response.result, 'origin certificates');
+    } catch (error) {
+      console.error('Error fetching origin certificates:', error);
+      throw this.buildError('Failed to fetch origin certificates', error);
+    }
+  }
 
+  async revokeOriginCertificate(certificateId: string) {
+    try {
+      const response = await this.makeRequest(`/certificates/${certificateId}`, {
+        method: 'DELETE',
+      });
       return response.result;
-    } catch (error: any) {
-      // If ruleset already exists, try to get it and add the rule
-      if (error?.status === 409 || error?.message?.includes('already exists') || error?.message?.includes('409')) {
-        try {
-          // Get existing rulesets for the zone
-          const rulesetsResponse = await this.makeRequest(
-            `/zones/${zoneId}/rulesets`,
-            { method: 'GET' }
-          );
-
-          // Find the entrypoint ruleset for http_request_firewall_custom phase
-          const entrypointRuleset = rulesetsResponse.result?.find(
-            (ruleset: any) => ruleset.phase === 'http_request_firewall_custom' && ruleset.kind === 'zone'
-          );
-
-          if (entrypointRuleset?.id) {
-            // Add rule to existing ruleset
-            const addRuleResponse = await this.makeRequest(
-              `/zones/${zoneId}/rulesets/${entrypointRuleset.id}/rules`,
-              {
-                method: 'POST',
-                body: ruleData,
-              }
-            );
-
-            return addRuleResponse.result;
-          } else {
-            throw new Error('Entrypoint ruleset not found');
-          }
-        } catch (addError) {
-          console.error('Error adding rule to existing WAF custom ruleset:', addError);
-          throw addError;
-        }
-      } else {
-        console.error('Error creating WAF custom rule:', error);
-        throw error;
-      }
+    } catch (error) {
+      console.error('Error revoking origin certificate:', error);
+      throw this.buildError('Failed to revoke origin certificate', error);
+    }
+  }
+
+  // DNSSEC
+  // Reference: https://developers.cloudflare.com/api/resources/dns/subresources/dnssec/
+  async getDNSSEC(zoneId: string): Promise<ZoneDNSSEC> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/dnssec`);
+      return parseCloudflareResult(zoneDNSSECSchema, response.result, 'DNSSEC');
+    } catch (error) {
+      console.error('Error fetching DNSSEC:', error);
+      throw this.buildError('Failed to fetch DNSSEC status', error);
+    }
+  }
+
+  async updateDNSSEC(zoneId: string, status: 'active' | 'disabled'): Promise<ZoneDNSSEC> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/dnssec`, {
+        method: 'PATCH',
+        body: { status },
+      });
+      return parseCloudflareResult(zoneDNSSECSchema, response.result, 'DNSSEC');
+    } catch (error) {
+      console.error('Error updating DNSSEC:', error);
+      throw this.buildError(`Failed to ${status === 'active' ? 'enable' : 'disable'} DNSSEC`, error);
     }
   }
 
@@ -631,9 +1050,116 @@ export class CloudflareAPI {
     return this.updateZoneSetting(zoneId, 'email_obfuscation', enabled ? 'on' : 'off');
   }
 
+  /**
+   * Build the ordered list of setting updates for the given values.
+   * Step names are stable so a single failed step can be retried by name.
+   */
+  getZoneSettingSteps(
+    zoneId: string,
+    settings: ZoneSettingsValues = DEFAULT_ZONE_SETTINGS,
+    only?: (keyof ZoneSettingsValues)[]
+  ): ZoneSettingStep[] {
+    const onOff = (enabled: boolean) => (enabled ? 'on' : 'off');
+
+    const steps: ZoneSettingStep[] = [
+      { key: 'sslMode', name: 'SSL mode', variable: settings.sslMode, fn: () => this.setSSLMode(zoneId, settings.sslMode) },
+      { key: 'alwaysUseHTTPS', name: 'Always use HTTPS', variable: onOff(settings.alwaysUseHTTPS), fn: () => this.setAlwaysUseHTTPS(zoneId, settings.alwaysUseHTTPS) },
+      { key: 'hsts', name: 'HSTS', variable: onOff(settings.hsts), fn: () => this.setHSTS(zoneId, settings.hsts) },
+      { key: 'tls13', name: 'TLS 1.3', variable: onOff(settings.tls13), fn: () => this.setTLS13(zoneId, settings.tls13) },
+      { key: 'authenticatedOriginPulls', name: 'Authenticated Origin Pulls', variable: onOff(settings.authenticatedOriginPulls), fn: () => this.setAuthenticatedOriginPulls(zoneId, settings.authenticatedOriginPulls) },
+      { key: 'botFightMode', name: 'Bot Fight Mode', variable: onOff(settings.botFightMode), fn: () => this.setBotFightMode(zoneId, settings.botFightMode) },
+      { key: 'aiBotsProtection', name: 'AI Bots Protection', variable: settings.aiBotsProtection, fn: () => this.setAIBotsProtection(zoneId, settings.aiBotsProtection, settings.botFightMode) },
+    ];
+
+    steps.push(
+      { key: 'skipBotsWAFRule', name: 'WAF Custom Rule', variable: settings.skipBotsWAFRule ? 'skip_bots' : 'off', fn: () => this.setSkipBotsWAFRule(zoneId, settings.skipBotsWAFRule) },
+      { key: 'earlyHints', name: 'Early Hints', variable: onOff(settings.earlyHints), fn: () => this.setEarlyHints(zoneId, settings.earlyHints) },
+      { key: 'zeroRTT', name: '0-RTT', variable: onOff(settings.zeroRTT), fn: () => this.set0RTT(zoneId, settings.zeroRTT) },
+      { key: 'pseudoIPv4', name: 'Pseudo IPv4', variable: settings.pseudoIPv4, fn: () => this.setPseudoIPv4(zoneId, settings.pseudoIPv4) },
+      { key: 'emailObfuscation', name: 'Email Obfuscation', variable: onOff(settings.emailObfuscation), fn: () => this.setEmailObfuscation(zoneId, settings.emailObfuscation) },
+    );
+
+    if (!only) {
+      return steps;
+    }
+
+    // Bot Fight Mode and AI Bots Protection share the bot_management payload,
+    // so writing one without the other would reset it
+    const keys = new Set(only);
+    if (keys.has('botFightMode') || keys.has('aiBotsProtection')) {
+      keys.add('botFightMode');
+      keys.add('aiBotsProtection');
+    }
+    return steps.filter(step => keys.has(step.key));
+  }
+
+  /**
+   * Read the current value of every setting managed by zone settings profiles.
+   * The WAF skip rule is not read back; it is left out of the result.
+   */
+  async getZoneSettings(zoneId: string): Promise<Partial<ZoneSettingsValues>> {
+    try {
+      const [settingsResponse, botManagement] = await Promise.all([
+        this.makeRequest(`/zones/${zoneId}/settings`),
+        this.getBotManagement(zoneId),
+      ]);
+
+      const settings = parseCloudflareList(zoneSettingSchema, settingsResponse.result, 'zone settings');
+      const byId: Record<string, any> = {};
+      settings.forEach(setting => {
+        byId[setting.id] = setting.value;
+      });
+
+      const values: Partial<ZoneSettingsValues> = {};
+      if (byId.ssl !== undefined) values.sslMode = byId.ssl;
+      if (byId.always_use_https !== undefined) values.alwaysUseHTTPS = byId.always_use_https === 'on';
+      if (byId.security_header !== undefined) {
+        values.hsts = !!byId.security_header?.strict_transport_security?.enabled;
+      }
+      if (byId.tls_1_3 !== undefined) values.tls13 = byId.tls_1_3 !== 'off';
+      if (byId.tls_client_auth !== undefined) values.authenticatedOriginPulls = byId.tls_client_auth === 'on';
+      if (byId.early_hints !== undefined) values.earlyHints = byId.early_hints === 'on';
+      if (byId['0rtt'] !== undefined) values.zeroRTT = byId['0rtt'] === 'on';
+      if (byId.pseudo_ipv4 !== undefined) values.pseudoIPv4 = byId.pseudo_ipv4;
+      if (byId.email_obfuscation !== undefined) values.emailObfuscation = byId.email_obfuscation === 'on';
+
+      if (botManagement) {
+        values.botFightMode = !!botManagement.fight_mode;
+        values.aiBotsProtection = botManagement.ai_bots_protection === 'block' ? 'block' : 'disabled';
+      }
+
+      return values;
+    } catch (error) {
+      console.error('Error fetching zone settings:', error);
+      throw this.buildError('Failed to fetch zone settings', error);
+    }
+  }
+
+  // GET /zones/{zone_id}/bot_management
+  async getBotManagement(zoneId: string): Promise<BotManagement> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/bot_management`);
+      return parseCloudflareResult(botManagementSchema, response.result, 'bot management');
+    } catch (error) {
+      console.error('Error fetching bot management:', error);
+      throw this.buildError('Failed to fetch bot management', error);
+    }
+  }
+
   /**
    * Configure default zone settings for a newly created domain
    * Applies all recommended security and performance settings
+   */
+  async configureDefaultZoneSettings(
+    zoneId: string,
+    onProgress?: ZoneSettingsProgressCallback
+  ): Promise<ZoneSettingsConfigResult> {
+    return this.applyZoneSettings(zoneId, DEFAULT_ZONE_SETTINGS, onProgress);
+  }
+
+  /**
+   * Apply a set of zone settings (e.g. from a settings profile).
+   * Pass `only` to limit the update to specific settings, e.g. when reconciling drift.
    * 
    * Required API Token Permissions:
    * - Zone > Zone > Edit (for zone creation)
@@ -642,28 +1168,17 @@ export class CloudflareAPI {
    * 
    * Reference: https://developers.cloudflare.com/waf/custom-rules/create-api/
    */
-  async configureDefaultZoneSettings(
+  async applyZoneSettings(
     zoneId: string,
-    onProgress?: ZoneSettingsProgressCallback
+    values: ZoneSettingsValues,
+    onProgress?: ZoneSettingsProgressCallback,
+    only?: (keyof ZoneSettingsValues)[]
   ): Promise<ZoneSettingsConfigResult> {
     const errors: string[] = [];
     let successCount = 0;
     let hasAuthError = false;
 
-    const settings = [
-      { name: 'SSL mode', variable: 'strict', fn: () => this.setSSLMode(zoneId, 'strict') },
-      { name: 'Always use HTTPS', variable: 'on', fn: () => this.setAlwaysUseHTTPS(zoneId, true) },
-      { name: 'HSTS', variable: 'on', fn: () => this.setHSTS(zoneId, true) },
-      { name: 'TLS 1.3', variable: 'off', fn: () => this.setTLS13(zoneId, false) },
-      { name: 'Authenticated Origin Pulls', variable: 'on', fn: () => this.setAuthenticatedOriginPulls(zoneId, true) },
-      { name: 'Bot Fight Mode', variable: 'on', fn: () => this.setBotFightMode(zoneId, true) },
-      { name: 'AI Bots Protection', variable: 'disabled', fn: () => this.setAIBotsProtection(zoneId, 'disabled') },
-      { name: 'WAF Custom Rule', variable: 'skip_bots', fn: () => this.createSkipBotsWAFRule(zoneId) },
-      { name: 'Early Hints', variable: 'on', fn: () => this.setEarlyHints(zoneId, true) },
-      { name: '0-RTT', variable: 'on', fn: () => this.set0RTT(zoneId, true) },
-      { name: 'Pseudo IPv4', variable: 'overwrite_header', fn: () => this.setPseudoIPv4(zoneId, 'overwrite_header') },
-      { name: 'Email Obfuscation', variable: 'off', fn: () => this.setEmailObfuscation(zoneId, false) },
-    ];
+    const settings = this.getZoneSettingSteps(zoneId, values, only);
 
     // Initialize all settings as pending
     if (onProgress) {
@@ -736,6 +1251,377 @@ export class CloudflareAPI {
     return result;
   }
 
+  /**
+   * Purge cached content for a zone. File, prefix and host purges are sent in batches of 30,
+   * the per-request limit on every plan.
+   * Reference: https://developers.cloudflare.com/api/resources/cache/methods/purge/
+   */
+  async purgeCache(zoneId: string, request: CachePurgeRequest): Promise<number> {
+    const batchSize = 30;
+    const bodies = request.mode === 'everything'
+      ? [{ purge_everything: true }]
+      : Array.from({ length: Math.ceil(request.values.length / batchSize) }, (_, i) => ({
+        [request.mode]: request.values.slice(i * batchSize, (i + 1) * batchSize),
+      }));
+
+    try {
+      for (const body of bodies) {
+        await this.makeRequest(`/zones/${zoneId}/purge_cache`, {
+          method: 'POST',
+          body,
+        });
+      }
+      return bodies.length;
+    } catch (error) {
+      console.error('Error purging cache:', error);
+      throw this.buildError('Failed to purge cache', error);
+    }
+  }
+
+  /**
+   * GraphQL analytics report query errors with a 200 status, so they are checked here.
+   * Reference: https://developers.cloudflare.com/analytics/graphql-api/
+   */
+  private async graphql(query: string, variables: Record<string, unknown>): Promise<any> {
+    const response = await this.makeRequest('/graphql', {
+      method: 'POST',
+      body: { query, variables },
+    });
+    if (Array.isArray(response?.errors) && response.errors.length > 0) {
+      const error = new Error('GraphQL query failed') as any;
+      error.errorData = { errors: response.errors };
+      throw error;
+    }
+    return response?.data;
+  }
+
+  async getZoneAnalytics(zoneId: string, range: AnalyticsRange): Promise<ZoneAnalytics> {
+    const { since, until, buckets } = getAnalyticsWindow(range);
+
+    try {
+      if (range === '24h') {
+        const data = await this.graphql(ZONE_ADAPTIVE_ANALYTICS_QUERY, {
+          zoneTag: zoneId,
+          filter: buildAdaptiveFilter(since, until),
+        });
+        const groups = parseCloudflareResult(
+          zoneAdaptiveGroupsSchema,
+          data?.viewer?.zones?.[0] ?? { series: [], countries: [], statusCodes: [] },
+          'zone analytics'
+        );
+        return aggregateAdaptiveGroups(groups, buckets);
+      }
+
+      const data = await this.graphql(ZONE_DAILY_ANALYTICS_QUERY, { zoneTag: zoneId, since, until });
+      const groups = parseCloudflareList(
+        zoneDailyGroupSchema,
+        data?.viewer?.zones?.[0]?.httpRequests1dGroups,
+        'zone analytics'
+      );
+      return aggregateDailyGroups(groups, range, buckets);
+    } catch (error) {
+      console.error('Error fetching zone analytics:', error);
+      throw this.buildError('Failed to fetch zone analytics', error);
+    }
+  }
+
+  /**
+   * Requests over the last 24 hours for many zones, 10 zones per query. Zones the token
+   * cannot read analytics for are left out of the result.
+   */
+  async getZoneRequestCounts(zoneIds: string[]): Promise<Record<string, number>> {
+    const batchSize = 10;
+    const until = new Date();
+    const since = new Date(until.getTime() - 24 * 60 * 60 * 1000);
+    const counts: Record<string, number> = {};
+
+    try {
+      for (let i = 0; i < zoneIds.length; i += batchSize) {
+        const data = await this.graphql(ZONE_REQUEST_COUNTS_QUERY, {
+          zoneTags: zoneIds.slice(i, i + batchSize),
+          since: since.toISOString(),
+          until: until.toISOString(),
+        });
+        const zones = parseCloudflareList(
+          zoneRequestCountSchema,
+          data?.viewer?.zones,
+          'zone request counts'
+        );
+        zones.forEach(zone => {
+          counts[zone.zoneTag] = zone.httpRequestsAdaptiveGroups[0]?.count ?? 0;
+        });
+      }
+      return counts;
+    } catch (error) {
+      console.error('Error fetching zone request counts:', error);
+      throw this.buildError('Failed to fetch request counts', error);
+    }
+  }
+
+  /**
+   * Latest security events for a zone, plus the rules behind the most events in the same window.
+   * Reference: https://developers.cloudflare.com/analytics/graphql-api/tutorials/querying-firewall-events/
+   */
+  async getSecurityEvents(
+    zoneId: string,
+    range: SecurityEventsRange,
+    filters: SecurityEventFilters = {},
+    limit = 100
+  ): Promise<ZoneSecurityEvents> {
+    const { since, until } = getSecurityEventsWindow(range);
+
+    try {
+      const data = await this.graphql(ZONE_SECURITY_EVENTS_QUERY, {
+        zoneTag: zoneId,
+        filter: buildSecurityEventsFilter(since, until, filters),
+        limit,
+      });
+      const result = parseCloudflareResult(
+        zoneSecurityEventsSchema,
+        data?.viewer?.zones?.[0] ?? { events: [], rules: [] },
+        'security events'
+      );
+      return {
+        events: result.events,
+        rules: result.rules.map(group => ({ ...group.dimensions, count: group.count })),
+      };
+    } catch (error) {
+      console.error('Error fetching security events:', error);
+      throw this.buildError('Failed to fetch security events', error);
+    }
+  }
+
+  // Email Routing
+  // Reference: https://developers.cloudflare.com/api/resources/email_routing/
+  async getEmailRouting(zoneId: string): Promise<EmailRoutingSettings> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/email/routing`);
+      return parseCloudflareResult(emailRoutingSettingsSchema, response.result, 'email routing settings');
+    } catch (error) {
+      console.error('Error fetching email routing settings:', error);
+      throw this.buildError('Failed to fetch email routing settings', error);
+    }
+  }
+
+  /**
+   * Enabling adds and locks the MX and SPF records Email Routing needs, replacing any
+   * existing MX records; disabling unlocks them but leaves them in place.
+   */
+  async setEmailRoutingEnabled(zoneId: string, enabled: boolean): Promise<EmailRoutingSettings> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/email/routing/dns`, {
+        method: enabled ? 'POST' : 'DELETE',
+        body: enabled ? {} : undefined,
+      });
+      return parseCloudflareResult(emailRoutingSettingsSchema, response.result, 'email routing settings');
+    } catch (error) {
+      console.error(`Error ${enabled ? 'enabling' : 'disabling'} email routing:`, error);
+      throw this.buildError(`Failed to ${enabled ? 'enable' : 'disable'} email routing`, error);
+    }
+  }
+
+  async getEmailRoutingRules(zoneId: string): Promise<EmailRoutingRule[]> {
+    try {
+      const rules = await paginateCloudflareAPI(
+        (url) => this.makeRequest(url),
+        `/zones/${zoneId}/email/routing/rules`,
+        50
+      );
+      return parseCloudflareList(emailRoutingRuleSchema, rules, 'email routing rules');
+    } catch (error) {
+      console.error('Error fetching email routing rules:', error);
+      throw this.buildError('Failed to fetch email routing rules', error);
+    }
+  }
+
+  async createEmailRoutingRule(zoneId: string, rule: EmailRoutingRule): Promise<EmailRoutingRule> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/email/routing/rules`, {
+        method: 'POST',
+        body: rule,
+      });
+      return parseCloudflareResult(emailRoutingRuleSchema, response.result, 'created email routing rule');
+    } catch (error) {
+      console.error('Error creating email routing rule:', error);
+      throw this.buildError('Failed to create email routing rule', error);
+    }
+  }
+
+  async updateEmailRoutingRule(zoneId: string, ruleTag: string, rule: EmailRoutingRule): Promise<EmailRoutingRule> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/email/routing/rules/${ruleTag}`, {
+        method: 'PUT',
+        body: { name: rule.name, enabled: rule.enabled, priority: rule.priority, matchers: rule.matchers, actions: rule.actions },
+      });
+      return parseCloudflareResult(emailRoutingRuleSchema, response.result, 'updated email routing rule');
+    } catch (error) {
+      console.error('Error updating email routing rule:', error);
+      throw this.buildError('Failed to update email routing rule', error);
+    }
+  }
+
+  async deleteEmailRoutingRule(zoneId: string, ruleTag: string) {
+    try {
+      await this.makeRequest(`/zones/${zoneId}/email/routing/rules/${ruleTag}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      console.error('Error deleting email routing rule:', error);
+      throw this.buildError('Failed to delete email routing rule', error);
+    }
+  }
+
+  // The catch-all rule always exists; it is only ever updated
+  async getEmailRoutingCatchAll(zoneId: string): Promise<EmailRoutingRule> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/email/routing/rules/catch_all`);
+      return parseCloudflareResult(emailRoutingRuleSchema, response.result, 'catch-all rule');
+    } catch (error) {
+      console.error('Error fetching catch-all rule:', error);
+      throw this.buildError('Failed to fetch catch-all rule', error);
+    }
+  }
+
+  async updateEmailRoutingCatchAll(zoneId: string, rule: EmailRoutingRule): Promise<EmailRoutingRule> {
+    try {
+      const response = await this.makeRequest(`/zones/${zoneId}/email/routing/rules/catch_all`, {
+        method: 'PUT',
+        body: { name: rule.name, enabled: rule.enabled, matchers: [{ type: 'all' }], actions: rule.actions },
+      });
+      return parseCloudflareResult(emailRoutingRuleSchema, response.result, 'catch-all rule');
+    } catch (error) {
+      console.error('Error updating catch-all rule:', error);
+      throw this.buildError('Failed to update catch-all rule', error);
+    }
+  }
+
+  // Destination addresses belong to the Cloudflare account and are shared by all of its zones
+  async getEmailRoutingAddresses(accountId: string): Promise<EmailRoutingAddress[]> {
+    try {
+      const addresses = await paginateCloudflareAPI(
+        (url) => this.makeRequest(url),
+        `/accounts/${accountId}/email/routing/addresses`,
+        50
+      );
+      return parseCloudflareList(emailRoutingAddressSchema, addresses, 'destination addresses');
+    } catch (error) {
+      console.error('Error fetching destination addresses:', error);
+      throw this.buildError('Failed to fetch destination addresses', error);
+    }
+  }
+
+  // Cloudflare emails a verification link; forwarding to the address only works once it is clicked
+  async createEmailRoutingAddress(accountId: string, email: string): Promise<EmailRoutingAddress> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/email/routing/addresses`, {
+        method: 'POST',
+        body: { email },
+      });
+      return parseCloudflareResult(emailRoutingAddressSchema, response.result, 'created destination address');
+    } catch (error) {
+      console.error('Error creating destination address:', error);
+      throw this.buildError('Failed to create destination address', error);
+    }
+  }
+
+  async deleteEmailRoutingAddress(accountId: string, addressTag: string) {
+    try {
+      await this.makeRequest(`/accounts/${accountId}/email/routing/addresses/${addressTag}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      console.error('Error deleting destination address:', error);
+      throw this.buildError('Failed to delete destination address', error);
+    }
+  }
+
+  // Cloudflare Tunnels (cloudflared)
+  // Reference: https://developers.cloudflare.com/api/resources/zero_trust/subresources/tunnels/subresources/cloudflared/
+  async getTunnels(accountId: string): Promise<CloudflareTunnel[]> {
+    try {
+      const tunnels = await paginateCloudflareAPI(
+        (url) => this.makeRequest(url),
+        `/accounts/${accountId}/cfd_tunnel?is_deleted=false`,
+        100
+      );
+      return parseCloudflareList(tunnelSchema, tunnels, 'tunnels');
+    } catch (error) {
+      console.error('Error fetching tunnels:', error);
+      throw this.buildError('Failed to fetch tunnels', error);
+    }
+  }
+
+  // Remotely managed, so ingress rules are edited here rather than in a config file on the server
+  async createTunnel(accountId: string, name: string): Promise<CloudflareTunnel> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/cfd_tunnel`, {
+        method: 'POST',
+        body: { name, config_src: 'cloudflare' },
+      });
+      return parseCloudflareResult(tunnelSchema, response.result, 'created tunnel');
+    } catch (error) {
+      console.error('Error creating tunnel:', error);
+      throw this.buildError('Failed to create tunnel', error);
+    }
+  }
+
+  // Tunnels with active connections cannot be deleted until their connectors are stopped
+  async deleteTunnel(accountId: string, tunnelId: string) {
+    try {
+      await this.makeRequest(`/accounts/${accountId}/cfd_tunnel/${tunnelId}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      console.error('Error deleting tunnel:', error);
+      throw this.buildError('Failed to delete tunnel', error);
+    }
+  }
+
+  async getTunnelToken(accountId: string, tunnelId: string): Promise<string> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/cfd_tunnel/${tunnelId}/token`);
+      if (typeof response.result !== 'string') {
+        throw new Error('Tunnel token missing from response');
+      }
+      return response.result;
+    } catch (error) {
+      console.error('Error fetching tunnel token:', error);
+      throw this.buildError('Failed to fetch tunnel token', error);
+    }
+  }
+
+  async getTunnelIngress(accountId: string, tunnelId: string): Promise<TunnelIngressRule[]> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/cfd_tunnel/${tunnelId}/configurations`);
+      return parseCloudflareList(
+        tunnelIngressRuleSchema,
+        response.result?.config?.ingress ?? [],
+        'tunnel ingress rules'
+      );
+    } catch (error) {
+      console.error('Error fetching tunnel configuration:', error);
+      throw this.buildError('Failed to fetch tunnel configuration', error);
+    }
+  }
+
+  // The last rule must be a catch-all without hostname; see normalizeTunnelIngress
+  async updateTunnelIngress(accountId: string, tunnelId: string, ingress: TunnelIngressRule[]): Promise<TunnelIngressRule[]> {
+    try {
+      const response = await this.makeRequest(`/accounts/${accountId}/cfd_tunnel/${tunnelId}/configurations`, {
+        method: 'PUT',
+        body: { config: { ingress } },
+      });
+      return parseCloudflareList(
+        tunnelIngressRuleSchema,
+        response.result?.config?.ingress ?? [],
+        'tunnel ingress rules'
+      );
+    } catch (error) {
+      console.error('Error updating tunnel configuration:', error);
+      throw this.buildError('Failed to update tunnel configuration', error);
+    }
+  }
+
   // Test API connection
   async testConnection() {
     try {
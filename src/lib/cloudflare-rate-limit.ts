@@ -0,0 +1,205 @@
+import { useCloudflareQuotaStore } from '@/store/cloudflare-quota-store';
+
+// Below this share of the quota, requests are spread evenly over what is left of the window
+const CLOUDFLARE_PACE_THRESHOLD = 0.25;
+const CLOUDFLARE_DEFAULT_BACKOFF_SECONDS = 5;
+const CLOUDFLARE_MAX_PAUSE_MS = 300000;
+
+interface CloudflareBudget {
+	limit: number | null;
+	remaining: number | null;
+	windowSeconds: number | null;
+	resetAt: number | null;
+	pausedUntil: number | null;
+	nextSlotAt: number;
+	inFlight: number;
+	queued: number;
+}
+
+export interface ParsedRateLimitHeaders {
+	limit: number | null;
+	remaining: number | null;
+	resetSeconds: number | null;
+	windowSeconds: number | null;
+	retryAfterSeconds: number | null;
+}
+
+const cloudflareBudgetByKey = new Map<string, CloudflareBudget>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Cloudflare's quota is per user/token, so every CloudflareAPI instance built from the same
+ * credential shares one budget. The key is a fingerprint so the token itself never lands in UI state.
+ */
+export function getCloudflareRateLimitKey(apiToken: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < apiToken.length; i++) {
+		hash ^= apiToken.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const readParam = (header: string | null, name: string): number | null => {
+	if (!header) return null;
+	const match = header.match(new RegExp(`(?:^|[;,\\s])${name}=(\\d+)`));
+	return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Parses the structured headers Cloudflare sends, e.g.
+ * `ratelimit: "default";r=1150;t=210` and `ratelimit-policy: "default";q=1200;w=300`.
+ */
+export function parseRateLimitHeaders(headers: Headers): ParsedRateLimitHeaders {
+	const ratelimit = headers.get('ratelimit');
+	const policy = headers.get('ratelimit-policy');
+	const retryAfter = headers.get('retry-after');
+	const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+
+	return {
+		limit: readParam(policy, 'q'),
+		remaining: readParam(ratelimit, 'r'),
+		resetSeconds: readParam(ratelimit, 't'),
+		windowSeconds: readParam(policy, 'w'),
+		retryAfterSeconds: Number.isFinite(retryAfterSeconds) ? retryAfterSeconds : null,
+	};
+}
+
+const getBudget = (key: string): CloudflareBudget => {
+	let budget = cloudflareBudgetByKey.get(key);
+	if (!budget) {
+		budget = {
+			limit: null,
+			remaining: null,
+			windowSeconds: null,
+			resetAt: null,
+			pausedUntil: null,
+			nextSlotAt: 0,
+			inFlight: 0,
+			queued: 0,
+		};
+		cloudflareBudgetByKey.set(key, budget);
+	}
+	return budget;
+};
+
+const publishBudget = (key: string, budget: CloudflareBudget) => {
+	useCloudflareQuotaStore.getState().setQuota(key, {
+		limit: budget.limit,
+		remaining: budget.remaining,
+		windowSeconds: budget.windowSeconds,
+		resetAt: budget.resetAt,
+		pausedUntil: budget.pausedUntil,
+		queued: budget.queued,
+		updatedAt: Date.now(),
+	});
+};
+
+/**
+ * How long the next request has to wait. A paced request gets its slot reserved right away;
+ * one that waits for a pause or an exhausted window has to look again afterwards.
+ */
+const reserveSlot = (budget: CloudflareBudget): { waitMs: number; reserved: boolean } => {
+	const now = Date.now();
+
+	if (budget.pausedUntil && budget.pausedUntil > now) {
+		return { waitMs: budget.pausedUntil - now, reserved: false };
+	}
+
+	// Window rolled over: the budget is unknown again until the next response reports it
+	if (budget.resetAt && budget.resetAt <= now) {
+		budget.remaining = null;
+		budget.resetAt = null;
+		budget.nextSlotAt = 0;
+	}
+
+	if (budget.remaining !== null && budget.resetAt) {
+		if (budget.remaining <= 0) {
+			return { waitMs: budget.resetAt - now, reserved: false };
+		}
+
+		const paceBelow = (budget.limit ?? budget.remaining) * CLOUDFLARE_PACE_THRESHOLD;
+		if (budget.remaining <= paceBelow) {
+			const interval = (budget.resetAt - now) / budget.remaining;
+			const slot = Math.max(now, budget.nextSlotAt);
+			budget.nextSlotAt = slot + interval;
+			// Spend the slot now so requests queued behind this one see the lower budget
+			budget.remaining--;
+			return { waitMs: slot - now, reserved: true };
+		}
+	}
+
+	if (budget.remaining !== null) budget.remaining--;
+	return { waitMs: 0, reserved: true };
+};
+
+/**
+ * Runs a Cloudflare request within the shared budget for its credential. Requests go out
+ * immediately while quota is plentiful, are paced once it runs low, and all wait out a 429.
+ */
+export async function runCloudflareRateLimitedRequest<T>(
+	key: string,
+	task: () => Promise<T>
+): Promise<T> {
+	const budget = getBudget(key);
+
+	budget.queued++;
+	publishBudget(key, budget);
+	try {
+		let slot = reserveSlot(budget);
+		while (!slot.reserved) {
+			await sleep(Math.min(slot.waitMs, CLOUDFLARE_MAX_PAUSE_MS));
+			slot = reserveSlot(budget);
+		}
+		if (slot.waitMs > 0) {
+			await sleep(slot.waitMs);
+		}
+	} finally {
+		budget.queued--;
+	}
+
+	budget.inFlight++;
+	publishBudget(key, budget);
+	try {
+		return await task();
+	} finally {
+		budget.inFlight--;
+	}
+}
+
+/**
+ * Folds the rate limit headers of a response into the shared budget. A 429 pauses every
+ * request for the credential until retry-after has passed.
+ */
+export function recordCloudflareRateLimit(
+	key: string,
+	status: number,
+	headers: Headers,
+	fallbackRetryAfterSeconds = CLOUDFLARE_DEFAULT_BACKOFF_SECONDS
+): ParsedRateLimitHeaders {
+	const budget = getBudget(key);
+	const parsed = parseRateLimitHeaders(headers);
+	const now = Date.now();
+
+	if (parsed.limit !== null) budget.limit = parsed.limit;
+	if (parsed.windowSeconds !== null) budget.windowSeconds = parsed.windowSeconds;
+	if (parsed.remaining !== null) {
+		// Responses arrive out of order; requests still in flight have already spent their share
+		budget.remaining = Math.max(0, parsed.remaining - Math.max(0, budget.inFlight - 1));
+		budget.resetAt = now + (parsed.resetSeconds ?? budget.windowSeconds ?? 60) * 1000;
+	}
+
+	if (status === 429) {
+		const pauseSeconds = parsed.retryAfterSeconds ?? fallbackRetryAfterSeconds;
+		budget.pausedUntil = now + Math.min(pauseSeconds * 1000, CLOUDFLARE_MAX_PAUSE_MS);
+		budget.remaining = 0;
+		budget.resetAt = Math.max(budget.resetAt ?? 0, budget.pausedUntil);
+		budget.nextSlotAt = 0;
+	} else if (budget.pausedUntil && budget.pausedUntil <= now) {
+		budget.pausedUntil = null;
+	}
+
+	publishBudget(key, budget);
+	return parsed;
+}
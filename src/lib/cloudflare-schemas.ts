@@ -0,0 +1,359 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for the Cloudflare payloads the dashboard renders. They check the fields
+ * the UI reads and let everything else through untouched, so additions on Cloudflare's side
+ * are harmless while a renamed or retyped field fails loudly instead of rendering blank.
+ */
+
+const nullableString = z.string().nullish();
+
+export const accountSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const tokenVerificationSchema = z.looseObject({
+  id: z.string(),
+  status: z.enum(['active', 'disabled', 'expired']),
+  expires_on: z.string().optional(),
+  not_before: z.string().optional(),
+});
+
+export const tokenPolicySchema = z.looseObject({
+  id: z.string(),
+  effect: z.enum(['allow', 'deny']),
+  permission_groups: z.array(z.looseObject({ id: z.string(), name: z.string() })),
+  resources: z.record(z.string(), z.unknown()).default({}),
+});
+
+export const zoneSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  status: z.enum(['active', 'pending', 'initializing', 'moved', 'deleted', 'deactivated']),
+  name_servers: z.array(z.string()).default([]),
+  original_name_servers: z.array(z.string()).nullish(),
+  plan: z.looseObject({ id: z.string(), name: z.string() }).optional(),
+  account: z.looseObject({ id: z.string(), name: z.string() }).optional(),
+  development_mode: z.number().optional(),
+  original_registrar: nullableString,
+  original_dnshost: nullableString,
+  created_on: z.string().optional(),
+  modified_on: z.string().optional(),
+  activated_on: nullableString,
+});
+
+export const DNS_RECORD_TYPES = [
+  'A', 'AAAA', 'CAA', 'CERT', 'CNAME', 'DNSKEY', 'DS', 'HTTPS', 'LOC', 'MX', 'NAPTR',
+  'NS', 'OPENPGPKEY', 'PTR', 'SMIMEA', 'SRV', 'SSHFP', 'SVCB', 'TLSA', 'TXT', 'URI',
+] as const;
+
+export const dnsRecordSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(DNS_RECORD_TYPES),
+  content: z.string(),
+  proxied: z.boolean().default(false),
+  proxiable: z.boolean().optional(),
+  ttl: z.number(),
+  priority: z.number().optional(),
+  comment: nullableString,
+  tags: z.array(z.string()).default([]),
+  zone_id: z.string().optional(),
+  zone_name: z.string().optional(),
+  locked: z.boolean().optional(),
+  meta: z.looseObject({
+    auto_added: z.boolean().optional(),
+    managed_by_apps: z.boolean().optional(),
+    managed_by_argo_tunnel: z.boolean().optional(),
+    source: z.string().optional(),
+  }).optional(),
+  created_on: z.string().optional(),
+  modified_on: z.string().optional(),
+});
+
+export const zoneSettingSchema = z.looseObject({
+  id: z.string(),
+  value: z.unknown(),
+  editable: z.boolean().optional(),
+  modified_on: nullableString,
+});
+
+export const sslSettingSchema = zoneSettingSchema.extend({
+  value: z.enum(['off', 'flexible', 'full', 'strict']),
+});
+
+export const certificatePackSchema = z.looseObject({
+  id: z.string(),
+  type: z.string(), // 'universal', 'advanced', ...
+  hosts: z.array(z.string()).default([]),
+  status: z.string(), // 'active', 'pending_validation', ...
+  certificate_authority: z.string().optional(),
+  validity_days: z.number().optional(),
+  validation_method: z.string().optional(),
+  validation_records: z.array(z.looseObject({
+    cname: z.string().optional(),
+    cname_target: z.string().optional(),
+    txt_name: z.string().optional(),
+    txt_value: z.string().optional(),
+    http_url: z.string().optional(),
+    http_body: z.string().optional(),
+  })).optional(),
+  validation_errors: z.array(z.looseObject({ message: z.string() })).optional(),
+  cloudflare_branding: z.boolean().optional(),
+  created_on: z.string().optional(),
+  expires_on: z.string().optional(),
+});
+
+export const originCertificateSchema = z.looseObject({
+  id: z.string(),
+  certificate: z.string(),
+  hostnames: z.array(z.string()),
+  expires_on: z.string(),
+  request_type: z.string().optional(),
+});
+
+export const rulesetRuleSchema = z.looseObject({
+  id: z.string().optional(),
+  ref: z.string().optional(), // Stable identifier we set so bulk pushes can find their own rules again
+  description: z.string().optional(),
+  expression: z.string(),
+  action: z.string(),
+  action_parameters: z.record(z.string(), z.any()).optional(),
+  enabled: z.boolean().default(true),
+  last_updated: z.string().optional(),
+});
+
+export const rulesetSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  kind: z.string(),
+  phase: z.enum(['http_request_firewall_custom', 'http_request_dynamic_redirect', 'http_request_redirect']),
+  version: z.string().optional(),
+  rules: z.array(rulesetRuleSchema).default([]),
+  last_updated: z.string().optional(),
+});
+
+export const bulkRedirectSchema = z.looseObject({
+  source_url: z.string(),
+  target_url: z.string(),
+  status_code: z.union([z.literal(301), z.literal(302), z.literal(307), z.literal(308)]).optional(),
+  preserve_query_string: z.boolean().optional(),
+  include_subdomains: z.boolean().optional(),
+  subpath_matching: z.boolean().optional(),
+  preserve_path_suffix: z.boolean().optional(),
+});
+
+export const rulesListSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  kind: z.enum(['ip', 'redirect', 'hostname', 'asn']),
+  num_items: z.number().default(0),
+  num_referencing_filters: z.number().default(0),
+  created_on: z.string(),
+  modified_on: z.string(),
+});
+
+export const redirectListItemSchema = z.looseObject({
+  id: z.string().optional(),
+  redirect: bulkRedirectSchema,
+  created_on: z.string().optional(),
+  modified_on: z.string().optional(),
+});
+
+// Shape of /zones/{id}/dnssec; the DS fields are only present once DNSSEC is enabled
+export const zoneDNSSECSchema = z.looseObject({
+  status: z.enum(['active', 'pending', 'disabled', 'pending-disabled', 'error']),
+  algorithm: nullableString,
+  digest: nullableString,
+  digest_algorithm: nullableString,
+  digest_type: nullableString,
+  ds: nullableString,
+  flags: z.number().nullish(),
+  key_tag: z.number().nullish(),
+  key_type: nullableString,
+  public_key: nullableString,
+  modified_on: nullableString,
+});
+
+export const botManagementSchema = z.looseObject({
+  fight_mode: z.boolean().optional(),
+  enable_js: z.boolean().optional(),
+  ai_bots_protection: z.enum(['disabled', 'block']).optional(),
+  is_robots_txt_managed: z.boolean().optional(),
+});
+
+const adaptiveGroupSchema = <T extends z.ZodRawShape>(dimensions: T) => z.looseObject({
+  count: z.number(),
+  dimensions: z.looseObject(dimensions),
+});
+
+export const zoneAdaptiveGroupsSchema = z.looseObject({
+  series: z.array(adaptiveGroupSchema({ datetimeHour: z.string(), cacheStatus: z.string() }).extend({
+    sum: z.looseObject({ edgeResponseBytes: z.number() }),
+  })),
+  countries: z.array(adaptiveGroupSchema({ clientCountryName: z.string() })),
+  statusCodes: z.array(adaptiveGroupSchema({ edgeResponseStatus: z.number() })),
+});
+
+export const zoneDailyGroupSchema = z.looseObject({
+  dimensions: z.looseObject({ date: z.string() }),
+  sum: z.looseObject({
+    requests: z.number(),
+    cachedRequests: z.number(),
+    bytes: z.number(),
+    cachedBytes: z.number(),
+    countryMap: z.array(z.looseObject({ clientCountryName: z.string(), requests: z.number() })).default([]),
+    responseStatusMap: z.array(z.looseObject({ edgeResponseStatus: z.number(), requests: z.number() })).default([]),
+  }),
+});
+
+export const zoneRequestCountSchema = z.looseObject({
+  zoneTag: z.string(),
+  httpRequestsAdaptiveGroups: z.array(z.looseObject({ count: z.number() })),
+});
+
+export const securityEventSchema = z.looseObject({
+  rayName: z.string(),
+  datetime: z.string(),
+  action: z.string(),
+  source: z.string(),
+  ruleId: z.string().default(''),
+  description: z.string().default(''),
+  clientIP: z.string(),
+  clientCountryName: z.string().default(''),
+  clientRequestHTTPMethodName: z.string().default(''),
+  clientRequestHTTPHost: z.string().default(''),
+  clientRequestPath: z.string().default(''),
+  clientRequestQuery: z.string().default(''),
+  userAgent: z.string().default(''),
+});
+
+export const zoneSecurityEventsSchema = z.looseObject({
+  events: z.array(securityEventSchema),
+  rules: z.array(z.looseObject({
+    count: z.number(),
+    dimensions: z.looseObject({
+      action: z.string(),
+      source: z.string(),
+      ruleId: z.string().default(''),
+      description: z.string().default(''),
+    }),
+  })),
+});
+
+export const emailRoutingSettingsSchema = z.looseObject({
+  tag: z.string(),
+  name: z.string(),
+  enabled: z.boolean(),
+  // 'ready' once the MX and SPF records Cloudflare needs are in place
+  status: z.string(),
+  created: z.string().optional(),
+  modified: z.string().optional(),
+});
+
+export const emailRoutingRuleSchema = z.looseObject({
+  tag: z.string().optional(),
+  name: z.string().optional(),
+  enabled: z.boolean().default(true),
+  priority: z.number().optional(),
+  matchers: z.array(z.looseObject({
+    type: z.enum(['literal', 'all']),
+    field: z.literal('to').optional(),
+    value: z.string().optional(),
+  })),
+  actions: z.array(z.looseObject({
+    type: z.enum(['forward', 'drop', 'worker']),
+    value: z.array(z.string()).optional(),
+  })),
+});
+
+export const emailRoutingAddressSchema = z.looseObject({
+  tag: z.string(),
+  email: z.string(),
+  // Time the address was verified, null until the owner clicks the verification link
+  verified: z.string().nullable().default(null),
+  created: z.string().optional(),
+  modified: z.string().optional(),
+});
+
+export const tunnelSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(), // 'inactive', 'degraded', 'healthy' or 'down'
+  created_at: z.string(),
+  // 'cloudflare' tunnels take their ingress rules from the API; 'local' ones from a config file on the server
+  config_src: z.enum(['cloudflare', 'local']).optional(),
+  connections: z.array(z.looseObject({
+    id: z.string(),
+    colo_name: z.string(),
+    origin_ip: z.string().optional(),
+    client_version: z.string().optional(),
+    opened_at: z.string().optional(),
+    is_pending_reconnect: z.boolean().optional(),
+  })).default([]),
+});
+
+export const tunnelIngressRuleSchema = z.looseObject({
+  hostname: z.string().optional(),
+  path: z.string().optional(),
+  service: z.string(), // e.g. http://localhost:8080, or http_status:404 for the catch-all
+  originRequest: z.record(z.string(), z.unknown()).optional(),
+});
+
+export class CloudflareResponseError extends Error {
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(context: string, issues: z.core.$ZodIssue[]) {
+    const details = issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'response'}: ${issue.message}`)
+      .join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(`Unexpected Cloudflare response for ${context}: ${details}${more}`);
+    this.name = 'CloudflareResponseError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates a `result` payload; the return type is the schema's output.
+ */
+export function parseCloudflareResult<S extends z.ZodType>(schema: S, payload: unknown, context: string): z.output<S> {
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    console.error(`Cloudflare ${context} payload failed validation:`, payload, parsed.error.issues);
+    throw new CloudflareResponseError(context, parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+/**
+ * Validates every item of a list payload. One bad item fails the whole list, and the error
+ * names the items (by name or id) so the broken record can be found in Cloudflare.
+ */
+export function parseCloudflareList<S extends z.ZodType>(schema: S, payload: unknown, context: string): z.output<S>[] {
+  const items = parseCloudflareResult(z.array(z.unknown()), payload ?? [], context);
+
+  const valid: z.output<S>[] = [];
+  const invalid: string[] = [];
+  const issues: z.core.$ZodIssue[] = [];
+  items.forEach((item, index) => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) {
+      valid.push(parsed.data);
+      return;
+    }
+    const { name, id } = (item ?? {}) as { name?: unknown; id?: unknown };
+    invalid.push(typeof name === 'string' ? name : typeof id === 'string' ? id : `#${index}`);
+    issues.push(...parsed.error.issues.map(issue => ({ ...issue, path: [index, ...issue.path] })));
+  });
+
+  if (issues.length > 0) {
+    console.error(`Cloudflare ${context} payload failed validation:`, payload, issues);
+    const names = invalid.slice(0, 5).join(', ') + (invalid.length > 5 ? ` and ${invalid.length - 5} more` : '');
+    throw new CloudflareResponseError(`${context} (${names})`, issues);
+  }
+  return valid;
+}
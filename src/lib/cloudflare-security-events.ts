@@ -0,0 +1,107 @@
+import type { SecurityEventFilters, SecurityEventsRange } from '@/types/cloudflare';
+
+/**
+ * Queries and labels for Cloudflare's firewallEventsAdaptive dataset, which records every
+ * request a security product acted on: WAF rules, Bot Fight Mode, rate limiting and so on.
+ * Free plans keep these events for 72 hours, so ranges stop there.
+ */
+
+export const SECURITY_EVENT_RANGES: { value: SecurityEventsRange; label: string; hours: number }[] = [
+  { value: '1h', label: 'Last hour', hours: 1 },
+  { value: '6h', label: 'Last 6 hours', hours: 6 },
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '72h', label: 'Last 3 days', hours: 72 },
+];
+
+export const SECURITY_EVENT_ACTIONS: { value: string; label: string }[] = [
+  { value: 'block', label: 'Block' },
+  { value: 'managed_challenge', label: 'Managed challenge' },
+  { value: 'jschallenge', label: 'JS challenge' },
+  { value: 'challenge', label: 'Interactive challenge' },
+  { value: 'skip', label: 'Skip' },
+  { value: 'allow', label: 'Allow' },
+  { value: 'log', label: 'Log' },
+  { value: 'connection_close', label: 'Close connection' },
+];
+
+export const SECURITY_EVENT_SOURCES: { value: string; label: string }[] = [
+  { value: 'firewallCustom', label: 'WAF custom rules' },
+  { value: 'firewallManaged', label: 'WAF managed rules' },
+  { value: 'botFight', label: 'Bot Fight Mode' },
+  { value: 'ratelimit', label: 'Rate limiting' },
+  { value: 'securitylevel', label: 'Security level' },
+  { value: 'bic', label: 'Browser integrity check' },
+  { value: 'hot', label: 'Hotlink protection' },
+  { value: 'uablock', label: 'User agent blocking' },
+  { value: 'zonelockdown', label: 'Zone lockdown' },
+  { value: 'l7ddos', label: 'HTTP DDoS protection' },
+  { value: 'validation', label: 'Request validation' },
+];
+
+export const getSecurityEventActionLabel = (action: string) =>
+  SECURITY_EVENT_ACTIONS.find(item => item.value === action)?.label ?? action;
+
+export const getSecurityEventSourceLabel = (source: string) =>
+  SECURITY_EVENT_SOURCES.find(item => item.value === source)?.label ?? source;
+
+const EVENT_FIELDS = `
+  rayName
+  datetime
+  action
+  source
+  ruleId
+  description
+  clientIP
+  clientCountryName
+  clientRequestHTTPMethodName
+  clientRequestHTTPHost
+  clientRequestPath
+  clientRequestQuery
+  userAgent
+`;
+
+export const ZONE_SECURITY_EVENTS_QUERY = `
+  query ZoneSecurityEvents($zoneTag: string!, $filter: ZoneFirewallEventsAdaptiveFilter_InputObject!, $limit: uint64!) {
+    viewer {
+      zones(filter: { zoneTag: $zoneTag }) {
+        events: firewallEventsAdaptive(limit: $limit, filter: $filter, orderBy: [datetime_DESC]) {
+          ${EVENT_FIELDS}
+        }
+        rules: firewallEventsAdaptiveGroups(limit: 20, filter: $filter, orderBy: [count_DESC]) {
+          count
+          dimensions { action source ruleId description }
+        }
+      }
+    }
+  }
+`;
+
+export function getSecurityEventsWindow(range: SecurityEventsRange, now = new Date()) {
+  const hours = SECURITY_EVENT_RANGES.find(item => item.value === range)!.hours;
+  return {
+    since: new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString(),
+    until: now.toISOString(),
+  };
+}
+
+/**
+ * GraphQL filter for a window and the viewer's filters. Empty filters are left out
+ * rather than sent as empty strings, which would match nothing.
+ */
+export function buildSecurityEventsFilter(since: string, until: string, filters: SecurityEventFilters) {
+  const filter: Record<string, string> = { datetime_geq: since, datetime_leq: until };
+  const action = filters.action?.trim();
+  const source = filters.source?.trim();
+  const ruleId = filters.ruleId?.trim();
+  const country = filters.country?.trim().toUpperCase();
+  const ip = filters.ip?.trim();
+  const path = filters.path?.trim();
+
+  if (action) filter.action = action;
+  if (source) filter.source = source;
+  if (ruleId) filter.ruleId = ruleId;
+  if (country) filter.clientCountryName = country;
+  if (ip) filter.clientIP = ip;
+  if (path) filter.clientRequestPath_like = `%${path}%`;
+  return filter;
+}
@@ -0,0 +1,118 @@
+import type { CloudflareTunnel, DNSRecord, TunnelIngressRule, Zone } from '@/types/cloudflare';
+
+export const TUNNEL_CATCH_ALL: TunnelIngressRule = { service: 'http_status:404' };
+
+export const getTunnelCNAME = (tunnelId: string) => `${tunnelId}.cfargotunnel.com`;
+
+/**
+ * Drops empty rows and catch-alls from an edited rule list and appends a single catch-all,
+ * which cloudflared requires as the last rule.
+ */
+export function normalizeTunnelIngress(rules: TunnelIngressRule[]): TunnelIngressRule[] {
+  const routed = rules
+    .filter(rule => rule.hostname?.trim() && rule.service.trim())
+    .map(rule => ({
+      ...rule,
+      hostname: rule.hostname!.trim().toLowerCase(),
+      path: rule.path?.trim() || undefined,
+      service: rule.service.trim(),
+    }));
+  const catchAll = rules.find(rule => !rule.hostname?.trim() && rule.service.trim());
+  return [...routed, catchAll ?? TUNNEL_CATCH_ALL];
+}
+
+// Longest suffix wins, so sub.example.co.uk matches example.co.uk rather than co.uk
+export function findZoneForHostname<T extends { zone: Zone }>(hostname: string, zones: T[]): T | undefined {
+  const name = hostname.toLowerCase();
+  return zones
+    .filter(({ zone }) => name === zone.name.toLowerCase() || name.endsWith(`.${zone.name.toLowerCase()}`))
+    .sort((a, b) => b.zone.name.length - a.zone.name.length)[0];
+}
+
+export type TunnelDNSState = 'routed' | 'exposed' | 'other' | 'missing' | 'unknown';
+
+export const TUNNEL_DNS_STATE_LABELS: Record<TunnelDNSState, string> = {
+  routed: 'Routed',
+  exposed: 'Origin exposed',
+  other: 'Points elsewhere',
+  missing: 'No record',
+  unknown: 'DNS not loaded',
+};
+
+/**
+ * What a hostname resolves to today, from cached records: the tunnel CNAME, an A/AAAA record
+ * that exposes an origin IP, some other CNAME, or nothing.
+ */
+export function getTunnelDNSState(hostname: string, tunnelId: string, records: DNSRecord[] | undefined): TunnelDNSState {
+  if (!records) return 'unknown';
+  const name = hostname.toLowerCase();
+  const atName = records.filter(record => record.name.toLowerCase() === name && ['A', 'AAAA', 'CNAME'].includes(record.type));
+
+  if (atName.some(record => record.type === 'CNAME' && record.content.toLowerCase() === getTunnelCNAME(tunnelId))) return 'routed';
+  if (atName.some(record => record.type === 'A' || record.type === 'AAAA')) return 'exposed';
+  if (atName.length > 0) return 'other';
+  return 'missing';
+}
+
+const sanitizeUnitName = (value: string) => value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'tunnel';
+
+/**
+ * Files and command for /api/ssh-deploy that run the connector as its own systemd service.
+ * The token goes into a root-only environment file instead of the unit's command line, where
+ * `cloudflared service install` would put it, visible to every user in the process list.
+ * Needs a root login (or one that can write /etc and run systemctl).
+ */
+export function buildConnectorInstall(tunnel: CloudflareTunnel, token: string) {
+  const unit = `cloudflared-${sanitizeUnitName(tunnel.name)}`;
+  const envPath = `/etc/cloudflared/${unit}.env`;
+  const scriptPath = `/etc/cloudflared/install-${unit}.sh`;
+
+  const unitFile = `[Unit]
+Description=Cloudflare Tunnel ${tunnel.name} (${tunnel.id})
+After=network-online.target
+Wants=network-online.target
+
+[Service]
+Type=notify
+EnvironmentFile=${envPath}
+ExecStart=/usr/local/bin/cloudflared --no-autoupdate tunnel run
+Restart=on-failure
+RestartSec=5s
+
+[Install]
+WantedBy=multi-user.target
+`;
+
+  const script = `#!/bin/sh
+set -e
+if [ ! -x /usr/local/bin/cloudflared ]; then
+  existing="$(command -v cloudflared || true)"
+  if [ -n "$existing" ]; then
+    ln -sf "$existing" /usr/local/bin/cloudflared
+  else
+    case "$(uname -m)" in
+      x86_64) arch=amd64 ;;
+      aarch64|arm64) arch=arm64 ;;
+      armv7l) arch=arm ;;
+      *) echo "Unsupported architecture $(uname -m)" >&2; exit 1 ;;
+    esac
+    curl -fsSL -o /usr/local/bin/cloudflared "https://github.com/cloudflare/cloudflared/releases/latest/download/cloudflared-linux-$arch"
+    chmod +x /usr/local/bin/cloudflared
+  fi
+fi
+systemctl daemon-reload
+systemctl enable ${unit}.service
+systemctl restart ${unit}.service
+/usr/local/bin/cloudflared --version
+`;
+
+  return {
+    unit,
+    files: [
+      { path: envPath, content: `TUNNEL_TOKEN=${token}\n`, mode: 0o600 },
+      { path: `/etc/systemd/system/${unit}.service`, content: unitFile, mode: 0o644 },
+      { path: scriptPath, content: script, mode: 0o755 },
+    ],
+    command: `sh ${scriptPath}`,
+  };
+}
@@ -1,4 +1,4 @@
-import type { CloudflareAccount, ProxyAccount, VPSAccount, SSHAccount, NPMAccount, AccountCategory, RegistrarType } from '@/types/cloudflare'
+import type { CloudflareAccount, CloudflareAuthMode, ProxyAccount, VPSAccount, SSHAccount, NPMAccount, AccountCategory, RegistrarType } from '@/types/cloudflare'
 
 /** Resolved proxy data that callers can pass for richer export output. */
 export interface ResolvedProxyForExport {
@@ -17,6 +17,13 @@ export interface CredentialParser<T> {
 }
 
 // --- Cloudflare Parser ---
+
+// Global API Keys are 37 hex characters; scoped API tokens are 40 characters of base64url
+const GLOBAL_API_KEY_PATTERN = /^[0-9a-f]{37}$/i
+
+export const detectCloudflareAuthMode = (key: string): CloudflareAuthMode =>
+    GLOBAL_API_KEY_PATTERN.test(key.trim()) ? 'global_key' : 'api_token'
+
 export const CloudflareParser: CredentialParser<CloudflareAccount> = {
     category: 'cloudflare',
     parse: (line: string) => {
@@ -31,11 +38,12 @@ export const CloudflareParser: CredentialParser<CloudflareAccount> = {
         return {
             email,
             apiToken,
+            authMode: detectCloudflareAuthMode(apiToken),
             category: 'cloudflare'
         }
     },
     export: (account) => `${account.email}  ${account.apiToken}`,
-    helpText: "Format: Email  API_Token",
+    helpText: "Format: Email  API_Token_or_Global_API_Key (the key type is detected automatically)",
     exampleText: `# Example format (one account per line):
 user@company.com  auth_token_123abc
 admin@client.com  auth_token_456def`
@@ -53,6 +61,10 @@ export const RegistrarParser: CredentialParser<CloudflareAccount> = {
 
         if (!email.includes('@') || !apiToken) return null
 
+        // Porkbun keys come in pairs: the secret key is the third column
+        const apiSecret = options.registrarName === 'porkbun' ? parts[2] : undefined
+        if (options.registrarName === 'porkbun' && !apiSecret) return null
+
         return {
             email,
             apiToken,
@@ -60,12 +72,14 @@ export const RegistrarParser: CredentialParser<CloudflareAccount> = {
             registrarName: options.registrarName,
             username: options.registrarName === 'namecheap'
                 ? email.split('@')[0].replaceAll('.', '')
-                : undefined
+                : undefined,
+            apiSecret
         }
     },
     export: (account, resolvedProxy) => {
         let line = `${account.email}  ${account.apiToken}`
         if (account.registrarName === 'namecheap' && account.username) line += `  ${account.username}`
+        if (account.registrarName === 'porkbun' && account.apiSecret) line += `  ${account.apiSecret}`
         if (account.registrarName === 'namecheap' && resolvedProxy) {
             let proxyStr = `${resolvedProxy.host}:${resolvedProxy.port}`
             if (resolvedProxy.username) {
@@ -76,11 +90,12 @@ export const RegistrarParser: CredentialParser<CloudflareAccount> = {
         }
         return line
     },
-    helpText: "Format: Email  API_Key  [Namecheap username]  [Namecheap proxy]",
+    helpText: "Format: Email  API_Key  [Namecheap username]  [Namecheap proxy]  (Porkbun: Email  API_Key  Secret_Key)",
     exampleText: `# Example format (one account per line):
 user@example.com  api_key_1234567890
 admin@client.com  api_key_abcdef1234  admin  127.0.0.1:1080
-support@company.com  api_key_xyz789`
+support@company.com  api_key_xyz789
+pigs@farm.com  pk1_abcdef123456  sk1_123456abcdef`
 }
 
 
@@ -0,0 +1,89 @@
+/**
+ * Minimal PKCS#10 CSR generation on top of WebCrypto, so private keys for Origin CA
+ * certificates are created locally and never sent to Cloudflare.
+ * Keys are ECDSA P-256 (Cloudflare request type "origin-ecc").
+ */
+
+const OID_COMMON_NAME = [0x55, 0x04, 0x03]; // 2.5.4.3
+const OID_ECDSA_WITH_SHA256 = [0x2a, 0x86, 0x48, 0xce, 0x3d, 0x04, 0x03, 0x02]; // 1.2.840.10045.4.3.2
+
+function encodeLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length >>= 8;
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+const tlv = (tag: number, content: number[]) => [tag, ...encodeLength(content.length), ...content];
+const sequence = (...items: number[][]) => tlv(0x30, items.flat());
+const set = (...items: number[][]) => tlv(0x31, items.flat());
+const oid = (bytes: number[]) => tlv(0x06, bytes);
+const utf8String = (value: string) => tlv(0x0c, Array.from(new TextEncoder().encode(value)));
+const bitString = (bytes: number[]) => tlv(0x03, [0x00, ...bytes]);
+
+function integer(bytes: number[]): number[] {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  const trimmed = bytes.slice(start);
+  // Prefix a zero byte so the value stays positive
+  return tlv(0x02, trimmed[0] & 0x80 ? [0x00, ...trimmed] : trimmed);
+}
+
+// WebCrypto returns ECDSA signatures as raw r||s; X.509 expects a DER sequence of two integers
+function rawSignatureToDER(signature: Uint8Array): number[] {
+  const half = signature.length / 2;
+  return sequence(
+    integer(Array.from(signature.slice(0, half))),
+    integer(Array.from(signature.slice(half)))
+  );
+}
+
+function toPEM(label: string, der: ArrayBuffer | number[]): string {
+  const bytes = der instanceof ArrayBuffer ? new Uint8Array(der) : Uint8Array.from(der);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  const base64 = btoa(binary).match(/.{1,64}/g)!.join('\n');
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----\n`;
+}
+
+export interface GeneratedCSR {
+  csr: string;
+  privateKey: string;
+}
+
+export async function generateCSR(commonName: string): Promise<GeneratedCSR> {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify']
+  );
+
+  const spki = Array.from(new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey)));
+  const subject = sequence(set(sequence(oid(OID_COMMON_NAME), utf8String(commonName))));
+  const requestInfo = sequence(
+    integer([0x00]),
+    subject,
+    spki,
+    [0xa0, 0x00] // no attributes; Cloudflare takes the hostnames from the request body
+  );
+
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    keyPair.privateKey,
+    Uint8Array.from(requestInfo)
+  );
+
+  const csr = sequence(
+    requestInfo,
+    sequence(oid(OID_ECDSA_WITH_SHA256)),
+    bitString(rawSignatureToDER(new Uint8Array(signature)))
+  );
+
+  return {
+    csr: toPEM('CERTIFICATE REQUEST', csr),
+    privateKey: toPEM('PRIVATE KEY', await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)),
+  };
+}
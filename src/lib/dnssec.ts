@@ -0,0 +1,84 @@
+import type { DSRecord, ZoneDNSSEC } from '@/types/cloudflare';
+
+export type DNSSECState = 'unknown' | 'disabled' | 'pending' | 'active' | 'mismatch';
+
+export const DNSSEC_STATE_LABELS: Record<DNSSECState, string> = {
+  unknown: 'Not checked',
+  disabled: 'Disabled',
+  pending: 'Pending',
+  active: 'Active',
+  mismatch: 'DS mismatch',
+};
+
+export function toDSRecord(details: ZoneDNSSEC | null | undefined): DSRecord | null {
+  if (!details?.key_tag || !details.algorithm || !details.digest_type || !details.digest) {
+    return null;
+  }
+
+  return {
+    keyTag: details.key_tag,
+    algorithm: Number(details.algorithm),
+    digestType: Number(details.digest_type),
+    digest: details.digest.toUpperCase(),
+  };
+}
+
+export function formatDSRecord(ds: DSRecord): string {
+  return `${ds.keyTag} ${ds.algorithm} ${ds.digestType} ${ds.digest}`;
+}
+
+function parseDSRecord(value: string): DSRecord | null {
+  const [keyTag, algorithm, digestType, ...digest] = value.trim().split(/\s+/);
+  if (!keyTag || !algorithm || !digestType || digest.length === 0) return null;
+
+  return {
+    keyTag: Number(keyTag),
+    algorithm: Number(algorithm),
+    digestType: Number(digestType),
+    digest: digest.join('').toUpperCase(),
+  };
+}
+
+const isSameDS = (a: DSRecord, b: DSRecord) =>
+  a.keyTag === b.keyTag && a.algorithm === b.algorithm && a.digestType === b.digestType && a.digest === b.digest;
+
+/**
+ * Reads the DS records published in the parent zone over DNS-over-HTTPS.
+ * This is what resolvers actually see, so it works for every registrar, including ones without a DNSSEC API.
+ */
+export async function lookupPublishedDS(domain: string): Promise<string[]> {
+  const response = await fetch(`https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(domain)}&type=DS`, {
+    headers: { Accept: 'application/dns-json' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`DS lookup failed: ${response.status}`);
+  }
+
+  const data = await response.json() as { Answer?: { type: number; data: string }[] };
+  return (data.Answer || [])
+    .filter(answer => answer.type === 43)
+    .map(answer => answer.data);
+}
+
+/**
+ * Combines Cloudflare's view with the DS records in the parent zone.
+ * A DS record that does not match the zone's key breaks resolution for validating resolvers, so it
+ * counts as a mismatch even when Cloudflare still reports the zone as pending.
+ */
+export function getDNSSECState(details: ZoneDNSSEC | null | undefined, publishedDS: string[] | null | undefined): DNSSECState {
+  if (!details) return 'unknown';
+
+  const published = (publishedDS || []).map(parseDSRecord).filter((ds): ds is DSRecord => ds !== null);
+
+  if (details.status === 'disabled') {
+    return published.length > 0 ? 'mismatch' : 'disabled';
+  }
+
+  const expected = toDSRecord(details);
+  if (published.length > 0 && expected && !published.some(ds => isSameDS(ds, expected))) {
+    return 'mismatch';
+  }
+
+  return details.status === 'active' ? 'active' : 'pending';
+}
@@ -0,0 +1,72 @@
+import { DynadotAPI } from '@/lib/dynadot-api';
+import {
+  isDynadotUsingOurDNS,
+  normalizeDynadotRenewOption,
+  normalizeDynadotStatus,
+  parseDynadotTimestamp,
+} from '@/lib/dynadot-utils';
+import { SandboxDynadotAPI } from '@/lib/sandbox-registrars';
+import type { DynadotDomain } from '@/types/dynadot';
+import type { RegistrarAdapter, RegistrarCredentials, UnifiedDomain } from '@/types/registrar';
+
+function toUnifiedDomain(domain: DynadotDomain, accountId: string): UnifiedDomain {
+  return {
+    id: `dynadot-${domain.Name}`,
+    name: domain.Name,
+    registrar: 'dynadot',
+    status: normalizeDynadotStatus(domain),
+    expiry: parseDynadotTimestamp(domain.Expiration),
+    autorenew: normalizeDynadotRenewOption(domain.RenewOption),
+    accountId,
+    locked: domain.Locked ? domain.Locked.toLowerCase() === 'yes' : undefined,
+    isUsingOurDNS: domain.isUsingOurDNS ?? isDynadotUsingOurDNS(domain.NameServerSettings),
+  };
+}
+
+export function createDynadotAdapter(credentials: RegistrarCredentials, sandbox: boolean): RegistrarAdapter {
+  const api = sandbox ? new SandboxDynadotAPI() : new DynadotAPI({ apiKey: credentials.apiKey });
+
+  return {
+    async listDomains() {
+      const domains = await api.getDomains();
+      return domains.map(domain => toUnifiedDomain(domain, credentials.accountId));
+    },
+
+    async getNameservers(domain) {
+      return api.getNameservers(domain);
+    },
+
+    async setNameservers(domain, nameservers) {
+      if (nameservers.length === 0) {
+        throw new Error('At least one nameserver is required');
+      }
+      await api.setNameservers(domain, nameservers);
+    },
+
+    async renewDomain(domain, years) {
+      const { expiry } = await api.renewDomain(domain, years);
+      return { domain, years, expiry };
+    },
+
+    async getRenewalPrice(domain, years) {
+      return { domain, years, ...(await api.getRenewalPrice(domain, years)) };
+    },
+
+    async getBalance() {
+      return api.getBalance();
+    },
+
+    async setAutorenew(domain, enabled) {
+      await api.setRenewOption(domain, enabled);
+    },
+
+    async setDnssec(domain, ds) {
+      await api.setDnssec(domain, ds);
+    },
+
+    async testConnection() {
+      await api.getDomains();
+      return true;
+    },
+  };
+}
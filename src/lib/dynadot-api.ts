@@ -1,8 +1,10 @@
 import fetch from 'node-fetch';
 import type { DynadotDomain } from '@/types/dynadot';
+import type { DSRecord } from '@/types/cloudflare';
 import {
   extractDynadotHosts,
   isDynadotUsingOurDNS,
+  parseDynadotTimestamp,
 } from '@/lib/dynadot-utils';
 
 interface DynadotConfig {
@@ -31,6 +33,27 @@ interface DynadotSetNsResponse {
   SetNsResponse?: DynadotResponseEnvelope;
 }
 
+interface DynadotSetDnssecResponse {
+  SetDnssecResponse?: DynadotResponseEnvelope;
+}
+
+interface DynadotRenewResponse {
+  RenewResponse?: DynadotResponseEnvelope & {
+    Expiration?: number | string;
+    PriceInfo?: string;
+  };
+}
+
+interface DynadotAccountBalanceResponse {
+  GetAccountBalanceResponse?: DynadotResponseEnvelope & {
+    BalanceList?: Array<{ Currency?: string; Amount?: string | number }>;
+  };
+}
+
+interface DynadotSetRenewOptionResponse {
+  SetRenewOptionResponse?: DynadotResponseEnvelope;
+}
+
 export class DynadotAPI {
   private readonly baseUrl = 'https://api.dynadot.com/api3.json';
 
@@ -134,4 +157,69 @@ export class DynadotAPI {
 
     return { success: true };
   }
+
+  async setDnssec(domain: string, ds: DSRecord): Promise<{ success: boolean }> {
+    const payload = await this.request<DynadotSetDnssecResponse>({
+      command: 'set_dnssec',
+      domain_name: domain,
+      key_tag: String(ds.keyTag),
+      algorithm: String(ds.algorithm),
+      digest_type: String(ds.digestType),
+      digest: ds.digest,
+    });
+    this.assertSuccess(payload.SetDnssecResponse, `Failed to set DS record for ${domain}`);
+
+    return { success: true };
+  }
+
+  async renewDomain(domain: string, years: number): Promise<{ expiry?: string }> {
+    const payload = await this.request<DynadotRenewResponse>({
+      command: 'renew',
+      domain,
+      duration: String(years),
+    });
+    this.assertSuccess(payload.RenewResponse, `Failed to renew ${domain}`);
+
+    return { expiry: parseDynadotTimestamp(payload.RenewResponse?.Expiration) || undefined };
+  }
+
+  // `renew` with price_check only quotes; PriceInfo reads like "Unit-Price: 10.99 USD, Total-Price: 21.98 USD"
+  async getRenewalPrice(domain: string, years: number): Promise<{ price: number; currency: string }> {
+    const payload = await this.request<DynadotRenewResponse>({
+      command: 'renew',
+      domain,
+      duration: String(years),
+      price_check: '1',
+    });
+    this.assertSuccess(payload.RenewResponse, `Failed to get the renewal price of ${domain}`);
+
+    const priceInfo = payload.RenewResponse?.PriceInfo ?? '';
+    const match = priceInfo.match(/total[^\d]*([\d.]+)\s*([A-Z]{3})/i) ?? priceInfo.match(/([\d.]+)\s*([A-Z]{3})/);
+    if (!match) {
+      throw new Error(`Dynadot returned no renewal price for ${domain}`);
+    }
+
+    // Without a total, the only price listed is per year
+    const amount = parseFloat(match[1]);
+    return { price: /total/i.test(match[0]) ? amount : amount * years, currency: match[2].toUpperCase() };
+  }
+
+  async getBalance(): Promise<{ amount: number; currency: string }> {
+    const payload = await this.request<DynadotAccountBalanceResponse>({ command: 'get_account_balance' });
+    this.assertSuccess(payload.GetAccountBalanceResponse, 'Failed to get the Dynadot account balance');
+
+    const balance = payload.GetAccountBalanceResponse?.BalanceList?.[0];
+    return { amount: Number(balance?.Amount ?? 0), currency: balance?.Currency || 'USD' };
+  }
+
+  async setRenewOption(domain: string, autorenew: boolean): Promise<{ success: boolean }> {
+    const payload = await this.request<DynadotSetRenewOptionResponse>({
+      command: 'set_renew_option',
+      domain,
+      renew_option: autorenew ? 'auto' : 'donot',
+    });
+    this.assertSuccess(payload.SetRenewOptionResponse, `Failed to change the renew option of ${domain}`);
+
+    return { success: true };
+  }
 }
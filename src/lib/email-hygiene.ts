@@ -0,0 +1,146 @@
+import type { DNSRecord } from '@/types/cloudflare';
+
+export type EmailHygieneState = 'unknown' | 'ok' | 'parked' | 'warning' | 'error';
+
+export const EMAIL_HYGIENE_STATE_LABELS: Record<EmailHygieneState, string> = {
+  unknown: 'DNS not loaded',
+  ok: 'OK',
+  parked: 'Parked',
+  warning: 'Warnings',
+  error: 'Problems',
+};
+
+export interface EmailHygieneIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface EmailHygieneReport {
+  state: EmailHygieneState;
+  mx: string[];
+  spf: string[];
+  dmarc: string[];
+  dkimSelectors: string[];
+  usesEmailRouting: boolean;
+  issues: EmailHygieneIssue[];
+}
+
+// Template for domains that never send or receive mail: every receiver should reject mail claiming to be from them
+export const REJECT_ALL_SPF = 'v=spf1 -all';
+export const REJECT_ALL_DMARC = 'v=DMARC1; p=reject; sp=reject; adkim=s; aspf=s';
+
+const EMAIL_ROUTING_MX = /^route\d+\.mx\.cloudflare\.net\.?$/i;
+const EMAIL_ROUTING_SPF_INCLUDE = 'include:_spf.mx.cloudflare.net';
+
+// SPF mechanisms and modifiers that cost a DNS lookup; receivers give up after 10 (RFC 7208 4.6.4)
+const SPF_LOOKUP_TERMS = /^[+\-~?]?(include:|a\b|mx\b|ptr\b|exists:|redirect=)/i;
+
+// TXT content comes back quoted and long values are split into several strings
+export const unquoteTXT = (content: string) =>
+  content.trim().replace(/^"|"$/g, '').replace(/"\s*"/g, '');
+
+const isSPF = (content: string) => /^v=spf1(\s|$)/i.test(content);
+const isDMARC = (content: string) => /^v=DMARC1\s*(;|$)/i.test(content);
+
+const getDMARCTag = (record: string, tag: string) =>
+  record.split(';').map(part => part.trim()).find(part => part.toLowerCase().startsWith(`${tag}=`))?.slice(tag.length + 1).trim().toLowerCase();
+
+/**
+ * Audits the mail-related records of a zone: MX, SPF at the apex, DMARC at _dmarc and DKIM keys
+ * under _domainkey. Works on cached records only, so it can run over every zone at once.
+ */
+export function auditEmailRecords(zoneName: string, records: DNSRecord[] | undefined): EmailHygieneReport {
+  if (!records) {
+    return { state: 'unknown', mx: [], spf: [], dmarc: [], dkimSelectors: [], usesEmailRouting: false, issues: [] };
+  }
+
+  const apex = zoneName.toLowerCase();
+  const dmarcName = `_dmarc.${apex}`;
+  const dkimSuffix = `._domainkey.${apex}`;
+  const issues: EmailHygieneIssue[] = [];
+
+  const apexTXT = records.filter(record => record.type === 'TXT' && record.name.toLowerCase() === apex).map(record => unquoteTXT(record.content));
+  const mx = records.filter(record => record.type === 'MX' && record.name.toLowerCase() === apex).map(record => record.content);
+  const spf = apexTXT.filter(isSPF);
+  const dmarc = records
+    .filter(record => record.type === 'TXT' && record.name.toLowerCase() === dmarcName)
+    .map(record => unquoteTXT(record.content))
+    .filter(isDMARC);
+  const dkimSelectors = Array.from(new Set(records
+    .filter(record => (record.type === 'TXT' || record.type === 'CNAME') && record.name.toLowerCase().endsWith(dkimSuffix))
+    .map(record => record.name.slice(0, -dkimSuffix.length))));
+
+  const usesEmailRouting = mx.some(host => EMAIL_ROUTING_MX.test(host));
+  // A null MX (RFC 7505) says the domain accepts no mail at all
+  const hasNullMX = mx.some(host => host === '.' || host === '');
+  const receivesMail = mx.length > 0 && !hasNullMX;
+  const rejectsAllSPF = spf.length === 1 && /^v=spf1\s+-all$/i.test(spf[0].trim());
+
+  // MX
+  if (hasNullMX && mx.length > 1) {
+    issues.push({ severity: 'error', message: 'Null MX published alongside other MX records' });
+  }
+
+  // SPF
+  if (spf.length === 0) {
+    issues.push({ severity: receivesMail ? 'error' : 'warning', message: 'No SPF record' });
+  } else if (spf.length > 1) {
+    issues.push({ severity: 'error', message: `${spf.length} SPF records; receivers treat this as a permanent error` });
+  } else {
+    const terms = spf[0].split(/\s+/).slice(1);
+    const all = terms.find(term => /^[+\-~?]?all$/i.test(term));
+    const lookups = terms.filter(term => SPF_LOOKUP_TERMS.test(term)).length;
+
+    if (all === '+all' || all === 'all') {
+      issues.push({ severity: 'error', message: 'SPF allows every sender (+all)' });
+    } else if (all === '?all') {
+      issues.push({ severity: 'warning', message: 'SPF is neutral (?all)' });
+    } else if (!all && !terms.some(term => term.toLowerCase().startsWith('redirect='))) {
+      issues.push({ severity: 'warning', message: 'SPF has no "all" mechanism' });
+    }
+    if (lookups > 10) {
+      issues.push({ severity: 'error', message: `SPF needs ${lookups} DNS lookups, more than the limit of 10` });
+    }
+    if (usesEmailRouting && !spf[0].toLowerCase().includes(EMAIL_ROUTING_SPF_INCLUDE)) {
+      issues.push({ severity: 'warning', message: `Email Routing MX without ${EMAIL_ROUTING_SPF_INCLUDE} in SPF` });
+    }
+    if (rejectsAllSPF && receivesMail) {
+      issues.push({ severity: 'warning', message: 'SPF rejects all senders but MX records accept mail; replies and forwards will fail' });
+    }
+  }
+
+  // DMARC
+  if (dmarc.length === 0) {
+    issues.push({ severity: 'warning', message: 'No DMARC record' });
+  } else if (dmarc.length > 1) {
+    issues.push({ severity: 'error', message: `${dmarc.length} DMARC records; receivers ignore all of them` });
+  } else {
+    const policy = getDMARCTag(dmarc[0], 'p');
+    if (!policy || !['none', 'quarantine', 'reject'].includes(policy)) {
+      issues.push({ severity: 'error', message: 'DMARC record has no valid policy (p=)' });
+    } else if (policy === 'none') {
+      issues.push({ severity: 'warning', message: 'DMARC policy is monitor only (p=none)' });
+    }
+  }
+
+  // DKIM selectors are only known when published in this zone; a missing key is a hint, not a failure
+  if (spf.length > 0 && !rejectsAllSPF && dkimSelectors.length === 0) {
+    issues.push({ severity: 'warning', message: 'Sends mail per SPF but no DKIM key found under _domainkey' });
+  }
+
+  const isParked = !receivesMail && rejectsAllSPF && dmarc.length === 1 && getDMARCTag(dmarc[0], 'p') === 'reject';
+
+  let state: EmailHygieneState = 'ok';
+  if (issues.some(issue => issue.severity === 'error')) state = 'error';
+  else if (issues.length > 0) state = 'warning';
+  else if (isParked) state = 'parked';
+
+  return { state, mx, spf, dmarc, dkimSelectors, usesEmailRouting, issues };
+}
+
+/**
+ * The reject-all template only fits zones that take no mail, so zones with MX records
+ * (other than a null MX) are left alone.
+ */
+export const canApplyRejectAllTemplate = (report: EmailHygieneReport) =>
+  report.state !== 'unknown' && report.state !== 'parked' && report.mx.every(host => host === '.' || host === '');
@@ -0,0 +1,229 @@
+import { NamecheapAPI } from '@/lib/namecheap-api';
+import { SandboxNamecheapAPI } from '@/lib/sandbox-registrars';
+import type { NamecheapContact, NamecheapDomain, NamecheapEmailType, NamecheapHost } from '@/types/namecheap';
+import type {
+  RegistrarAdapter,
+  RegistrarAvailability,
+  RegistrarContact,
+  RegistrarCredentials,
+  RegistrarHostRecord,
+  UnifiedDomain,
+} from '@/types/registrar';
+
+// Namecheap reports dates as MM/DD/YYYY, optionally followed by a time
+function parseNamecheapDate(value: string | undefined): string {
+  const match = value?.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (!match) return value ?? '';
+  const [, month, day, year] = match;
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))).toISOString();
+}
+
+function splitDomain(domain: string): { sld: string; tld: string } {
+  const [sld, ...rest] = domain.split('.');
+  if (!sld || rest.length === 0) {
+    throw new Error(`Invalid domain: ${domain}`);
+  }
+  return { sld, tld: rest.join('.') };
+}
+
+function toUnifiedDomain(domain: NamecheapDomain, accountId: string): UnifiedDomain {
+  let status: UnifiedDomain['status'] = 'active';
+  if (domain.IsExpired) status = 'expired';
+  else if (domain.IsLocked) status = 'locked';
+
+  return {
+    id: `nc-${domain.ID}`,
+    name: domain.Name,
+    registrar: 'namecheap',
+    status,
+    expiry: parseNamecheapDate(domain.Expires),
+    autorenew: domain.AutoRenew,
+    accountId,
+    locked: domain.IsLocked,
+    privacy: domain.WhoisGuard === 'ENABLED',
+    premium: domain.IsPremium,
+    isUsingOurDNS: domain.IsOurDNS,
+  };
+}
+
+// getPricing is slow and counts against the rate limit; prices rarely change within an hour
+const PRICE_CACHE_TTL = 60 * 60 * 1000;
+const priceCache = new Map<string, { expires: number; price: number; currency: string }>();
+
+// namecheap.domains.check accepts at most 50 names per call
+const CHECK_BATCH_SIZE = 50;
+
+function toNamecheapContact(contact: RegistrarContact): NamecheapContact {
+  return {
+    FirstName: contact.firstName,
+    LastName: contact.lastName,
+    OrganizationName: contact.organization,
+    Address1: contact.address1,
+    Address2: contact.address2,
+    City: contact.city,
+    StateProvince: contact.stateProvince,
+    PostalCode: contact.postalCode,
+    Country: contact.country,
+    Phone: contact.phone,
+    EmailAddress: contact.email,
+  };
+}
+
+function toHostRecord(host: NamecheapHost): RegistrarHostRecord {
+  return {
+    id: host.HostId,
+    name: host.Name,
+    type: host.Type,
+    address: host.Address,
+    ttl: host.TTL,
+    mxPref: host.Type === 'MX' ? host.MXPref : undefined,
+  };
+}
+
+// setHosts also sets the mail mode: MX records only take effect under 'MX', and other
+// modes (forwarding, Private Email) must survive an edit that doesn't touch mail
+function resolveEmailType(records: RegistrarHostRecord[], current: NamecheapEmailType): NamecheapEmailType {
+  if (records.some(record => record.type === 'MX')) return 'MX';
+  return current === 'MX' ? 'NONE' : current;
+}
+
+export function createNamecheapAdapter(credentials: RegistrarCredentials, sandbox: boolean): RegistrarAdapter {
+  let api: NamecheapAPI | SandboxNamecheapAPI;
+  if (sandbox) {
+    api = new SandboxNamecheapAPI();
+  } else {
+    const { apiUser, apiKey, clientIp, proxy } = credentials;
+    if (!apiUser || !clientIp) {
+      throw new Error('Namecheap requires an API user and a whitelisted client IP (the assigned proxy host)');
+    }
+    // Without a proxy port the requests go out directly, so the host must be this server's whitelisted IP
+    api = new NamecheapAPI({ apiUser, apiKey, clientIp, proxy });
+  }
+
+  const getPrice = async (action: 'REGISTER' | 'RENEW', tld: string, years: number) => {
+    const cacheKey = `${sandbox ? 'sandbox' : credentials.apiUser}:${action}:${tld}:${years}`;
+    let cached = priceCache.get(cacheKey);
+    if (!cached || cached.expires < Date.now()) {
+      cached = { ...(await api.getDomainPrice(action, tld, years)), expires: Date.now() + PRICE_CACHE_TTL };
+      priceCache.set(cacheKey, cached);
+    }
+    return cached;
+  };
+
+  return {
+    async listDomains() {
+      const { domains } = await api.getDomains();
+      return domains.map(domain => toUnifiedDomain(domain, credentials.accountId));
+    },
+
+    async getNameservers(domain) {
+      const { sld, tld } = splitDomain(domain);
+      return api.getNameservers(sld, tld);
+    },
+
+    async setNameservers(domain, nameservers) {
+      if (nameservers.length === 0) {
+        throw new Error('At least one nameserver is required');
+      }
+      const { sld, tld } = splitDomain(domain);
+      await api.setNameservers(sld, tld, nameservers);
+    },
+
+    async renewDomain(domain, years) {
+      const result = await api.renewDomain(domain, years);
+      return {
+        domain,
+        years,
+        expiry: result.expiry ? parseNamecheapDate(result.expiry) : undefined,
+        chargedAmount: result.chargedAmount,
+        orderId: result.orderId,
+      };
+    },
+
+    async getRenewalPrice(domain, years) {
+      const { tld } = splitDomain(domain);
+      const { price, currency } = await getPrice('RENEW', tld, years);
+      return { domain, years, price, currency };
+    },
+
+    async getBalance() {
+      return api.getBalance();
+    },
+
+    async checkAvailability(domains, years) {
+      const results: RegistrarAvailability[] = [];
+      for (let i = 0; i < domains.length; i += CHECK_BATCH_SIZE) {
+        const checks = await api.checkDomains(domains.slice(i, i + CHECK_BATCH_SIZE));
+        for (const check of checks) {
+          const domain = check.Domain.toLowerCase();
+          if (check.Description) {
+            results.push({ domain, available: false, error: check.Description });
+          } else if (check.IsPremiumName) {
+            results.push({ domain, available: check.Available, premium: true, price: check.PremiumRegistrationPrice, currency: 'USD' });
+          } else {
+            results.push({ domain, available: check.Available });
+          }
+        }
+      }
+
+      // Regular names cost the TLD's registration price; look each TLD up once
+      const tlds = new Set(results.filter(r => r.available && !r.premium).map(r => splitDomain(r.domain).tld));
+      const prices = new Map<string, { price: number; currency: string }>();
+      for (const tld of tlds) {
+        try {
+          prices.set(tld, await getPrice('REGISTER', tld, years));
+        } catch (error) {
+          console.error(`Failed to get Namecheap registration price for .${tld}:`, error);
+        }
+      }
+
+      return results.map(result => {
+        const price = result.available && !result.premium ? prices.get(splitDomain(result.domain).tld) : undefined;
+        return price ? { ...result, price: price.price, currency: price.currency } : result;
+      });
+    },
+
+    async registerDomain(domain, years, contact) {
+      const result = await api.createDomain(domain, years, toNamecheapContact(contact));
+      return { domain, years, chargedAmount: result.chargedAmount, orderId: result.orderId };
+    },
+
+    async setLock(domain, locked) {
+      const { success } = await api.setRegistrarLock(domain, locked);
+      if (!success) {
+        throw new Error(`Namecheap did not ${locked ? 'lock' : 'unlock'} ${domain}`);
+      }
+    },
+
+    async getHostRecords(domain) {
+      const { sld, tld } = splitDomain(domain);
+      const { hosts, isUsingOurDNS } = await api.getHosts(sld, tld);
+      return { records: hosts.map(toHostRecord), isUsingOurDNS };
+    },
+
+    async setHostRecords(domain, records) {
+      if (records.length === 0) {
+        throw new Error('At least one host record is required');
+      }
+      const { sld, tld } = splitDomain(domain);
+      const { emailType } = await api.getHosts(sld, tld);
+      const hosts = records.map((record): NamecheapHost => ({
+        Name: record.name,
+        Type: record.type,
+        Address: record.address,
+        TTL: record.ttl,
+        MXPref: record.type === 'MX' ? (record.mxPref ?? 10) : undefined,
+      }));
+
+      const { success } = await api.setHosts(sld, tld, hosts, resolveEmailType(records, emailType));
+      if (!success) {
+        throw new Error(`Namecheap did not update host records for ${domain}`);
+      }
+    },
+
+    async testConnection() {
+      await api.getDomains(1, 10);
+      return true;
+    },
+  };
+}
@@ -1,7 +1,7 @@
 import { SocksProxyAgent } from 'socks-proxy-agent';
 import { parseStringPromise } from 'xml2js';
 import fetch from 'node-fetch';
-import { NamecheapApiResponse, NamecheapDomain, NamecheapDomainsResponse } from '@/types/namecheap';
+import { NamecheapApiResponse, NamecheapContact, NamecheapDomain, NamecheapDomainCheck, NamecheapEmailType, NamecheapHost } from '@/types/namecheap';
 
 interface NamecheapConfig {
   apiUser: string;
@@ -283,5 +283,204 @@ export class NamecheapAPI {
 
     return { success: updated };
   }
-}
 
+  // Shared request path for commands that only need the first CommandResponse
+  private async executeCommand(command: string, params: Record<string, string>): Promise<any> {
+    const proxyAgent = this.createProxyAgent();
+
+    let response;
+    try {
+      response = await fetch(this.buildUrl(command, params), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/xml' },
+        ...(proxyAgent && { agent: proxyAgent as any }),
+      });
+    } catch (error) {
+      throw new Error(`Failed to connect to Namecheap API: ${error instanceof Error ? error.message : 'Unknown network error'}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Namecheap API HTTP error: ${response.status}`);
+    }
+
+    const { ApiResponse } = await this.parseXmlResponse(await response.text());
+
+    if (ApiResponse.$.Status !== 'OK') {
+      this.handleApiError(ApiResponse);
+    }
+
+    const commandResponse = Array.isArray(ApiResponse.CommandResponse)
+      ? ApiResponse.CommandResponse[0]
+      : ApiResponse.CommandResponse;
+
+    if (!commandResponse) {
+      throw new Error('No command response found in Namecheap API response');
+    }
+
+    return commandResponse;
+  }
+
+  async renewDomain(domainName: string, years: number): Promise<{ orderId?: string; chargedAmount?: number; expiry?: string }> {
+    const commandResponse = await this.executeCommand('namecheap.domains.renew', {
+      DomainName: domainName,
+      Years: String(years),
+    });
+
+    const result = commandResponse.DomainRenewResult;
+    if (!result || !this.parseBoolean(result.$?.Renew)) {
+      throw new Error(`Namecheap did not renew ${domainName}`);
+    }
+
+    const chargedAmount = parseFloat(result.$.ChargedAmount);
+    return {
+      orderId: result.$.OrderID,
+      chargedAmount: Number.isFinite(chargedAmount) ? chargedAmount : undefined,
+      expiry: result.DomainDetails?.ExpiredDate,
+    };
+  }
+
+  async setRegistrarLock(domainName: string, locked: boolean): Promise<{ success: boolean }> {
+    const commandResponse = await this.executeCommand('namecheap.domains.setRegistrarLock', {
+      DomainName: domainName,
+      LockAction: locked ? 'LOCK' : 'UNLOCK',
+    });
+
+    return { success: this.parseBoolean(commandResponse.DomainSetRegistrarLockResult?.$?.IsSuccess) };
+  }
+
+  async getBalance(): Promise<{ amount: number; currency: string }> {
+    const commandResponse = await this.executeCommand('namecheap.users.getBalances', {});
+
+    const result = commandResponse.UserGetBalancesResult?.$;
+    if (!result) {
+      throw new Error('No balance result found in response');
+    }
+
+    return { amount: parseFloat(result.AvailableBalance), currency: result.Currency };
+  }
+
+  // Price to register or renew a TLD for `years`, including the ICANN fee, at the account's pricing tier
+  async getDomainPrice(action: 'REGISTER' | 'RENEW', tld: string, years: number): Promise<{ price: number; currency: string }> {
+    const commandResponse = await this.executeCommand('namecheap.users.getPricing', {
+      ProductType: 'DOMAIN',
+      ActionName: action,
+      ProductName: tld,
+    });
+
+    const first = (value: any) => Array.isArray(value) ? value[0] : value;
+    const category = first(first(commandResponse.UserGetPricingResult?.ProductType)?.ProductCategory);
+    const priceData = first(category?.Product)?.Price;
+    const prices: any[] = (Array.isArray(priceData) ? priceData : priceData ? [priceData] : []).map((p: any) => p.$ || p);
+
+    const exact = prices.find(p => p.DurationType === 'YEAR' && Number(p.Duration) === years);
+    const entry = exact ?? prices.find(p => p.DurationType === 'YEAR' && Number(p.Duration) === 1);
+    if (!entry) {
+      throw new Error(`Namecheap has no ${action === 'RENEW' ? 'renewal' : 'registration'} price for .${tld}`);
+    }
+
+    // "YourAdditonalCost" is spelled that way in the API response
+    const amount = parseFloat(entry.YourPrice ?? entry.Price) + (parseFloat(entry.YourAdditonalCost ?? entry.AdditionalCost) || 0);
+    // MULTIPLE prices are per year; ABSOLUTE ones already cover the whole duration
+    const isPerYear = !exact || (entry.YourPriceType ?? entry.PricingType) === 'MULTIPLE';
+    const price = isPerYear ? amount * years : amount;
+
+    return { price: Math.round(price * 100) / 100, currency: entry.Currency || 'USD' };
+  }
+
+  // Up to 50 names per call
+  async checkDomains(domainNames: string[]): Promise<NamecheapDomainCheck[]> {
+    const commandResponse = await this.executeCommand('namecheap.domains.check', {
+      DomainList: domainNames.join(','),
+    });
+
+    const resultData = commandResponse.DomainCheckResult;
+    const results = Array.isArray(resultData) ? resultData : resultData ? [resultData] : [];
+
+    return results.map((r: any): NamecheapDomainCheck => {
+      const result = r.$ || r;
+      const premiumPrice = parseFloat(result.PremiumRegistrationPrice);
+      return {
+        Domain: result.Domain,
+        Available: this.parseBoolean(result.Available),
+        IsPremiumName: this.parseBoolean(result.IsPremiumName),
+        PremiumRegistrationPrice: Number.isFinite(premiumPrice) && premiumPrice > 0 ? premiumPrice : undefined,
+        Description: result.Description || undefined,
+      };
+    });
+  }
+
+  // Registers with the same contact for every role and free WhoisGuard privacy
+  async createDomain(domainName: string, years: number, contact: NamecheapContact): Promise<{ orderId?: string; chargedAmount?: number }> {
+    const params: Record<string, string> = {
+      DomainName: domainName,
+      Years: String(years),
+      AddFreeWhoisguard: 'yes',
+      WGEnabled: 'yes',
+    };
+    for (const role of ['Registrant', 'Tech', 'Admin', 'AuxBilling']) {
+      for (const [field, value] of Object.entries(contact)) {
+        if (value) params[`${role}${field}`] = value;
+      }
+    }
+
+    const commandResponse = await this.executeCommand('namecheap.domains.create', params);
+
+    const result = commandResponse.DomainCreateResult;
+    if (!result || !this.parseBoolean(result.$?.Registered)) {
+      throw new Error(`Namecheap did not register ${domainName}`);
+    }
+
+    const chargedAmount = parseFloat(result.$.ChargedAmount);
+    return {
+      orderId: result.$.OrderID,
+      chargedAmount: Number.isFinite(chargedAmount) ? chargedAmount : undefined,
+    };
+  }
+
+  async getHosts(sld: string, tld: string): Promise<{ hosts: NamecheapHost[]; isUsingOurDNS: boolean; emailType: NamecheapEmailType }> {
+    const commandResponse = await this.executeCommand('namecheap.domains.dns.getHosts', { SLD: sld, TLD: tld });
+
+    const result = commandResponse.DomainDNSGetHostsResult;
+    if (!result) {
+      throw new Error('No DNS hosts result found in response');
+    }
+
+    // xml2js keeps the element name's case; Namecheap has sent both <host> and <Host>
+    const hostData = result.host ?? result.Host;
+    const rawHosts = Array.isArray(hostData) ? hostData : hostData ? [hostData] : [];
+
+    const hosts = rawHosts.map((h: any): NamecheapHost => {
+      const host = h.$ || h;
+      const mxPref = parseInt(host.MXPref, 10);
+      return {
+        HostId: host.HostId,
+        Name: host.Name,
+        Type: host.Type,
+        Address: host.Address,
+        MXPref: Number.isFinite(mxPref) ? mxPref : undefined,
+        TTL: parseInt(host.TTL, 10) || 1799,
+      };
+    });
+
+    return {
+      hosts,
+      isUsingOurDNS: this.parseBoolean(result.$?.IsUsingOurDNS),
+      emailType: result.$?.EmailType || 'NONE',
+    };
+  }
+
+  async setHosts(sld: string, tld: string, hosts: NamecheapHost[], emailType: NamecheapEmailType): Promise<{ success: boolean }> {
+    const params: Record<string, string> = { SLD: sld, TLD: tld, EmailType: emailType };
+    hosts.forEach((host, index) => {
+      const n = index + 1;
+      params[`HostName${n}`] = host.Name;
+      params[`RecordType${n}`] = host.Type;
+      params[`Address${n}`] = host.Address;
+      params[`TTL${n}`] = String(host.TTL);
+      if (host.MXPref !== undefined) params[`MXPref${n}`] = String(host.MXPref);
+    });
+
+    const commandResponse = await this.executeCommand('namecheap.domains.dns.setHosts', params);
+    return { success: this.parseBoolean(commandResponse.DomainDNSSetHostsResult?.$?.IsSuccess) };
+  }
+}
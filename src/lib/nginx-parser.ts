@@ -42,6 +42,7 @@ export function parseNginxLocations(redirects: NPMRedirectListResponse[]): Parse
             let match;
             while ((match = locationRegex.exec(redirect.advanced_config!)) !== null) {
                 const location = match[1]; // e.g., "/QEUFzx"
+                const statusCode = parseInt(match[2], 10); // e.g., 301
                 const destination = match[3]; // e.g., "https://gammbly.com/b?f=..."
 
                 // Track all occurrences
@@ -53,6 +54,7 @@ export function parseNginxLocations(redirects: NPMRedirectListResponse[]): Parse
                     location,
                     destination,
                     sourceDomain: domain,
+                    statusCode,
                     isDuplicate: false, // Will be set to true after counting
                 });
             }
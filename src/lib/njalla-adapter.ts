@@ -0,0 +1,56 @@
+import { NjallaAPI } from '@/lib/njalla-api';
+import { SandboxNjallaAPI } from '@/lib/sandbox-registrars';
+import type { NjallaDomain } from '@/types/njalla';
+import type { RegistrarAdapter, RegistrarCredentials, UnifiedDomain } from '@/types/registrar';
+
+function toUnifiedDomain(domain: NjallaDomain, accountId: string): UnifiedDomain {
+  return {
+    id: `njalla-${domain.name}`,
+    name: domain.name,
+    registrar: 'njalla',
+    status: domain.status,
+    expiry: domain.expiry,
+    autorenew: domain.autorenew,
+    accountId,
+  };
+}
+
+export function createNjallaAdapter(credentials: RegistrarCredentials, sandbox: boolean): RegistrarAdapter {
+  const api = sandbox
+    ? new SandboxNjallaAPI()
+    : new NjallaAPI({ apiKey: credentials.apiKey, accountId: credentials.accountId });
+
+  return {
+    async listDomains() {
+      const domains = await api.getDomains();
+      return domains.map(domain => toUnifiedDomain(domain, credentials.accountId));
+    },
+
+    async getNameservers(domain) {
+      const { nameservers = [] } = await api.getDomain(domain);
+      // An empty list means the domain uses Njalla's own nameservers
+      return { nameservers, isUsingOurDNS: nameservers.length === 0 };
+    },
+
+    async setNameservers(domain, nameservers) {
+      await api.editDomain(domain, { nameservers });
+    },
+
+    async renewDomain(domain, years) {
+      await api.renewDomain(domain, years);
+      return { domain, years };
+    },
+
+    async getBalance() {
+      return api.getBalance();
+    },
+
+    async setLock(domain, locked) {
+      await api.editDomain(domain, { lock: locked });
+    },
+
+    async testConnection() {
+      return api.testConnection();
+    },
+  };
+}
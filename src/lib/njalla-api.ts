@@ -147,6 +147,34 @@ export class NjallaAPI {
     }
   }
 
+  // Renewals are charged to the account balance and run as a background task at Njalla
+  async renewDomain(domain: string, years: number): Promise<{ task?: string }> {
+    try {
+      const response = await this.makeRequest<{ task?: string }>({
+        method: 'renew-domain',
+        params: { domain, years }
+      });
+      return response.result ?? {};
+    } catch (error) {
+      console.error(`Error renewing Njalla domain ${domain}:`, error);
+      throw error;
+    }
+  }
+
+  // Njalla accounts are prepaid in euros
+  async getBalance(): Promise<{ amount: number; currency: string }> {
+    try {
+      const response = await this.makeRequest<{ balance: number }>({
+        method: 'get-balance',
+        params: {}
+      });
+      return { amount: Number(response.result?.balance ?? 0), currency: 'EUR' };
+    } catch (error) {
+      console.error('Error getting Njalla balance:', error);
+      throw error;
+    }
+  }
+
   // Test API connection
   async testConnection(): Promise<boolean> {
     try {
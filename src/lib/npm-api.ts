@@ -1,4 +1,24 @@
-import type { NPMSettings, NPMAuthResponse, NPMRedirect, NPMRedirectListResponse } from '@/types/npm';
+import type { NPMSettings, NPMAuthResponse, NPMCertificate, NPMRedirect, NPMRedirectListResponse } from '@/types/npm';
+import type { CloudflareAccount } from '@/types/cloudflare';
+
+/**
+ * NPM credentials are stored as a CloudflareAccount with category 'npm' and a JSON apiToken
+ */
+export function decodeNPMSettings(account: CloudflareAccount | undefined): NPMSettings | null {
+    if (!account || account.category !== 'npm') return null;
+
+    try {
+        const decoded = JSON.parse(account.apiToken);
+        return {
+            host: decoded.host as string,
+            identity: account.email,
+            secret: decoded.secret as string,
+        };
+    } catch {
+        console.error('Failed to decode NPM credentials');
+        return null;
+    }
+}
 
 export class NPMAPIClient {
     private settings: NPMSettings;
@@ -60,7 +80,8 @@ export class NPMAPIClient {
             ...options,
             method: options.method || 'GET',
             headers: {
-                'Content-Type': 'application/json',
+                // Let the browser set the multipart boundary for file uploads
+                ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
                 'X-NPM-Host': this.settings.host,
                 'X-NPM-Token': this.token!,
                 'X-NPM-Endpoint': endpoint,
@@ -145,6 +166,44 @@ export class NPMAPIClient {
         return true;
     }
 
+    /**
+     * Get all SSL certificates
+     */
+    async getCertificates(): Promise<NPMCertificate[]> {
+        return this.request<NPMCertificate[]>('/api/nginx/certificates', {
+            method: 'GET',
+        });
+    }
+
+    /**
+     * Create a custom certificate and upload its PEM certificate and key
+     */
+    async createCustomCertificate(niceName: string, certificate: string, certificateKey: string): Promise<NPMCertificate> {
+        const created = await this.request<NPMCertificate>('/api/nginx/certificates', {
+            method: 'POST',
+            body: JSON.stringify({ provider: 'other', nice_name: niceName }),
+        });
+
+        const form = new FormData();
+        form.append('certificate', new Blob([certificate], { type: 'application/x-pem-file' }), 'cert.pem');
+        form.append('certificate_key', new Blob([certificateKey], { type: 'application/x-pem-file' }), 'key.pem');
+
+        try {
+            await this.request(`/api/nginx/certificates/${created.id}/upload`, {
+                method: 'POST',
+                body: form,
+            });
+        } catch (error) {
+            // Don't leave an empty certificate behind when the upload is rejected
+            await this.request<void>(`/api/nginx/certificates/${created.id}`, { method: 'DELETE' }).catch(() => undefined);
+            throw error;
+        }
+
+        return this.request<NPMCertificate>(`/api/nginx/certificates/${created.id}`, {
+            method: 'GET',
+        });
+    }
+
     /**
      * Test connection to NPM
      */
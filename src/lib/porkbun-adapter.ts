@@ -0,0 +1,66 @@
+import { PorkbunAPI } from '@/lib/porkbun-api';
+import { SandboxPorkbunAPI } from '@/lib/sandbox-registrars';
+import type { PorkbunDomain } from '@/types/porkbun';
+import type { RegistrarAdapter, RegistrarCredentials, UnifiedDomain } from '@/types/registrar';
+
+const isSet = (value: string | number | undefined) => String(value) === '1';
+
+// Porkbun dates are "YYYY-MM-DD HH:MM:SS" in UTC
+function parsePorkbunDate(value: string | undefined): string {
+  if (!value) return '';
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+function toUnifiedDomain(domain: PorkbunDomain, accountId: string): UnifiedDomain {
+  const status = domain.status?.toLowerCase() || 'active';
+
+  return {
+    id: `porkbun-${domain.domain}`,
+    name: domain.domain,
+    registrar: 'porkbun',
+    status: status === 'active' && isSet(domain.securityLock) ? 'locked' : status,
+    expiry: parsePorkbunDate(domain.expireDate),
+    autorenew: isSet(domain.autoRenew),
+    accountId,
+    locked: isSet(domain.securityLock),
+    privacy: isSet(domain.whoisPrivacy),
+  };
+}
+
+export function createPorkbunAdapter(credentials: RegistrarCredentials, sandbox: boolean): RegistrarAdapter {
+  let api: PorkbunAPI | SandboxPorkbunAPI;
+  if (sandbox) {
+    api = new SandboxPorkbunAPI();
+  } else {
+    if (!credentials.apiSecret) {
+      throw new Error('Porkbun requires an API key and a secret API key');
+    }
+    api = new PorkbunAPI({ apiKey: credentials.apiKey, secretApiKey: credentials.apiSecret });
+  }
+
+  return {
+    async listDomains() {
+      const domains = await api.getDomains();
+      return domains
+        // Domains registered elsewhere but using Porkbun DNS cannot have their nameservers changed here
+        .filter(domain => !isSet(domain.notLocal))
+        .map(domain => toUnifiedDomain(domain, credentials.accountId));
+    },
+
+    async getNameservers(domain) {
+      return api.getNameservers(domain);
+    },
+
+    async setNameservers(domain, nameservers) {
+      if (nameservers.length === 0) {
+        throw new Error('At least one nameserver is required');
+      }
+      await api.setNameservers(domain, nameservers);
+    },
+
+    async testConnection() {
+      return api.testConnection();
+    },
+  };
+}
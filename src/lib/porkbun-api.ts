@@ -0,0 +1,92 @@
+import fetch from 'node-fetch';
+import type { PorkbunDomain } from '@/types/porkbun';
+
+interface PorkbunConfig {
+  apiKey: string;
+  secretApiKey: string;
+}
+
+interface PorkbunResponse {
+  status: 'SUCCESS' | 'ERROR';
+  message?: string;
+}
+
+interface PorkbunListAllResponse extends PorkbunResponse {
+  domains?: PorkbunDomain[];
+}
+
+interface PorkbunGetNsResponse extends PorkbunResponse {
+  ns?: string[];
+}
+
+// listAll returns at most 1000 domains per call
+const LIST_PAGE_SIZE = 1000;
+
+// Porkbun's own nameservers are *.ns.porkbun.com (curitiba, fortaleza, maceio, salvador)
+export const isPorkbunNameserver = (nameserver: string) =>
+  nameserver.trim().toLowerCase().replace(/\.$/, '').endsWith('.ns.porkbun.com');
+
+export class PorkbunAPI {
+  private config: PorkbunConfig;
+  private readonly baseUrl = 'https://api.porkbun.com/api/json/v3';
+
+  constructor(config: PorkbunConfig) {
+    this.config = config;
+  }
+
+  // Every endpoint is a POST that carries the key pair in the JSON body
+  private async request<T extends PorkbunResponse>(path: string, body: Record<string, unknown> = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        apikey: this.config.apiKey,
+        secretapikey: this.config.secretApiKey,
+        ...body,
+      }),
+    });
+
+    const payload = await response.json().catch(() => null) as T | null;
+    if (!payload) {
+      throw new Error(`Porkbun API HTTP error: ${response.status}`);
+    }
+    if (payload.status !== 'SUCCESS') {
+      throw new Error(payload.message || `Porkbun API error: ${response.status}`);
+    }
+
+    return payload;
+  }
+
+  async getDomains(): Promise<PorkbunDomain[]> {
+    const domains: PorkbunDomain[] = [];
+
+    for (let start = 0; ; start += LIST_PAGE_SIZE) {
+      const payload = await this.request<PorkbunListAllResponse>('domain/listAll', { start: String(start) });
+      const page = payload.domains ?? [];
+      domains.push(...page);
+      if (page.length < LIST_PAGE_SIZE) break;
+    }
+
+    return domains;
+  }
+
+  async getNameservers(domain: string): Promise<{ nameservers: string[]; isUsingOurDNS: boolean }> {
+    const payload = await this.request<PorkbunGetNsResponse>(`domain/getNs/${encodeURIComponent(domain)}`);
+    const nameservers = payload.ns ?? [];
+
+    return {
+      nameservers,
+      isUsingOurDNS: nameservers.length > 0 && nameservers.every(isPorkbunNameserver),
+    };
+  }
+
+  async setNameservers(domain: string, nameservers: string[]): Promise<{ success: boolean }> {
+    await this.request(`domain/updateNs/${encodeURIComponent(domain)}`, { ns: nameservers });
+    return { success: true };
+  }
+
+  async testConnection(): Promise<boolean> {
+    await this.request('ping');
+    return true;
+  }
+}
@@ -0,0 +1,124 @@
+import type { ParsedNginxLocation } from '@/types/npm';
+import type { RulesetRule } from '@/types/cloudflare';
+
+/**
+ * Single Redirect rules live in the http_request_dynamic_redirect phase.
+ * Reference: https://developers.cloudflare.com/rules/url-forwarding/single-redirects/create-api/
+ */
+
+export const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308] as const;
+
+export type RedirectStatusCode = (typeof REDIRECT_STATUS_CODES)[number];
+
+export interface SingleRedirect {
+  description: string;
+  // Either host/path matching or a custom expression
+  sourceHost: string;
+  sourcePath: string;
+  customExpression?: string;
+  targetType: 'static' | 'dynamic';
+  target: string;
+  statusCode: RedirectStatusCode;
+  preserveQueryString: boolean;
+  enabled: boolean;
+}
+
+export const EMPTY_REDIRECT: SingleRedirect = {
+  description: '',
+  sourceHost: '',
+  sourcePath: '',
+  targetType: 'static',
+  target: '',
+  statusCode: 301,
+  preserveQueryString: false,
+  enabled: true,
+};
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const unquote = (value: string) => value.replace(/\\(["\\])/g, '$1');
+
+export function buildRedirectMatchExpression(redirect: SingleRedirect): string {
+  if (redirect.customExpression?.trim()) {
+    return redirect.customExpression.trim();
+  }
+
+  const conditions: string[] = [];
+  if (redirect.sourceHost.trim()) {
+    conditions.push(`http.host eq ${quote(redirect.sourceHost.trim().toLowerCase())}`);
+  }
+  if (redirect.sourcePath.trim()) {
+    conditions.push(`http.request.uri.path eq ${quote(redirect.sourcePath.trim())}`);
+  }
+  return conditions.length > 0 ? `(${conditions.join(' and ')})` : 'true';
+}
+
+export function toRedirectRule(redirect: SingleRedirect, ref?: string): RulesetRule {
+  return {
+    ref,
+    description: redirect.description.trim() || `${redirect.sourceHost}${redirect.sourcePath} → ${redirect.target}`,
+    expression: buildRedirectMatchExpression(redirect),
+    action: 'redirect',
+    action_parameters: {
+      from_value: {
+        target_url: redirect.targetType === 'dynamic'
+          ? { expression: redirect.target.trim() }
+          : { value: redirect.target.trim() },
+        status_code: redirect.statusCode,
+        preserve_query_string: redirect.preserveQueryString,
+      },
+    },
+    enabled: redirect.enabled,
+  };
+}
+
+const MATCH_PATTERN = /^\(?(?:http\.host eq "((?:[^"\\]|\\.)*)")?(?: and )?(?:http\.request\.uri\.path eq "((?:[^"\\]|\\.)*)")?\)?$/;
+
+export function fromRedirectRule(rule: RulesetRule): SingleRedirect {
+  const fromValue = rule.action_parameters?.from_value || {};
+  const targetUrl = fromValue.target_url || {};
+  const match = rule.expression.match(MATCH_PATTERN);
+  const isSimpleMatch = !!match && (match[1] !== undefined || match[2] !== undefined);
+
+  return {
+    description: rule.description || '',
+    sourceHost: isSimpleMatch ? unquote(match![1] || '') : '',
+    sourcePath: isSimpleMatch ? unquote(match![2] || '') : '',
+    customExpression: isSimpleMatch ? undefined : rule.expression,
+    targetType: targetUrl.expression ? 'dynamic' : 'static',
+    target: targetUrl.expression || targetUrl.value || '',
+    statusCode: (fromValue.status_code || 301) as RedirectStatusCode,
+    preserveQueryString: !!fromValue.preserve_query_string,
+    enabled: rule.enabled,
+  };
+}
+
+export function describeRedirectTarget(rule: RulesetRule): string {
+  const targetUrl = rule.action_parameters?.from_value?.target_url || {};
+  return targetUrl.value || targetUrl.expression || '';
+}
+
+// Deterministic ref so converting the same nginx location twice updates the rule instead of duplicating it
+export function getNginxRedirectRef(host: string, path: string): string {
+  const input = `${host.toLowerCase()}${path}`;
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) >>> 0;
+  }
+  return `npm_${hash.toString(16)}_${input.length}`;
+}
+
+export function nginxLocationToRedirect(location: ParsedNginxLocation): SingleRedirect {
+  const statusCode = REDIRECT_STATUS_CODES.includes(location.statusCode as RedirectStatusCode)
+    ? (location.statusCode as RedirectStatusCode)
+    : 301;
+
+  return {
+    ...EMPTY_REDIRECT,
+    description: `${location.sourceDomain}${location.location}`,
+    sourceHost: location.sourceDomain,
+    sourcePath: location.location,
+    target: location.destination.trim(),
+    statusCode,
+  };
+}
@@ -0,0 +1,30 @@
+import { createDynadotAdapter } from '@/lib/dynadot-adapter';
+import { createNamecheapAdapter } from '@/lib/namecheap-adapter';
+import { createNjallaAdapter } from '@/lib/njalla-adapter';
+import { createPorkbunAdapter } from '@/lib/porkbun-adapter';
+import type { RegistrarAdapter, RegistrarCredentials, RegistrarType } from '@/types/registrar';
+
+type RegistrarAdapterFactory = (credentials: RegistrarCredentials, sandbox: boolean) => RegistrarAdapter;
+
+/**
+ * Server-side registry behind /api/registrar/[name]/[action]. Adding a registrar means
+ * writing its adapter, registering it here and describing it in REGISTRARS (registrars.ts).
+ */
+const REGISTRAR_ADAPTERS: Record<RegistrarType, RegistrarAdapterFactory> = {
+  namecheap: createNamecheapAdapter,
+  njalla: createNjallaAdapter,
+  dynadot: createDynadotAdapter,
+  porkbun: createPorkbunAdapter,
+};
+
+export function isRegisteredRegistrar(name: string): name is RegistrarType {
+  return Object.prototype.hasOwnProperty.call(REGISTRAR_ADAPTERS, name);
+}
+
+export function createRegistrarAdapter(
+  name: RegistrarType,
+  credentials: RegistrarCredentials,
+  sandbox: boolean
+): RegistrarAdapter {
+  return REGISTRAR_ADAPTERS[name](credentials, sandbox);
+}
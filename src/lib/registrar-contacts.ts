@@ -0,0 +1,72 @@
+import type { RegistrarContact } from '@/types/registrar';
+
+const REQUIRED_CONTACT_FIELDS = ['firstName', 'lastName', 'address1', 'city', 'stateProvince', 'postalCode', 'country', 'phone', 'email'] as const;
+
+export const CONTACT_FIELD_LABELS: Record<keyof RegistrarContact, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  organization: 'Organization',
+  address1: 'Address',
+  address2: 'Address line 2',
+  city: 'City',
+  stateProvince: 'State / Province',
+  postalCode: 'Postal code',
+  country: 'Country',
+  phone: 'Phone',
+  email: 'Email',
+};
+
+export const EMPTY_CONTACT: RegistrarContact = {
+  firstName: '',
+  lastName: '',
+  organization: '',
+  address1: '',
+  address2: '',
+  city: '',
+  stateProvince: '',
+  postalCode: '',
+  country: '',
+  phone: '',
+  email: '',
+};
+
+// Trims every field and drops empty optional ones; accepts untrusted input
+export function normalizeRegistrarContact(value: unknown): RegistrarContact {
+  const contact = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const text = (field: keyof RegistrarContact) => typeof contact[field] === 'string' ? (contact[field] as string).trim() : '';
+
+  return {
+    firstName: text('firstName'),
+    lastName: text('lastName'),
+    organization: text('organization') || undefined,
+    address1: text('address1'),
+    address2: text('address2') || undefined,
+    city: text('city'),
+    stateProvince: text('stateProvince'),
+    postalCode: text('postalCode'),
+    country: text('country').toUpperCase(),
+    phone: text('phone'),
+    email: text('email'),
+  };
+}
+
+/**
+ * Returns the first problem with a normalized contact, or null. Registrars check the rest
+ * themselves; these are the formats they reject with vague errors.
+ */
+export function validateRegistrarContact(contact: RegistrarContact): string | null {
+  const missing = REQUIRED_CONTACT_FIELDS.filter(field => !contact[field]);
+  if (missing.length > 0) {
+    return `Missing contact fields: ${missing.map(field => CONTACT_FIELD_LABELS[field]).join(', ')}`;
+  }
+  if (!/^[A-Z]{2}$/.test(contact.country)) {
+    return 'Country must be a two-letter code, e.g. US';
+  }
+  if (!/^\+\d{1,3}\.\d{4,14}$/.test(contact.phone)) {
+    return 'Phone must look like +1.5555550100';
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contact.email)) {
+    return 'Email is not a valid email address';
+  }
+  return null;
+}
@@ -0,0 +1,81 @@
+import { registrarRequest } from '@/lib/registrars';
+import type { CloudflareAccount, ProxyAccount } from '@/types/cloudflare';
+import type { RegistrarHostRecord, RegistrarHostRecords } from '@/types/registrar';
+
+/**
+ * Host records in a registrar's own DNS (Namecheap BasicDNS). Saving replaces the whole
+ * record set, so edits are planned against the loaded records and previewed first.
+ */
+
+// Record types Namecheap accepts in setHosts
+export const HOST_RECORD_TYPES = ['A', 'AAAA', 'ALIAS', 'CAA', 'CNAME', 'MX', 'MXE', 'NS', 'TXT', 'URL', 'URL301', 'FRAME'];
+
+// Namecheap's "Automatic" TTL
+export const DEFAULT_HOST_RECORD_TTL = 1799;
+
+export type HostRecordChangeAction = 'add' | 'remove' | 'change' | 'keep';
+
+export interface HostRecordChange {
+	action: HostRecordChangeAction;
+	record: RegistrarHostRecord;
+	previous?: RegistrarHostRecord;
+}
+
+const hostRecordKey = (record: RegistrarHostRecord) => [
+	record.type.toUpperCase(),
+	record.name.trim().toLowerCase(),
+	record.address.trim(),
+	record.ttl,
+	record.type.toUpperCase() === 'MX' ? record.mxPref ?? 10 : '',
+].join('|');
+
+export const isSameHostRecord = (a: RegistrarHostRecord, b: RegistrarHostRecord) => hostRecordKey(a) === hostRecordKey(b);
+
+// Compares record sets by content, ignoring ids (Namecheap reassigns them on every save)
+export function hostRecordsMatch(a: RegistrarHostRecord[], b: RegistrarHostRecord[]) {
+	const keysA = a.map(hostRecordKey).sort();
+	const keysB = b.map(hostRecordKey).sort();
+	return keysA.length === keysB.length && keysA.every((key, index) => key === keysB[index]);
+}
+
+/**
+ * Lists what saving `next` does to `current`: records keep their id while edited, so
+ * an id match is a change and anything without one is new.
+ */
+export function planHostRecordChanges(current: RegistrarHostRecord[], next: RegistrarHostRecord[]): HostRecordChange[] {
+	const currentById = new Map(current.filter(record => record.id).map(record => [record.id, record]));
+	const kept = new Set<string>();
+
+	const changes = next.map((record): HostRecordChange => {
+		const previous = record.id ? currentById.get(record.id) : undefined;
+		if (!previous) return { action: 'add', record };
+
+		kept.add(record.id!);
+		return isSameHostRecord(previous, record)
+			? { action: 'keep', record }
+			: { action: 'change', record, previous };
+	});
+
+	const removed = current
+		.filter(record => !record.id || !kept.has(record.id))
+		.map((record): HostRecordChange => ({ action: 'remove', record }));
+
+	return [...changes, ...removed];
+}
+
+export async function fetchRegistrarHostRecords(domain: string, regAccount: CloudflareAccount, proxyAccounts: ProxyAccount[]) {
+	return registrarRequest<RegistrarHostRecords>(regAccount, proxyAccounts, 'hosts', {
+		query: { domain },
+	});
+}
+
+export async function setRegistrarHostRecords(
+	domain: string,
+	records: RegistrarHostRecord[],
+	regAccount: CloudflareAccount,
+	proxyAccounts: ProxyAccount[]
+) {
+	await registrarRequest(regAccount, proxyAccounts, 'hosts', {
+		body: { domain, records: records.map(({ id: _id, ...record }) => record) },
+	});
+}
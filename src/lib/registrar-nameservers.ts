@@ -0,0 +1,78 @@
+import { registrarRequest } from '@/lib/registrars';
+import type { CloudflareAccount, ProxyAccount } from '@/types/cloudflare';
+import type { RegistrarNameservers } from '@/types/registrar';
+
+/**
+ * Registrar nameserver helpers shared by domain creation and zone migration.
+ * Requests go through the registrar's adapter at /api/registrar/{name}/nameservers.
+ */
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const normalizeNameservers = (nameservers: string[]) =>
+	nameservers
+		.map(ns => ns.trim().toLowerCase())
+		.filter(Boolean)
+		.sort();
+
+export const nameserversMatch = (expected: string[], actual: string[]) => {
+	const normalizedExpected = normalizeNameservers(expected);
+	const normalizedActual = normalizeNameservers(actual);
+
+	return normalizedExpected.length === normalizedActual.length &&
+		normalizedExpected.every((nameserver, index) => nameserver === normalizedActual[index]);
+};
+
+const formatNameservers = (nameservers: string[]) =>
+	nameservers.length > 0 ? nameservers.join(', ') : '(none)';
+
+export async function fetchRegistrarNameservers(domain: string, regAccount: CloudflareAccount, proxyAccounts: ProxyAccount[]): Promise<string[]> {
+	const { nameservers } = await registrarRequest<RegistrarNameservers>(regAccount, proxyAccounts, 'nameservers', {
+		query: { domain },
+	});
+
+	return Array.isArray(nameservers) ? nameservers : [];
+}
+
+export async function setRegistrarNameservers(domain: string, nameservers: string[], regAccount: CloudflareAccount, proxyAccounts: ProxyAccount[]) {
+	await registrarRequest(regAccount, proxyAccounts, 'nameservers', {
+		body: { domain, nameservers },
+	});
+}
+
+export async function setRegistrarNameserversWithVerification(
+	domain: string,
+	expectedNameservers: string[],
+	regAccount: CloudflareAccount,
+	proxyAccounts: ProxyAccount[]
+) {
+	await setRegistrarNameservers(domain, expectedNameservers, regAccount, proxyAccounts);
+
+	let lastSeenNameservers: string[] = [];
+	let lastVerificationError: Error | null = null;
+
+	for (let attempt = 1; attempt <= 3; attempt++) {
+		try {
+			const currentNameservers = await fetchRegistrarNameservers(domain, regAccount, proxyAccounts);
+			lastSeenNameservers = currentNameservers;
+
+			if (nameserversMatch(expectedNameservers, currentNameservers)) {
+				return;
+			}
+		} catch (error) {
+			lastVerificationError = error instanceof Error ? error : new Error(String(error));
+		}
+
+		if (attempt < 3) {
+			await sleep(1500);
+		}
+	}
+
+	if (lastVerificationError && lastSeenNameservers.length === 0) {
+		throw new Error(`Nameserver verification failed: ${lastVerificationError.message}`);
+	}
+
+	throw new Error(
+		`Nameserver verification failed. Expected ${formatNameservers(expectedNameservers)} but registrar returned ${formatNameservers(lastSeenNameservers)}`
+	);
+}
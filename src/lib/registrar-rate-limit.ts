@@ -0,0 +1,33 @@
+const queueByAccount = new Map<string, Promise<unknown>>();
+const lastRequestAtByAccount = new Map<string, number>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs registrar requests of one account one after another, at least `minIntervalMs` apart.
+ */
+export async function runRateLimitedRequest<T>(
+	accountId: string,
+	minIntervalMs: number,
+	task: () => Promise<T>
+): Promise<T> {
+	const previous = queueByAccount.get(accountId) ?? Promise.resolve();
+
+	const next = previous
+		.catch(() => undefined)
+		.then(async () => {
+			const lastRequestAt = lastRequestAtByAccount.get(accountId) ?? 0;
+			const elapsed = Date.now() - lastRequestAt;
+			const waitMs = Math.max(0, minIntervalMs - elapsed);
+
+			if (waitMs > 0) {
+				await sleep(waitMs);
+			}
+
+			lastRequestAtByAccount.set(accountId, Date.now());
+			return task();
+		});
+
+	queueByAccount.set(accountId, next.catch(() => undefined));
+	return next;
+}
@@ -0,0 +1,123 @@
+import { runRateLimitedRequest } from '@/lib/registrar-rate-limit';
+import type { CloudflareAccount, ProxyAccount } from '@/types/cloudflare';
+import type { RegistrarInfo, RegistrarOperation, RegistrarType } from '@/types/registrar';
+
+/**
+ * Client-side registry of registrars. Each entry has a server-side adapter registered in
+ * registrar-adapters.ts; all requests go through /api/registrar/{name}/{action}.
+ */
+export const REGISTRARS: Record<RegistrarType, RegistrarInfo> = {
+  namecheap: {
+    name: 'namecheap',
+    label: 'Namecheap',
+    requiresProxy: true,
+    supports: { renew: true, renewalPrice: true, balance: true, lock: true, autorenew: false, dnssec: false, hosts: true, register: true },
+  },
+  njalla: {
+    name: 'njalla',
+    label: 'Njalla',
+    // Njalla's DNSSEC switch signs with its own key, whose DS would not match Cloudflare's
+    supports: { renew: true, renewalPrice: false, balance: true, lock: true, autorenew: false, dnssec: false, hosts: false, register: false },
+  },
+  dynadot: {
+    name: 'dynadot',
+    label: 'Dynadot',
+    minRequestInterval: 1000,
+    supports: { renew: true, renewalPrice: true, balance: true, lock: false, autorenew: true, dnssec: true, hosts: false, register: false },
+  },
+  porkbun: {
+    name: 'porkbun',
+    label: 'Porkbun',
+    supports: { renew: false, renewalPrice: false, balance: false, lock: false, autorenew: false, dnssec: false, hosts: false, register: false },
+  },
+};
+
+export const REGISTRAR_TYPES = Object.keys(REGISTRARS) as RegistrarType[];
+
+export const getRegistrarLabel = (registrar: string) =>
+  REGISTRARS[registrar as RegistrarType]?.label ?? registrar;
+
+export const registrarSupports = (registrar: string, operation: RegistrarOperation) =>
+  !!REGISTRARS[registrar as RegistrarType]?.supports[operation];
+
+export function isRegistrarAccount(account: CloudflareAccount): account is CloudflareAccount & { registrarName: RegistrarType } {
+  return account.category === 'registrar' && !!account.registrarName && account.registrarName in REGISTRARS;
+}
+
+// Namecheap API users default to the account email's local part without dots
+export const getRegistrarApiUser = (account: CloudflareAccount) =>
+  account.username || account.email.split('@')[0].replaceAll('.', '');
+
+export function getRegistrarHeaders(account: CloudflareAccount, proxyAccounts: ProxyAccount[]): Record<string, string> {
+  if (!isRegistrarAccount(account)) {
+    throw new Error(`Unsupported registrar: ${account.registrarName || 'unknown'}`);
+  }
+
+  const info = REGISTRARS[account.registrarName];
+  const headers: Record<string, string> = {
+    'x-account-id': account.id,
+    'x-api-key': account.apiToken,
+    'x-api-user': getRegistrarApiUser(account),
+  };
+  if (account.apiSecret) headers['x-api-secret'] = account.apiSecret;
+
+  if (info.requiresProxy) {
+    const accountName = account.name || account.email;
+    if (!account.proxyId) {
+      throw new Error(`No proxy assigned to ${info.label} account ${accountName}`);
+    }
+
+    const proxy = proxyAccounts.find((p) => p.id === account.proxyId);
+    if (!proxy) {
+      throw new Error(`Proxy (id: ${account.proxyId}) not found for ${info.label} account ${accountName}`);
+    }
+
+    headers['x-proxy-host'] = proxy.host;
+    headers['x-proxy-port'] = proxy.port?.toString() || '';
+    if (proxy.username) headers['x-proxy-username'] = proxy.username;
+    if (proxy.password) headers['x-proxy-password'] = proxy.password;
+  }
+
+  return headers;
+}
+
+interface RegistrarRequestOptions {
+  query?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Calls an adapter action through /api/registrar and returns its `data`. Requests with a
+ * body are POSTs; registrars with a `minRequestInterval` are queued per account.
+ */
+export async function registrarRequest<T>(
+  account: CloudflareAccount,
+  proxyAccounts: ProxyAccount[],
+  action: string,
+  { query, body }: RegistrarRequestOptions = {}
+): Promise<T> {
+  const headers = getRegistrarHeaders(account, proxyAccounts);
+  const info = REGISTRARS[account.registrarName as RegistrarType];
+  const url = `/api/registrar/${info.name}/${action}${query ? `?${new URLSearchParams(query).toString()}` : ''}`;
+
+  const execute = () => fetch(url, body === undefined
+    ? { method: 'GET', headers }
+    : { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  const response = info.minRequestInterval
+    ? await runRateLimitedRequest(account.id, info.minRequestInterval, execute)
+    : await execute();
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Invalid response from ${info.label} for ${account.name || account.email}`);
+  }
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `${info.label} request failed`);
+  }
+
+  return data.data as T;
+}
@@ -0,0 +1,74 @@
+import type { RulesetRule, WAFCustomRuleAction } from '@/types/cloudflare';
+
+export const WAF_RULE_ACTIONS: { value: WAFCustomRuleAction; label: string }[] = [
+  { value: 'block', label: 'Block' },
+  { value: 'managed_challenge', label: 'Managed Challenge' },
+  { value: 'js_challenge', label: 'JS Challenge' },
+  { value: 'challenge', label: 'Interactive Challenge' },
+  { value: 'log', label: 'Log' },
+];
+
+export const getWAFActionLabel = (action: string) =>
+  WAF_RULE_ACTIONS.find(item => item.value === action)?.label || action.replace(/_/g, ' ');
+
+export type RulesetPushMode = 'merge' | 'replace';
+
+export interface RulesetPushPlan {
+  rules: RulesetRule[];
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+export function createRuleRef(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
+
+/**
+ * Work out the full rule list to PUT on a zone's entrypoint.
+ * In merge mode rules are matched by `ref`: matches are updated in place, the rest are appended,
+ * and rules the set doesn't know about (e.g. ones added in the dashboard) are kept.
+ * In replace mode the zone ends up with exactly the incoming rules.
+ */
+export function planRulesetPush(existing: RulesetRule[], incoming: RulesetRule[], mode: RulesetPushMode): RulesetPushPlan {
+  const strip = ({ id: _id, last_updated: _lastUpdated, ...rule }: RulesetRule): RulesetRule => rule;
+
+  if (mode === 'replace') {
+    return {
+      rules: incoming.map(strip),
+      created: incoming.length,
+      updated: 0,
+      removed: existing.length,
+    };
+  }
+
+  const incomingByRef = new Map(incoming.filter(rule => rule.ref).map(rule => [rule.ref as string, rule]));
+  const matchedRefs = new Set<string>();
+  let updated = 0;
+
+  const rules = existing.map(rule => {
+    const replacement = rule.ref ? incomingByRef.get(rule.ref) : undefined;
+    if (!replacement) return rule;
+    matchedRefs.add(rule.ref as string);
+    updated++;
+    // The set owns the rule's definition; anything else on the zone's copy (e.g. logging) is kept
+    const {
+      description: _description,
+      expression: _expression,
+      action: _action,
+      action_parameters: _actionParameters,
+      enabled: _enabled,
+      ...kept
+    } = rule;
+    return { ...kept, ...strip(replacement), id: rule.id };
+  });
+
+  const appended = incoming.filter(rule => !rule.ref || !matchedRefs.has(rule.ref)).map(strip);
+
+  return {
+    rules: [...rules, ...appended],
+    created: appended.length,
+    updated,
+    removed: 0,
+  };
+}
@@ -0,0 +1,696 @@
+import {
+  getSandboxState,
+  sandboxId,
+  updateSandboxState,
+  type SandboxEmailRouting,
+  type SandboxTunnel,
+  type SandboxZone,
+} from '@/lib/sandbox-store';
+import type { DNSRecord, EmailRoutingRule, Ruleset, RulesetRule } from '@/types/cloudflare';
+
+/**
+ * In-process stand-in for api.cloudflare.com, answering in the v4 envelope format. Covers
+ * what the dashboard uses day to day; anything else returns a 404 that says so.
+ */
+
+export interface SandboxResponse {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+interface SandboxCloudflareRequest {
+  method: string;
+  path: string;
+  searchParams: URLSearchParams;
+  body?: any;
+  // Token or Global API Key, only used to keep a quota per credential
+  credential: string;
+}
+
+const SANDBOX_NAMESERVERS = ['ada', 'bob', 'cruz', 'dana', 'eve', 'finn', 'gina', 'hugo'].map(name => `${name}.ns.cloudflare.com`);
+
+const DEFAULT_ZONE_SETTINGS: Record<string, unknown> = {
+  ssl: 'flexible',
+  always_use_https: 'off',
+  security_header: { strict_transport_security: { enabled: false, max_age: 0, include_subdomains: false, preload: false, nosniff: false } },
+  tls_1_3: 'on',
+  tls_client_auth: 'off',
+  early_hints: 'off',
+  '0rtt': 'off',
+  pseudo_ipv4: 'off',
+  email_obfuscation: 'on',
+};
+
+// Same budget Cloudflare gives a user, so the rate limit scheduler has something real to read
+const QUOTA = 1200;
+const QUOTA_WINDOW_SECONDS = 300;
+const quotaByCredential = new Map<string, { used: number; resetAt: number }>();
+
+function rateLimitHeaders(credential: string): Record<string, string> {
+  const now = Date.now();
+  let quota = quotaByCredential.get(credential);
+  if (!quota || quota.resetAt <= now) {
+    quota = { used: 0, resetAt: now + QUOTA_WINDOW_SECONDS * 1000 };
+    quotaByCredential.set(credential, quota);
+  }
+  quota.used++;
+
+  return {
+    ratelimit: `"default";r=${Math.max(0, QUOTA - quota.used)};t=${Math.ceil((quota.resetAt - now) / 1000)}`,
+    'ratelimit-policy': `"default";q=${QUOTA};w=${QUOTA_WINDOW_SECONDS}`,
+  };
+}
+
+const ok = (result: unknown, extra: Record<string, unknown> = {}): SandboxResponse => ({
+  status: 200,
+  data: { success: true, errors: [], messages: [], result, ...extra },
+});
+
+const fail = (status: number, message: string, code = 1000): SandboxResponse => ({
+  status,
+  data: { success: false, errors: [{ code, message }], messages: [], result: null },
+});
+
+function paginate<T>(items: T[], searchParams: URLSearchParams): SandboxResponse {
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const perPage = Math.max(1, Math.min(100, Number(searchParams.get('per_page')) || 20));
+  const slice = items.slice((page - 1) * perPage, page * perPage);
+  return ok(slice, {
+    result_info: {
+      page,
+      per_page: perPage,
+      count: slice.length,
+      total_count: items.length,
+      total_pages: Math.max(1, Math.ceil(items.length / perPage)),
+    },
+  });
+}
+
+const now = () => new Date().toISOString();
+
+/**
+ * A pending zone turns active once a sandbox registrar points the domain at its nameservers,
+ * which is what Cloudflare's activation check does against the real registry.
+ */
+function refreshZoneStatus(zone: SandboxZone): SandboxZone {
+  if (zone.status !== 'pending') return zone;
+
+  const { registrars } = getSandboxState();
+  const delegated = Object.values(registrars)
+    .flat()
+    .some(domain =>
+      domain.name === zone.name &&
+      domain.nameservers.length === zone.name_servers.length &&
+      zone.name_servers.every(ns => domain.nameservers.includes(ns))
+    );
+  if (!delegated) return zone;
+
+  return updateSandboxState(() => {
+    zone.status = 'active';
+    zone.activated_on = now();
+    zone.modified_on = now();
+    return zone;
+  });
+}
+
+function findZone(zoneId: string): SandboxZone | undefined {
+  const zone = getSandboxState().cloudflare.zones.find(item => item.id === zoneId);
+  return zone ? refreshZoneStatus(zone) : undefined;
+}
+
+function buildRecord(zone: SandboxZone, body: any, existing?: DNSRecord): DNSRecord {
+  const type = body.type ?? existing?.type;
+  let name: string = body.name ?? existing?.name ?? zone.name;
+  if (name === '@') name = zone.name;
+  else if (!name.endsWith(zone.name)) name = `${name}.${zone.name}`;
+
+  const record: DNSRecord = {
+    ...(existing as DNSRecord),
+    id: existing?.id ?? sandboxId(),
+    zone_id: zone.id,
+    zone_name: zone.name,
+    name,
+    type,
+    content: body.content ?? existing?.content ?? '',
+    proxiable: ['A', 'AAAA', 'CNAME'].includes(type),
+    proxied: ['A', 'AAAA', 'CNAME'].includes(type) ? !!(body.proxied ?? existing?.proxied) : false,
+    ttl: body.ttl ?? existing?.ttl ?? 1,
+    locked: false,
+    comment: body.comment ?? existing?.comment,
+    tags: body.tags ?? existing?.tags ?? [],
+    meta: existing?.meta ?? { auto_added: false, managed_by_apps: false, managed_by_argo_tunnel: false, source: 'primary' },
+    created_on: existing?.created_on ?? now(),
+    modified_on: now(),
+  };
+  if (type === 'MX') record.priority = body.priority ?? existing?.priority ?? 10;
+  if (body.data) (record as any).data = body.data;
+  return record;
+}
+
+function saveRuleset(key: string, scope: 'zone' | 'root', phase: string, rules: RulesetRule[], existing?: Ruleset): Ruleset {
+  const ruleset: Ruleset = {
+    ...(existing as Ruleset),
+    id: existing?.id ?? sandboxId(),
+    name: existing?.name ?? 'default',
+    kind: scope,
+    phase: phase as Ruleset['phase'],
+    rules: rules.map(rule => ({ ...rule, id: rule.id ?? sandboxId(), last_updated: now() })),
+    last_updated: now(),
+  } as Ruleset;
+  updateSandboxState(state => {
+    state.cloudflare.rulesets[key] = ruleset;
+  });
+  return ruleset;
+}
+
+function findRulesetById(rulesetId: string): [string, Ruleset] | undefined {
+  return Object.entries(getSandboxState().cloudflare.rulesets).find(([, ruleset]) => ruleset.id === rulesetId);
+}
+
+function handleZoneRequest(method: string, zone: SandboxZone, rest: string[], searchParams: URLSearchParams, body: any): SandboxResponse {
+  const state = getSandboxState().cloudflare;
+  const [resource, resourceId, ...tail] = rest;
+
+  if (!resource) {
+    if (method === 'GET') return ok(zone);
+    if (method === 'DELETE') {
+      updateSandboxState(({ cloudflare }) => {
+        cloudflare.zones = cloudflare.zones.filter(item => item.id !== zone.id);
+        delete cloudflare.dnsRecords[zone.id];
+        delete cloudflare.settings[zone.id];
+        delete cloudflare.botManagement[zone.id];
+        delete cloudflare.dnssec[zone.id];
+        delete cloudflare.emailRouting?.[zone.id];
+      });
+      return ok({ id: zone.id });
+    }
+  }
+
+  if (resource === 'dns_records') {
+    const records = state.dnsRecords[zone.id] ?? [];
+    if (!resourceId) {
+      if (method === 'GET') {
+        const type = searchParams.get('type');
+        const name = searchParams.get('name');
+        return paginate(records.filter(record => (!type || record.type === type) && (!name || record.name === name)), searchParams);
+      }
+      if (method === 'POST') {
+        if (!body?.type || !body?.name) return fail(400, 'DNS record type and name are required', 9000);
+        const record = buildRecord(zone, body);
+        const duplicate = records.some(item => item.type === record.type && item.name === record.name && item.content === record.content);
+        if (duplicate) return fail(400, 'An identical record already exists.', 81058);
+        updateSandboxState(({ cloudflare }) => {
+          cloudflare.dnsRecords[zone.id] = [...(cloudflare.dnsRecords[zone.id] ?? []), record];
+        });
+        return ok(record);
+      }
+    } else {
+      const existing = records.find(record => record.id === resourceId);
+      if (!existing) return fail(404, 'Record does not exist.', 81044);
+      if (method === 'GET') return ok(existing);
+      if (method === 'PATCH' || method === 'PUT') {
+        const record = buildRecord(zone, body ?? {}, existing);
+        updateSandboxState(({ cloudflare }) => {
+          cloudflare.dnsRecords[zone.id] = records.map(item => (item.id === resourceId ? record : item));
+        });
+        return ok(record);
+      }
+      if (method === 'DELETE') {
+        updateSandboxState(({ cloudflare }) => {
+          cloudflare.dnsRecords[zone.id] = records.filter(item => item.id !== resourceId);
+        });
+        return ok({ id: resourceId });
+      }
+    }
+  }
+
+  if (resource === 'settings') {
+    const settings = state.settings[zone.id] ?? { ...DEFAULT_ZONE_SETTINGS };
+    const toSetting = (id: string) => ({ id, value: settings[id], editable: true, modified_on: zone.modified_on });
+    if (!resourceId && method === 'GET') return ok(Object.keys(settings).map(toSetting));
+    if (resourceId && method === 'GET') {
+      return resourceId in settings ? ok(toSetting(resourceId)) : fail(404, `Unknown setting ${resourceId}`, 1003);
+    }
+    if (resourceId && method === 'PATCH') {
+      updateSandboxState(({ cloudflare }) => {
+        cloudflare.settings[zone.id] = { ...settings, [resourceId]: body?.value };
+      });
+      return ok({ id: resourceId, value: body?.value, editable: true, modified_on: now() });
+    }
+  }
+
+  if (resource === 'bot_management') {
+    const current = state.botManagement[zone.id] ?? { fight_mode: false, enable_js: false, ai_bots_protection: 'disabled' };
+    if (method === 'GET') return ok(current);
+    if (method === 'PUT' || method === 'PATCH') {
+      const next = { ...current, ...body };
+      updateSandboxState(({ cloudflare }) => {
+        cloudflare.botManagement[zone.id] = next;
+      });
+      return ok(next);
+    }
+  }
+
+  if (resource === 'ssl' && resourceId === 'certificate_packs' && method === 'GET') {
+    const packs = zone.status === 'active'
+      ? [{
+        id: `${zone.id.slice(0, 8)}-universal`,
+        type: 'universal',
+        hosts: [zone.name, `*.${zone.name}`],
+        status: 'active',
+        certificate_authority: 'google',
+        validity_days: 90,
+      }]
+      : [];
+    return paginate(packs, searchParams);
+  }
+
+  if (resource === 'dnssec') {
+    const current = state.dnssec[zone.id] ?? { status: 'disabled' as const };
+    if (method === 'GET') return ok(current);
+    if (method === 'PATCH') {
+      const next = body?.status === 'active'
+        ? {
+          status: 'active' as const,
+          algorithm: '13',
+          digest_type: '2',
+          digest_algorithm: 'SHA256',
+          digest: 'A7C5E3F1B9D2C4E6F8A0B2C4D6E8F0A1B3C5D7E9F1A3B5C7D9E1F3A5B7C9D1E3',
+          key_tag: 2371,
+          flags: 257,
+          ds: `${zone.name}. 3600 IN DS 2371 13 2 A7C5E3F1B9D2C4E6F8A0B2C4D6E8F0A1B3C5D7E9F1A3B5C7D9E1F3A5B7C9D1E3`,
+          modified_on: now(),
+        }
+        : { status: 'disabled' as const, modified_on: now() };
+      updateSandboxState(({ cloudflare }) => {
+        cloudflare.dnssec[zone.id] = next;
+      });
+      return ok(next);
+    }
+  }
+
+  if (resource === 'purge_cache' && method === 'POST') {
+    return ok({ id: zone.id });
+  }
+
+  if (resource === 'rulesets') {
+    return handleRulesetRequest(method, 'zone', zone.id, [resourceId, ...tail].filter(Boolean), body);
+  }
+
+  if (resource === 'email' && resourceId === 'routing') {
+    const response = handleEmailRoutingRequest(method, zone, tail, searchParams, body);
+    if (response) return response;
+  }
+
+  return fail(404, `${method} /zones/{id}/${rest.join('/')} is not available in sandbox mode`, 7003);
+}
+
+function handleRulesetRequest(method: string, scope: 'zone' | 'root', ownerId: string, rest: string[], body: any): SandboxResponse {
+  const rulesets = getSandboxState().cloudflare.rulesets;
+
+  // phases/{phase}/entrypoint
+  if (rest[0] === 'phases' && rest[2] === 'entrypoint') {
+    const key = `${ownerId}:${rest[1]}`;
+    if (method === 'GET') {
+      return rulesets[key] ? ok(rulesets[key]) : fail(404, 'Could not find entrypoint ruleset in the phase', 10003);
+    }
+    if (method === 'PUT') {
+      return ok(saveRuleset(key, scope, rest[1], body?.rules ?? [], rulesets[key]));
+    }
+  }
+
+  if (rest.length === 0) {
+    const owned = Object.entries(rulesets).filter(([key]) => key.startsWith(`${ownerId}:`)).map(([, ruleset]) => ruleset);
+    if (method === 'GET') return ok(owned);
+    if (method === 'POST') {
+      const key = `${ownerId}:${body?.phase}`;
+      if (rulesets[key]) return fail(409, 'A similar configuration with rules already exists', 20217);
+      return ok(saveRuleset(key, scope, body?.phase, body?.rules ?? []));
+    }
+  }
+
+  const found = findRulesetById(rest[0]);
+  if (!found) return fail(404, 'Ruleset not found', 10003);
+  const [key, ruleset] = found;
+
+  if (rest.length === 1 && method === 'GET') return ok(ruleset);
+
+  if (rest[1] === 'rules') {
+    const ruleId = rest[2];
+    if (!ruleId && method === 'POST') {
+      return ok(saveRuleset(key, scope, ruleset.phase, [...ruleset.rules, body], ruleset));
+    }
+    if (ruleId && method === 'PATCH') {
+      const rules = ruleset.rules.map(rule => (rule.id === ruleId ? { ...rule, ...body, id: ruleId } : rule));
+      const index = body?.position?.index;
+      if (typeof index === 'number') {
+        const moved = rules.findIndex(rule => rule.id === ruleId);
+        const [rule] = rules.splice(moved, 1);
+        rules.splice(Math.max(0, index - 1), 0, rule);
+      }
+      return ok(saveRuleset(key, scope, ruleset.phase, rules, ruleset));
+    }
+    if (ruleId && method === 'DELETE') {
+      return ok(saveRuleset(key, scope, ruleset.phase, ruleset.rules.filter(rule => rule.id !== ruleId), ruleset));
+    }
+  }
+
+  return fail(404, `${method} rulesets/${rest.join('/')} is not available in sandbox mode`, 7003);
+}
+
+function getEmailRouting(zone: SandboxZone): SandboxEmailRouting {
+  return getSandboxState().cloudflare.emailRouting?.[zone.id] ?? {
+    enabled: false,
+    rules: [],
+    catchAll: { tag: `${zone.id.slice(0, 8)}-catch-all`, name: 'Catch-all', enabled: false, matchers: [{ type: 'all' }], actions: [{ type: 'drop' }] },
+  };
+}
+
+function saveEmailRouting(zone: SandboxZone, routing: SandboxEmailRouting) {
+  updateSandboxState(({ cloudflare }) => {
+    cloudflare.emailRouting ??= {};
+    cloudflare.emailRouting[zone.id] = routing;
+  });
+}
+
+function handleEmailRoutingRequest(method: string, zone: SandboxZone, rest: string[], searchParams: URLSearchParams, body: any): SandboxResponse | undefined {
+  const routing = getEmailRouting(zone);
+  const [resource, tag] = rest;
+  const settings = (enabled: boolean) => ({
+    tag: zone.id,
+    name: zone.name,
+    enabled,
+    status: enabled ? 'ready' : 'unconfigured',
+    created: zone.created_on,
+    modified: now(),
+  });
+
+  if (!resource && method === 'GET') return ok(settings(routing.enabled));
+
+  if (resource === 'dns' && (method === 'POST' || method === 'DELETE')) {
+    saveEmailRouting(zone, { ...routing, enabled: method === 'POST' });
+    return ok(settings(method === 'POST'));
+  }
+
+  if (resource !== 'rules') return undefined;
+
+  if (tag === 'catch_all') {
+    if (method === 'GET') return ok(routing.catchAll);
+    if (method === 'PUT') {
+      const catchAll: EmailRoutingRule = { ...routing.catchAll, ...body, tag: routing.catchAll.tag, matchers: [{ type: 'all' }] };
+      saveEmailRouting(zone, { ...routing, catchAll });
+      return ok(catchAll);
+    }
+    return undefined;
+  }
+
+  if (!tag) {
+    if (method === 'GET') return paginate(routing.rules, searchParams);
+    if (method === 'POST') {
+      const rule: EmailRoutingRule = { enabled: true, priority: 0, ...body, tag: sandboxId() };
+      saveEmailRouting(zone, { ...routing, rules: [...routing.rules, rule] });
+      return ok(rule);
+    }
+    return undefined;
+  }
+
+  const existing = routing.rules.find(rule => rule.tag === tag);
+  if (!existing) return fail(404, 'Rule not found', 2020);
+  if (method === 'GET') return ok(existing);
+  if (method === 'PUT') {
+    const rule: EmailRoutingRule = { ...existing, ...body, tag };
+    saveEmailRouting(zone, { ...routing, rules: routing.rules.map(item => (item.tag === tag ? rule : item)) });
+    return ok(rule);
+  }
+  if (method === 'DELETE') {
+    saveEmailRouting(zone, { ...routing, rules: routing.rules.filter(item => item.tag !== tag) });
+    return ok(existing);
+  }
+  return undefined;
+}
+
+function handleEmailAddressRequest(method: string, accountId: string, tag: string | undefined, searchParams: URLSearchParams, body: any): SandboxResponse {
+  const addresses = getSandboxState().cloudflare.emailAddresses?.[accountId] ?? [];
+  const save = (next: typeof addresses) => updateSandboxState(({ cloudflare }) => {
+    cloudflare.emailAddresses ??= {};
+    cloudflare.emailAddresses[accountId] = next;
+  });
+
+  if (!tag && method === 'GET') return paginate(addresses, searchParams);
+  if (!tag && method === 'POST') {
+    const email = String(body?.email || '').trim().toLowerCase();
+    if (!email.includes('@')) return fail(400, 'Invalid email address', 2010);
+    if (addresses.some(address => address.email === email)) return fail(400, 'Destination address already exists', 2032);
+    // Nobody can click a verification link in the sandbox, so addresses are verified straight away
+    const address = { tag: sandboxId(), email, verified: now(), created: now(), modified: now() };
+    save([...addresses, address]);
+    return ok(address);
+  }
+
+  const existing = addresses.find(address => address.tag === tag);
+  if (!existing) return fail(404, 'Destination address not found', 2020);
+  if (method === 'GET') return ok(existing);
+  if (method === 'DELETE') {
+    save(addresses.filter(address => address.tag !== tag));
+    return ok(existing);
+  }
+  return fail(404, `${method} email/routing/addresses/${tag} is not available in sandbox mode`, 7003);
+}
+
+function handleTunnelRequest(method: string, accountId: string, rest: string[], searchParams: URLSearchParams, body: any): SandboxResponse {
+  const tunnels = getSandboxState().cloudflare.tunnels?.[accountId] ?? [];
+  const save = (next: SandboxTunnel[]) => updateSandboxState(({ cloudflare }) => {
+    cloudflare.tunnels ??= {};
+    cloudflare.tunnels[accountId] = next;
+  });
+  // The ingress rules live in the store next to the tunnel but are only served by /configurations
+  const toTunnel = ({ ingress: _ingress, ...tunnel }: SandboxTunnel) => tunnel;
+  const [tunnelId, resource] = rest;
+
+  if (!tunnelId) {
+    if (method === 'GET') return paginate(tunnels.map(toTunnel), searchParams);
+    if (method === 'POST') {
+      const name = String(body?.name || '').trim();
+      if (!name) return fail(400, 'Tunnel name is required', 1003);
+      if (tunnels.some(tunnel => tunnel.name === name)) return fail(409, 'A tunnel with this name already exists', 1013);
+      const tunnel: SandboxTunnel = {
+        id: crypto.randomUUID(),
+        name,
+        // No connector ever runs against the sandbox, so tunnels stay inactive
+        status: 'inactive',
+        created_at: now(),
+        config_src: body?.config_src ?? 'cloudflare',
+        connections: [],
+        ingress: [{ service: 'http_status:404' }],
+      };
+      save([...tunnels, tunnel]);
+      return ok(toTunnel(tunnel));
+    }
+  }
+
+  const tunnel = tunnels.find(item => item.id === tunnelId);
+  if (!tunnel) return fail(404, 'Tunnel not found', 1003);
+
+  if (!resource) {
+    if (method === 'GET') return ok(toTunnel(tunnel));
+    if (method === 'DELETE') {
+      save(tunnels.filter(item => item.id !== tunnelId));
+      return ok(toTunnel(tunnel));
+    }
+  }
+
+  if (resource === 'token' && method === 'GET') {
+    return ok(Buffer.from(JSON.stringify({ a: accountId, t: tunnel.id, s: 'sandbox' })).toString('base64'));
+  }
+
+  if (resource === 'configurations') {
+    if (method === 'GET') return ok({ tunnel_id: tunnel.id, version: 1, config: { ingress: tunnel.ingress } });
+    if (method === 'PUT') {
+      const ingress = body?.config?.ingress;
+      if (!Array.isArray(ingress) || ingress.length === 0 || ingress[ingress.length - 1]?.hostname) {
+        return fail(400, 'The last ingress rule must be a catch-all without a hostname', 1055);
+      }
+      save(tunnels.map(item => (item.id === tunnelId ? { ...item, ingress } : item)));
+      return ok({ tunnel_id: tunnel.id, version: 1, config: { ingress } });
+    }
+  }
+
+  return fail(404, `${method} cfd_tunnel/${rest.join('/')} is not available in sandbox mode`, 7003);
+}
+
+// Stable per input, so charts don't jump around between refreshes
+const seededCount = (seed: string, max: number) =>
+  [...seed].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7) % max;
+
+const SANDBOX_COUNTRIES = ['US', 'DE', 'GB', 'FR', 'NL'];
+const SANDBOX_STATUS_CODES = [200, 304, 404];
+
+/**
+ * Made-up traffic for the analytics queries, told apart by operation name. GraphQL answers
+ * with { data, errors } rather than the v4 envelope. Security events come back empty.
+ */
+function handleGraphqlRequest(body: any): SandboxResponse {
+  const query = String(body?.query ?? '');
+  const variables = body?.variables ?? {};
+  const zoneIds = new Set(getSandboxState().cloudflare.zones.map(zone => zone.id));
+  const graphql = (zones: unknown[]): SandboxResponse => ({ status: 200, data: { data: { viewer: { zones } }, errors: null } });
+  const zoneTag = String(variables.zoneTag ?? '');
+
+  if (query.includes('ZoneRequestCounts')) {
+    const zoneTags: string[] = (variables.zoneTags ?? []).filter((tag: string) => zoneIds.has(tag));
+    return graphql(zoneTags.map(tag => ({
+      zoneTag: tag,
+      httpRequestsAdaptiveGroups: [{ count: 500 + seededCount(`${tag}:${String(variables.since).slice(0, 13)}`, 9500) }],
+    })));
+  }
+
+  if (!zoneIds.has(zoneTag)) return graphql([]);
+
+  if (query.includes('ZoneAdaptiveAnalytics')) {
+    const hour = 60 * 60 * 1000;
+    const start = Math.floor(new Date(variables.filter?.datetime_geq).getTime() / hour) * hour;
+    const end = new Date(variables.filter?.datetime_lt).getTime();
+    const series = [];
+    for (let time = start; time < end; time += hour) {
+      const datetimeHour = new Date(time).toISOString().replace('.000Z', 'Z');
+      for (const cacheStatus of ['hit', 'miss']) {
+        const count = 20 + seededCount(`${zoneTag}:${datetimeHour}:${cacheStatus}`, 400);
+        series.push({ count, dimensions: { datetimeHour, cacheStatus }, sum: { edgeResponseBytes: count * 24_000 } });
+      }
+    }
+    const total = series.reduce((sum, group) => sum + group.count, 0);
+    return graphql([{
+      series,
+      countries: SANDBOX_COUNTRIES.map((clientCountryName, index) => ({
+        count: Math.floor(total / (index + 2)),
+        dimensions: { clientCountryName },
+      })),
+      statusCodes: SANDBOX_STATUS_CODES.map((edgeResponseStatus, index) => ({
+        count: Math.floor(total / (index * 4 + 1.5)),
+        dimensions: { edgeResponseStatus },
+      })),
+    }]);
+  }
+
+  if (query.includes('ZoneDailyAnalytics')) {
+    const day = 24 * 60 * 60 * 1000;
+    const groups = [];
+    for (let time = new Date(variables.since).getTime(); time <= new Date(variables.until).getTime(); time += day) {
+      const date = new Date(time).toISOString().slice(0, 10);
+      const requests = 1000 + seededCount(`${zoneTag}:${date}`, 9000);
+      const cachedRequests = Math.floor(requests * 0.4);
+      groups.push({
+        dimensions: { date },
+        sum: {
+          requests,
+          cachedRequests,
+          bytes: requests * 24_000,
+          cachedBytes: cachedRequests * 24_000,
+          countryMap: SANDBOX_COUNTRIES.map((clientCountryName, index) => ({ clientCountryName, requests: Math.floor(requests / (index + 2)) })),
+          responseStatusMap: SANDBOX_STATUS_CODES.map((edgeResponseStatus, index) => ({ edgeResponseStatus, requests: Math.floor(requests / (index * 4 + 1.5)) })),
+        },
+      });
+    }
+    return graphql([{ httpRequests1dGroups: groups }]);
+  }
+
+  if (query.includes('ZoneSecurityEvents')) {
+    return graphql([{ events: [], rules: [] }]);
+  }
+
+  return { status: 200, data: { data: null, errors: [{ message: 'This query is not available in sandbox mode' }] } };
+}
+
+// Only the permission groups route() has fakes for, so capability gating greys out the rest
+const SANDBOX_PERMISSION_GROUPS = [
+  'Zone Read', 'Zone Write', 'DNS Write', 'Zone Settings Write', 'Zone WAF Write',
+  'Bot Management Write', 'Cache Purge', 'SSL and Certificates Write', 'Analytics Read',
+  'Email Routing Rules Write', 'Cloudflare Tunnel Write',
+].map((name, index) => ({ id: `sandbox-group-${index}`, name }));
+
+function route({ method, path, searchParams, body }: SandboxCloudflareRequest): SandboxResponse {
+  const segments = path.split('/').filter(Boolean);
+  const state = getSandboxState().cloudflare;
+
+  if (segments[0] === 'user' && segments[1] === 'tokens') {
+    if (segments[2] === 'verify') return ok({ id: 'sandbox-token', status: 'active' });
+    return ok({ id: segments[2], status: 'active', policies: [{ id: 'sandbox-policy', effect: 'allow', permission_groups: SANDBOX_PERMISSION_GROUPS, resources: {} }] });
+  }
+
+  if (segments[0] === 'graphql' && method === 'POST') {
+    return handleGraphqlRequest(body);
+  }
+
+  if (segments[0] === 'accounts') {
+    if (segments.length === 1 && method === 'GET') return paginate(state.accounts, searchParams);
+
+    const account = state.accounts.find(item => item.id === segments[1]);
+    if (!account) return fail(404, 'Account not found', 7003);
+
+    if (segments[2] === 'tokens') {
+      if (segments[3] === 'verify') return ok({ id: 'sandbox-token', status: 'active' });
+      return ok({ id: segments[3], status: 'active', policies: [{ id: 'sandbox-policy', effect: 'allow', permission_groups: SANDBOX_PERMISSION_GROUPS, resources: {} }] });
+    }
+    if (segments[2] === 'rulesets') {
+      return handleRulesetRequest(method, 'root', account.id, segments.slice(3), body);
+    }
+    if (segments[2] === 'email' && segments[3] === 'routing' && segments[4] === 'addresses') {
+      return handleEmailAddressRequest(method, account.id, segments[5], searchParams, body);
+    }
+    if (segments[2] === 'cfd_tunnel') {
+      return handleTunnelRequest(method, account.id, segments.slice(3), searchParams, body);
+    }
+    return fail(404, `${method} ${path} is not available in sandbox mode`, 7003);
+  }
+
+  if (segments[0] === 'zones') {
+    if (segments.length === 1) {
+      if (method === 'GET') {
+        const name = searchParams.get('name');
+        const zones = state.zones.map(refreshZoneStatus).filter(zone => !name || zone.name === name);
+        return paginate(zones, searchParams);
+      }
+      if (method === 'POST') {
+        const name = String(body?.name || '').trim().toLowerCase();
+        if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(name)) return fail(400, 'Invalid domain name', 1097);
+        if (state.zones.some(zone => zone.name === name)) {
+          return fail(400, `${name} already exists`, 1061);
+        }
+        const account = state.accounts.find(item => item.id === body?.account?.id) ?? state.accounts[0];
+        // Pick a stable nameserver pair per name, like Cloudflare does per account
+        const offset = [...name].reduce((sum, char) => sum + char.charCodeAt(0), 0) % (SANDBOX_NAMESERVERS.length - 1);
+        const registrarDomain = Object.values(getSandboxState().registrars).flat().find(domain => domain.name === name);
+        const zone: SandboxZone = {
+          id: sandboxId(),
+          name,
+          status: 'pending',
+          name_servers: [SANDBOX_NAMESERVERS[offset], SANDBOX_NAMESERVERS[offset + 1]],
+          original_name_servers: registrarDomain?.nameservers.length ? registrarDomain.nameservers : null,
+          account,
+          plan: { id: '0feeeeeeeeeeeeeeeeeeeeeeeeeeeeee', name: 'Free Website' },
+          created_on: now(),
+          modified_on: now(),
+          activated_on: null,
+        };
+        updateSandboxState(({ cloudflare }) => {
+          cloudflare.zones.push(zone);
+          cloudflare.dnsRecords[zone.id] = [];
+          cloudflare.settings[zone.id] = { ...DEFAULT_ZONE_SETTINGS };
+        });
+        return ok(zone);
+      }
+    }
+
+    const zone = findZone(segments[1]);
+    if (!zone) return fail(404, 'Zone not found', 1001);
+    return handleZoneRequest(method, zone, segments.slice(2), searchParams, body);
+  }
+
+  return fail(404, `${method} ${path} is not available in sandbox mode`, 7003);
+}
+
+export function handleSandboxCloudflareRequest(request: SandboxCloudflareRequest): SandboxResponse {
+  const response = route(request);
+  return { ...response, headers: { ...rateLimitHeaders(request.credential), ...response.headers } };
+}
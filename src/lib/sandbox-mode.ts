@@ -0,0 +1,100 @@
+import type { NextRequest } from 'next/server';
+import type { CloudflareAccount, ProxyAccount } from '@/types/cloudflare';
+
+/**
+ * Sandbox mode swaps the Cloudflare, registrar and NPM backends for in-process fakes. It is
+ * on for every request when NEXT_PUBLIC_SANDBOX_MODE=true, or per browser via a cookie so
+ * it can be flipped from the navigation bar without restarting the server.
+ */
+
+export const SANDBOX_COOKIE = 'sandbox-mode';
+
+export function isSandboxRequest(request: NextRequest): boolean {
+  return process.env.NEXT_PUBLIC_SANDBOX_MODE === 'true' || request.cookies.get(SANDBOX_COOKIE)?.value === '1';
+}
+
+export function isSandboxForced(): boolean {
+  return process.env.NEXT_PUBLIC_SANDBOX_MODE === 'true';
+}
+
+export function isSandboxEnabled(): boolean {
+  if (isSandboxForced()) return true;
+  if (typeof document === 'undefined') return false;
+  return document.cookie.split('; ').includes(`${SANDBOX_COOKIE}=1`);
+}
+
+export function setSandboxEnabled(enabled: boolean) {
+  document.cookie = enabled
+    ? `${SANDBOX_COOKIE}=1; path=/; max-age=31536000; samesite=lax`
+    : `${SANDBOX_COOKIE}=; path=/; max-age=0; samesite=lax`;
+}
+
+const SANDBOX_PROXY_ID = 'sandbox-proxy';
+
+// Accounts the fakes answer for; the credentials themselves are never checked
+export const SANDBOX_PROXY_ACCOUNT: ProxyAccount = {
+  id: SANDBOX_PROXY_ID,
+  name: 'Sandbox Proxy',
+  host: '127.0.0.1',
+  port: 1080,
+  category: 'proxy',
+  createdAt: new Date(0),
+};
+
+export const SANDBOX_ACCOUNTS: CloudflareAccount[] = [
+  {
+    id: 'sandbox-cloudflare',
+    name: 'Sandbox Cloudflare',
+    email: 'sandbox@example.com',
+    apiToken: 'sandbox-token',
+    category: 'cloudflare',
+    createdAt: new Date(0),
+  },
+  {
+    id: 'sandbox-namecheap',
+    name: 'Sandbox Namecheap',
+    email: 'sandbox@example.com',
+    apiToken: 'sandbox-namecheap-key',
+    username: 'sandbox',
+    category: 'registrar',
+    registrarName: 'namecheap',
+    proxyId: SANDBOX_PROXY_ID,
+    createdAt: new Date(0),
+  },
+  {
+    id: 'sandbox-njalla',
+    name: 'Sandbox Njalla',
+    email: 'sandbox@example.com',
+    apiToken: 'sandbox-njalla-key',
+    category: 'registrar',
+    registrarName: 'njalla',
+    createdAt: new Date(0),
+  },
+  {
+    id: 'sandbox-dynadot',
+    name: 'Sandbox Dynadot',
+    email: 'sandbox@example.com',
+    apiToken: 'sandbox-dynadot-key',
+    category: 'registrar',
+    registrarName: 'dynadot',
+    createdAt: new Date(0),
+  },
+  {
+    id: 'sandbox-porkbun',
+    name: 'Sandbox Porkbun',
+    email: 'sandbox@example.com',
+    apiToken: 'sandbox-porkbun-key',
+    apiSecret: 'sandbox-porkbun-secret',
+    category: 'registrar',
+    registrarName: 'porkbun',
+    createdAt: new Date(0),
+  },
+  {
+    id: 'sandbox-npm',
+    name: 'Sandbox NPM',
+    email: 'admin@npm.sandbox',
+    apiToken: JSON.stringify({ host: 'http://npm.sandbox', secret: 'sandbox' }),
+    category: 'npm',
+    createdAt: new Date(0),
+  },
+];
@@ -0,0 +1,148 @@
+import { getSandboxState, updateSandboxState } from '@/lib/sandbox-store';
+import type { NPMAuthResponse, NPMCertificate, NPMRedirectListResponse } from '@/types/npm';
+import type { SandboxResponse } from '@/lib/sandbox-cloudflare';
+
+/**
+ * Fake Nginx Proxy Manager behind /api/npm/* in sandbox mode: redirection hosts and
+ * certificates, enough for the redirects and origin certificate flows.
+ */
+
+// NPM formats timestamps as "YYYY-MM-DD HH:mm:ss"
+const timestamp = () => new Date().toISOString().replace('T', ' ').slice(0, 19);
+
+const toFlag = (value: unknown) => (value ? 1 : 0);
+
+const nextId = (items: { id: number }[]) => items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+export function createSandboxNPMAuthResponse(identity: string): NPMAuthResponse {
+    return {
+        token: 'sandbox-npm-token',
+        expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        user: {
+            id: 1,
+            created_on: timestamp(),
+            modified_on: timestamp(),
+            is_deleted: 0,
+            is_disabled: 0,
+            email: identity,
+            name: 'Sandbox Admin',
+            nickname: 'sandbox',
+            avatar: '',
+            roles: ['admin'],
+        },
+    };
+}
+
+function buildRedirectionHost(body: any, existing?: NPMRedirectListResponse): NPMRedirectListResponse {
+    const merged = { ...existing, ...body };
+    return {
+        id: existing?.id ?? 0,
+        created_on: existing?.created_on ?? timestamp(),
+        modified_on: timestamp(),
+        domain_names: merged.domain_names ?? [],
+        forward_scheme: merged.forward_scheme ?? 'https',
+        forward_domain_name: merged.forward_domain_name ?? '',
+        forward_port: Number(merged.forward_port ?? 443),
+        certificate_id: merged.certificate_id ?? 0,
+        ssl_forced: toFlag(merged.ssl_forced),
+        hsts_enabled: toFlag(merged.hsts_enabled),
+        hsts_subdomains: toFlag(merged.hsts_subdomains),
+        http2_support: toFlag(merged.http2_support),
+        block_exploits: toFlag(merged.block_exploits),
+        enabled: toFlag(merged.enabled ?? true),
+        meta: { ...merged.meta, nginx_online: true, nginx_err: null },
+        preserve_path: toFlag(merged.preserve_path),
+        forward_http_code: Number(merged.forward_http_code ?? 301),
+        advanced_config: merged.advanced_config ?? '',
+    };
+}
+
+export function handleSandboxNPMRequest(method: string, endpoint: string, body: any): SandboxResponse {
+    const segments = endpoint.split('?')[0].split('/').filter(Boolean);
+    const npm = getSandboxState().npm;
+    const notFound = (message: string): SandboxResponse => ({ status: 404, data: { error: { code: 404, message } } });
+
+    // /api/nginx/redirection-hosts[/:id]
+    if (segments[2] === 'redirection-hosts') {
+        const id = segments[3] ? Number(segments[3]) : null;
+
+        if (id === null) {
+            if (method === 'GET') return { status: 200, data: npm.redirectionHosts };
+            if (method === 'POST') {
+                const domains: string[] = body?.domain_names ?? [];
+                const taken = domains.find(domain => npm.redirectionHosts.some(host => host.domain_names.includes(domain)));
+                if (taken) {
+                    return { status: 400, data: { error: { code: 400, message: `${taken} is already in use` } } };
+                }
+                const host = { ...buildRedirectionHost(body), id: nextId(npm.redirectionHosts) };
+                updateSandboxState(({ npm }) => {
+                    npm.redirectionHosts.push(host);
+                });
+                return { status: 201, data: host };
+            }
+        } else {
+            const existing = npm.redirectionHosts.find(host => host.id === id);
+            if (!existing) return notFound('Not Found - redirection-host');
+            if (method === 'GET') return { status: 200, data: existing };
+            if (method === 'PUT') {
+                const host = buildRedirectionHost(body, existing);
+                updateSandboxState(({ npm }) => {
+                    npm.redirectionHosts = npm.redirectionHosts.map(item => (item.id === id ? host : item));
+                });
+                return { status: 200, data: host };
+            }
+            if (method === 'DELETE') {
+                updateSandboxState(({ npm }) => {
+                    npm.redirectionHosts = npm.redirectionHosts.filter(item => item.id !== id);
+                });
+                return { status: 200, data: true };
+            }
+        }
+    }
+
+    // /api/nginx/certificates[/:id[/upload]]
+    if (segments[2] === 'certificates') {
+        const id = segments[3] ? Number(segments[3]) : null;
+
+        if (id === null) {
+            if (method === 'GET') return { status: 200, data: npm.certificates };
+            if (method === 'POST') {
+                const certificate: NPMCertificate = {
+                    id: nextId(npm.certificates),
+                    provider: body?.provider ?? 'other',
+                    nice_name: body?.nice_name ?? '',
+                    domain_names: body?.domain_names ?? [],
+                    expires_on: '',
+                    created_on: timestamp(),
+                    modified_on: timestamp(),
+                    meta: {},
+                };
+                updateSandboxState(({ npm }) => {
+                    npm.certificates.push(certificate);
+                });
+                return { status: 201, data: certificate };
+            }
+        } else {
+            const existing = npm.certificates.find(certificate => certificate.id === id);
+            if (!existing) return notFound('Not Found - certificate');
+            if (segments[4] === 'upload' && method === 'POST') {
+                // The uploaded PEM is not parsed; origin certificates are valid for 15 years
+                const expiresOn = new Date(Date.now() + 15 * 365 * 24 * 60 * 60 * 1000).toISOString().replace('T', ' ').slice(0, 19);
+                updateSandboxState(() => {
+                    existing.expires_on = expiresOn;
+                    existing.modified_on = timestamp();
+                });
+                return { status: 200, data: { certificate: 'uploaded', certificate_key: 'uploaded' } };
+            }
+            if (method === 'GET') return { status: 200, data: existing };
+            if (method === 'DELETE') {
+                updateSandboxState(({ npm }) => {
+                    npm.certificates = npm.certificates.filter(certificate => certificate.id !== id);
+                });
+                return { status: 200, data: true };
+            }
+        }
+    }
+
+    return notFound(`${method} ${endpoint} is not available in sandbox mode`);
+}
@@ -0,0 +1,301 @@
+import { findRegistrarDomain, getSandboxState, updateSandboxState, type SandboxRegistrarDomain } from '@/lib/sandbox-store';
+import { isDynadotUsingOurDNS } from '@/lib/dynadot-utils';
+import type { NamecheapContact, NamecheapDomain, NamecheapDomainCheck, NamecheapEmailType, NamecheapHost } from '@/types/namecheap';
+import type { NjallaDomain } from '@/types/njalla';
+import type { DynadotDomain } from '@/types/dynadot';
+import type { PorkbunDomain } from '@/types/porkbun';
+import type { DSRecord } from '@/types/cloudflare';
+
+/**
+ * Drop-in replacements for NamecheapAPI, NjallaAPI, DynadotAPI and PorkbunAPI that read and write the
+ * sandbox store. Method signatures and return shapes match the real clients so the API
+ * routes only have to pick which class to construct.
+ */
+
+// Registration/renewal prices and balances the sandbox registrars report; balances are not charged
+const SANDBOX_PRICES = { namecheap: 10.98, dynadot: 10.99 };
+
+const formatNamecheapDate = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`;
+};
+
+function extendDomainExpiry(domain: SandboxRegistrarDomain, years: number): string {
+  updateSandboxState(() => {
+    const expiry = new Date(domain.expiry);
+    expiry.setUTCFullYear(expiry.getUTCFullYear() + years);
+    domain.expiry = expiry.toISOString();
+  });
+  return domain.expiry;
+}
+
+function setDomainNameservers(domain: SandboxRegistrarDomain, nameservers: string[]) {
+  updateSandboxState(() => {
+    domain.nameservers = nameservers.map(ns => ns.trim().toLowerCase()).filter(Boolean);
+  });
+}
+
+export class SandboxNamecheapAPI {
+  async getDomains(page: number = 1, pageSize: number = 100): Promise<{ domains: NamecheapDomain[], paging: any }> {
+    const all = getSandboxState().registrars.namecheap;
+    const domains = all.slice((page - 1) * pageSize, page * pageSize).map((domain, index): NamecheapDomain => ({
+      ID: (page - 1) * pageSize + index + 1,
+      Name: domain.name,
+      User: 'sandbox',
+      Created: formatNamecheapDate(new Date(new Date(domain.expiry).getTime() - 365 * 86400000).toISOString()),
+      Expires: formatNamecheapDate(domain.expiry),
+      IsExpired: new Date(domain.expiry).getTime() < Date.now(),
+      IsLocked: domain.locked,
+      AutoRenew: domain.autorenew,
+      WhoisGuard: 'ENABLED',
+      IsPremium: false,
+      IsOurDNS: domain.nameservers.length === 0,
+    }));
+
+    return { domains, paging: { totalItems: all.length, currentPage: page, pageSize } };
+  }
+
+  async getNameservers(sld: string, tld: string): Promise<{ nameservers: string[], isUsingOurDNS: boolean }> {
+    const domain = findRegistrarDomain('namecheap', `${sld}.${tld}`);
+    return {
+      nameservers: domain.nameservers.length > 0 ? domain.nameservers : ['dns1.registrar-servers.com', 'dns2.registrar-servers.com'],
+      isUsingOurDNS: domain.nameservers.length === 0,
+    };
+  }
+
+  async setNameservers(sld: string, tld: string, nameservers: string[]): Promise<{ success: boolean }> {
+    setDomainNameservers(findRegistrarDomain('namecheap', `${sld}.${tld}`), nameservers);
+    return { success: true };
+  }
+
+  async renewDomain(domainName: string, years: number): Promise<{ orderId?: string; chargedAmount?: number; expiry?: string }> {
+    const expiry = extendDomainExpiry(findRegistrarDomain('namecheap', domainName), years);
+    return { orderId: `sandbox-${Date.now()}`, chargedAmount: SANDBOX_PRICES.namecheap * years, expiry: formatNamecheapDate(expiry) };
+  }
+
+  async getDomainPrice(_action: 'REGISTER' | 'RENEW', _tld: string, years: number): Promise<{ price: number; currency: string }> {
+    return { price: Math.round(SANDBOX_PRICES.namecheap * years * 100) / 100, currency: 'USD' };
+  }
+
+  // Names already held by any sandbox registrar account are taken; everything else is available
+  async checkDomains(domainNames: string[]): Promise<NamecheapDomainCheck[]> {
+    const taken = new Set(Object.values(getSandboxState().registrars).flat().map(domain => domain.name));
+    return domainNames.map(name => ({
+      Domain: name,
+      Available: !taken.has(name.toLowerCase()),
+      IsPremiumName: false,
+    }));
+  }
+
+  async createDomain(domainName: string, years: number, _contact: NamecheapContact): Promise<{ orderId?: string; chargedAmount?: number }> {
+    const [available] = await this.checkDomains([domainName]);
+    if (!available.Available) {
+      throw new Error(`Domain ${domainName} is not available`);
+    }
+
+    const expiry = new Date();
+    expiry.setUTCFullYear(expiry.getUTCFullYear() + years);
+    updateSandboxState(state => {
+      state.registrars.namecheap.push({
+        name: domainName.toLowerCase(),
+        nameservers: [],
+        expiry: expiry.toISOString(),
+        autorenew: false,
+        locked: false,
+        dnssec: false,
+      });
+    });
+    return { orderId: `sandbox-${Date.now()}`, chargedAmount: Math.round(SANDBOX_PRICES.namecheap * years * 100) / 100 };
+  }
+
+  async getBalance(): Promise<{ amount: number; currency: string }> {
+    return { amount: 50, currency: 'USD' };
+  }
+
+  async setRegistrarLock(domainName: string, locked: boolean): Promise<{ success: boolean }> {
+    const domain = findRegistrarDomain('namecheap', domainName);
+    updateSandboxState(() => {
+      domain.locked = locked;
+    });
+    return { success: true };
+  }
+
+  async getHosts(sld: string, tld: string): Promise<{ hosts: NamecheapHost[]; isUsingOurDNS: boolean; emailType: NamecheapEmailType }> {
+    const domain = findRegistrarDomain('namecheap', `${sld}.${tld}`);
+    if (domain.nameservers.length > 0) {
+      throw new Error(`${domain.name} is not using Namecheap DNS servers`);
+    }
+
+    const hosts = (domain.hosts ?? []).map((host, index): NamecheapHost => ({
+      HostId: String(index + 1),
+      Name: host.name,
+      Type: host.type,
+      Address: host.address,
+      MXPref: host.mxPref,
+      TTL: host.ttl,
+    }));
+    return { hosts, isUsingOurDNS: true, emailType: hosts.some(host => host.Type === 'MX') ? 'MX' : 'NONE' };
+  }
+
+  async setHosts(sld: string, tld: string, hosts: NamecheapHost[], _emailType: NamecheapEmailType): Promise<{ success: boolean }> {
+    const domain = findRegistrarDomain('namecheap', `${sld}.${tld}`);
+    updateSandboxState(() => {
+      domain.hosts = hosts.map(host => ({
+        name: host.Name,
+        type: host.Type,
+        address: host.Address,
+        ttl: host.TTL,
+        mxPref: host.MXPref,
+      }));
+    });
+    return { success: true };
+  }
+}
+
+export class SandboxNjallaAPI {
+  async getDomains(): Promise<NjallaDomain[]> {
+    return getSandboxState().registrars.njalla.map(domain => ({
+      name: domain.name,
+      status: 'active',
+      expiry: domain.expiry,
+      autorenew: domain.autorenew,
+    }));
+  }
+
+  async editDomain(domainName: string, params: {
+    nameservers?: string[];
+    mailforwarding?: boolean;
+    dnssec?: boolean;
+    lock?: boolean;
+    contacts?: any;
+  }): Promise<void> {
+    const domain = findRegistrarDomain('njalla', domainName);
+    if (params.nameservers) setDomainNameservers(domain, params.nameservers);
+    updateSandboxState(() => {
+      if (params.dnssec !== undefined) domain.dnssec = params.dnssec;
+      if (params.lock !== undefined) domain.locked = params.lock;
+    });
+  }
+
+  async getDomain(domainName: string) {
+    const domain = findRegistrarDomain('njalla', domainName);
+    return {
+      name: domain.name,
+      status: 'active',
+      expiry: domain.expiry,
+      autorenew: domain.autorenew,
+      nameservers: domain.nameservers,
+    };
+  }
+
+  async renewDomain(domainName: string, years: number): Promise<{ task?: string }> {
+    extendDomainExpiry(findRegistrarDomain('njalla', domainName), years);
+    return { task: `sandbox-${Date.now()}` };
+  }
+
+  async getBalance(): Promise<{ amount: number; currency: string }> {
+    return { amount: 30, currency: 'EUR' };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+}
+
+export class SandboxDynadotAPI {
+  async getDomains(): Promise<DynadotDomain[]> {
+    return getSandboxState().registrars.dynadot.map(domain => {
+      const settings = { Type: domain.nameservers.length > 0 ? 'Name Servers' : 'Dynadot Parking' };
+      return {
+        Name: domain.name,
+        Expiration: String(new Date(domain.expiry).getTime()),
+        NameServerSettings: settings,
+        Locked: domain.locked ? 'yes' : 'no',
+        RenewOption: domain.autorenew ? 'auto-renew' : 'no renew option',
+        Status: 'active',
+        registrar: 'dynadot',
+        isUsingOurDNS: isDynadotUsingOurDNS(settings),
+      };
+    });
+  }
+
+  async getNameservers(domainName: string): Promise<{ nameservers: string[]; isUsingOurDNS: boolean }> {
+    const domain = findRegistrarDomain('dynadot', domainName);
+    return { nameservers: domain.nameservers, isUsingOurDNS: domain.nameservers.length === 0 };
+  }
+
+  async setNameservers(domainName: string, nameservers: string[]): Promise<{ success: boolean }> {
+    setDomainNameservers(findRegistrarDomain('dynadot', domainName), nameservers);
+    return { success: true };
+  }
+
+  async setDnssec(domainName: string, ds: DSRecord): Promise<{ success: boolean }> {
+    if (!ds.digest) {
+      throw new Error(`Failed to set DS record for ${domainName}`);
+    }
+    const domain = findRegistrarDomain('dynadot', domainName);
+    updateSandboxState(() => {
+      domain.dnssec = true;
+    });
+    return { success: true };
+  }
+
+  async renewDomain(domainName: string, years: number): Promise<{ expiry?: string }> {
+    return { expiry: extendDomainExpiry(findRegistrarDomain('dynadot', domainName), years) };
+  }
+
+  async getRenewalPrice(domainName: string, years: number): Promise<{ price: number; currency: string }> {
+    findRegistrarDomain('dynadot', domainName);
+    return { price: Math.round(SANDBOX_PRICES.dynadot * years * 100) / 100, currency: 'USD' };
+  }
+
+  async getBalance(): Promise<{ amount: number; currency: string }> {
+    return { amount: 25, currency: 'USD' };
+  }
+
+  async setRenewOption(domainName: string, autorenew: boolean): Promise<{ success: boolean }> {
+    const domain = findRegistrarDomain('dynadot', domainName);
+    updateSandboxState(() => {
+      domain.autorenew = autorenew;
+    });
+    return { success: true };
+  }
+}
+
+const PORKBUN_NAMESERVERS = ['curitiba.ns.porkbun.com', 'fortaleza.ns.porkbun.com', 'maceio.ns.porkbun.com', 'salvador.ns.porkbun.com'];
+
+const formatPorkbunDate = (iso: string) => iso.slice(0, 19).replace('T', ' ');
+
+export class SandboxPorkbunAPI {
+  async getDomains(): Promise<PorkbunDomain[]> {
+    return (getSandboxState().registrars.porkbun ?? []).map(domain => ({
+      domain: domain.name,
+      status: 'ACTIVE',
+      tld: domain.name.split('.').slice(1).join('.'),
+      createDate: formatPorkbunDate(new Date(new Date(domain.expiry).getTime() - 365 * 86400000).toISOString()),
+      expireDate: formatPorkbunDate(domain.expiry),
+      securityLock: domain.locked ? '1' : '0',
+      whoisPrivacy: '1',
+      autoRenew: domain.autorenew ? '1' : '0',
+      notLocal: 0,
+    }));
+  }
+
+  async getNameservers(domainName: string): Promise<{ nameservers: string[]; isUsingOurDNS: boolean }> {
+    const domain = findRegistrarDomain('porkbun', domainName);
+    return {
+      nameservers: domain.nameservers.length > 0 ? domain.nameservers : PORKBUN_NAMESERVERS,
+      isUsingOurDNS: domain.nameservers.length === 0,
+    };
+  }
+
+  async setNameservers(domainName: string, nameservers: string[]): Promise<{ success: boolean }> {
+    setDomainNameservers(findRegistrarDomain('porkbun', domainName), nameservers);
+    return { success: true };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+import fixtures from '@/lib/sandbox-fixtures.json';
+import type {
+  CloudflareTunnel,
+  DNSRecord,
+  EmailRoutingAddress,
+  EmailRoutingRule,
+  Ruleset,
+  TunnelIngressRule,
+  ZoneDNSSEC,
+} from '@/types/cloudflare';
+import type { NPMCertificate, NPMRedirectListResponse } from '@/types/npm';
+
+/**
+ * State behind the sandbox backends. It starts as a copy of sandbox-fixtures.json and is
+ * written to SANDBOX_STORE_PATH (default .sandbox/store.json) after every change, so edits
+ * survive dev server restarts until the sandbox is reset.
+ */
+
+export interface SandboxZone {
+  id: string;
+  name: string;
+  status: 'active' | 'pending';
+  name_servers: string[];
+  original_name_servers: string[] | null;
+  account: { id: string; name: string };
+  plan: { id: string; name: string };
+  created_on: string;
+  modified_on: string;
+  activated_on: string | null;
+}
+
+export interface SandboxRegistrarDomain {
+  name: string;
+  // Empty means the registrar's own DNS
+  nameservers: string[];
+  expiry: string;
+  autorenew: boolean;
+  locked: boolean;
+  dnssec: boolean;
+  // Records in the registrar's own DNS; only read while nameservers is empty
+  hosts?: SandboxHostRecord[];
+}
+
+export interface SandboxHostRecord {
+  name: string;
+  type: string;
+  address: string;
+  ttl: number;
+  mxPref?: number;
+}
+
+export interface SandboxEmailRouting {
+  enabled: boolean;
+  rules: EmailRoutingRule[];
+  catchAll: EmailRoutingRule;
+}
+
+export interface SandboxTunnel extends CloudflareTunnel {
+  ingress: TunnelIngressRule[];
+}
+
+export type SandboxRegistrar = 'namecheap' | 'njalla' | 'dynadot' | 'porkbun';
+
+export interface SandboxState {
+  cloudflare: {
+    accounts: { id: string; name: string }[];
+    zones: SandboxZone[];
+    dnsRecords: Record<string, DNSRecord[]>;
+    // zoneId -> setting id -> value
+    settings: Record<string, Record<string, unknown>>;
+    botManagement: Record<string, Record<string, unknown>>;
+    // `${zoneId or accountId}:${phase}`
+    rulesets: Record<string, Ruleset>;
+    dnssec: Record<string, ZoneDNSSEC>;
+    // Optional because stores saved before email routing and tunnels were faked have none
+    emailRouting?: Record<string, SandboxEmailRouting>;
+    // accountId -> destination addresses
+    emailAddresses?: Record<string, EmailRoutingAddress[]>;
+    // accountId -> tunnels
+    tunnels?: Record<string, SandboxTunnel[]>;
+  };
+  registrars: Record<SandboxRegistrar, SandboxRegistrarDomain[]>;
+  npm: {
+    redirectionHosts: NPMRedirectListResponse[];
+    certificates: NPMCertificate[];
+  };
+}
+
+const STORE_PATH = process.env.SANDBOX_STORE_PATH || path.join(process.cwd(), '.sandbox', 'store.json');
+
+// Kept on globalThis so hot reloads in development don't drop unsaved state
+const globalForSandbox = globalThis as unknown as { sandboxState?: SandboxState };
+
+const cloneFixtures = (): SandboxState => JSON.parse(JSON.stringify(fixtures)) as SandboxState;
+
+function persist(state: SandboxState) {
+  try {
+    fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true });
+    fs.writeFileSync(STORE_PATH, JSON.stringify(state, null, 2));
+  } catch (error) {
+    console.error('Failed to write sandbox store:', error);
+  }
+}
+
+export function getSandboxState(): SandboxState {
+  if (!globalForSandbox.sandboxState) {
+    try {
+      globalForSandbox.sandboxState = fs.existsSync(STORE_PATH)
+        ? JSON.parse(fs.readFileSync(STORE_PATH, 'utf8'))
+        : cloneFixtures();
+    } catch (error) {
+      console.error('Failed to read sandbox store, starting from fixtures:', error);
+      globalForSandbox.sandboxState = cloneFixtures();
+    }
+  }
+  return globalForSandbox.sandboxState!;
+}
+
+export function updateSandboxState<T>(mutate: (state: SandboxState) => T): T {
+  const state = getSandboxState();
+  const result = mutate(state);
+  persist(state);
+  return result;
+}
+
+export function resetSandboxState(): SandboxState {
+  globalForSandbox.sandboxState = cloneFixtures();
+  persist(globalForSandbox.sandboxState);
+  return globalForSandbox.sandboxState;
+}
+
+export function findRegistrarDomain(registrar: SandboxRegistrar, domain: string): SandboxRegistrarDomain {
+  // Stores saved before a registrar was added have no list for it
+  const found = (getSandboxState().registrars[registrar] ?? []).find(item => item.name === domain.toLowerCase());
+  if (!found) {
+    throw new Error(`Domain ${domain} is not in this ${registrar} sandbox account`);
+  }
+  return found;
+}
+
+export const sandboxId = () => crypto.randomUUID().replace(/-/g, '');
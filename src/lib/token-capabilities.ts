@@ -0,0 +1,144 @@
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import type {
+  CloudflareAccount,
+  TokenCapability,
+  TokenIntrospection,
+  TokenPolicy,
+  TokenVerification,
+} from '@/types/cloudflare';
+
+interface CapabilityDefinition {
+  key: TokenCapability;
+  label: string;
+  // Any of these permission groups grants the capability
+  permissionGroups: string[];
+}
+
+export const TOKEN_CAPABILITIES: CapabilityDefinition[] = [
+  { key: 'zoneRead', label: 'Zone Read', permissionGroups: ['Zone Read', 'Zone Write'] },
+  { key: 'zoneEdit', label: 'Zone Edit', permissionGroups: ['Zone Write'] },
+  { key: 'dnsEdit', label: 'DNS Edit', permissionGroups: ['DNS Write'] },
+  { key: 'zoneSettingsEdit', label: 'Zone Settings Edit', permissionGroups: ['Zone Settings Write'] },
+  { key: 'wafEdit', label: 'WAF Edit', permissionGroups: ['Zone WAF Write'] },
+  { key: 'botManagement', label: 'Bot Management', permissionGroups: ['Bot Management Write'] },
+  { key: 'cachePurge', label: 'Cache Purge', permissionGroups: ['Cache Purge'] },
+  { key: 'sslEdit', label: 'SSL Edit', permissionGroups: ['SSL and Certificates Write'] },
+  { key: 'analyticsRead', label: 'Analytics Read', permissionGroups: ['Analytics Read'] },
+  { key: 'emailRoutingEdit', label: 'Email Routing Edit', permissionGroups: ['Email Routing Rules Write'] },
+  { key: 'tunnelRead', label: 'Tunnel Read', permissionGroups: ['Cloudflare Tunnel Read', 'Cloudflare Tunnel Write'] },
+  { key: 'tunnelEdit', label: 'Tunnel Edit', permissionGroups: ['Cloudflare Tunnel Write'] },
+];
+
+export const TOKEN_CAPABILITY_LABELS = Object.fromEntries(
+  TOKEN_CAPABILITIES.map(capability => [capability.key, capability.label])
+) as Record<TokenCapability, string>;
+
+const fillCapabilities = (value: boolean | null) =>
+  Object.fromEntries(TOKEN_CAPABILITIES.map(capability => [capability.key, value])) as Record<TokenCapability, boolean | null>;
+
+/**
+ * Resource scoping is ignored: a group granted on some zones counts as granted, since the
+ * matrix is per credential and Cloudflare still rejects calls on zones outside the scope.
+ */
+export function capabilitiesFromPolicies(policies: TokenPolicy[]): Record<TokenCapability, boolean> {
+  const allowed = new Set<string>();
+  const denied = new Set<string>();
+  for (const policy of policies) {
+    const target = policy.effect === 'deny' ? denied : allowed;
+    policy.permission_groups.forEach(group => target.add(group.name));
+  }
+
+  return Object.fromEntries(TOKEN_CAPABILITIES.map(capability => [
+    capability.key,
+    capability.permissionGroups.some(group => allowed.has(group) && !denied.has(group)),
+  ])) as Record<TokenCapability, boolean>;
+}
+
+export async function introspectToken(account: CloudflareAccount): Promise<TokenIntrospection> {
+  const api = new CloudflareAPI(account);
+
+  // A Global API Key has every permission of its user and is not a token, so there is nothing to verify
+  // beyond a request succeeding
+  if (account.authMode === 'global_key') {
+    await api.getAccounts();
+    return { status: 'active', capabilities: fillCapabilities(true), checkedAt: Date.now() };
+  }
+
+  let verification: TokenVerification | null = null;
+  let ownerAccountId: string | undefined;
+  try {
+    verification = await api.verifyToken();
+  } catch (userTokenError) {
+    // Account-owned tokens fail the user endpoint; try the accounts this credential can see
+    for (const cfAccount of account.cloudflareAccounts || []) {
+      try {
+        verification = await api.verifyToken(cfAccount.id);
+        ownerAccountId = cfAccount.id;
+        break;
+      } catch {
+        // Not owned by this account
+      }
+    }
+    if (!verification) throw userTokenError;
+  }
+
+  const base = {
+    tokenId: verification.id,
+    status: verification.status,
+    expiresOn: verification.expires_on,
+    checkedAt: Date.now(),
+  };
+
+  if (verification.status !== 'active') {
+    return { ...base, capabilities: fillCapabilities(false) };
+  }
+
+  try {
+    const policies = await api.getTokenPolicies(verification.id, ownerAccountId);
+    return { ...base, capabilities: capabilitiesFromPolicies(policies) };
+  } catch {
+    return { ...base, capabilities: fillCapabilities(null) };
+  }
+}
+
+const pendingIntrospections = new Map<string, Promise<TokenIntrospection | null>>();
+
+/**
+ * Cached capabilities of a credential, introspecting its token first when none are cached.
+ * Concurrent callers share one check. A failed check resolves to null, which gates nothing,
+ * and is not retried until the credential changes.
+ */
+export function loadTokenCapabilities(account: CloudflareAccount): Promise<TokenIntrospection | null> {
+  const cached = useCloudflareCache.getState().getTokenCapabilities(account.id);
+  if (cached) return Promise.resolve(cached);
+
+  const key = [account.id, account.authMode, account.email, account.apiToken].join(':');
+  let pending = pendingIntrospections.get(key);
+  if (!pending) {
+    pending = introspectToken(account).then(
+      introspection => {
+        useCloudflareCache.getState().setTokenCapabilities(account.id, introspection);
+        pendingIntrospections.delete(key);
+        return introspection;
+      },
+      error => {
+        console.error(`Failed to check token permissions of ${account.name || account.email}:`, error);
+        return null;
+      }
+    );
+    pendingIntrospections.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Unknown capabilities are allowed so tokens that cannot read their own policies keep working.
+ */
+export function canPerform(introspection: TokenIntrospection | null | undefined, capability: TokenCapability): boolean {
+  return introspection?.capabilities[capability] !== false;
+}
+
+export function getMissingCapabilityMessage(capability: TokenCapability): string {
+  return `API token lacks ${TOKEN_CAPABILITY_LABELS[capability]} permission`;
+}
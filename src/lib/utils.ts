@@ -365,6 +365,17 @@ export function formatExpirationDate(date: Date): string {
   return format(date, EXPIRATION_DATE_FORMAT);
 }
 
+/**
+ * Format a registrar price or balance, e.g. "$21.96" or "€30.00".
+ */
+export function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
 /**
  * Calculate days from now until the provided ISO date.
  * Returns null when the date is invalid.
@@ -0,0 +1,220 @@
+/**
+ * Builder for the subset of the Cloudflare Rules language used by WAF custom rules:
+ * country, ASN, IP, URI path and user agent conditions.
+ * Reference: https://developers.cloudflare.com/ruleset-engine/rules-language/
+ */
+
+export type WAFConditionField = 'country' | 'asn' | 'ip' | 'path' | 'user_agent';
+
+export type WAFConditionOperator = 'in' | 'eq' | 'contains' | 'starts_with';
+
+export interface WAFCondition {
+  field: WAFConditionField;
+  operator: WAFConditionOperator;
+  values: string[];
+  negate: boolean;
+}
+
+export type WAFConditionJoin = 'and' | 'or';
+
+export interface WAFExpressionModel {
+  conditions: WAFCondition[];
+  join: WAFConditionJoin;
+}
+
+interface WAFFieldDefinition {
+  label: string;
+  property: string;
+  operators: WAFConditionOperator[];
+  placeholder: string;
+}
+
+export const WAF_CONDITION_FIELDS: Record<WAFConditionField, WAFFieldDefinition> = {
+  country: { label: 'Country', property: 'ip.src.country', operators: ['in'], placeholder: 'CN, RU, KP' },
+  asn: { label: 'AS number', property: 'ip.src.asnum', operators: ['in'], placeholder: '14061, 16276' },
+  ip: { label: 'IP address', property: 'ip.src', operators: ['in'], placeholder: '203.0.113.7, 198.51.100.0/24' },
+  path: { label: 'URI path', property: 'http.request.uri.path', operators: ['eq', 'contains', 'starts_with'], placeholder: '/wp-admin, /xmlrpc.php' },
+  user_agent: { label: 'User agent', property: 'http.user_agent', operators: ['eq', 'contains', 'starts_with'], placeholder: 'curl, python-requests' },
+};
+
+export const WAF_OPERATOR_LABELS: Record<WAFConditionOperator, string> = {
+  in: 'is in',
+  eq: 'equals',
+  contains: 'contains',
+  starts_with: 'starts with',
+};
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const unquote = (value: string) => value.slice(1, -1).replace(/\\(["\\])/g, '$1');
+
+function formatListValue(field: WAFConditionField, value: string): string {
+  if (field === 'country') return quote(value.toUpperCase());
+  if (field === 'asn') return value.replace(/^AS/i, '');
+  return value;
+}
+
+function buildCondition(condition: WAFCondition): string {
+  const { property } = WAF_CONDITION_FIELDS[condition.field];
+  const values = condition.values.map(value => value.trim()).filter(Boolean);
+
+  let expression: string;
+  if (condition.operator === 'in') {
+    expression = `${property} in {${values.map(value => formatListValue(condition.field, value)).join(' ')}}`;
+  } else {
+    const parts = values.map(value =>
+      condition.operator === 'starts_with'
+        ? `starts_with(${property}, ${quote(value)})`
+        : `${property} ${condition.operator} ${quote(value)}`
+    );
+    expression = parts.length > 1 ? `(${parts.join(' or ')})` : parts[0];
+  }
+
+  return condition.negate ? `not ${expression}` : expression;
+}
+
+/**
+ * Build a rule expression. Each condition is wrapped in parentheses so the output
+ * can be parsed back by parseWAFExpression.
+ */
+export function buildWAFExpression(model: WAFExpressionModel): string {
+  return model.conditions
+    .filter(condition => condition.values.some(value => value.trim()))
+    .map(condition => `(${buildCondition(condition)})`)
+    .join(` ${model.join} `);
+}
+
+// Split on a keyword at parenthesis/brace depth 0, ignoring quoted strings
+function splitTopLevel(input: string, keyword: WAFConditionJoin): string[] {
+  const parts: string[] = [];
+  const separator = ` ${keyword} `;
+  let depth = 0;
+  let inString = false;
+  let start = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '(' || char === '{') depth++;
+    else if (char === ')' || char === '}') depth--;
+    else if (depth === 0 && input.startsWith(separator, i)) {
+      parts.push(input.slice(start, i).trim());
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+
+  parts.push(input.slice(start).trim());
+  return parts;
+}
+
+// True when the first character's opening parenthesis closes at the last character
+function isWrappedInParens(input: string): boolean {
+  if (!input.startsWith('(') || !input.endsWith(')')) return false;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '(') depth++;
+    else if (char === ')') {
+      depth--;
+      if (depth === 0 && i < input.length - 1) return false;
+    }
+  }
+  return depth === 0;
+}
+
+function stripParens(input: string): string {
+  let value = input.trim();
+  while (isWrappedInParens(value)) {
+    value = value.slice(1, -1).trim();
+  }
+  return value;
+}
+
+const fieldByProperty = (property: string) =>
+  (Object.keys(WAF_CONDITION_FIELDS) as WAFConditionField[]).find(field => WAF_CONDITION_FIELDS[field].property === property);
+
+function parseCondition(input: string): WAFCondition | null {
+  let body = stripParens(input);
+  let negate = false;
+  if (body.startsWith('not ')) {
+    negate = true;
+    body = stripParens(body.slice(4));
+  }
+
+  const listMatch = body.match(/^([a-z0-9_.]+) in \{(.*)\}$/);
+  if (listMatch) {
+    const field = fieldByProperty(listMatch[1]);
+    if (!field || !WAF_CONDITION_FIELDS[field].operators.includes('in')) return null;
+    const values = (listMatch[2].match(/"(?:[^"\\]|\\.)*"|[^\s"]+/g) || [])
+      .map(value => (value.startsWith('"') ? unquote(value) : value));
+    return { field, operator: 'in', values, negate };
+  }
+
+  let field: WAFConditionField | undefined;
+  let operator: WAFConditionOperator | undefined;
+  const values: string[] = [];
+
+  for (const part of splitTopLevel(body, 'or')) {
+    const startsWithMatch = part.match(/^starts_with\(([a-z0-9_.]+), ("(?:[^"\\]|\\.)*")\)$/);
+    const compareMatch = part.match(/^([a-z0-9_.]+) (eq|contains) ("(?:[^"\\]|\\.)*")$/);
+    const match = startsWithMatch
+      ? { property: startsWithMatch[1], operator: 'starts_with' as const, value: startsWithMatch[2] }
+      : compareMatch
+        ? { property: compareMatch[1], operator: compareMatch[2] as WAFConditionOperator, value: compareMatch[3] }
+        : null;
+    if (!match) return null;
+
+    const partField = fieldByProperty(match.property);
+    if (!partField || (field && partField !== field) || (operator && match.operator !== operator)) return null;
+    field = partField;
+    operator = match.operator;
+    values.push(unquote(match.value));
+  }
+
+  if (!field || !operator || !WAF_CONDITION_FIELDS[field].operators.includes(operator)) return null;
+  return { field, operator, values, negate };
+}
+
+/**
+ * Parse an expression produced by buildWAFExpression back into conditions.
+ * Returns null for anything the builder can't represent; edit those as raw text.
+ */
+export function parseWAFExpression(expression: string): WAFExpressionModel | null {
+  const trimmed = expression.trim();
+  if (!trimmed) return { conditions: [], join: 'and' };
+
+  for (const join of ['and', 'or'] as WAFConditionJoin[]) {
+    const parts = splitTopLevel(trimmed, join);
+    if (parts.length === 1 && join === 'and') continue;
+
+    const conditions = parts.map(parseCondition);
+    if (conditions.every((condition): condition is WAFCondition => condition !== null)) {
+      return { conditions, join: conditions.length > 1 ? join : 'and' };
+    }
+  }
+
+  return null;
+}
+
+export function createWAFCondition(field: WAFConditionField = 'country'): WAFCondition {
+  return {
+    field,
+    operator: WAF_CONDITION_FIELDS[field].operators[0],
+    values: [],
+    negate: false,
+  };
+}
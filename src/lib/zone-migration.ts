@@ -0,0 +1,53 @@
+import type { DNSRecord, ZoneSettingsValues } from '@/types/cloudflare';
+
+export interface ZoneSnapshot {
+  zoneName: string;
+  sourceZoneId: string;
+  sourceAccountId: string;
+  records: DNSRecord[];
+  settings: Partial<ZoneSettingsValues>;
+  takenAt: string;
+}
+
+export const MIGRATION_STEPS = {
+  snapshot: 'Snapshot DNS records and settings',
+  deleteSource: 'Delete zone from source account',
+  createTarget: 'Create zone in target account',
+  replayRecords: 'Replay DNS records',
+  applySettings: 'Apply zone settings',
+  nameservers: 'Update nameservers at registrar',
+} as const;
+
+export type MigrationStepKey = keyof typeof MIGRATION_STEPS;
+
+export const MIGRATION_STEP_ORDER: MigrationStepKey[] = [
+  'snapshot',
+  'deleteSource',
+  'createTarget',
+  'replayRecords',
+  'applySettings',
+  'nameservers',
+];
+
+/**
+ * Records Cloudflare creates on its own (apex NS, app-managed records) would either be rejected
+ * or duplicated by the target account, so they are left out of the replay.
+ */
+export function isReplayableRecord(record: DNSRecord, zoneName: string): boolean {
+  if (record.type === 'NS' && record.name.toLowerCase() === zoneName.toLowerCase()) {
+    return false;
+  }
+  return !record.meta?.managed_by_apps;
+}
+
+export function downloadZoneSnapshot(snapshot: ZoneSnapshot) {
+  const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `${snapshot.zoneName}-snapshot-${snapshot.takenAt.slice(0, 10)}.json`;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+}
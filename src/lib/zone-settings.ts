@@ -0,0 +1,85 @@
+import type { ZoneSettingsValues } from '@/types/cloudflare';
+
+export type ZoneSettingKey = keyof ZoneSettingsValues;
+
+interface ZoneSettingFieldBase {
+  key: ZoneSettingKey;
+  label: string;
+  description: string;
+}
+
+export type ZoneSettingField =
+  | (ZoneSettingFieldBase & { kind: 'boolean' })
+  | (ZoneSettingFieldBase & { kind: 'select'; options: { value: string; label: string }[] });
+
+/**
+ * Editable zone settings in the order they are applied to a zone
+ */
+export const ZONE_SETTING_FIELDS: ZoneSettingField[] = [
+  {
+    key: 'sslMode',
+    label: 'SSL mode',
+    description: 'Encryption mode between Cloudflare and the origin',
+    kind: 'select',
+    options: [
+      { value: 'off', label: 'Off' },
+      { value: 'flexible', label: 'Flexible' },
+      { value: 'full', label: 'Full' },
+      { value: 'strict', label: 'Full (Strict)' },
+    ],
+  },
+  { key: 'alwaysUseHTTPS', label: 'Always use HTTPS', description: 'Redirect all HTTP requests to HTTPS', kind: 'boolean' },
+  { key: 'hsts', label: 'HSTS', description: 'Strict-Transport-Security header with subdomains and preload', kind: 'boolean' },
+  { key: 'tls13', label: 'TLS 1.3', description: 'Allow TLS 1.3 between visitors and Cloudflare', kind: 'boolean' },
+  { key: 'authenticatedOriginPulls', label: 'Authenticated Origin Pulls', description: 'Present a client certificate to the origin', kind: 'boolean' },
+  { key: 'botFightMode', label: 'Bot Fight Mode', description: 'Challenge requests that match known bot patterns', kind: 'boolean' },
+  {
+    key: 'aiBotsProtection',
+    label: 'AI Bots Protection',
+    description: 'Block verified AI crawlers',
+    kind: 'select',
+    options: [
+      { value: 'disabled', label: 'Disabled' },
+      { value: 'block', label: 'Block' },
+    ],
+  },
+  { key: 'skipBotsWAFRule', label: 'WAF Custom Rule', description: 'Keep the rule that lets known good bots skip security checks; off removes it', kind: 'boolean' },
+  { key: 'earlyHints', label: 'Early Hints', description: 'Send 103 Early Hints responses', kind: 'boolean' },
+  { key: 'zeroRTT', label: '0-RTT', description: 'Allow 0-RTT connection resumption', kind: 'boolean' },
+  {
+    key: 'pseudoIPv4',
+    label: 'Pseudo IPv4',
+    description: 'Add a Class E IPv4 header for IPv6 visitors',
+    kind: 'select',
+    options: [
+      { value: 'off', label: 'Off' },
+      { value: 'add_header', label: 'Add header' },
+      { value: 'overwrite_header', label: 'Overwrite headers' },
+    ],
+  },
+  { key: 'emailObfuscation', label: 'Email Obfuscation', description: 'Hide email addresses on pages from scrapers', kind: 'boolean' },
+];
+
+/**
+ * Human readable value of a single setting, e.g. "On" or "Full (Strict)"
+ */
+export function formatZoneSettingValue(field: ZoneSettingField, value: ZoneSettingsValues[ZoneSettingKey] | undefined): string {
+  if (value === undefined) return '—';
+  if (field.kind === 'boolean') return value ? 'On' : 'Off';
+  return field.options.find(option => option.value === value)?.label || String(value);
+}
+
+/**
+ * Settings that can be read back from a zone. The WAF skip rule is write-only here.
+ */
+export const AUDITED_ZONE_SETTING_FIELDS = ZONE_SETTING_FIELDS.filter(field => field.key !== 'skipBotsWAFRule');
+
+/**
+ * Keys whose current value differs from the target profile.
+ * Settings that could not be read are not reported as drift.
+ */
+export function diffZoneSettings(current: Partial<ZoneSettingsValues>, target: ZoneSettingsValues): ZoneSettingKey[] {
+  return AUDITED_ZONE_SETTING_FIELDS
+    .map(field => field.key)
+    .filter(key => current[key] !== undefined && current[key] !== target[key]);
+}
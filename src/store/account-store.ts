@@ -200,6 +200,7 @@ export const useAccountStore = create<AccountStore>((set, get) => ({
 
   updateAccount: (id, updates) => {
     try {
+      const previous = get().accounts.find(acc => acc.id === id);
       const updatesWithTimestamp = {
         ...updates,
         lastUpdated: new Date(),
@@ -208,6 +209,13 @@ export const useAccountStore = create<AccountStore>((set, get) => ({
       const accounts = storage.getAccounts(); // Re-fetch to ensure consistency with storage
       set({ accounts, error: null });
 
+      // Capabilities were read from the old credential and no longer apply
+      const credentialChanged = (['apiToken', 'email', 'authMode'] as const)
+        .some(key => key in updates && updates[key] !== previous?.[key]);
+      if (credentialChanged) {
+        useCloudflareCache.getState().clearTokenCapabilities(id);
+      }
+
       // If API token changed, re-fetch Cloudflare accounts if it's a Cloudflare account
       if (updates.apiToken) {
         const updatedAccount = accounts.find(acc => acc.id === id);
@@ -297,6 +305,7 @@ export const useAccountStore = create<AccountStore>((set, get) => ({
       set((state) => ({
         accounts: state.accounts.filter((acc) => acc.id !== id),
       }));
+      useCloudflareCache.getState().clearTokenCapabilities(id);
     } catch (error) {
       set({ error: 'Failed to remove account' });
     }
@@ -340,7 +349,7 @@ export const useAccountStore = create<AccountStore>((set, get) => ({
       }
 
       console.log('Fetching Cloudflare accounts for account:', accountId);
-      const api = new CloudflareAPI(account.apiToken);
+      const api = new CloudflareAPI(account);
       let cfAccounts: any[] = [];
 
       // Try to fetch accounts directly first
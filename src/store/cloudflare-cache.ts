@@ -1,54 +1,64 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { DNSRecord, SSLCertificate, SSLSetting, TokenIntrospection, Zone, ZoneDNSSEC, ZoneSettingsValues } from '@/types/cloudflare';
+import type { RegistrarType, UnifiedDomain } from '@/types/registrar';
 
 // Cache data types
 interface ZoneData {
-  zone: any;
+  zone: Zone;
   accountId: string;
   accountName: string;
 }
 
 interface DNSRecordsData {
-  records: any[];
+  records: DNSRecord[];
   zoneId: string;
   accountId: string;
 }
 
 interface SSLData {
-  certificates: any[];
-  sslSetting: any;
+  certificates: SSLCertificate[];
+  sslSetting: SSLSetting | null;
   zoneId: string;
   accountId: string;
 }
 
 interface ZoneDetailsData {
-  zone: any;
+  zone: Zone;
   zoneId: string;
   accountId: string;
 }
 
-interface RegistrarData {
-  registrarName: string;
+interface ZoneSettingsData {
+  settings: Partial<ZoneSettingsValues>;
+  zoneId: string;
   accountId: string;
-  domains?: string[]; // List of domains managed by this registrar
 }
 
-interface NamecheapDomainData {
+interface DNSSECData {
+  details: ZoneDNSSEC;
+  publishedDS: string[] | null; // DS records visible in the parent zone, null if the lookup failed
+  zoneId: string;
   accountId: string;
-  accountName: string;
-  domains: any[];
 }
 
-interface NjallaDomainData {
+interface ZoneRequestsData {
+  requests: number | null; // null when the token cannot read analytics for the zone
+  zoneId: string;
   accountId: string;
-  accountName: string;
-  domains: any[];
 }
 
-interface DynadotDomainData {
+interface RegistrarData {
+  registrarName: string;
+  accountId: string;
+  domains?: string[]; // List of domains managed by this registrar
+}
+
+interface RegistrarDomainsData {
   accountId: string;
   accountName: string;
-  domains: any[];
+  registrar: RegistrarType;
+  domains: UnifiedDomain[];
 }
 
 interface NameserverData {
@@ -74,21 +84,29 @@ interface CloudflareCacheState {
   zoneDetails: Record<string, ZoneDetailsData>;
   zoneDetailsLastUpdated: Record<string, number>;
 
+  // Zone Settings cache (keyed by zoneId-accountId)
+  zoneSettings: Record<string, ZoneSettingsData>;
+  zoneSettingsLastUpdated: Record<string, number>;
+
+  // DNSSEC cache (keyed by zoneId-accountId)
+  dnssec: Record<string, DNSSECData>;
+  dnssecLastUpdated: Record<string, number>;
+
+  // API token capabilities (keyed by accountId)
+  tokenCapabilities: Record<string, TokenIntrospection>;
+  tokenCapabilitiesLastUpdated: Record<string, number>;
+
+  // Requests over the last 24 hours (keyed by zoneId-accountId)
+  zoneRequests: Record<string, ZoneRequestsData>;
+  zoneRequestsLastUpdated: Record<string, number>;
+
   // Registrar Data cache (keyed by accountId)
   registrarData: Record<string, RegistrarData>;
   registrarDataLastUpdated: Record<string, number>;
 
-  // Namecheap Domains cache (keyed by accountId)
-  namecheapDomains: Record<string, NamecheapDomainData>;
-  namecheapDomainsLastUpdated: Record<string, number>;
-
-  // Njalla Domains cache (keyed by accountId)
-  njallaDomains: Record<string, NjallaDomainData>;
-  njallaDomainsLastUpdated: Record<string, number>;
-
-  // Dynadot Domains cache (keyed by accountId)
-  dynadotDomains: Record<string, DynadotDomainData>;
-  dynadotDomainsLastUpdated: Record<string, number>;
+  // Registrar Domains cache (keyed by accountId)
+  registrarDomains: Record<string, RegistrarDomainsData>;
+  registrarDomainsLastUpdated: Record<string, number>;
 
   // Nameservers cache (keyed by domain name)
   nameservers: Record<string, NameserverData>;
@@ -101,23 +119,23 @@ interface CloudflareCacheState {
     sslData: Record<string, boolean>;
     zoneDetails: Record<string, boolean>;
     registrarData: Record<string, boolean>;
-    namecheapDomains: Record<string, boolean>;
-    njallaDomains: Record<string, boolean>;
-    dynadotDomains: Record<string, boolean>;
+    registrarDomains: Record<string, boolean>;
     nameservers: Record<string, boolean>;
   };
 
   // Cache management
   setZones: (zones: ZoneData[]) => void;
-  addZone: (zone: any, accountId: string, accountName: string) => void;
+  addZone: (zone: Zone, accountId: string, accountName: string) => void;
   removeZone: (zoneId: string, accountId: string) => void;
-  setDNSRecords: (zoneId: string, accountId: string, records: any[]) => void;
-  setSSLData: (zoneId: string, accountId: string, certificates: any[], sslSetting: any) => void;
-  setZoneDetails: (zoneId: string, accountId: string, zone: any) => void;
+  setDNSRecords: (zoneId: string, accountId: string, records: DNSRecord[]) => void;
+  setSSLData: (zoneId: string, accountId: string, certificates: SSLCertificate[], sslSetting: SSLSetting | null) => void;
+  setZoneDetails: (zoneId: string, accountId: string, zone: Zone) => void;
+  setZoneSettings: (zoneId: string, accountId: string, settings: Partial<ZoneSettingsValues>) => void;
+  setDNSSEC: (zoneId: string, accountId: string, details: ZoneDNSSEC, publishedDS: string[] | null) => void;
+  setTokenCapabilities: (accountId: string, introspection: TokenIntrospection) => void;
+  clearTokenCapabilities: (accountId: string) => void;
   setRegistrarData: (accountId: string, registrarName: string, domains?: string[]) => void;
-  setNamecheapDomains: (accountId: string, accountName: string, domains: any[]) => void;
-  setNjallaDomains: (accountId: string, accountName: string, domains: any[]) => void;
-  setDynadotDomains: (accountId: string, accountName: string, domains: any[]) => void;
+  setRegistrarDomains: (accountId: string, accountName: string, registrar: RegistrarType, domains: UnifiedDomain[]) => void;
   setNameserversCache: (domain: string, nameservers: string[], isUsingOurDNS: boolean) => void;
 
   setLoading: (type: string, key: string, loading: boolean) => void;
@@ -127,21 +145,23 @@ interface CloudflareCacheState {
   batchClearDNS: (keys: string[]) => void;
   batchClearSSL: (keys: string[]) => void;
 
-  batchSetDNSRecords: (records: { zoneId: string; accountId: string; records: any[] }[]) => void;
-  batchSetSSLData: (data: { zoneId: string; accountId: string; certificates: any[]; sslSetting: any }[]) => void;
+  batchSetDNSRecords: (records: { zoneId: string; accountId: string; records: DNSRecord[] }[]) => void;
+  batchSetSSLData: (data: { zoneId: string; accountId: string; certificates: SSLCertificate[]; sslSetting: SSLSetting | null }[]) => void;
+  batchSetZoneRequests: (items: { zoneId: string; accountId: string; requests: number | null }[]) => void;
 
 
   isCacheValid: (type: string, key?: string) => boolean;
 
   // Getters
   getZones: () => ZoneData[];
-  getDNSRecords: (zoneId: string, accountId: string) => any[];
-  getSSLData: (zoneId: string, accountId: string) => { certificates: any[]; sslSetting: any } | null;
-  getZoneDetails: (zoneId: string, accountId: string) => any | null;
+  getDNSRecords: (zoneId: string, accountId: string) => DNSRecord[];
+  getSSLData: (zoneId: string, accountId: string) => { certificates: SSLCertificate[]; sslSetting: SSLSetting | null } | null;
+  getZoneDetails: (zoneId: string, accountId: string) => Zone | null;
+  getZoneSettings: (zoneId: string, accountId: string) => Partial<ZoneSettingsValues> | null;
+  getDNSSEC: (zoneId: string, accountId: string) => DNSSECData | null;
+  getTokenCapabilities: (accountId: string) => TokenIntrospection | null;
   getRegistrarData: (accountId: string) => RegistrarData | null;
-  getNamecheapDomains: (accountId: string) => NamecheapDomainData | null;
-  getNjallaDomains: (accountId: string) => NjallaDomainData | null;
-  getDynadotDomains: (accountId: string) => DynadotDomainData | null;
+  getRegistrarDomains: (accountId: string) => RegistrarDomainsData | null;
   getNameserversCache: (domain: string) => NameserverData | null;
 }
 
@@ -168,17 +188,23 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
       zoneDetails: {},
       zoneDetailsLastUpdated: {},
 
-      registrarData: {},
-      registrarDataLastUpdated: {},
+      zoneSettings: {},
+      zoneSettingsLastUpdated: {},
 
-      namecheapDomains: {},
-      namecheapDomainsLastUpdated: {},
+      dnssec: {},
+      dnssecLastUpdated: {},
 
-      njallaDomains: {},
-      njallaDomainsLastUpdated: {},
+      tokenCapabilities: {},
+      tokenCapabilitiesLastUpdated: {},
 
-      dynadotDomains: {},
-      dynadotDomainsLastUpdated: {},
+      zoneRequests: {},
+      zoneRequestsLastUpdated: {},
+
+      registrarData: {},
+      registrarDataLastUpdated: {},
+
+      registrarDomains: {},
+      registrarDomainsLastUpdated: {},
 
       nameservers: {},
       nameserversLastUpdated: {},
@@ -189,9 +215,7 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
         sslData: {},
         zoneDetails: {},
         registrarData: {},
-        namecheapDomains: {},
-        njallaDomains: {},
-        dynadotDomains: {},
+        registrarDomains: {},
         nameservers: {},
       },
 
@@ -245,6 +269,12 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
           delete newState.sslDataLastUpdated[key];
           delete newState.zoneDetails[key];
           delete newState.zoneDetailsLastUpdated[key];
+          delete newState.zoneSettings[key];
+          delete newState.zoneSettingsLastUpdated[key];
+          delete newState.dnssec[key];
+          delete newState.dnssecLastUpdated[key];
+          delete newState.zoneRequests[key];
+          delete newState.zoneRequestsLastUpdated[key];
           delete newState.isLoading.dnsRecords[key];
           delete newState.isLoading.sslData[key];
           delete newState.isLoading.zoneDetails[key];
@@ -299,53 +329,78 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
         }));
       },
 
-      setRegistrarData: (accountId, registrarName, domains) => {
+      setZoneSettings: (zoneId, accountId, settings) => {
+        const key = `${zoneId}-${accountId}`;
         set((state) => ({
-          registrarData: {
-            ...state.registrarData,
-            [accountId]: { registrarName, accountId, domains }
+          zoneSettings: {
+            ...state.zoneSettings,
+            [key]: { settings, zoneId, accountId }
           },
-          registrarDataLastUpdated: {
-            ...state.registrarDataLastUpdated,
-            [accountId]: Date.now()
+          zoneSettingsLastUpdated: {
+            ...state.zoneSettingsLastUpdated,
+            [key]: Date.now()
           }
         }));
       },
 
-      setNamecheapDomains: (accountId, accountName, domains) => {
+      setDNSSEC: (zoneId, accountId, details, publishedDS) => {
+        const key = `${zoneId}-${accountId}`;
         set((state) => ({
-          namecheapDomains: {
-            ...state.namecheapDomains,
-            [accountId]: { accountId, accountName, domains }
+          dnssec: {
+            ...state.dnssec,
+            [key]: { details, publishedDS, zoneId, accountId }
           },
-          namecheapDomainsLastUpdated: {
-            ...state.namecheapDomainsLastUpdated,
+          dnssecLastUpdated: {
+            ...state.dnssecLastUpdated,
+            [key]: Date.now()
+          }
+        }));
+      },
+
+      setTokenCapabilities: (accountId, introspection) => {
+        set((state) => ({
+          tokenCapabilities: {
+            ...state.tokenCapabilities,
+            [accountId]: introspection
+          },
+          tokenCapabilitiesLastUpdated: {
+            ...state.tokenCapabilitiesLastUpdated,
             [accountId]: Date.now()
           }
         }));
       },
 
-      setNjallaDomains: (accountId, accountName, domains) => {
+      clearTokenCapabilities: (accountId) => {
+        set((state) => {
+          const tokenCapabilities = { ...state.tokenCapabilities };
+          const tokenCapabilitiesLastUpdated = { ...state.tokenCapabilitiesLastUpdated };
+          delete tokenCapabilities[accountId];
+          delete tokenCapabilitiesLastUpdated[accountId];
+          return { tokenCapabilities, tokenCapabilitiesLastUpdated };
+        });
+      },
+
+      setRegistrarData: (accountId, registrarName, domains) => {
         set((state) => ({
-          njallaDomains: {
-            ...state.njallaDomains,
-            [accountId]: { accountId, accountName, domains }
+          registrarData: {
+            ...state.registrarData,
+            [accountId]: { registrarName, accountId, domains }
           },
-          njallaDomainsLastUpdated: {
-            ...state.njallaDomainsLastUpdated,
+          registrarDataLastUpdated: {
+            ...state.registrarDataLastUpdated,
             [accountId]: Date.now()
           }
         }));
       },
 
-      setDynadotDomains: (accountId, accountName, domains) => {
+      setRegistrarDomains: (accountId, accountName, registrar, domains) => {
         set((state) => ({
-          dynadotDomains: {
-            ...state.dynadotDomains,
-            [accountId]: { accountId, accountName, domains }
+          registrarDomains: {
+            ...state.registrarDomains,
+            [accountId]: { accountId, accountName, registrar, domains }
           },
-          dynadotDomainsLastUpdated: {
-            ...state.dynadotDomainsLastUpdated,
+          registrarDomainsLastUpdated: {
+            ...state.registrarDomainsLastUpdated,
             [accountId]: Date.now()
           }
         }));
@@ -386,14 +441,18 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
         sslDataLastUpdated: {},
         zoneDetails: {},
         zoneDetailsLastUpdated: {},
+        zoneSettings: {},
+        zoneSettingsLastUpdated: {},
+        dnssec: {},
+        dnssecLastUpdated: {},
+        tokenCapabilities: {},
+        tokenCapabilitiesLastUpdated: {},
+        zoneRequests: {},
+        zoneRequestsLastUpdated: {},
         registrarData: {},
         registrarDataLastUpdated: {},
-        namecheapDomains: {},
-        namecheapDomainsLastUpdated: {},
-        njallaDomains: {},
-        njallaDomainsLastUpdated: {},
-        dynadotDomains: {},
-        dynadotDomainsLastUpdated: {},
+        registrarDomains: {},
+        registrarDomainsLastUpdated: {},
         nameservers: {},
         nameserversLastUpdated: {},
         isLoading: {
@@ -402,9 +461,7 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
           sslData: {},
           zoneDetails: {},
           registrarData: {},
-          namecheapDomains: {},
-          njallaDomains: {},
-          dynadotDomains: {},
+          registrarDomains: {},
           nameservers: {},
         }
       }),
@@ -419,6 +476,10 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
           delete newState.sslDataLastUpdated[key];
           delete newState.zoneDetails[key];
           delete newState.zoneDetailsLastUpdated[key];
+          delete newState.zoneSettings[key];
+          delete newState.zoneSettingsLastUpdated[key];
+          delete newState.dnssec[key];
+          delete newState.dnssecLastUpdated[key];
           delete newState.isLoading.dnsRecords[key];
           delete newState.isLoading.sslData[key];
           delete newState.isLoading.zoneDetails[key];
@@ -486,6 +547,25 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
         });
       },
 
+      batchSetZoneRequests: (items) => {
+        set((state) => {
+          const newZoneRequests = { ...state.zoneRequests };
+          const newLastUpdated = { ...state.zoneRequestsLastUpdated };
+          const now = Date.now();
+
+          items.forEach(({ zoneId, accountId, requests }) => {
+            const key = `${zoneId}-${accountId}`;
+            newZoneRequests[key] = { requests, zoneId, accountId };
+            newLastUpdated[key] = now;
+          });
+
+          return {
+            zoneRequests: newZoneRequests,
+            zoneRequestsLastUpdated: newLastUpdated
+          };
+        });
+      },
+
       // Cache validation - cache never expires automatically, only updates manually
       isCacheValid: (type, key) => {
         const state = get();
@@ -498,10 +578,12 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
           case 'dnsRecords':
           case 'sslData':
           case 'zoneDetails':
+          case 'zoneSettings':
+          case 'dnssec':
+          case 'tokenCapabilities':
+          case 'zoneRequests':
           case 'registrarData':
-          case 'namecheapDomains':
-          case 'njallaDomains':
-          case 'dynadotDomains':
+          case 'registrarDomains':
           case 'nameservers':
             if (!key) return false;
             const lastUpdated = state[`${type}LastUpdated` as keyof typeof state] as Record<string, number> | undefined;
@@ -539,20 +621,26 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
         return get().zoneDetails[key]?.zone || null;
       },
 
-      getRegistrarData: (accountId) => {
-        return get().registrarData[accountId] || null;
+      getZoneSettings: (zoneId, accountId) => {
+        const key = `${zoneId}-${accountId}`;
+        return get().zoneSettings[key]?.settings || null;
       },
 
-      getNamecheapDomains: (accountId) => {
-        return get().namecheapDomains[accountId] || null;
+      getDNSSEC: (zoneId, accountId) => {
+        const key = `${zoneId}-${accountId}`;
+        return get().dnssec[key] || null;
       },
 
-      getNjallaDomains: (accountId) => {
-        return get().njallaDomains[accountId] || null;
+      getTokenCapabilities: (accountId) => {
+        return get().tokenCapabilities[accountId] || null;
+      },
+
+      getRegistrarData: (accountId) => {
+        return get().registrarData[accountId] || null;
       },
 
-      getDynadotDomains: (accountId) => {
-        return get().dynadotDomains[accountId] || null;
+      getRegistrarDomains: (accountId) => {
+        return get().registrarDomains[accountId] || null;
       },
 
       getNameserversCache: (domain) => {
@@ -570,14 +658,18 @@ export const useCloudflareCache = create<CloudflareCacheStateWithHydration>()(
         sslDataLastUpdated: state.sslDataLastUpdated,
         zoneDetails: state.zoneDetails,
         zoneDetailsLastUpdated: state.zoneDetailsLastUpdated,
+        zoneSettings: state.zoneSettings,
+        zoneSettingsLastUpdated: state.zoneSettingsLastUpdated,
+        dnssec: state.dnssec,
+        dnssecLastUpdated: state.dnssecLastUpdated,
+        tokenCapabilities: state.tokenCapabilities,
+        tokenCapabilitiesLastUpdated: state.tokenCapabilitiesLastUpdated,
+        zoneRequests: state.zoneRequests,
+        zoneRequestsLastUpdated: state.zoneRequestsLastUpdated,
         registrarData: state.registrarData,
         registrarDataLastUpdated: state.registrarDataLastUpdated,
-        namecheapDomains: state.namecheapDomains,
-        namecheapDomainsLastUpdated: state.namecheapDomainsLastUpdated,
-        njallaDomains: state.njallaDomains,
-        njallaDomainsLastUpdated: state.njallaDomainsLastUpdated,
-        dynadotDomains: state.dynadotDomains,
-        dynadotDomainsLastUpdated: state.dynadotDomainsLastUpdated,
+        registrarDomains: state.registrarDomains,
+        registrarDomainsLastUpdated: state.registrarDomainsLastUpdated,
         nameservers: state.nameservers,
         nameserversLastUpdated: state.nameserversLastUpdated,
       }),
@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+
+export interface CloudflareQuota {
+    limit: number | null;
+    remaining: number | null;
+    windowSeconds: number | null;
+    resetAt: number | null;
+    pausedUntil: number | null;
+    queued: number;
+    updatedAt: number;
+}
+
+interface CloudflareQuotaState {
+    // Keyed by token fingerprint (see getCloudflareRateLimitKey), not persisted
+    quotas: Record<string, CloudflareQuota>;
+    setQuota: (key: string, quota: CloudflareQuota) => void;
+}
+
+export const useCloudflareQuotaStore = create<CloudflareQuotaState>((set) => ({
+    quotas: {},
+    setQuota: (key, quota) => set((state) => ({
+        quotas: { ...state.quotas, [key]: quota },
+    })),
+}));
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { RegistrarContact, RegistrarContactProfile } from '@/types/registrar';
+
+interface ContactProfileState {
+  profiles: RegistrarContactProfile[];
+
+  addProfile: (name: string, contact: RegistrarContact) => RegistrarContactProfile;
+  updateProfile: (id: string, updates: Partial<Omit<RegistrarContactProfile, 'id' | 'createdAt'>>) => void;
+  removeProfile: (id: string) => void;
+}
+
+// Registrant contacts saved for domain registration; kept in the browser like the accounts
+export const useContactProfileStore = create<ContactProfileState>()(
+  persist(
+    (set) => ({
+      profiles: [],
+
+      addProfile: (name, contact) => {
+        const profile: RegistrarContactProfile = {
+          id: crypto.randomUUID(),
+          name,
+          contact: { ...contact },
+          createdAt: new Date(),
+        };
+        set((state) => ({ profiles: [...state.profiles, profile] }));
+        return profile;
+      },
+
+      updateProfile: (id, updates) => {
+        set((state) => ({
+          profiles: state.profiles.map((profile) =>
+            profile.id === id ? { ...profile, ...updates } : profile
+          ),
+        }));
+      },
+
+      removeProfile: (id) => {
+        set((state) => ({ profiles: state.profiles.filter((profile) => profile.id !== id) }));
+      },
+    }),
+    {
+      name: 'registrar-contact-profiles',
+      partialize: (state) => ({ profiles: state.profiles }),
+    }
+  )
+);
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { OriginCertificate, OriginCertificateDeployment } from '@/types/cloudflare';
+
+interface OriginCertificateState {
+  // Private keys are generated locally and Cloudflare never sees them, so the pair only exists here
+  certificates: OriginCertificate[];
+
+  addCertificate: (certificate: OriginCertificate) => void;
+  removeCertificate: (id: string) => void;
+  recordDeployment: (id: string, deployment: Omit<OriginCertificateDeployment, 'deployedAt'>) => void;
+  getZoneCertificates: (zoneId: string) => OriginCertificate[];
+}
+
+export const useOriginCertificateStore = create<OriginCertificateState>()(
+  persist(
+    (set, get) => ({
+      certificates: [],
+
+      addCertificate: (certificate) => {
+        set((state) => ({
+          certificates: [...state.certificates.filter(item => item.id !== certificate.id), certificate],
+        }));
+      },
+
+      removeCertificate: (id) => {
+        set((state) => ({ certificates: state.certificates.filter(item => item.id !== id) }));
+      },
+
+      recordDeployment: (id, deployment) => {
+        set((state) => ({
+          certificates: state.certificates.map(item =>
+            item.id === id
+              ? { ...item, deployments: [...item.deployments, { ...deployment, deployedAt: new Date() }] }
+              : item
+          ),
+        }));
+      },
+
+      getZoneCertificates: (zoneId) => get().certificates.filter(item => item.zoneId === zoneId),
+    }),
+    {
+      name: 'origin-certificates',
+      partialize: (state) => ({ certificates: state.certificates }),
+    }
+  )
+);
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 
-export type TaskType = 'refresh_all' | 'refresh_zones' | 'refresh_dns' | 'refresh_ssl';
+export type TaskType = 'refresh_all' | 'refresh_zones' | 'refresh_dns' | 'refresh_ssl' | 'apply_profile' | 'audit_settings' | 'reconcile_settings' | 'push_waf_rules' | 'push_redirect_rules' | 'purge_cache' | 'issue_origin_certificates' | 'check_dnssec' | 'enable_dnssec' | 'refresh_requests' | 'apply_email_template' | 'route_tunnel_dns' | 'renew_domains' | 'register_domains';
 
 export interface TaskLog {
     id: string;
@@ -133,3 +133,26 @@ export const useTaskStore = create<TaskState>((set, get) => ({
         set({ isVisible: false });
     },
 }));
+
+/**
+ * Throws if the active task was stopped; waits while it is paused.
+ * Call between units of work in long-running task loops.
+ */
+export async function checkTaskStatus() {
+    const { status } = useTaskStore.getState();
+
+    if (status === 'stopped') {
+        throw new Error('Task stopped by user');
+    }
+
+    if (status === 'paused') {
+        // Poll until resumed or stopped
+        while (useTaskStore.getState().status === 'paused') {
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+        // Check again after pause loop
+        if (useTaskStore.getState().status === 'stopped') {
+            throw new Error('Task stopped by user');
+        }
+    }
+}
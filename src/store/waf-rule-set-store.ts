@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createRuleRef } from '@/lib/rulesets';
+import type { RulesetRule, WAFRuleSet } from '@/types/cloudflare';
+
+const createPresetRuleSets = (): WAFRuleSet[] => [
+  {
+    id: 'wordpress-admin',
+    name: 'WordPress admin protection',
+    rules: [
+      {
+        ref: 'waf_wp_login',
+        description: 'Challenge WordPress login and admin',
+        expression: '((starts_with(http.request.uri.path, "/wp-login.php") or starts_with(http.request.uri.path, "/wp-admin")))',
+        action: 'managed_challenge',
+        enabled: true,
+      },
+      {
+        ref: 'waf_wp_xmlrpc',
+        description: 'Block XML-RPC',
+        expression: '(http.request.uri.path eq "/xmlrpc.php")',
+        action: 'block',
+        enabled: true,
+      },
+    ],
+    createdAt: new Date(),
+  },
+];
+
+interface WAFRuleSetState {
+  ruleSets: WAFRuleSet[];
+
+  saveRuleSet: (ruleSet: { id?: string; name: string; rules: RulesetRule[] }) => WAFRuleSet;
+  removeRuleSet: (id: string) => void;
+}
+
+// Rules need a ref before they are pushed so the next push can find them again
+const withRefs = (rules: RulesetRule[]) =>
+  rules.map(rule => (rule.ref ? rule : { ...rule, ref: createRuleRef('waf') }));
+
+export const useWAFRuleSetStore = create<WAFRuleSetState>()(
+  persist(
+    (set, get) => ({
+      ruleSets: createPresetRuleSets(),
+
+      saveRuleSet: ({ id, name, rules }) => {
+        const existing = id ? get().ruleSets.find(ruleSet => ruleSet.id === id) : undefined;
+        const ruleSet: WAFRuleSet = {
+          id: existing?.id || crypto.randomUUID(),
+          name,
+          rules: withRefs(rules),
+          createdAt: existing?.createdAt || new Date(),
+        };
+
+        set((state) => ({
+          ruleSets: existing
+            ? state.ruleSets.map(item => (item.id === ruleSet.id ? ruleSet : item))
+            : [...state.ruleSets, ruleSet],
+        }));
+        return ruleSet;
+      },
+
+      removeRuleSet: (id) => {
+        set((state) => ({ ruleSets: state.ruleSets.filter(ruleSet => ruleSet.id !== id) }));
+      },
+    }),
+    {
+      name: 'waf-rule-sets',
+      partialize: (state) => ({ ruleSets: state.ruleSets }),
+    }
+  )
+);
@@ -0,0 +1,133 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_ZONE_SETTINGS } from '@/lib/cloudflare-api';
+import type { ZoneSettingsProfile, ZoneSettingsValues } from '@/types/cloudflare';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+const createPresetProfiles = (): ZoneSettingsProfile[] => [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    description: 'Strict SSL, HSTS, Bot Fight Mode with known bots skipped',
+    settings: { ...DEFAULT_ZONE_SETTINGS },
+    isDefault: true,
+    createdAt: new Date(),
+  },
+  {
+    id: 'redirect-landing',
+    name: 'Redirect landing',
+    description: 'Flexible SSL for redirect-only hosts, no bot challenges',
+    settings: {
+      ...DEFAULT_ZONE_SETTINGS,
+      sslMode: 'flexible',
+      hsts: false,
+      authenticatedOriginPulls: false,
+      botFightMode: false,
+      skipBotsWAFRule: false,
+    },
+    createdAt: new Date(),
+  },
+  {
+    id: 'api-origin',
+    name: 'API origin',
+    description: 'Strict SSL and TLS 1.3, no JavaScript challenges that break API clients',
+    settings: {
+      ...DEFAULT_ZONE_SETTINGS,
+      tls13: true,
+      botFightMode: false,
+      skipBotsWAFRule: false,
+      earlyHints: false,
+      zeroRTT: false,
+    },
+    createdAt: new Date(),
+  },
+  {
+    id: 'hardened',
+    name: 'Hardened',
+    description: 'Default baseline plus AI crawler blocking and no 0-RTT replay',
+    settings: {
+      ...DEFAULT_ZONE_SETTINGS,
+      tls13: true,
+      aiBotsProtection: 'block',
+      zeroRTT: false,
+      emailObfuscation: true,
+    },
+    createdAt: new Date(),
+  },
+];
+
+interface ZoneProfileState {
+  profiles: ZoneSettingsProfile[];
+
+  addProfile: (name: string, settings: ZoneSettingsValues, description?: string) => ZoneSettingsProfile;
+  updateProfile: (id: string, updates: Partial<Omit<ZoneSettingsProfile, 'id' | 'createdAt'>>) => void;
+  removeProfile: (id: string) => void;
+  resetProfiles: () => void;
+
+  getProfile: (id?: string) => ZoneSettingsProfile;
+}
+
+export const useZoneProfileStore = create<ZoneProfileState>()(
+  persist(
+    (set, get) => ({
+      profiles: createPresetProfiles(),
+
+      addProfile: (name, settings, description) => {
+        const profile: ZoneSettingsProfile = {
+          id: crypto.randomUUID(),
+          name,
+          description,
+          settings: { ...settings },
+          createdAt: new Date(),
+        };
+        set((state) => ({ profiles: [...state.profiles, profile] }));
+        return profile;
+      },
+
+      updateProfile: (id, updates) => {
+        set((state) => ({
+          profiles: state.profiles.map((profile) =>
+            profile.id === id ? { ...profile, ...updates } : profile
+          ),
+        }));
+      },
+
+      removeProfile: (id) => {
+        set((state) => ({
+          profiles: state.profiles.filter((profile) => profile.id !== id || profile.isDefault),
+        }));
+      },
+
+      resetProfiles: () => set({ profiles: createPresetProfiles() }),
+
+      // Falls back to the built-in profile when the id is unknown (e.g. deleted)
+      getProfile: (id) => {
+        const { profiles } = get();
+        return (
+          profiles.find((profile) => profile.id === id) ||
+          profiles.find((profile) => profile.isDefault) ||
+          createPresetProfiles()[0]
+        );
+      },
+    }),
+    {
+      name: 'zone-settings-profiles',
+      version: 1,
+      partialize: (state) => ({ profiles: state.profiles }),
+      // Unversioned (v0) profiles can predate settings keys; fill the gaps from the defaults
+      migrate: (persistedState, version) => {
+        const state = persistedState as Pick<ZoneProfileState, 'profiles'>;
+        if (version < 1 && Array.isArray(state?.profiles)) {
+          return {
+            profiles: state.profiles.map((profile) => ({
+              ...profile,
+              settings: { ...DEFAULT_ZONE_SETTINGS, ...profile.settings },
+            })),
+          };
+        }
+        return state;
+      },
+    }
+  )
+);
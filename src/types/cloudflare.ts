@@ -1,6 +1,35 @@
+import type { z } from 'zod';
+import type {
+  botManagementSchema,
+  bulkRedirectSchema,
+  certificatePackSchema,
+  dnsRecordSchema,
+  emailRoutingAddressSchema,
+  emailRoutingRuleSchema,
+  emailRoutingSettingsSchema,
+  originCertificateSchema,
+  redirectListItemSchema,
+  rulesetRuleSchema,
+  rulesetSchema,
+  rulesListSchema,
+  securityEventSchema,
+  sslSettingSchema,
+  tokenPolicySchema,
+  tokenVerificationSchema,
+  tunnelIngressRuleSchema,
+  tunnelSchema,
+  zoneDNSSECSchema,
+  zoneSchema,
+  zoneSecurityEventsSchema,
+  zoneSettingSchema,
+} from '@/lib/cloudflare-schemas';
+
 export type AccountCategory = "registrar" | "cloudflare" | "proxy" | "ssh" | "npm" | "vps"
 
-export type RegistrarType = "namecheap" | "njalla" | "dynadot"
+export type RegistrarType = "namecheap" | "njalla" | "dynadot" | "porkbun"
+
+// Scoped API tokens use a Bearer header; legacy Global API Keys need X-Auth-Email and X-Auth-Key
+export type CloudflareAuthMode = "api_token" | "global_key"
 
 export interface CloudflareAccount {
   id: string;
@@ -10,7 +39,9 @@ export interface CloudflareAccount {
   category?: AccountCategory;
   registrarName?: RegistrarType; // Required when category is "registrar"
   username?: string; // API username for registrar accounts (defaults to email prefix)
+  apiSecret?: string; // Secret half of a registrar key pair (Porkbun)
   proxyId?: string; // Reference to proxy account for API calls
+  authMode?: CloudflareAuthMode; // Cloudflare accounts only, defaults to "api_token"
   createdAt: Date;
   cloudflareAccounts?: {
     id: string;
@@ -63,99 +94,207 @@ export interface NPMAccount {
   createdAt: Date;
 }
 
-export interface Zone {
-  id: string;
-  name: string;
-  status: 'active' | 'pending' | 'initializing' | 'moved' | 'deleted' | 'deactivated';
-  name_servers: string[];
-  plan: {
-    id: string;
-    name: string;
-    price: number;
-    currency: string;
-    frequency: string;
-  };
-  development_mode: number;
-  original_name_servers: string[];
-  original_registrar: string;
-  original_dnshost: string;
-  modified_on: string;
-  created_on: string;
-  activated_on: string;
-  meta: {
-    step: number;
-    custom_certificate_quota: number;
-    page_rule_quota: number;
-    phishing_detected: boolean;
-    multiple_railguns_allowed: boolean;
-  };
-  owner: {
-    id: string;
-    type: string;
-    email: string;
-  };
-  account: {
-    id: string;
-    name: string;
-  };
-  permissions: string[];
-}
+// Cloudflare payload types are derived from the schemas in lib/cloudflare-schemas
+export type Zone = z.infer<typeof zoneSchema>;
 
-export interface DNSRecord {
-  id: string;
-  zone_id: string;
-  zone_name: string;
+export type DNSRecord = z.infer<typeof dnsRecordSchema>;
+
+// Body of CloudflareAPI.createDNSRecord and updateDNSRecord
+export interface DNSRecordInput {
+  type: DNSRecord['type'];
   name: string;
-  type: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SRV' | 'NS' | 'PTR' | 'CAA' | 'LOC' | 'SSHFP' | 'TLSA' | 'URI';
   content: string;
-  proxiable: boolean;
-  proxied: boolean;
-  ttl: number;
-  locked: boolean;
+  ttl?: number;
+  proxied?: boolean;
   priority?: number; // Required for MX records
-  meta: {
-    auto_added: boolean;
-    managed_by_apps: boolean;
-    managed_by_argo_tunnel: boolean;
-    source: string;
-  };
-  comment?: string;
-  tags: string[];
-  created_on: string;
-  modified_on: string;
-}
-
-export interface SSLCertificate {
+  comment?: string | null;
+  data?: Record<string, unknown>; // Structured records (SRV, CAA)
+}
+
+// Certificate packs
+export type SSLCertificate = z.infer<typeof certificatePackSchema>;
+
+export type SSLSetting = z.infer<typeof sslSettingSchema>;
+
+// Any /zones/{id}/settings/{setting}; the value shape depends on the setting
+export type ZoneSetting = z.infer<typeof zoneSettingSchema>;
+
+// Origin CA certificate as returned by /certificates; the private key never leaves the browser
+export type OriginCACertificate = z.infer<typeof originCertificateSchema>;
+
+/**
+ * Values applied to a zone by CloudflareAPI.applyZoneSettings
+ */
+export interface ZoneSettingsValues {
+  sslMode: 'off' | 'flexible' | 'full' | 'strict';
+  alwaysUseHTTPS: boolean;
+  hsts: boolean;
+  tls13: boolean;
+  authenticatedOriginPulls: boolean;
+  botFightMode: boolean;
+  aiBotsProtection: 'disabled' | 'block';
+  skipBotsWAFRule: boolean;
+  earlyHints: boolean;
+  zeroRTT: boolean;
+  pseudoIPv4: 'off' | 'add_header' | 'overwrite_header';
+  emailObfuscation: boolean;
+}
+
+export interface ZoneSettingsProfile {
   id: string;
-  type: 'dedicated' | 'shared' | 'custom';
-  hosts: string[];
-  issuer: string;
-  signature: string;
-  status: 'active' | 'pending_validation' | 'pending_issuance' | 'pending_deployment' | 'validation_timed_out' | 'issuance_timed_out' | 'deployment_timed_out' | 'failed' | 'cancelled' | 'revoked' | 'expired';
-  method: 'http' | 'cname' | 'email' | 'tls' | 'txt';
-  validation_records: Array<{
-    cname_target: string;
-    cname: string;
-    txt_name: string;
-    txt_value: string;
-  }>;
-  validation_errors: Array<{
-    message: string;
-  }>;
-  validity_days: number;
-  certificate_authority: string;
-  cloudflare_branding: boolean;
-  custom_certificate_id: string;
-  custom_certificate_key: string;
-  custom_certificate_bundle: string;
-  created_on: string;
-  modified_on: string;
-  expires_on: string;
-}
-
-export interface SSLSetting {
+  name: string;
+  description?: string;
+  settings: ZoneSettingsValues;
+  isDefault?: boolean; // The built-in profile cannot be deleted
+  createdAt: Date;
+}
+
+export type RulesetPhase = Ruleset['phase'];
+
+export type WAFCustomRuleAction = 'block' | 'managed_challenge' | 'js_challenge' | 'challenge' | 'log' | 'skip';
+
+export type RulesetRule = z.infer<typeof rulesetRuleSchema>;
+
+export type Ruleset = z.infer<typeof rulesetSchema>;
+
+export interface WAFRuleSet {
   id: string;
-  value: 'off' | 'flexible' | 'full' | 'strict';
-  modified_on: string;
-  editable: boolean;
+  name: string;
+  rules: RulesetRule[]; // Every rule carries a ref so re-pushing updates instead of duplicating
+  createdAt: Date;
+}
+
+export type RulesList = z.infer<typeof rulesListSchema>;
+
+export type BulkRedirect = z.infer<typeof bulkRedirectSchema>;
+
+export type RedirectListItem = z.infer<typeof redirectListItemSchema>;
+
+export type CachePurgeMode = 'everything' | 'files' | 'prefixes' | 'hosts';
+
+export interface CachePurgeRequest {
+  mode: CachePurgeMode;
+  values: string[]; // URLs, prefixes or hostnames; ignored for "everything"
+}
+
+// Validity periods the Origin CA accepts, in days
+export type OriginCertificateValidity = 7 | 30 | 90 | 365 | 730 | 1095 | 5475;
+
+export interface OriginCertificate {
+  id: string; // Cloudflare certificate ID
+  zoneId: string;
+  zoneName: string;
+  accountId: string;
+  hostnames: string[];
+  certificate: string;
+  privateKey: string;
+  requestType: 'origin-ecc' | 'origin-rsa';
+  expiresOn: string;
+  createdAt: Date;
+  deployments: OriginCertificateDeployment[];
+}
+
+export interface OriginCertificateDeployment {
+  target: 'npm' | 'ssh';
+  destination: string; // NPM certificate name or "server:/path"
+  deployedAt: Date;
+}
+
+export type DNSSECStatus = ZoneDNSSEC['status'];
+
+// Shape of /zones/{id}/dnssec; the DS fields are only present once DNSSEC is enabled
+export type ZoneDNSSEC = z.infer<typeof zoneDNSSECSchema>;
+
+export type BotManagement = z.infer<typeof botManagementSchema>;
+
+export interface DSRecord {
+  keyTag: number;
+  algorithm: number;
+  digestType: number;
+  digest: string;
 }
+
+// Result of /user/tokens/verify (or /accounts/{id}/tokens/verify for account-owned tokens)
+export type TokenVerification = z.infer<typeof tokenVerificationSchema>;
+
+export type TokenPolicy = z.infer<typeof tokenPolicySchema>;
+
+export type TokenCapability =
+  | 'zoneRead'
+  | 'zoneEdit'
+  | 'dnsEdit'
+  | 'zoneSettingsEdit'
+  | 'wafEdit'
+  | 'botManagement'
+  | 'cachePurge'
+  | 'sslEdit'
+  | 'analyticsRead'
+  | 'emailRoutingEdit'
+  | 'tunnelRead'
+  | 'tunnelEdit';
+
+export interface TokenIntrospection {
+  tokenId?: string;
+  status: TokenVerification['status'] | 'invalid';
+  expiresOn?: string;
+  // null means unknown: the token verified but is not allowed to read its own policies
+  capabilities: Record<TokenCapability, boolean | null>;
+  checkedAt: number;
+}
+
+export type AnalyticsRange = '24h' | '7d' | '30d';
+
+export interface ZoneTrafficTotals {
+  requests: number;
+  cachedRequests: number;
+  bytes: number;
+  cachedBytes: number;
+}
+
+export interface ZoneTrafficPoint extends ZoneTrafficTotals {
+  timestamp: string; // Start of the hour (24h) or day (7d, 30d), ISO 8601
+}
+
+export interface ZoneAnalytics {
+  range: AnalyticsRange;
+  series: ZoneTrafficPoint[];
+  totals: ZoneTrafficTotals;
+  countries: { country: string; requests: number }[];
+  statusCodes: { status: number; requests: number }[];
+}
+
+export type SecurityEventsRange = '1h' | '6h' | '24h' | '72h';
+
+export interface SecurityEventFilters {
+  action?: string;
+  source?: string;
+  ruleId?: string;
+  country?: string; // ISO 3166-1 alpha-2, as returned in clientCountryName
+  ip?: string;
+  path?: string; // Substring of the request path
+}
+
+export type SecurityEvent = z.infer<typeof securityEventSchema>;
+
+export type SecurityEventRuleSummary = z.infer<typeof zoneSecurityEventsSchema>['rules'][number]['dimensions'] & { count: number };
+
+export interface ZoneSecurityEvents {
+  events: SecurityEvent[];
+  rules: SecurityEventRuleSummary[];
+}
+
+export type EmailRoutingSettings = z.infer<typeof emailRoutingSettingsSchema>;
+
+export type EmailRoutingMatcher = EmailRoutingRule['matchers'][number];
+
+export type EmailRoutingAction = EmailRoutingRule['actions'][number];
+
+export type EmailRoutingRule = z.infer<typeof emailRoutingRuleSchema>;
+
+export type EmailRoutingAddress = z.infer<typeof emailRoutingAddressSchema>;
+
+export type TunnelConnection = CloudflareTunnel['connections'][number];
+
+export type CloudflareTunnel = z.infer<typeof tunnelSchema>;
+
+export type TunnelIngressRule = z.infer<typeof tunnelIngressRuleSchema>;
@@ -17,16 +17,3 @@ export interface DynadotDomain {
   registrar?: 'dynadot';
   isUsingOurDNS?: boolean;
 }
-
-export interface DynadotAccount {
-  id: string;
-  name?: string;
-  email: string;
-  apiKey: string;
-  createdAt: Date;
-}
-
-export interface DynadotDomainsResponse {
-  domains: DynadotDomain[];
-  account: DynadotAccount;
-}
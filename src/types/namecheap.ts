@@ -14,6 +14,43 @@ export interface NamecheapDomain {
   registrar?: 'namecheap';
 }
 
+// A record from namecheap.domains.dns.getHosts; setHosts takes the same fields without HostId
+export interface NamecheapHost {
+  HostId?: string;
+  Name: string;
+  Type: string;
+  Address: string;
+  MXPref?: number;
+  TTL: number;
+}
+
+// Mail setting sent with setHosts; MX records are ignored unless it is 'MX'
+export type NamecheapEmailType = 'NONE' | 'MXE' | 'MX' | 'FWD' | 'OX' | 'GMAIL' | string;
+
+// A DomainCheckResult from namecheap.domains.check
+export interface NamecheapDomainCheck {
+  Domain: string;
+  Available: boolean;
+  IsPremiumName: boolean;
+  PremiumRegistrationPrice?: number;
+  Description?: string; // Error text for names Namecheap can't check
+}
+
+// Contact fields for namecheap.domains.create; each is sent once per role with the role as prefix
+export interface NamecheapContact {
+  FirstName: string;
+  LastName: string;
+  OrganizationName?: string;
+  Address1: string;
+  Address2?: string;
+  City: string;
+  StateProvince: string;
+  PostalCode: string;
+  Country: string;
+  Phone: string;
+  EmailAddress: string;
+}
+
 export interface NamecheapApiResponse {
   ApiResponse: {
     $: {
@@ -43,36 +80,3 @@ export interface NamecheapApiResponse {
     ExecutionTime: string[];
   };
 }
-
-export interface NamecheapAccount {
-  id: string;
-  name?: string;
-  email: string;
-  apiUser: string; // API username (stored in CloudflareAccount.username)
-  apiKey: string;
-  proxyId?: string; // Reference to proxy account for client IP
-  createdAt: Date;
-}
-
-export interface NamecheapDomainsResponse {
-  domains: NamecheapDomain[];
-  paging: {
-    totalItems: number;
-    currentPage: number;
-    pageSize: number;
-  };
-  account: NamecheapAccount;
-}
-
-export interface NamecheapNameservers {
-  domain: string; // Full domain name (e.g., example.com)
-  sld: string; // Second-level domain
-  tld: string; // Top-level domain
-  nameservers: string[];
-  isUsingOurDNS: boolean;
-}
-
-export interface NamecheapNameserversResponse {
-  nameservers: string[];
-  isUsingOurDNS: boolean;
-}
\ No newline at end of file
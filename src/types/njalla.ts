@@ -6,11 +6,3 @@ export interface NjallaDomain {
   registrar?: 'njalla';
   accountId?: string;
 }
-
-export interface NjallaAccount {
-  id: string;
-  name?: string;
-  email: string;
-  apiKey: string;
-  createdAt: Date;
-}
@@ -78,5 +78,17 @@ export interface ParsedNginxLocation {
     location: string;
     destination: string;
     sourceDomain: string;
+    statusCode?: number;
     isDuplicate?: boolean;
 }
+
+export interface NPMCertificate {
+    id: number;
+    provider: 'letsencrypt' | 'other';
+    nice_name: string;
+    domain_names: string[];
+    expires_on: string;
+    created_on: string;
+    modified_on: string;
+    meta?: Record<string, any>;
+}
@@ -0,0 +1,11 @@
+export interface PorkbunDomain {
+  domain: string;
+  status: string;
+  tld: string;
+  createDate: string; // YYYY-MM-DD HH:MM:SS
+  expireDate: string; // YYYY-MM-DD HH:MM:SS
+  securityLock: string | number; // "1" or "0"
+  whoisPrivacy: string | number;
+  autoRenew: string | number;
+  notLocal: string | number; // 1 when the domain is registered elsewhere
+}
@@ -1,85 +1,156 @@
-import type { NamecheapDomain } from './namecheap';
-import type { NjallaDomain } from './njalla';
-import type { DynadotDomain } from './dynadot';
-import {
-  isDynadotUsingOurDNS,
-  normalizeDynadotRenewOption,
-  normalizeDynadotStatus,
-  parseDynadotTimestamp,
-} from '@/lib/dynadot-utils';
-
-export type RegistrarType = 'namecheap' | 'njalla' | 'dynadot';
+import type { DSRecord, RegistrarType } from './cloudflare';
+
+export type { RegistrarType };
 
 export interface UnifiedDomain {
   id: string; // Unique identifier combining registrar + domain name
   name: string;
   registrar: RegistrarType;
   status: 'active' | 'expired' | 'locked' | 'inactive' | string;
-  expiry: string; // ISO 8601 or MM/DD/YYYY format
+  expiry: string; // ISO 8601
   autorenew: boolean;
   accountId: string;
-  // Namecheap specific fields
-  ncDomain?: NamecheapDomain;
-  // Njalla specific fields
-  njallaDomain?: NjallaDomain;
-  // Dynadot specific fields
-  dynadotDomain?: DynadotDomain;
+  // Optional details; undefined when the registrar's domain list does not report them
+  locked?: boolean;
+  privacy?: boolean;
+  premium?: boolean;
+  isUsingOurDNS?: boolean;
+}
+
+export interface RegistrarNameservers {
+  nameservers: string[];
+  isUsingOurDNS: boolean;
+}
+
+// A record in the registrar's own DNS, for domains that don't delegate elsewhere
+export interface RegistrarHostRecord {
+  id?: string; // Registrar-assigned; absent for records that have not been saved yet
+  name: string; // '@' for the apex
+  type: string;
+  address: string;
+  ttl: number;
+  mxPref?: number;
+}
+
+export interface RegistrarHostRecords {
+  records: RegistrarHostRecord[];
+  isUsingOurDNS: boolean;
+}
+
+export interface RegistrarRenewalPrice {
+  domain: string;
+  years: number;
+  price: number; // Total for all years, including registry fees
+  currency: string;
+}
+
+export interface RegistrarBalance {
+  amount: number;
+  currency: string;
+}
+
+export interface RegistrarRenewResult {
+  domain: string;
+  years: number;
+  expiry?: string;
+  chargedAmount?: number;
+  orderId?: string;
+}
+
+export interface RegistrarAvailability {
+  domain: string;
+  available: boolean;
+  // Premium names are sold at a registry price the API won't register at
+  premium?: boolean;
+  price?: number; // Registration for the requested years, including registry fees
+  currency?: string;
+  error?: string; // Set when the registrar could not check this name (e.g. unsupported TLD)
+}
+
+// Registrant details used for every contact role (registrant, admin, tech, billing)
+export interface RegistrarContact {
+  firstName: string;
+  lastName: string;
+  organization?: string;
+  address1: string;
+  address2?: string;
+  city: string;
+  stateProvince: string;
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2
+  phone: string; // +CC.NUMBER, e.g. +1.5555550100
+  email: string;
+}
+
+export interface RegistrarContactProfile {
+  id: string;
+  name: string;
+  contact: RegistrarContact;
+  createdAt: Date;
+}
+
+export interface RegistrarRegisterResult {
+  domain: string;
+  years: number;
+  chargedAmount?: number;
+  orderId?: string;
 }
 
 /**
- * Converts a Namecheap domain to UnifiedDomain format
+ * Credentials sent by the client with every /api/registrar request. Registrars that
+ * whitelist the caller's IP (Namecheap) also need the proxy host, which requests go out through
+ * when a port is set and which is sent as the client IP either way.
  */
-export function toUnifiedDomain(domain: NamecheapDomain, accountId: string): UnifiedDomain {
-  let status: UnifiedDomain['status'] = 'active';
-  if (domain.IsExpired) status = 'expired';
-  else if (domain.IsLocked) status = 'locked';
-
-  return {
-    id: `nc-${domain.ID}`,
-    name: domain.Name,
-    registrar: 'namecheap',
-    status,
-    expiry: domain.Expires,
-    autorenew: domain.AutoRenew,
-    accountId,
-    ncDomain: domain,
+export interface RegistrarCredentials {
+  accountId: string;
+  apiKey: string;
+  apiUser?: string;
+  apiSecret?: string;
+  // Address the registrar sees requests coming from; the proxy host when one is configured
+  clientIp?: string;
+  proxy?: {
+    host: string;
+    port: string;
+    username?: string;
+    password?: string;
   };
 }
 
 /**
- * Converts a Njalla domain to UnifiedDomain format
+ * Server-side contract implemented once per registrar. Optional methods are operations
+ * the registrar's API does not offer; the /api/registrar route answers 501 for them.
  */
-export function toUnifiedDomainFromNjalla(domain: NjallaDomain, accountId: string): UnifiedDomain {
-  return {
-    id: `njalla-${domain.name}`,
-    name: domain.name,
-    registrar: 'njalla',
-    status: domain.status === 'active' ? 'active' : domain.status === 'inactive' ? 'inactive' : domain.status,
-    expiry: domain.expiry,
-    autorenew: domain.autorenew,
-    accountId,
-    njallaDomain: domain,
-  };
+export interface RegistrarAdapter {
+  listDomains(): Promise<UnifiedDomain[]>;
+  getNameservers(domain: string): Promise<RegistrarNameservers>;
+  setNameservers(domain: string, nameservers: string[]): Promise<void>;
+  renewDomain?(domain: string, years: number): Promise<RegistrarRenewResult>;
+  getRenewalPrice?(domain: string, years: number): Promise<RegistrarRenewalPrice>;
+  getBalance?(): Promise<RegistrarBalance>;
+  checkAvailability?(domains: string[], years: number): Promise<RegistrarAvailability[]>;
+  registerDomain?(domain: string, years: number, contact: RegistrarContact): Promise<RegistrarRegisterResult>;
+  setLock?(domain: string, locked: boolean): Promise<void>;
+  setAutorenew?(domain: string, enabled: boolean): Promise<void>;
+  setDnssec?(domain: string, ds: DSRecord): Promise<void>;
+  getHostRecords?(domain: string): Promise<RegistrarHostRecords>;
+  // Replaces the whole record set; records left out are deleted
+  setHostRecords?(domain: string, records: RegistrarHostRecord[]): Promise<void>;
+  testConnection(): Promise<boolean>;
 }
 
+// 'register' covers both the availability check and the registration itself
+export type RegistrarOperation = 'renew' | 'renewalPrice' | 'balance' | 'lock' | 'autorenew' | 'dnssec' | 'hosts' | 'register';
+
 /**
- * Converts a Dynadot domain to UnifiedDomain format
+ * Client-side description of a registrar: what the account form needs and which optional
+ * adapter operations the UI may offer.
  */
-export function toUnifiedDomainFromDynadot(domain: DynadotDomain, accountId: string): UnifiedDomain {
-  const normalizedDomain: DynadotDomain = {
-    ...domain,
-    isUsingOurDNS:
-      domain.isUsingOurDNS ?? isDynadotUsingOurDNS(domain.NameServerSettings),
-  };
-
-  return {
-    id: `dynadot-${domain.Name}`,
-    name: domain.Name,
-    registrar: 'dynadot',
-    status: normalizeDynadotStatus(normalizedDomain),
-    expiry: parseDynadotTimestamp(domain.Expiration),
-    autorenew: normalizeDynadotRenewOption(domain.RenewOption),
-    accountId,
-    dynadotDomain: normalizedDomain,
-  };
+export interface RegistrarInfo {
+  name: RegistrarType;
+  label: string;
+  // Namecheap only accepts whitelisted IPs; the assigned proxy's host is sent as the client IP
+  requiresProxy?: boolean;
+  // Minimum spacing between requests for one account, for registrars with strict rate limits
+  minRequestInterval?: number;
+  supports: Record<RegistrarOperation, boolean>;
 }
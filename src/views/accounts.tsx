@@ -7,6 +7,7 @@ import { AddCredentialsDialog } from "@/components/accounts/add-credentials-dial
 import { ExportCredentialsDialog } from "@/components/accounts/export-credentials-dialog"
 import { EditAccountDialog } from "@/components/accounts/edit-account-dialog"
 import { DeleteAccountDialog } from "@/components/accounts/delete-account-dialog"
+import { TokenCapabilitiesCard } from "@/components/accounts/token-capabilities-card"
 import { PARSERS } from "@/lib/credential-parsers"
 import { getCategoryLabel } from "@/lib/utils"
 import { toast } from "sonner"
@@ -155,6 +156,9 @@ function CredentialsContent() {
                 onToggleAll={toggleAllSelection}
             />
 
+            {/* Cloudflare token permissions */}
+            <TokenCapabilitiesCard />
+
             {/* Dialogs */}
             <AddCredentialsDialog
                 open={isAddDialogOpen}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { isValidListName } from '@/lib/bulk-redirects';
+import { toast } from 'sonner';
+
+interface CreateListDialogProps {
+  disabled?: boolean;
+  onCreate: (name: string, description: string, enable: boolean) => Promise<unknown>;
+}
+
+export function CreateListDialog({ disabled, onCreate }: CreateListDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [enable, setEnable] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isSaving) return;
+    setOpen(next);
+    if (next) {
+      setName('');
+      setDescription('');
+      setEnable(true);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!isValidListName(name)) {
+      toast.error('Use lowercase letters, numbers and underscores only');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onCreate(name, description.trim(), enable);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error creating list:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={disabled}>
+          <Plus className="h-3.5 w-3.5" />
+          New list
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Bulk Redirect List</DialogTitle>
+          <DialogDescription>
+            Lists belong to the Cloudflare account and can redirect any of its zones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="bulk-list-name">Name</Label>
+            <Input
+              id="bulk-list-name"
+              value={name}
+              onChange={(e) => setName(e.target.value.toLowerCase())}
+              placeholder="legacy_redirects"
+              className="font-mono"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="bulk-list-description">Description</Label>
+            <Input
+              id="bulk-list-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="bulk-list-enable" checked={enable} onCheckedChange={setEnable} disabled={isSaving} />
+            <Label htmlFor="bulk-list-enable">Enable with a Bulk Redirect rule</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={() => { void handleCreate(); }} disabled={isSaving || !name}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
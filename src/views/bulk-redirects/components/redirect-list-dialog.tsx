@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Globe, Loader2, RefreshCw, Search, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { parseBulkRedirectCSV, serializeBulkRedirectCSV } from '@/lib/bulk-redirects';
+import { toast } from 'sonner';
+import type { BulkRedirect, RedirectListItem, RulesList, Zone } from '@/types/cloudflare';
+
+// Rendering tens of thousands of rows freezes the dialog; search narrows it down instead
+const MAX_VISIBLE_ITEMS = 200;
+
+interface RedirectListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  list: RulesList | null;
+  items: RedirectListItem[] | undefined;
+  isLoadingItems: boolean;
+  affectedZones: { zone: Zone }[];
+  onLoadItems: () => void;
+  onWriteItems: (redirects: BulkRedirect[], replace: boolean) => Promise<void>;
+}
+
+export function RedirectListDialog({
+  open,
+  onOpenChange,
+  list,
+  items,
+  isLoadingItems,
+  affectedZones,
+  onLoadItems,
+  onWriteItems,
+}: RedirectListDialogProps) {
+  const [tab, setTab] = useState('items');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const [importMode, setImportMode] = useState<'replace' | 'append'>('append');
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setTab('items');
+      setSearchTerm('');
+      setCsvText('');
+      setImportMode('append');
+    }
+  }, [open, list?.id]);
+
+  const parsed = useMemo(() => parseBulkRedirectCSV(csvText), [csvText]);
+
+  const filteredItems = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!items) return [];
+    if (!term) return items;
+    return items.filter(item =>
+      item.redirect.source_url.toLowerCase().includes(term) ||
+      item.redirect.target_url.toLowerCase().includes(term)
+    );
+  }, [items, searchTerm]);
+
+  const handleExport = () => {
+    if (!list || !items) return;
+    const blob = new Blob([serializeBulkRedirectCSV(items.map(item => item.redirect))], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `${list.name}.csv`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    URL.revokeObjectURL(url);
+    toast.success(`Exported ${items.length} redirects`);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setCsvText(await file.text());
+    event.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (parsed.redirects.length === 0) return;
+    if (importMode === 'replace' && !window.confirm(`Replace all ${list?.num_items ?? 0} redirects in ${list?.name} with ${parsed.redirects.length} from the CSV?`)) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      await onWriteItems(parsed.redirects, importMode === 'replace');
+      setCsvText('');
+      setTab('items');
+    } catch (error) {
+      console.error('Error importing redirects:', error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!list) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isImporting && onOpenChange(next)}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{list.name}</DialogTitle>
+          <DialogDescription>
+            {list.description || 'Bulk redirect list'} · {list.num_items} redirect{list.num_items !== 1 ? 's' : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab} className="flex-1 min-h-0 flex flex-col">
+          <div className="flex items-center justify-between gap-2">
+            <TabsList>
+              <TabsTrigger value="items">Redirects</TabsTrigger>
+              <TabsTrigger value="zones">Zones ({items ? affectedZones.length : '?'})</TabsTrigger>
+              <TabsTrigger value="import">Import CSV</TabsTrigger>
+            </TabsList>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={onLoadItems} disabled={isLoadingItems}>
+                <RefreshCw className={`h-3.5 w-3.5 ${isLoadingItems ? 'animate-spin' : ''}`} />
+                Reload
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={!items || items.length === 0}>
+                <Download className="h-3.5 w-3.5" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+
+          <TabsContent value="items" className="flex-1 min-h-0 flex flex-col gap-3 mt-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Search source or target"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border">
+              {isLoadingItems && !items ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : filteredItems.length === 0 ? (
+                <div className="py-12 text-center text-sm text-muted-foreground">
+                  {items?.length ? 'No redirects match.' : 'This list is empty. Import a CSV to fill it.'}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Target</TableHead>
+                      <TableHead className="w-[70px]">Status</TableHead>
+                      <TableHead className="w-[200px]">Options</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredItems.slice(0, MAX_VISIBLE_ITEMS).map((item, index) => (
+                      <TableRow key={item.id || index}>
+                        <TableCell className="font-mono text-xs break-all">{item.redirect.source_url}</TableCell>
+                        <TableCell className="font-mono text-xs break-all">{item.redirect.target_url}</TableCell>
+                        <TableCell className="text-xs">{item.redirect.status_code || 301}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {item.redirect.preserve_query_string && <Badge variant="outline" className="text-[10px]">query</Badge>}
+                            {item.redirect.include_subdomains && <Badge variant="outline" className="text-[10px]">subdomains</Badge>}
+                            {item.redirect.subpath_matching && <Badge variant="outline" className="text-[10px]">subpaths</Badge>}
+                            {item.redirect.preserve_path_suffix && <Badge variant="outline" className="text-[10px]">path suffix</Badge>}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+            {filteredItems.length > MAX_VISIBLE_ITEMS && (
+              <p className="text-xs text-muted-foreground">
+                Showing {MAX_VISIBLE_ITEMS} of {filteredItems.length}. Search to narrow down or export the full list.
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="zones" className="flex-1 min-h-0 overflow-y-auto mt-3">
+            {!items ? (
+              <div className="py-12 text-center text-sm text-muted-foreground">
+                Load the redirects to see which zones they cover.
+              </div>
+            ) : affectedZones.length === 0 ? (
+              <div className="py-12 text-center text-sm text-muted-foreground">
+                No cached zone in this account matches the source hosts. Redirects only fire for proxied hostnames on Cloudflare.
+              </div>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {affectedZones.map(({ zone }) => (
+                  <div key={zone.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                    <Globe className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="font-medium">{zone.name}</span>
+                    <Badge variant={zone.status === 'active' ? 'secondary' : 'outline'} className="text-[10px] capitalize">
+                      {zone.status}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="import" className="flex-1 min-h-0 overflow-y-auto space-y-4 mt-3">
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground font-mono">
+                source_url,target_url[,status_code,preserve_query_string,include_subdomains,subpath_matching,preserve_path_suffix]
+              </p>
+              <input ref={fileInputRef} type="file" accept=".csv,.txt" className="hidden" onChange={(e) => { void handleFileChange(e); }} />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+                <Upload className="h-3.5 w-3.5" />
+                Choose file
+              </Button>
+            </div>
+            <Textarea
+              value={csvText}
+              onChange={(e) => setCsvText(e.target.value)}
+              placeholder={'example.com/old,https://example.com/new,301\nexample.com/promo,https://shop.example.com/,302,true'}
+              className="min-h-[200px] font-mono text-xs"
+              disabled={isImporting}
+            />
+            {csvText.trim() && (
+              <div className="space-y-1 text-xs">
+                <p>
+                  <span className="font-semibold">{parsed.redirects.length}</span> valid redirect{parsed.redirects.length !== 1 ? 's' : ''}
+                  {parsed.errors.length > 0 && (
+                    <span className="text-destructive ml-2">{parsed.errors.length} skipped</span>
+                  )}
+                </p>
+                {parsed.errors.slice(0, 5).map(error => (
+                  <p key={error} className="text-destructive">{error}</p>
+                ))}
+                {parsed.errors.length > 5 && (
+                  <p className="text-muted-foreground">…and {parsed.errors.length - 5} more</p>
+                )}
+              </div>
+            )}
+            <RadioGroup value={importMode} onValueChange={(value) => setImportMode(value as 'replace' | 'append')} className="gap-2">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="append" id="bulk-import-append" />
+                <Label htmlFor="bulk-import-append" className="font-normal">Add to the existing redirects</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="replace" id="bulk-import-replace" />
+                <Label htmlFor="bulk-import-replace" className="font-normal">Replace the whole list</Label>
+              </div>
+            </RadioGroup>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => { void handleImport(); }}
+                disabled={isImporting || parsed.redirects.length === 0}
+                variant={importMode === 'replace' ? 'destructive' : 'default'}
+              >
+                {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+                {isImporting ? 'Importing…' : `Import ${parsed.redirects.length}`}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import {
+  BULK_REDIRECT_PHASE,
+  removeBulkRedirectRule,
+  setBulkRedirectRuleEnabled,
+} from '@/lib/bulk-redirects';
+import { formatCloudflareError } from '@/lib/utils';
+import type { BulkRedirect, CloudflareAccount, RedirectListItem, Ruleset, RulesList } from '@/types/cloudflare';
+
+export function useBulkRedirectLists(account: CloudflareAccount | undefined, cloudflareAccountId: string) {
+  const [lists, setLists] = useState<RulesList[]>([]);
+  const [ruleset, setRuleset] = useState<Ruleset | null>(null);
+  // Items are loaded per list on demand; lists can hold tens of thousands of redirects
+  const [itemsByList, setItemsByList] = useState<Record<string, RedirectListItem[]>>({});
+  const [loadingItems, setLoadingItems] = useState<Record<string, boolean>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyListId, setBusyListId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!account || !cloudflareAccountId) return;
+    setIsLoading(true);
+    try {
+      const api = new CloudflareAPI(account);
+      const [allLists, entrypoint] = await Promise.all([
+        api.getRulesLists(cloudflareAccountId),
+        api.getAccountPhaseEntrypoint(cloudflareAccountId, BULK_REDIRECT_PHASE),
+      ]);
+      setLists(allLists.filter(list => list.kind === 'redirect'));
+      setRuleset(entrypoint);
+    } catch (error) {
+      console.error('Error loading bulk redirect lists:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, cloudflareAccountId]);
+
+  useEffect(() => {
+    setLists([]);
+    setRuleset(null);
+    setItemsByList({});
+    void refresh();
+  }, [refresh]);
+
+  const loadItems = useCallback(async (listId: string) => {
+    if (!account || !cloudflareAccountId) return;
+    setLoadingItems(prev => ({ ...prev, [listId]: true }));
+    try {
+      const api = new CloudflareAPI(account);
+      const items = await api.getRedirectListItems(cloudflareAccountId, listId);
+      setItemsByList(prev => ({ ...prev, [listId]: items }));
+    } catch (error) {
+      console.error('Error loading list items:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setLoadingItems(prev => ({ ...prev, [listId]: false }));
+    }
+  }, [account, cloudflareAccountId]);
+
+  const createList = async (name: string, description: string, enable: boolean) => {
+    if (!account || !cloudflareAccountId) return;
+    const api = new CloudflareAPI(account);
+    try {
+      const list = await api.createRulesList(cloudflareAccountId, name, description);
+      setLists(prev => [...prev, list]);
+      setItemsByList(prev => ({ ...prev, [list.id]: [] }));
+      if (enable) {
+        setRuleset(await api.updateAccountPhaseEntrypoint(
+          cloudflareAccountId,
+          BULK_REDIRECT_PHASE,
+          setBulkRedirectRuleEnabled(ruleset, name, true)
+        ));
+      }
+      toast.success(`Created list ${name}`);
+      return list;
+    } catch (error) {
+      toast.error(formatCloudflareError(error));
+      throw error;
+    }
+  };
+
+  const setListEnabled = async (list: RulesList, enabled: boolean) => {
+    if (!account || !cloudflareAccountId) return;
+    setBusyListId(list.id);
+    try {
+      const api = new CloudflareAPI(account);
+      setRuleset(await api.updateAccountPhaseEntrypoint(
+        cloudflareAccountId,
+        BULK_REDIRECT_PHASE,
+        setBulkRedirectRuleEnabled(ruleset, list.name, enabled)
+      ));
+      toast.success(`${enabled ? 'Enabled' : 'Disabled'} ${list.name}`);
+    } catch (error) {
+      console.error('Error toggling bulk redirect rule:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setBusyListId(null);
+    }
+  };
+
+  // A list referenced by a rule cannot be deleted, so the rule goes first
+  const deleteList = async (list: RulesList) => {
+    if (!account || !cloudflareAccountId) return;
+    setBusyListId(list.id);
+    try {
+      const api = new CloudflareAPI(account);
+      const remainingRules = removeBulkRedirectRule(ruleset, list.name);
+      if (ruleset && remainingRules.length !== ruleset.rules.length) {
+        setRuleset(await api.updateAccountPhaseEntrypoint(cloudflareAccountId, BULK_REDIRECT_PHASE, remainingRules));
+      }
+      await api.deleteRulesList(cloudflareAccountId, list.id);
+      setLists(prev => prev.filter(item => item.id !== list.id));
+      toast.success(`Deleted list ${list.name}`);
+    } catch (error) {
+      console.error('Error deleting list:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setBusyListId(null);
+    }
+  };
+
+  const writeItems = async (list: RulesList, redirects: BulkRedirect[], replace: boolean) => {
+    if (!account || !cloudflareAccountId) return;
+    const api = new CloudflareAPI(account);
+    try {
+      await api.setRedirectListItems(cloudflareAccountId, list.id, redirects, replace);
+      const [items, allLists] = await Promise.all([
+        api.getRedirectListItems(cloudflareAccountId, list.id),
+        api.getRulesLists(cloudflareAccountId),
+      ]);
+      setItemsByList(prev => ({ ...prev, [list.id]: items }));
+      setLists(allLists.filter(item => item.kind === 'redirect'));
+      toast.success(`${replace ? 'Replaced' : 'Added'} ${redirects.length} redirect${redirects.length !== 1 ? 's' : ''} in ${list.name}`);
+    } catch (error) {
+      toast.error(formatCloudflareError(error));
+      throw error;
+    }
+  };
+
+  return {
+    lists,
+    ruleset,
+    itemsByList,
+    loadingItems,
+    isLoading,
+    busyListId,
+    refresh,
+    loadItems,
+    createList,
+    setListEnabled,
+    deleteList,
+    writeItems,
+  };
+}
@@ -0,0 +1,302 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Eye, Loader2, RefreshCw, Split, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { useCloudflareDestinationAccount } from '@/hooks/use-cloudflare-destination-account';
+import { findBulkRedirectRule, getAffectedZones } from '@/lib/bulk-redirects';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import type { RulesList } from '@/types/cloudflare';
+import { CreateListDialog } from './components/create-list-dialog';
+import { RedirectListDialog } from './components/redirect-list-dialog';
+import { useBulkRedirectLists } from './hooks/use-bulk-redirect-lists';
+
+export default function BulkRedirectsPage() {
+  const router = useRouter();
+  const { accounts } = useAccountStore();
+  const cachedZones = useCloudflareCache((s) => s.zones);
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+  const [openListId, setOpenListId] = useState<string | null>(null);
+
+  const {
+    accountsToUse,
+    selectedAccount,
+    cloudflareAccounts,
+    selectedCloudflareAccountId,
+    setSelectedCloudflareAccountId,
+    isLoadingAccounts,
+  } = useCloudflareDestinationAccount({ selectedAccountId });
+
+  const {
+    lists,
+    ruleset,
+    itemsByList,
+    loadingItems,
+    isLoading,
+    busyListId,
+    refresh,
+    loadItems,
+    createList,
+    setListEnabled,
+    deleteList,
+    writeItems,
+  } = useBulkRedirectLists(selectedAccount, selectedCloudflareAccountId);
+
+  // Bulk redirects only apply to zones in the same Cloudflare account as the list
+  const accountZones = useMemo(
+    () => cachedZones.filter(({ zone }) => zone.account?.id === selectedCloudflareAccountId),
+    [cachedZones, selectedCloudflareAccountId]
+  );
+
+  const affectedZonesByList = useMemo(() => {
+    const result: Record<string, typeof accountZones> = {};
+    Object.entries(itemsByList).forEach(([listId, items]) => {
+      result[listId] = getAffectedZones(items.map(item => item.redirect), accountZones);
+    });
+    return result;
+  }, [itemsByList, accountZones]);
+
+  const openList = lists.find(list => list.id === openListId) || null;
+
+  const handleOpenList = (list: RulesList) => {
+    setOpenListId(list.id);
+    if (!itemsByList[list.id]) {
+      void loadItems(list.id);
+    }
+  };
+
+  const handleDelete = (list: RulesList) => {
+    if (!window.confirm(`Delete list ${list.name} and its ${list.num_items} redirects?`)) return;
+    void deleteList(list);
+  };
+
+  if (accounts.filter(account => account.category === 'cloudflare').length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">No Cloudflare Accounts</h2>
+            <p className="text-muted-foreground mb-4">
+              Add a Cloudflare credential to manage account-level bulk redirects.
+            </p>
+            <Button onClick={() => router.push('/credentials')}>
+              Manage Credentials
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sticky top-0 z-20 bg-background/95 backdrop-blur-sm border-b py-3 -mx-6 px-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-bold">Bulk Redirects</h1>
+            {selectedCloudflareAccountId && (
+              <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+                <span className="px-2 py-0.5 bg-muted/50 rounded border border-border/50">
+                  <span className="text-foreground font-semibold">{lists.length}</span>
+                  <span className="text-muted-foreground ml-1">list{lists.length !== 1 ? 's' : ''}</span>
+                </span>
+                <span className="px-2 py-0.5 bg-muted/50 rounded border border-border/50">
+                  <span className="text-foreground font-semibold">
+                    {lists.reduce((sum, list) => sum + list.num_items, 0)}
+                  </span>
+                  <span className="text-muted-foreground ml-1">redirects</span>
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2 flex-nowrap">
+            <Select value={selectedAccountId} onValueChange={setSelectedAccountId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select credential" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {accountsToUse.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name || account.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={selectedCloudflareAccountId}
+              onValueChange={setSelectedCloudflareAccountId}
+              disabled={!selectedAccountId || isLoadingAccounts || cloudflareAccounts.length === 0}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder={isLoadingAccounts ? 'Loading accounts...' : 'Cloudflare account'} />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {cloudflareAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => { void refresh(); }}
+              disabled={!selectedCloudflareAccountId || isLoading}
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <CreateListDialog disabled={!selectedCloudflareAccountId} onCreate={createList} />
+          </div>
+        </div>
+      </div>
+
+      {!selectedCloudflareAccountId ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <Split className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>Pick an account</EmptyTitle>
+            <EmptyDescription>
+              Bulk redirect lists live on the Cloudflare account, not on individual zones.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : isLoading && lists.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : lists.length === 0 ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <Split className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No redirect lists</EmptyTitle>
+            <EmptyDescription>
+              Create a list and import a CSV of source and target URLs.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <Card className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>List</TableHead>
+                <TableHead className="w-[110px]">Redirects</TableHead>
+                <TableHead>Zones</TableHead>
+                <TableHead className="w-[90px]">Enabled</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lists.map(list => {
+                const rule = findBulkRedirectRule(ruleset, list.name);
+                const affected = affectedZonesByList[list.id];
+                const isBusy = busyListId === list.id;
+                return (
+                  <TableRow key={list.id}>
+                    <TableCell>
+                      <div className="font-medium font-mono">{list.name}</div>
+                      {list.description && (
+                        <div className="text-xs text-muted-foreground">{list.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono">{list.num_items}</TableCell>
+                    <TableCell>
+                      {affected ? (
+                        affected.length === 0 ? (
+                          <span className="text-xs text-muted-foreground">No matching zones</span>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {affected.slice(0, 5).map(({ zone }) => (
+                              <Badge key={zone.id} variant="secondary" className="text-[10px]">{zone.name}</Badge>
+                            ))}
+                            {affected.length > 5 && (
+                              <Badge variant="outline" className="text-[10px]">+{affected.length - 5}</Badge>
+                            )}
+                          </div>
+                        )
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => { void loadItems(list.id); }}
+                          disabled={loadingItems[list.id]}
+                        >
+                          {loadingItems[list.id] && <Loader2 className="h-3 w-3 animate-spin" />}
+                          Check zones
+                        </Button>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {isBusy ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      ) : (
+                        <Switch
+                          checked={!!rule?.enabled}
+                          onCheckedChange={(enabled) => { void setListEnabled(list, enabled); }}
+                          disabled={!!busyListId}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-0.5">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleOpenList(list)}>
+                          <Eye className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          onClick={() => handleDelete(list)}
+                          disabled={!!busyListId}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <RedirectListDialog
+        open={!!openList}
+        onOpenChange={(open) => !open && setOpenListId(null)}
+        list={openList}
+        items={openList ? itemsByList[openList.id] : undefined}
+        isLoadingItems={openList ? !!loadingItems[openList.id] : false}
+        affectedZones={openList ? affectedZonesByList[openList.id] || [] : []}
+        onLoadItems={() => { if (openList) void loadItems(openList.id); }}
+        onWriteItems={async (redirects, replace) => {
+          if (openList) await writeItems(openList, redirects, replace);
+        }}
+      />
+    </div>
+  );
+}
@@ -12,11 +12,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Plus, Edit, Trash2, ArrowLeft, RefreshCw } from 'lucide-react';
+import { Plus, Edit, Trash2, ArrowLeft, RefreshCw, FileDown, FileUp } from 'lucide-react';
 import { useAccountStore } from '@/store/account-store';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
 import { NameserversSection } from '@/components/nameservers-section';
+import { ExportZoneFileDialog } from '@/components/dns/export-zone-file-dialog';
+import { ImportZoneFileDialog } from '@/components/dns/import-zone-file-dialog';
 import { toast } from 'sonner';
 import type { DNSRecord } from '@/types/cloudflare';
 
@@ -41,6 +43,8 @@ export default function DNSRecordsPage() {
   const [zone, setZone] = useState<any | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditing, setIsEditing] = useState<string | null>(null);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
     type: 'A' as DNSRecord['type'],
     name: '',
@@ -94,7 +98,7 @@ export default function DNSRecordsPage() {
     setLoading('zoneDetails', cacheKey, true);
     
     try {
-      const api = new CloudflareAPI(account.apiToken);
+      const api = new CloudflareAPI(account);
       const zoneData = await api.getZone(zoneId);
       setZone(zoneData);
       setZoneDetails(zoneId, accountId, zoneData);
@@ -127,7 +131,7 @@ export default function DNSRecordsPage() {
 
     setLoading('dnsRecords', cacheKey, true);
     try {
-      const api = new CloudflareAPI(account.apiToken);
+      const api = new CloudflareAPI(account);
       const recordsData = await api.getDNSRecords(zoneId);
       setRecords(recordsData);
       setDNSRecords(zoneId, accountId, recordsData);
@@ -145,7 +149,7 @@ export default function DNSRecordsPage() {
     if (!account || !zoneId || !accountId) return;
 
     try {
-      const api = new CloudflareAPI(account.apiToken);
+      const api = new CloudflareAPI(account);
       
       if (isEditing) {
         await api.updateDNSRecord(zoneId, isEditing, formData);
@@ -179,7 +183,7 @@ export default function DNSRecordsPage() {
     
     if (window.confirm('Are you sure you want to delete this DNS record?')) {
       try {
-        const api = new CloudflareAPI(account.apiToken);
+        const api = new CloudflareAPI(account);
         await api.deleteDNSRecord(zoneId, recordId);
         toast.success('DNS record deleted successfully');
         // Clear cache and reload
@@ -206,7 +210,7 @@ export default function DNSRecordsPage() {
   };
 
   const getRecordTypeVariant = (type: DNSRecord['type']) => {
-    const variants: Record<DNSRecord['type'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+    const variants: Partial<Record<DNSRecord['type'], 'default' | 'secondary' | 'outline' | 'destructive'>> = {
       A: 'default',
       AAAA: 'secondary',
       CNAME: 'outline',
@@ -281,6 +285,14 @@ export default function DNSRecordsPage() {
             <RefreshCw className={`mr-2 h-4 w-4 ${isLoading.dnsRecords[`${zoneId}-${accountId}`] || isLoading.zoneDetails[`${zoneId}-${accountId}`] ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          <Button onClick={() => setIsImportDialogOpen(true)} disabled={!zone} variant="outline">
+            <FileUp className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={() => setIsExportDialogOpen(true)} disabled={records.length === 0} variant="outline">
+            <FileDown className="mr-2 h-4 w-4" />
+            Export
+          </Button>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -428,6 +440,25 @@ export default function DNSRecordsPage() {
         </div>
       </div>
 
+      <ExportZoneFileDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        zoneName={zone?.name || ''}
+        records={records}
+      />
+      <ImportZoneFileDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        account={account}
+        zoneId={zoneId}
+        zoneName={zone?.name || ''}
+        existingRecords={records}
+        onImported={() => {
+          clearZoneCache(zoneId, accountId!);
+          loadRecords(true);
+        }}
+      />
+
       {zone && nameservers && nameservers.length > 0 && (
         <Card>
           <CardContent className="pt-6">
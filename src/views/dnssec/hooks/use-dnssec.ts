@@ -0,0 +1,205 @@
+import { useCallback, useMemo } from 'react';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import {
+  formatDSRecord,
+  getDNSSECState,
+  lookupPublishedDS,
+  toDSRecord,
+  type DNSSECState,
+} from '@/lib/dnssec';
+import { getRegistrarLabel, registrarRequest, registrarSupports } from '@/lib/registrars';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { processInParallel, formatCloudflareError } from '@/lib/utils';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import type { CloudflareAccount, DSRecord, TokenCapability, ZoneDNSSEC } from '@/types/cloudflare';
+import type { UnifiedDomain } from '@/types/registrar';
+
+export interface DNSSECRow {
+  key: string;
+  zone: any;
+  accountId: string;
+  accountName: string;
+  registrarDomain: UnifiedDomain | null;
+  details: ZoneDNSSEC | null;
+  publishedDS: string[] | null;
+  ds: DSRecord | null;
+  state: DNSSECState;
+  lastChecked: number | null;
+}
+
+// Two Cloudflare requests and one DNS lookup per zone
+const CHECK_CONCURRENCY = 4;
+
+export function useDNSSEC(registrarDomains: UnifiedDomain[], registrarAccounts: CloudflareAccount[]) {
+  const { accounts, proxyAccounts } = useAccountStore();
+  const zones = useCloudflareCache((s) => s.zones);
+  const dnssec = useCloudflareCache((s) => s.dnssec);
+  const dnssecLastUpdated = useCloudflareCache((s) => s.dnssecLastUpdated);
+
+  const rows = useMemo<DNSSECRow[]>(() => {
+    const registrarByName = new Map(registrarDomains.map(domain => [domain.name.toLowerCase(), domain]));
+
+    return zones.map((zoneData) => {
+      const key = `${zoneData.zone.id}-${zoneData.accountId}`;
+      const cached = dnssec[key];
+      return {
+        key,
+        zone: zoneData.zone,
+        accountId: zoneData.accountId,
+        accountName: zoneData.accountName,
+        registrarDomain: registrarByName.get(zoneData.zone.name.toLowerCase()) || null,
+        details: cached?.details || null,
+        publishedDS: cached?.publishedDS ?? null,
+        ds: toDSRecord(cached?.details),
+        state: getDNSSECState(cached?.details, cached?.publishedDS),
+        lastChecked: dnssecLastUpdated[key] ?? null,
+      };
+    });
+  }, [zones, dnssec, dnssecLastUpdated, registrarDomains]);
+
+  const getAPI = useCallback((row: DNSSECRow) => {
+    const account = accounts.find(acc => acc.id === row.accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    return new CloudflareAPI(account);
+  }, [accounts]);
+
+  // Throws so the bulk loop logs the zone as failed, like any other API error
+  const requireCapability = useCallback(async (row: { accountId: string }, capability: TokenCapability) => {
+    const account = accounts.find(acc => acc.id === row.accountId);
+    if (account && !canPerform(await loadTokenCapabilities(account), capability)) {
+      throw new Error(getMissingCapabilityMessage(capability));
+    }
+  }, [accounts]);
+
+  const storeDetails = useCallback(async (row: DNSSECRow, details: ZoneDNSSEC) => {
+    // A failed lookup should not be mistaken for "no DS published"
+    const publishedDS = await lookupPublishedDS(row.zone.name).catch(() => null);
+    useCloudflareCache.getState().setDNSSEC(row.zone.id, row.accountId, details, publishedDS);
+    return getDNSSECState(details, publishedDS);
+  }, []);
+
+  const pushDS = useCallback(async (row: DNSSECRow, ds: DSRecord): Promise<{ pushed: boolean; message: string }> => {
+    const domain = row.registrarDomain;
+    if (!domain) {
+      return { pushed: false, message: `registrar not found, add DS manually: ${formatDSRecord(ds)}` };
+    }
+
+    const label = getRegistrarLabel(domain.registrar);
+    if (!registrarSupports(domain.registrar, 'dnssec')) {
+      return { pushed: false, message: `${label} has no DNSSEC API, add DS manually: ${formatDSRecord(ds)}` };
+    }
+
+    const account = registrarAccounts.find(acc => acc.id === domain.accountId);
+    if (!account) throw new Error(`${label} account not found`);
+
+    await registrarRequest(account, proxyAccounts, 'dnssec', { body: { domain: domain.name, ds } });
+    return { pushed: true, message: `DS submitted to ${label}` };
+  }, [registrarAccounts, proxyAccounts]);
+
+  const check = useCallback(async (targetRows: DNSSECRow[]) => {
+    if (targetRows.length === 0) return;
+
+    const { startTask, addLog, updateProgress, completeTask } = useTaskStore.getState();
+    startTask('check_dnssec', `Checking DNSSEC on ${targetRows.length} zone${targetRows.length !== 1 ? 's' : ''}`, targetRows.length);
+
+    let processed = 0;
+    let failCount = 0;
+    const counts: Partial<Record<DNSSECState, number>> = {};
+
+    await processInParallel(targetRows, async (row) => {
+      await checkTaskStatus();
+      try {
+        const details = await getAPI(row).getDNSSEC(row.zone.id);
+        const state = await storeDetails(row, details);
+        counts[state] = (counts[state] || 0) + 1;
+        if (state === 'mismatch') {
+          addLog(`${row.zone.name}: DS at the registrar does not match the zone key`, 'error');
+        }
+      } catch (error) {
+        failCount++;
+        addLog(`${row.zone.name}: ${formatCloudflareError(error)}`, 'error');
+      } finally {
+        processed++;
+        updateProgress(Math.round((processed / targetRows.length) * 100), processed);
+      }
+    }, CHECK_CONCURRENCY);
+
+    if (useTaskStore.getState().status === 'stopped') return;
+
+    addLog(
+      `Checked ${processed - failCount}: ${counts.active || 0} active, ${counts.pending || 0} pending, ${counts.mismatch || 0} mismatched, ${counts.disabled || 0} disabled, ${failCount} failed`,
+      counts.mismatch || failCount > 0 ? 'info' : 'success'
+    );
+    completeTask();
+  }, [getAPI, storeDetails]);
+
+  const enable = useCallback(async (targetRows: DNSSECRow[]) => {
+    if (targetRows.length === 0) return;
+
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+    startTask('enable_dnssec', `Enabling DNSSEC on ${targetRows.length} zone${targetRows.length !== 1 ? 's' : ''}`, targetRows.length);
+
+    let successCount = 0;
+    let manualCount = 0;
+    let failCount = 0;
+
+    try {
+      for (let i = 0; i < targetRows.length; i++) {
+        await checkTaskStatus();
+
+        const row = targetRows[i];
+        try {
+          await requireCapability(row, 'dnsEdit');
+          const api = getAPI(row);
+          let details = await api.getDNSSEC(row.zone.id);
+          if (details.status === 'disabled' || details.status === 'pending-disabled') {
+            details = await api.updateDNSSEC(row.zone.id, 'active');
+          }
+
+          // The PATCH response can omit the DS fields while the key is being generated
+          let ds = toDSRecord(details);
+          if (!ds) {
+            details = await api.getDNSSEC(row.zone.id);
+            ds = toDSRecord(details);
+          }
+          if (!ds) {
+            throw new Error('Cloudflare has not published a DS record yet, check again in a minute');
+          }
+
+          const { pushed, message } = await pushDS(row, ds);
+          const state = await storeDetails(row, details);
+          if (pushed) successCount++;
+          else manualCount++;
+          addLog(`${row.zone.name}: ${message} (${state})`, pushed ? 'success' : 'info');
+        } catch (error) {
+          addLog(`${row.zone.name}: ${formatCloudflareError(error)}`, 'error');
+          failCount++;
+        }
+
+        updateProgress(Math.round(((i + 1) / targetRows.length) * 100), i + 1);
+      }
+
+      addLog(
+        `Done: ${successCount} pushed, ${manualCount} need manual DS entry, ${failCount} failed`,
+        failCount > 0 ? 'error' : 'success'
+      );
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        return;
+      }
+      console.error('DNSSEC enable error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to enable DNSSEC');
+    }
+  }, [getAPI, pushDS, requireCapability, storeDetails]);
+
+  return {
+    rows,
+    check,
+    enable,
+  };
+}
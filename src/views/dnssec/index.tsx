@@ -0,0 +1,298 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { RefreshCw, Search, ShieldCheck, Upload, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { CopyButton } from '@/components/ui/copy-button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { useRegistrars } from '@/hooks/use-registrars';
+import { DNSSEC_STATE_LABELS, formatDSRecord, type DNSSECState } from '@/lib/dnssec';
+import { registrarSupports } from '@/lib/registrars';
+import { useAccountStore } from '@/store/account-store';
+import { useTaskStore } from '@/store/task-store';
+import { useDNSSEC, type DNSSECRow } from './hooks/use-dnssec';
+
+const STATE_BADGE_VARIANTS: Record<DNSSECState, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  unknown: 'outline',
+  disabled: 'outline',
+  pending: 'secondary',
+  active: 'default',
+  mismatch: 'destructive',
+};
+
+export default function DNSSECPage() {
+  const router = useRouter();
+  const { accounts } = useAccountStore();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedAccount, setSelectedAccount] = useState('all');
+  const [stateFilter, setStateFilter] = useState<DNSSECState | 'all'>('all');
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+  const {
+    domains: registrarDomains,
+    registrarAccounts,
+    loadDomains,
+    isLoading: isLoadingRegistrars,
+    isRefreshing: isRefreshingRegistrars,
+  } = useRegistrars();
+  const { rows, check, enable } = useDNSSEC(registrarDomains, registrarAccounts);
+
+  const filteredRows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return rows
+      .filter(row => selectedAccount === 'all' || row.accountId === selectedAccount)
+      .filter(row => stateFilter === 'all' || row.state === stateFilter)
+      .filter(row => !term || row.zone.name.toLowerCase().includes(term) || row.accountName?.toLowerCase().includes(term))
+      .sort((a, b) => a.zone.name.localeCompare(b.zone.name));
+  }, [rows, selectedAccount, stateFilter, searchTerm]);
+
+  const stats = useMemo(() => ({
+    total: rows.length,
+    active: rows.filter(row => row.state === 'active').length,
+    mismatch: rows.filter(row => row.state === 'mismatch').length,
+  }), [rows]);
+
+  // Zones that are already active with a matching DS have nothing left to push
+  const enableTargets = filteredRows.filter(row => row.state !== 'active');
+
+  const renderRegistrar = (row: DNSSECRow) => {
+    if (!row.registrarDomain) {
+      return <span className="text-muted-foreground">Not found</span>;
+    }
+    const canPush = registrarSupports(row.registrarDomain.registrar, 'dnssec');
+    return (
+      <div className="flex items-center gap-2">
+        <span className="capitalize">{row.registrarDomain.registrar}</span>
+        {!canPush && <Badge variant="outline" className="text-[10px]">Manual DS</Badge>}
+      </div>
+    );
+  };
+
+  if (accounts.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">No Cloudflare Accounts</h2>
+            <p className="text-muted-foreground mb-4">
+              Add a Cloudflare credential and load zones on the Cloudflare page before managing DNSSEC.
+            </p>
+            <Button onClick={() => router.push('/credentials')}>
+              Manage Credentials
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sticky top-0 z-20 bg-background/95 backdrop-blur-sm border-b py-3 -mx-6 px-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-bold">DNSSEC</h1>
+            <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+              <span className="px-2 py-0.5 bg-muted/50 rounded border border-border/50">
+                <span className="text-foreground font-semibold">{stats.active}</span>
+                <span className="text-muted-foreground">/</span>
+                <span>{stats.total}</span>
+                <span className="text-muted-foreground ml-1">active</span>
+              </span>
+              {stats.mismatch > 0 && (
+                <span className="px-2 py-0.5 bg-destructive/10 text-destructive rounded border border-destructive/20">
+                  <span className="font-semibold">{stats.mismatch}</span>
+                  <span className="ml-1">DS mismatch</span>
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2 flex-nowrap">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Search domains, Cloudflare accounts"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-10 w-72"
+              />
+              {searchTerm && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-6 w-6 p-0 hover:bg-muted"
+                  onClick={() => setSearchTerm('')}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+
+            <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+              <SelectTrigger className="w-xsh-9">
+                <SelectValue placeholder="All Accounts" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                <SelectItem value="all">All Accounts</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name || account.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={stateFilter} onValueChange={(value) => setStateFilter(value as DNSSECState | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                <SelectItem value="all">All states</SelectItem>
+                {(Object.keys(DNSSEC_STATE_LABELS) as DNSSECState[]).map(state => (
+                  <SelectItem key={state} value={state}>{DNSSEC_STATE_LABELS[state]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => { void loadDomains(true); }}
+              disabled={isLoadingRegistrars || isRefreshingRegistrars}
+              title="Reload registrar domains"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${isLoadingRegistrars || isRefreshingRegistrars ? 'animate-spin' : ''}`} />
+              Registrars
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => { void check(filteredRows); }}
+              disabled={isTaskRunning || filteredRows.length === 0}
+            >
+              <ShieldCheck className="h-3.5 w-3.5" />
+              Check {filteredRows.length}
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => { void enable(enableTargets); }}
+              disabled={isTaskRunning || enableTargets.length === 0}
+            >
+              <Upload className="h-3.5 w-3.5" />
+              Enable &amp; push {enableTargets.length}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {filteredRows.length === 0 ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <ShieldCheck className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>{rows.length === 0 ? 'No cached zones' : 'No zones match'}</EmptyTitle>
+            <EmptyDescription>
+              {rows.length === 0
+                ? 'Load zones on the Cloudflare page first; DNSSEC is checked against cached zones.'
+                : 'Adjust the search, account or state filter.'}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <Card className="p-0">
+          <div className="overflow-x-auto">
+            <TooltipProvider>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[200px]">Domain</TableHead>
+                    <TableHead>Registrar</TableHead>
+                    <TableHead>Cloudflare</TableHead>
+                    <TableHead>DS record</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[120px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRows.map(row => (
+                    <TableRow key={row.key}>
+                      <TableCell>
+                        <div className="font-medium">{row.zone.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.accountName}
+                          {row.lastChecked && (
+                            <span className="ml-2">· {new Date(row.lastChecked).toLocaleString()}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{renderRegistrar(row)}</TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {row.details?.status || <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {row.ds ? (
+                          <div className="flex items-center gap-1">
+                            <span className="truncate max-w-[220px]" title={formatDSRecord(row.ds)}>
+                              {formatDSRecord(row.ds)}
+                            </span>
+                            <CopyButton text={formatDSRecord(row.ds)} successMessage="DS record copied" size="sm" className="h-6 px-1" />
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {row.state === 'mismatch' ? (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant={STATE_BADGE_VARIANTS[row.state]}>{DNSSEC_STATE_LABELS[row.state]}</Badge>
+                            </TooltipTrigger>
+                            <TooltipContent className="font-mono text-xs">
+                              {row.publishedDS?.length ? row.publishedDS.join('\n') : 'DS published while DNSSEC is disabled'}
+                            </TooltipContent>
+                          </Tooltip>
+                        ) : (
+                          <Badge variant={STATE_BADGE_VARIANTS[row.state]}>{DNSSEC_STATE_LABELS[row.state]}</Badge>
+                        )}
+                        {row.details && row.publishedDS === null && (
+                          <div className="text-[10px] text-muted-foreground mt-1">DS lookup failed</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant={row.state === 'active' ? 'ghost' : 'default'}
+                          onClick={() => { void enable([row]); }}
+                          disabled={row.state === 'active' || isTaskRunning}
+                        >
+                          <Upload className="h-3.5 w-3.5" />
+                          {row.state === 'active' ? 'Active' : 'Enable'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TooltipProvider>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { Check, ChevronsUpDown } from 'lucide-react';
+import { Check, ChevronsUpDown, Globe } from 'lucide-react';
 import { Label } from '@/components/ui/label';
 import {
 	Select,
@@ -20,6 +20,7 @@ import {
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import type { CloudflareAccount } from '@/types/cloudflare';
+import type { RegistrarType } from '@/types/registrar';
 
 interface CloudflareAccountOption {
 	id: string;
@@ -29,7 +30,7 @@ interface CloudflareAccountOption {
 export interface RegistrarAccountOption {
 	id: string;
 	name: string;
-	registrar: 'namecheap' | 'njalla' | 'dynadot';
+	registrar: RegistrarType;
 }
 
 interface AccountSelectorsProps {
@@ -119,14 +120,28 @@ function DynadotLogo({ className }: { className?: string }) {
 	);
 }
 
-function RegistrarIcon({ registrar, className }: { registrar: 'namecheap' | 'njalla' | 'dynadot'; className?: string }) {
-	if (registrar === 'namecheap') {
-		return <NamecheapLogo className={className} />;
-	}
-	if (registrar === 'dynadot') {
-		return <DynadotLogo className={className} />;
-	}
-	return <NjallaLogo className={className} />;
+function PorkbunLogo({ className }: { className?: string }) {
+	return (
+		<img
+			src="https://porkbun.com/favicon.ico"
+			alt="Porkbun"
+			className={cn('rounded-sm object-contain', className)}
+			loading="lazy"
+			referrerPolicy="no-referrer"
+		/>
+	);
+}
+
+const REGISTRAR_LOGOS: Partial<Record<RegistrarType, React.ComponentType<{ className?: string }>>> = {
+	namecheap: NamecheapLogo,
+	njalla: NjallaLogo,
+	dynadot: DynadotLogo,
+	porkbun: PorkbunLogo,
+};
+
+export function RegistrarIcon({ registrar, className }: { registrar: RegistrarType; className?: string }) {
+	const Logo = REGISTRAR_LOGOS[registrar] ?? Globe;
+	return <Logo className={className} />;
 }
 
 export function AccountSelectors({
@@ -14,9 +14,12 @@ import { ConfigurationConsole } from '@/components/configuration-console';
 import { toast } from 'sonner';
 import type { CloudflareAccount } from '@/types/cloudflare';
 import { validateIPAddress, parseBulkDomains } from '@/lib/utils';
+import { isRegistrarAccount } from '@/lib/registrars';
 import { useCloudflareDestinationAccount } from '@/hooks/use-cloudflare-destination-account';
 import { useBulkDomainCreation } from '@/hooks/use-bulk-domain-creation';
 import { useAccountStore } from '@/store/account-store';
+import { useZoneProfileStore, DEFAULT_PROFILE_ID } from '@/store/zone-profile-store';
+import { ZoneProfileSelect } from '@/components/zone-profiles/zone-profile-select';
 import { BulkDomainInputForm } from './BulkDomainInputForm';
 import { RootARecordInput } from './RootARecordInput';
 import { AccountSelectors } from './AccountSelectors';
@@ -35,21 +38,19 @@ export function AddDomainDialog({ title, accounts, onDomainCreated, initialAccou
 	const [selectedRegistrarAccountId, setSelectedRegistrarAccountId] = useState('');
 	const [rootIPAddress, setRootIPAddress] = useState('');
 	const [proxied, setProxied] = useState(true);
+	const [selectedProfileId, setSelectedProfileId] = useState(DEFAULT_PROFILE_ID);
+	const zoneProfile = useZoneProfileStore((s) => s.getProfile(selectedProfileId));
 
 	// Derive registrar accounts from the store
 	const allAccounts = useAccountStore((s) => s.accounts);
 	const proxyAccounts = useAccountStore((s) => s.proxyAccounts);
 	const registrarAccounts = useMemo(() =>
 		allAccounts
-			.filter((a) => a.category === 'registrar' && (
-				a.registrarName === 'namecheap' ||
-				a.registrarName === 'njalla' ||
-				a.registrarName === 'dynadot'
-			))
+			.filter(isRegistrarAccount)
 			.map((a) => ({
 				id: a.id,
 				name: a.name || a.email || 'Unnamed',
-				registrar: a.registrarName as 'namecheap' | 'njalla' | 'dynadot',
+				registrar: a.registrarName,
 			})),
 		[allAccounts]);
 
@@ -74,6 +75,7 @@ export function AddDomainDialog({ title, accounts, onDomainCreated, initialAccou
 		registrarAccountId: selectedRegistrarAccountId || undefined,
 		registrarAccounts: allAccounts,
 		proxyAccounts,
+		zoneSettings: zoneProfile.settings,
 		onSuccess: onDomainCreated,
 	});
 
@@ -141,6 +143,7 @@ export function AddDomainDialog({ title, accounts, onDomainCreated, initialAccou
 		setSelectedRegistrarAccountId('');
 		setRootIPAddress('');
 		setProxied(true);
+		setSelectedProfileId(DEFAULT_PROFILE_ID);
 	};
 
 	const handleDialogChange = (open: boolean) => {
@@ -206,6 +209,11 @@ export function AddDomainDialog({ title, accounts, onDomainCreated, initialAccou
 						onRegistrarAccountChange={setSelectedRegistrarAccountId}
 					/>
 
+					<ZoneProfileSelect
+						value={selectedProfileId}
+						onChange={setSelectedProfileId}
+					/>
+
 					{hasQueue && (
 						<div className="pb-4 flex-1 min-h-0 flex flex-col gap-3 rounded-lg border bg-muted/40 p-4">
 							<div className="flex items-start justify-between gap-3">
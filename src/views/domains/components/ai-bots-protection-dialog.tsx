@@ -14,6 +14,7 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { useAccountStore } from '@/store/account-store';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
 import { toast } from 'sonner';
 import type { ZoneWithDNS } from '../hooks/use-domains-data';
 import { Progress } from '@/components/ui/progress';
@@ -43,6 +44,7 @@ export function AIBotsProtectionDialog({ selectedZones, onComplete, trigger, ope
         setProcessedCount(0);
         let successCount = 0;
         let failCount = 0;
+        let skippedCount = 0;
 
         try {
             for (let i = 0; i < selectedZones.length; i++) {
@@ -55,8 +57,13 @@ export function AIBotsProtectionDialog({ selectedZones, onComplete, trigger, ope
                     continue;
                 }
 
+                if (!canPerform(await loadTokenCapabilities(account), 'botManagement')) {
+                    skippedCount++;
+                    continue;
+                }
+
                 try {
-                    const api = new CloudflareAPI(account.apiToken);
+                    const api = new CloudflareAPI(account);
                     await api.setAIBotsProtection(zone.zone.id, mode);
                     successCount++;
                 } catch (error) {
@@ -68,6 +75,9 @@ export function AIBotsProtectionDialog({ selectedZones, onComplete, trigger, ope
             if (successCount > 0) {
                 toast.success(`Updated ${successCount} domain${successCount > 1 ? 's' : ''} successfully`);
             }
+            if (skippedCount > 0) {
+                toast.error(`Skipped ${skippedCount} domain${skippedCount > 1 ? 's' : ''}: ${getMissingCapabilityMessage('botManagement')}`);
+            }
             if (failCount > 0) {
                 toast.error(`Failed to update ${failCount} domain${failCount > 1 ? 's' : ''}`);
             }
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Globe, SlidersHorizontal } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import { useZoneProfileStore, DEFAULT_PROFILE_ID } from '@/store/zone-profile-store';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { ZONE_SETTING_FIELDS, formatZoneSettingValue } from '@/lib/zone-settings';
+import { ZoneProfileSelect } from '@/components/zone-profiles/zone-profile-select';
+import type { ZoneWithDNS } from '../hooks/use-domains-data';
+import { SelectedDomainsList } from './selected-domains-list';
+
+interface BulkApplyProfileDialogProps {
+  selectedZones: ZoneWithDNS[];
+  onComplete: () => void;
+}
+
+export function BulkApplyProfileDialog({ selectedZones, onComplete }: BulkApplyProfileDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const profile = useZoneProfileStore((s) => s.getProfile(profileId));
+  const { accounts } = useAccountStore();
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+  const handleApply = async () => {
+    // Snapshot the zones and settings so later selection or profile edits don't affect the run
+    const zones = [...selectedZones];
+    const { name, settings } = profile;
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+
+    setOpen(false);
+    onComplete();
+    startTask('apply_profile', `Applying "${name}" to ${zones.length} domain${zones.length !== 1 ? 's' : ''}`, zones.length);
+
+    let successCount = 0;
+    let failCount = 0;
+
+    try {
+      for (let i = 0; i < zones.length; i++) {
+        await checkTaskStatus();
+
+        const zone = zones[i];
+        const account = accounts.find(acc => acc.id === zone.accountId);
+        if (!account) {
+          addLog(`${zone.zone.name}: account not found`, 'error');
+          failCount++;
+        } else if (!canPerform(await loadTokenCapabilities(account), 'zoneSettingsEdit')) {
+          addLog(`${zone.zone.name}: ${getMissingCapabilityMessage('zoneSettingsEdit')}, skipped`, 'error');
+          failCount++;
+        } else {
+          addLog(`Applying profile to ${zone.zone.name}...`);
+          const api = new CloudflareAPI(account);
+          const result = await api.applyZoneSettings(zone.zone.id, settings);
+
+          if (result.failureCount === 0) {
+            addLog(`${zone.zone.name}: ${result.successCount} settings applied`, 'success');
+            successCount++;
+          } else {
+            const reason = result.hasAuthError ? ' (check API token permissions)' : '';
+            addLog(`${zone.zone.name}: failed ${result.errors.join(', ')}${reason}`, 'error');
+            failCount++;
+          }
+
+          // SSL mode is shown in the table, keep the cached value in sync
+          const { setSSLData, getSSLData } = useCloudflareCache.getState();
+          const existingData = getSSLData(zone.zone.id, zone.accountId);
+          if (!result.errors.includes('SSL mode')) {
+            setSSLData(zone.zone.id, zone.accountId, existingData?.certificates || [], {
+              id: 'ssl',
+              ...existingData?.sslSetting,
+              value: settings.sslMode,
+            });
+          }
+        }
+
+        updateProgress(Math.round(((i + 1) / zones.length) * 100), i + 1);
+      }
+
+      addLog(`Done: ${successCount} succeeded, ${failCount} failed`, failCount > 0 ? 'error' : 'success');
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        addLog(`Stopped after ${successCount + failCount} of ${zones.length} domains`);
+        return;
+      }
+      console.error('Bulk profile apply error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to apply profile');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <SlidersHorizontal className="h-3.5 w-3.5" />
+          Apply profile
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col p-0 w-[95vw] sm:w-full">
+        <DialogHeader className="px-4 sm:px-6 pt-6 pb-4 flex-shrink-0 border-b">
+          <DialogTitle>
+            Apply Zone Settings Profile
+          </DialogTitle>
+          <DialogDescription>
+            Apply every setting of a profile to {selectedZones.length} selected domain{selectedZones.length > 1 ? 's' : ''}. Progress is shown in the task window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 sm:px-6 py-4 space-y-6 min-h-0">
+          <ZoneProfileSelect value={profileId} onChange={setProfileId} />
+
+          <div className="rounded-lg border bg-muted/50 p-3 space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Settings
+            </h4>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+              {ZONE_SETTING_FIELDS.map((field) => (
+                <div key={field.key} className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">{field.label}</span>
+                  <span className="font-mono">{formatZoneSettingValue(field, profile.settings[field.key])}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <SelectedDomainsList
+            selectedZones={selectedZones}
+            icon={Globe}
+            showAccount={true}
+          />
+        </div>
+
+        <DialogFooter className="px-4 sm:px-6 py-4 border-t flex-shrink-0 gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            className="w-full sm:w-auto"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => { void handleApply(); }}
+            disabled={isTaskRunning || selectedZones.length === 0}
+            className="w-full sm:w-auto gap-2"
+          >
+            {isTaskRunning ? 'Another task is running' : 'Apply profile'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,7 @@ import {
 import { useAccountStore } from '@/store/account-store';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
 import { toast } from 'sonner';
 import type { ZoneWithDNS } from '../hooks/use-domains-data';
 import { SelectedDomainsList } from './selected-domains-list';
@@ -32,6 +33,7 @@ export function BulkDeleteDomainsDialog({ selectedZones, onComplete }: BulkDelet
 		setIsProcessing(true);
 		let successCount = 0;
 		let failCount = 0;
+		let skippedCount = 0;
 		const failedDomains: string[] = [];
 
 		try {
@@ -44,8 +46,13 @@ export function BulkDeleteDomainsDialog({ selectedZones, onComplete }: BulkDelet
 					continue;
 				}
 
+				if (!canPerform(await loadTokenCapabilities(account), 'zoneEdit')) {
+					skippedCount++;
+					continue;
+				}
+
 				try {
-					const api = new CloudflareAPI(account.apiToken);
+					const api = new CloudflareAPI(account);
 					await api.deleteZone(zone.zone.id);
 					// Remove zone from cache immediately
 					removeZone(zone.zone.id, zone.accountId);
@@ -60,6 +67,9 @@ export function BulkDeleteDomainsDialog({ selectedZones, onComplete }: BulkDelet
 			if (successCount > 0) {
 				toast.success(`Deleted ${successCount} domain${successCount > 1 ? 's' : ''} successfully`);
 			}
+			if (skippedCount > 0) {
+				toast.error(`Skipped ${skippedCount} domain${skippedCount > 1 ? 's' : ''}: ${getMissingCapabilityMessage('zoneEdit')}`);
+			}
 			if (failCount > 0) {
 				toast.error(
 					`Failed to delete ${failCount} domain${failCount > 1 ? 's' : ''}: ${failedDomains.join(', ')}`
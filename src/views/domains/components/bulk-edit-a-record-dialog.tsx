@@ -14,6 +14,7 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useAccountStore } from '@/store/account-store';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
 import { toast } from 'sonner';
 import type { ZoneWithDNS } from '../hooks/use-domains-data';
 import { validateIPAddress } from '@/lib/utils';
@@ -50,6 +51,7 @@ export function BulkEditARecordDialog({ selectedZones, onComplete, onRefreshDNS
 		setProcessedCount(0);
 		let successCount = 0;
 		let failCount = 0;
+		let skippedCount = 0;
 
 		try {
 			for (let i = 0; i < selectedZones.length; i++) {
@@ -62,8 +64,13 @@ export function BulkEditARecordDialog({ selectedZones, onComplete, onRefreshDNS
 					continue;
 				}
 
+				if (!canPerform(await loadTokenCapabilities(account), 'dnsEdit')) {
+					skippedCount++;
+					continue;
+				}
+
 				try {
-					const api = new CloudflareAPI(account.apiToken);
+					const api = new CloudflareAPI(account);
 
 					// Get all DNS records
 					const dnsRecords = await api.getDNSRecords(zone.zone.id);
@@ -108,6 +115,9 @@ export function BulkEditARecordDialog({ selectedZones, onComplete, onRefreshDNS
 			if (successCount > 0) {
 				toast.success(`Updated ${successCount} domain${successCount > 1 ? 's' : ''} successfully`);
 			}
+			if (skippedCount > 0) {
+				toast.error(`Skipped ${skippedCount} domain${skippedCount > 1 ? 's' : ''}: ${getMissingCapabilityMessage('dnsEdit')}`);
+			}
 			if (failCount > 0) {
 				toast.error(`Failed to update ${failCount} domain${failCount > 1 ? 's' : ''}`);
 			}
@@ -15,6 +15,7 @@ import { cn } from '@/lib/utils';
 import { useAccountStore } from '@/store/account-store';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
 import { toast } from 'sonner';
 import type { ZoneWithDNS } from '../hooks/use-domains-data';
 import { Progress } from '@/components/ui/progress';
@@ -71,6 +72,7 @@ export function BulkEditSSLDialog({ selectedZones, onComplete }: BulkEditSSLDial
     setProcessedCount(0);
     let successCount = 0;
     let failCount = 0;
+    let skippedCount = 0;
 
     try {
       for (let i = 0; i < selectedZones.length; i++) {
@@ -83,14 +85,20 @@ export function BulkEditSSLDialog({ selectedZones, onComplete }: BulkEditSSLDial
           continue;
         }
 
+        if (!canPerform(await loadTokenCapabilities(account), 'sslEdit')) {
+          skippedCount++;
+          continue;
+        }
+
         try {
-          const api = new CloudflareAPI(account.apiToken);
+          const api = new CloudflareAPI(account);
           await api.setSSLMode(zone.zone.id, sslMode);
 
           // Update the SSL cache for instant UI feedback
           const { setSSLData, getSSLData } = useCloudflareCache.getState();
           const existingData = getSSLData(zone.zone.id, zone.accountId);
           setSSLData(zone.zone.id, zone.accountId, existingData?.certificates || [], {
+            id: 'ssl',
             ...existingData?.sslSetting,
             value: sslMode,
           });
@@ -105,6 +113,9 @@ export function BulkEditSSLDialog({ selectedZones, onComplete }: BulkEditSSLDial
       if (successCount > 0) {
         toast.success(`Updated SSL/TLS mode for ${successCount} domain${successCount > 1 ? 's' : ''}`);
       }
+      if (skippedCount > 0) {
+        toast.error(`Skipped ${skippedCount} domain${skippedCount > 1 ? 's' : ''}: ${getMissingCapabilityMessage('sslEdit')}`);
+      }
       if (failCount > 0) {
         toast.error(`Failed to update ${failCount} domain${failCount > 1 ? 's' : ''}`);
       }
@@ -22,95 +22,19 @@ import {
 } from '@/components/ui/command';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { isRegistrarAccount, REGISTRARS, REGISTRAR_TYPES } from '@/lib/registrars';
+import { setRegistrarNameservers } from '@/lib/registrar-nameservers';
 import { useAccountStore } from '@/store/account-store';
+import { RegistrarIcon } from './add-domain-dialog/AccountSelectors';
 import { toast } from 'sonner';
 import { SelectedDomainsList } from './selected-domains-list';
 import type { ZoneWithDNS } from '../hooks/use-domains-data';
-import type { CloudflareAccount, ProxyAccount } from '@/types/cloudflare';
 
 interface BulkSetNameserversDialogProps {
 	selectedZones: ZoneWithDNS[];
 	onComplete: () => void;
 }
 
-function parseDomain(domain: string) {
-	const parts = domain.split('.');
-	if (parts.length < 2) {
-		throw new Error(`Invalid domain format: ${domain}`);
-	}
-	return {
-		sld: parts.slice(0, -1).join('.'),
-		tld: parts[parts.length - 1],
-	};
-}
-
-function buildNamecheapHeaders(regAccount: CloudflareAccount, proxy: ProxyAccount): Record<string, string> {
-	const headers: Record<string, string> = {
-		'Content-Type': 'application/json',
-		'x-account-id': regAccount.id,
-		'x-api-user': regAccount.username || regAccount.email.split('@')[0].replaceAll('.', ''),
-		'x-api-key': regAccount.apiToken,
-		'x-proxy-host': proxy.host,
-		'x-proxy-port': proxy.port?.toString() || '',
-	};
-
-	if (proxy.username) headers['x-proxy-username'] = proxy.username;
-	if (proxy.password) headers['x-proxy-password'] = proxy.password;
-
-	return headers;
-}
-
-function NamecheapLogo({ className }: { className?: string }) {
-	return (
-		<svg
-			xmlns="http://www.w3.org/2000/svg"
-			xmlnsXlink="http://www.w3.org/1999/xlink"
-			viewBox="0 -57 256 256"
-			className={className}
-			aria-label="Namecheap"
-		>
-			<defs>
-				<linearGradient x1="13.322%" y1="94.945%" x2="82.62%" y2="1.132%" id="bns-nc-lg1">
-					<stop stopColor="#D4202C" offset="0%" />
-					<stop stopColor="#FAA71D" stopOpacity="0" offset="100%" />
-				</linearGradient>
-				<linearGradient x1="86.624%" y1="5.04%" x2="17.326%" y2="98.855%" id="bns-nc-lg2">
-					<stop stopColor="#D4202C" offset="0%" />
-					<stop stopColor="#FAA71D" stopOpacity="0" offset="100%" />
-				</linearGradient>
-			</defs>
-			<g>
-				<path d="M232,0 C223,0 215.2,5 211.1,12.3 L210.6,13.3 L191.8,50.3 L168,97.2 L183.6,127.9 L184.5,129.6 C186.9,133.8 190.5,137.3 194.9,139.4 C199.3,137.2 202.9,133.8 205.3,129.6 L206.2,127.9 L252.9,35.9 L254,33.7 C255.3,30.7 256,27.5 256,24 C256,10.7 245.3,0 232,0 Z" fill="#FF5000" />
-				<path d="M87.9,44.6 L72.4,14 L71.5,12.3 C69.1,8.1 65.5,4.6 61.1,2.5 C56.7,4.7 53.1,8.1 50.7,12.3 L49.9,14 L3.2,106 L2.1,108.2 C0.8,111.2 0.1,114.4 0.1,117.9 C0.1,131.1 10.8,141.9 24.1,141.9 C33.1,141.9 40.9,136.9 45,129.6 L45.5,128.6 L64.3,91.6 L88,44.7 Z" fill="#FF5000" />
-				<path d="M232,0 C223,0 215.1,5 211.1,12.3 L210.6,13.3 L191.8,50.3 L168,97.2 L183.6,127.9 L184.5,129.6 C186.9,133.8 190.5,137.3 194.9,139.4 C199.3,137.2 202.9,133.8 205.3,129.6 L206.2,127.9 L252.9,35.9 L254,33.7 C255.3,30.7 256,27.5 256,24 C256,10.7 245.2,0 232,0 Z" fill="url(#bns-nc-lg1)" />
-				<path d="M24,141.9 C33,141.9 40.9,136.9 44.9,129.6 L45.4,128.6 L64.2,91.6 L88,44.7 L72.4,14 L71.5,12.3 C69.1,8.1 65.5,4.6 61.1,2.5 C56.7,4.7 53.1,8.1 50.7,12.3 L49.9,14 L3.2,106 L2,108.3 C0.7,111.3 0,114.5 0,118 C0,131.2 10.7,141.9 24,141.9 Z" fill="url(#bns-nc-lg2)" />
-				<path d="M87.9,44.6 L72.4,14 L71.5,12.3 C69.1,8.1 65.5,4.6 61.1,2.5 C62.5,1.8 64.1,1.2 65.6,0.8 C67.5,0.3 69.6,0 71.6,0 L104,0 L104.4,0 C113.4,0.1 121.2,5 125.3,12.3 L126,14 L168.1,97.3 L183.6,127.9 L184.5,129.6 C186.9,133.8 190.5,137.3 194.9,139.4 C193.5,140.1 191.9,140.7 190.4,141.1 C188.5,141.6 186.4,141.9 184.3,141.9 L152.1,141.9 L151.7,141.9 C142.7,141.8 134.9,136.9 130.8,129.6 L129.9,127.9 Z" fill="#FF8C44" />
-			</g>
-		</svg>
-	);
-}
-
-function NjallaLogo({ className }: { className?: string }) {
-	return (
-		<svg
-			viewBox="0 0 24 27"
-			xmlns="http://www.w3.org/2000/svg"
-			className={className}
-			aria-label="Njalla"
-		>
-			<polygon
-				fill="#19D6AC"
-				points="3.92,26.05 0,26.05 11.94,0 23.45,26.05 19.47,26.05 11.87,8.29 8.12,16.62"
-			/>
-		</svg>
-	);
-}
-
-function RegistrarIcon({ registrar, className }: { registrar: 'namecheap' | 'njalla'; className?: string }) {
-	if (registrar === 'namecheap') return <NamecheapLogo className={className} />;
-	return <NjallaLogo className={className} />;
-}
-
 export function BulkSetNameserversDialog({ selectedZones, onComplete }: BulkSetNameserversDialogProps) {
 	const { accounts, proxyAccounts, getDomainNameservers } = useAccountStore();
 	const [open, setOpen] = useState(false);
@@ -121,24 +45,22 @@ export function BulkSetNameserversDialog({ selectedZones, onComplete }: BulkSetN
 	const [search, setSearch] = useState('');
 
 	const registrarAccounts = useMemo(() =>
-		accounts.filter((a) => a.category === 'registrar' && (a.registrarName === 'namecheap' || a.registrarName === 'njalla')),
+		accounts.filter(isRegistrarAccount),
 		[accounts]
 	);
 
 	const selectedAccount = registrarAccounts.find((a) => a.id === selectedAccountId);
 
-	const namecheapAccounts = useMemo(() => {
-		const filtered = registrarAccounts.filter((a) => a.registrarName === 'namecheap');
-		if (!search) return filtered;
+	const accountGroups = useMemo(() => {
 		const q = search.toLowerCase();
-		return filtered.filter((a) => (a.name || a.email).toLowerCase().includes(q));
-	}, [registrarAccounts, search]);
-
-	const njallaAccounts = useMemo(() => {
-		const filtered = registrarAccounts.filter((a) => a.registrarName === 'njalla');
-		if (!search) return filtered;
-		const q = search.toLowerCase();
-		return filtered.filter((a) => (a.name || a.email).toLowerCase().includes(q));
+		return REGISTRAR_TYPES
+			.map((registrar) => ({
+				registrar,
+				accounts: registrarAccounts.filter((a) =>
+					a.registrarName === registrar && (!q || (a.name || a.email).toLowerCase().includes(q))
+				),
+			}))
+			.filter((group) => group.accounts.length > 0);
 	}, [registrarAccounts, search]);
 
 	// Zones that have nameservers available
@@ -195,39 +117,7 @@ export function BulkSetNameserversDialog({ selectedZones, onComplete }: BulkSetN
 				}
 
 				try {
-					if (regAccount.registrarName === 'namecheap') {
-						if (!regAccount.proxyId) {
-							throw new Error(`No proxy assigned to account ${regAccount.name || regAccount.email}`);
-						}
-						const proxy = proxyAccounts.find((p) => p.id === regAccount.proxyId);
-						if (!proxy) {
-							throw new Error(`Proxy (id: ${regAccount.proxyId}) not found`);
-						}
-
-						const { sld, tld } = parseDomain(zone.zone.name);
-						const response = await fetch('/api/namecheap/nameservers', {
-							method: 'POST',
-							headers: buildNamecheapHeaders(regAccount, proxy),
-							body: JSON.stringify({ sld, tld, nameservers }),
-						});
-						const data = await response.json();
-						if (!response.ok || !data.success) {
-							throw new Error(data.error || 'Failed to set nameservers');
-						}
-					} else if (regAccount.registrarName === 'njalla') {
-						const response = await fetch('/api/njalla/nameservers', {
-							method: 'POST',
-							headers: {
-								'Content-Type': 'application/json',
-								'x-api-key': regAccount.apiToken,
-							},
-							body: JSON.stringify({ domain: zone.zone.name, nameservers }),
-						});
-						const data = await response.json();
-						if (!response.ok || !data.success) {
-							throw new Error(data.error || 'Failed to set nameservers');
-						}
-					}
+					await setRegistrarNameservers(zone.zone.name, nameservers, regAccount, proxyAccounts);
 
 					successCount++;
 				} catch (error) {
@@ -292,7 +182,7 @@ export function BulkSetNameserversDialog({ selectedZones, onComplete }: BulkSetN
 					)}
 
 					{registrarAccounts.length === 0 ? (
-						<p className="text-sm text-muted-foreground">No registrar accounts configured. Add a Namecheap or Njalla account first.</p>
+						<p className="text-sm text-muted-foreground">No registrar accounts configured. Add a registrar account first.</p>
 					) : (
 						<div className="space-y-2">
 							<Label>Registrar Account</Label>
@@ -307,7 +197,7 @@ export function BulkSetNameserversDialog({ selectedZones, onComplete }: BulkSetN
 									>
 										{selectedAccount ? (
 											<span className="flex items-center gap-2 truncate">
-												<RegistrarIcon registrar={selectedAccount.registrarName as 'namecheap' | 'njalla'} className="h-4 w-4 shrink-0" />
+												<RegistrarIcon registrar={selectedAccount.registrarName} className="h-4 w-4 shrink-0" />
 												<span className="truncate">{selectedAccount.name || selectedAccount.email}</span>
 											</span>
 										) : (
@@ -324,30 +214,12 @@ export function BulkSetNameserversDialog({ selectedZones, onComplete }: BulkSetN
 											onValueChange={setSearch}
 										/>
 										<CommandList>
-											{namecheapAccounts.length === 0 && njallaAccounts.length === 0 && (
+											{accountGroups.length === 0 && (
 												<CommandEmpty>No registrar accounts found.</CommandEmpty>
 											)}
-											{namecheapAccounts.length > 0 && (
-												<CommandGroup heading="Namecheap">
-													{namecheapAccounts.map((acc) => (
-														<CommandItem
-															key={acc.id}
-															value={acc.id}
-															onSelect={() => { setSelectedAccountId(acc.id); setComboboxOpen(false); setSearch(''); }}
-															className="flex items-center justify-between"
-														>
-															<span className="flex items-center gap-2 truncate">
-																<RegistrarIcon registrar="namecheap" className="h-4 w-4 shrink-0" />
-																<span className="truncate">{acc.name || acc.email}</span>
-															</span>
-															<Check className={cn('ml-2 h-4 w-4 shrink-0', selectedAccountId === acc.id ? 'opacity-100' : 'opacity-0')} />
-														</CommandItem>
-													))}
-												</CommandGroup>
-											)}
-											{njallaAccounts.length > 0 && (
-												<CommandGroup heading="Njalla">
-													{njallaAccounts.map((acc) => (
+											{accountGroups.map(({ registrar, accounts: groupAccounts }) => (
+												<CommandGroup key={registrar} heading={REGISTRARS[registrar].label}>
+													{groupAccounts.map((acc) => (
 														<CommandItem
 															key={acc.id}
 															value={acc.id}
@@ -355,14 +227,14 @@ export function BulkSetNameserversDialog({ selectedZones, onComplete }: BulkSetN
 															className="flex items-center justify-between"
 														>
 															<span className="flex items-center gap-2 truncate">
-																<RegistrarIcon registrar="njalla" className="h-4 w-4 shrink-0" />
+																<RegistrarIcon registrar={registrar} className="h-4 w-4 shrink-0" />
 																<span className="truncate">{acc.name || acc.email}</span>
 															</span>
 															<Check className={cn('ml-2 h-4 w-4 shrink-0', selectedAccountId === acc.id ? 'opacity-100' : 'opacity-0')} />
 														</CommandItem>
 													))}
 												</CommandGroup>
-											)}
+											))}
 										</CommandList>
 									</Command>
 								</PopoverContent>
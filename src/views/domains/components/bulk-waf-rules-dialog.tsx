@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Globe, Pencil, Plus, Save, Shield, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { WAFRuleFormDialog } from '@/components/waf/waf-rule-form-dialog';
+import { useAccountStore } from '@/store/account-store';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import { useWAFRuleSetStore } from '@/store/waf-rule-set-store';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { createRuleRef, getWAFActionLabel, planRulesetPush, type RulesetPushMode } from '@/lib/rulesets';
+import { formatCloudflareError } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { RulesetRule } from '@/types/cloudflare';
+import type { ZoneWithDNS } from '../hooks/use-domains-data';
+import { SelectedDomainsList } from './selected-domains-list';
+
+const NEW_RULE_SET = 'new';
+
+interface BulkWAFRulesDialogProps {
+  selectedZones: ZoneWithDNS[];
+  onComplete: () => void;
+}
+
+export function BulkWAFRulesDialog({ selectedZones, onComplete }: BulkWAFRulesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { ruleSets, saveRuleSet, removeRuleSet } = useWAFRuleSetStore();
+  const [ruleSetId, setRuleSetId] = useState(NEW_RULE_SET);
+  const [name, setName] = useState('');
+  const [rules, setRules] = useState<RulesetRule[]>([]);
+  const [mode, setMode] = useState<RulesetPushMode>('merge');
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { accounts } = useAccountStore();
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+  const loadRuleSet = (id: string) => {
+    setRuleSetId(id);
+    const ruleSet = ruleSets.find(item => item.id === id);
+    setName(ruleSet?.name || '');
+    setRules(ruleSet ? ruleSet.rules.map(rule => ({ ...rule })) : []);
+  };
+
+  const handleRuleSubmit = (rule: RulesetRule) => {
+    if (editingIndex === null) {
+      setRules(prev => [...prev, { ...rule, ref: createRuleRef('waf') }]);
+    } else {
+      setRules(prev => prev.map((item, i) => (i === editingIndex ? { ...rule, ref: item.ref } : item)));
+    }
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error('Rule set name is required');
+      return;
+    }
+    const saved = saveRuleSet({
+      id: ruleSetId === NEW_RULE_SET ? undefined : ruleSetId,
+      name: name.trim(),
+      rules,
+    });
+    setRuleSetId(saved.id);
+    setRules(saved.rules);
+    toast.success(`Saved rule set "${saved.name}"`);
+  };
+
+  const handleDeleteRuleSet = () => {
+    if (ruleSetId === NEW_RULE_SET) return;
+    removeRuleSet(ruleSetId);
+    loadRuleSet(NEW_RULE_SET);
+  };
+
+  const handlePush = async () => {
+    // Snapshot zones and rules so edits after closing the dialog don't change the run
+    const zones = [...selectedZones];
+    const pushRules = rules.map(rule => (rule.ref ? rule : { ...rule, ref: createRuleRef('waf') }));
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+
+    setOpen(false);
+    onComplete();
+    startTask(
+      'push_waf_rules',
+      `Pushing ${pushRules.length} WAF rule${pushRules.length !== 1 ? 's' : ''} to ${zones.length} domain${zones.length !== 1 ? 's' : ''}`,
+      zones.length
+    );
+
+    let successCount = 0;
+    let failCount = 0;
+
+    try {
+      for (let i = 0; i < zones.length; i++) {
+        await checkTaskStatus();
+
+        const zone = zones[i];
+        const account = accounts.find(acc => acc.id === zone.accountId);
+        if (!account) {
+          addLog(`${zone.zone.name}: account not found`, 'error');
+          failCount++;
+        } else if (!canPerform(await loadTokenCapabilities(account), 'wafEdit')) {
+          addLog(`${zone.zone.name}: ${getMissingCapabilityMessage('wafEdit')}, skipped`, 'error');
+          failCount++;
+        } else {
+          try {
+            const api = new CloudflareAPI(account);
+            const entrypoint = await api.getPhaseEntrypoint(zone.zone.id, 'http_request_firewall_custom');
+            const plan = planRulesetPush(entrypoint?.rules || [], pushRules, mode);
+            await api.updatePhaseEntrypoint(zone.zone.id, 'http_request_firewall_custom', plan.rules);
+
+            const summary = [`${plan.created} created`, `${plan.updated} updated`];
+            if (plan.removed > 0) summary.push(`${plan.removed} removed`);
+            addLog(`${zone.zone.name}: ${summary.join(', ')}`, 'success');
+            successCount++;
+          } catch (error) {
+            addLog(`${zone.zone.name}: ${formatCloudflareError(error)}`, 'error');
+            failCount++;
+          }
+        }
+
+        updateProgress(Math.round(((i + 1) / zones.length) * 100), i + 1);
+      }
+
+      addLog(`Done: ${successCount} succeeded, ${failCount} failed`, failCount > 0 ? 'error' : 'success');
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        addLog(`Stopped after ${successCount + failCount} of ${zones.length} domains`);
+        return;
+      }
+      console.error('Bulk WAF push error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to push WAF rules');
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button size="sm" variant="outline" className="gap-2">
+            <Shield className="h-3.5 w-3.5" />
+            WAF rules
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col p-0 w-[95vw] sm:w-full">
+          <DialogHeader className="px-4 sm:px-6 pt-6 pb-4 flex-shrink-0 border-b">
+            <DialogTitle>
+              Push WAF Custom Rules
+            </DialogTitle>
+            <DialogDescription>
+              Push a rule set to the custom rules phase of {selectedZones.length} selected domain{selectedZones.length > 1 ? 's' : ''}. Progress is shown in the task window.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-y-auto px-4 sm:px-6 py-4 space-y-6 min-h-0">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>Rule set</Label>
+                <Select value={ruleSetId} onValueChange={loadRuleSet}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEW_RULE_SET}>New rule set</SelectItem>
+                    {ruleSets.map(ruleSet => (
+                      <SelectItem key={ruleSet.id} value={ruleSet.id}>{ruleSet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="waf-rule-set-name">Name</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="waf-rule-set-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Geo-block"
+                  />
+                  <Button variant="outline" size="icon" onClick={handleSave} title="Save rule set" disabled={rules.length === 0}>
+                    <Save className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="text-destructive"
+                    onClick={handleDeleteRuleSet}
+                    title="Delete rule set"
+                    disabled={ruleSetId === NEW_RULE_SET}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Rules</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setEditingIndex(null);
+                    setIsFormOpen(true);
+                  }}
+                >
+                  <Plus className="mr-1.5 h-3.5 w-3.5" />
+                  Add rule
+                </Button>
+              </div>
+              {rules.length === 0 ? (
+                <div className="rounded-lg border border-dashed py-6 text-center text-sm text-muted-foreground">
+                  Add rules or pick a saved rule set.
+                </div>
+              ) : (
+                <div className="divide-y rounded-lg border">
+                  {rules.map((rule, index) => (
+                    <div key={rule.ref || index} className="flex items-start gap-3 px-3 py-2">
+                      <span className="text-xs text-muted-foreground pt-0.5 w-4">{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{rule.description}</span>
+                          <Badge variant={rule.action === 'block' ? 'destructive' : 'secondary'} className="text-[10px]">
+                            {getWAFActionLabel(rule.action)}
+                          </Badge>
+                          {!rule.enabled && <Badge variant="outline" className="text-[10px]">disabled</Badge>}
+                        </div>
+                        <p className="text-xs font-mono text-muted-foreground break-all">{rule.expression}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => {
+                          setEditingIndex(index);
+                          setIsFormOpen(true);
+                        }}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Existing rules on each zone</Label>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RulesetPushMode)} className="gap-2">
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="merge" id="waf-mode-merge" className="mt-0.5" />
+                  <Label htmlFor="waf-mode-merge" className="font-normal leading-snug">
+                    Keep them. Rules pushed earlier from this set are updated in place, new ones are appended.
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="replace" id="waf-mode-replace" className="mt-0.5" />
+                  <Label htmlFor="waf-mode-replace" className="font-normal leading-snug">
+                    Replace them. Every other custom rule on the zone is removed, including the known bots skip rule.
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <SelectedDomainsList
+              selectedZones={selectedZones}
+              icon={Globe}
+              showAccount={true}
+            />
+          </div>
+
+          <DialogFooter className="px-4 sm:px-6 py-4 border-t flex-shrink-0 gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setOpen(false)}
+              className="w-full sm:w-auto"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => { void handlePush(); }}
+              disabled={isTaskRunning || rules.length === 0 || selectedZones.length === 0}
+              variant={mode === 'replace' ? 'destructive' : 'default'}
+              className="w-full sm:w-auto gap-2"
+            >
+              {isTaskRunning ? 'Another task is running' : `Push ${rules.length} rule${rules.length !== 1 ? 's' : ''}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <WAFRuleFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        rule={editingIndex !== null ? rules[editingIndex] : null}
+        onSubmit={handleRuleSubmit}
+      />
+    </>
+  );
+}
@@ -1,5 +1,5 @@
 import { memo, useState, useEffect, useCallback } from 'react';
-import { CloudCheck, CloudOff, Plus, Pencil, Loader2 } from 'lucide-react';
+import { AlertCircle, CloudCheck, CloudOff, Plus, Pencil, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
@@ -342,6 +342,7 @@ type SSLTlsCellProps = {
 	zoneName: string;
 	isLoading?: boolean;
 	currentMode?: string;
+	error?: string;
 	onModeChange?: () => void;
 };
 
@@ -374,6 +375,7 @@ export const SSLTlsCell = memo(function SSLTlsCell({
 	zoneName,
 	isLoading,
 	currentMode,
+	error,
 	onModeChange
 }: SSLTlsCellProps) {
 	const [isUpdating, setIsUpdating] = useState(false);
@@ -402,7 +404,7 @@ export const SSLTlsCell = memo(function SSLTlsCell({
 				return;
 			}
 
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 			await api.setSSLMode(zoneId, newMode as 'off' | 'flexible' | 'full' | 'strict');
 
 			toast.success(`SSL/TLS mode updated to ${SSL_TLS_MODES.find(m => m.value === newMode)?.label}`, {
@@ -427,6 +429,14 @@ export const SSLTlsCell = memo(function SSLTlsCell({
 	}
 
 	if (!currentMode) {
+		if (error) {
+			return (
+				<span className="inline-flex items-center gap-1 text-sm text-destructive" title={error}>
+					<AlertCircle className="h-3.5 w-3.5" />
+					Failed
+				</span>
+			);
+		}
 		return <span className="text-sm text-muted-foreground">-</span>;
 	}
 
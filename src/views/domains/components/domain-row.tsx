@@ -1,5 +1,5 @@
 import { memo, useCallback, useMemo, useState } from 'react';
-import { ExternalLink, Settings, RefreshCw, Info, ChevronDown, MoreVertical, Trash2, Globe, Loader2, ShieldCheck, Server } from 'lucide-react';
+import { AlertCircle, ExternalLink, Settings, RefreshCw, Info, ChevronDown, MoreVertical, Trash2, Globe, Loader2, ShieldCheck, Server, Shield, CornerUpRight, ArrowRightLeft, BarChart3, ShieldAlert, Mail } from 'lucide-react';
 import { TableRow, TableCell } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
@@ -28,8 +28,16 @@ import { ARecordsCell, ProxiedCell, SSLTlsCell } from './dns-cell';
 import { DNSDrawer } from '@/components/dns-drawer';
 import { AIBotsProtectionDialog } from './ai-bots-protection-dialog';
 import { SetNameserversDialog } from './set-nameservers-dialog';
+import { ZoneWAFRulesDialog } from '@/components/waf/zone-waf-rules-dialog';
+import { ZoneRedirectRulesDialog } from '@/components/redirects/zone-redirect-rules-dialog';
+import { MigrateZoneDialog } from '@/components/zone-migration/migrate-zone-dialog';
+import { ZoneAnalyticsDialog } from '@/components/analytics/zone-analytics-dialog';
+import { SecurityEventsDialog } from '@/components/security/security-events-dialog';
+import { EmailRoutingDialog } from '@/components/email/email-routing-dialog';
 import { useAccountStore } from '@/store/account-store';
+import { useTokenCapabilities } from '@/hooks/use-token-capabilities';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { formatCount } from '@/lib/cloudflare-analytics';
 import { toast } from 'sonner';
 import type { ZoneWithDNS } from '../hooks/use-domains-data';
 import type { DNSRecord, Zone } from '@/types/cloudflare';
@@ -63,6 +71,13 @@ export const DomainRow = memo(function DomainRow({
 	const [isCreatingCNAME, setIsCreatingCNAME] = useState(false);
 	const [isAIBotsDialogOpen, setIsAIBotsDialogOpen] = useState(false);
 	const [isSetNSDialogOpen, setIsSetNSDialogOpen] = useState(false);
+	const [isWAFDialogOpen, setIsWAFDialogOpen] = useState(false);
+	const [isRedirectsDialogOpen, setIsRedirectsDialogOpen] = useState(false);
+	const [isMigrateDialogOpen, setIsMigrateDialogOpen] = useState(false);
+	const [isAnalyticsDialogOpen, setIsAnalyticsDialogOpen] = useState(false);
+	const [isSecurityEventsDialogOpen, setIsSecurityEventsDialogOpen] = useState(false);
+	const [isEmailRoutingDialogOpen, setIsEmailRoutingDialogOpen] = useState(false);
+	const { can, reason } = useTokenCapabilities(item.accountId);
 
 	const handleToggle = useCallback(() => onToggle(rowId), [onToggle, rowId]);
 	const handleRefreshDNS = useCallback(() => onRefreshDNS?.(item.zone.id, item.accountId), [onRefreshDNS, item.zone.id, item.accountId]);
@@ -76,7 +91,7 @@ export const DomainRow = memo(function DomainRow({
 				return;
 			}
 
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 			await api.deleteZone(item.zone.id);
 			toast.success(`Domain "${item.zone.name}" deleted successfully`);
 			setIsDeleteDialogOpen(false);
@@ -103,7 +118,7 @@ export const DomainRow = memo(function DomainRow({
 		});
 
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 
 			// Check if www CNAME already exists
 			const dnsRecords: DNSRecord[] = await api.getDNSRecords(item.zone.id);
@@ -159,6 +174,11 @@ export const DomainRow = memo(function DomainRow({
 		return getDomainNameservers(item.zone.name) || [];
 	}, [item.zone.name_servers, item.zone.name, getDomainNameservers]);
 
+	const analyticsZones = useMemo(
+		() => [{ zoneId: item.zone.id, zoneName: item.zone.name, accountId: item.accountId }],
+		[item.zone.id, item.zone.name, item.accountId]
+	);
+
 	const isPending = item.zone.status === 'pending';
 	const hasNameservers = nameservers.length > 0;
 
@@ -216,6 +236,11 @@ export const DomainRow = memo(function DomainRow({
 						</span>
 						{item.dnsLoading ? (
 							<Skeleton className="h-3 w-24 mt-1" />
+						) : item.dnsError ? (
+							<span className="inline-flex items-center gap-1 text-xs text-destructive" title={item.dnsError}>
+								<AlertCircle className="h-3 w-3" />
+								DNS records failed to load
+							</span>
 						) : (
 							<span className="text-xs text-muted-foreground">
 								{item.dnsRecords?.length || 0} dns records
@@ -288,10 +313,32 @@ export const DomainRow = memo(function DomainRow({
 						zoneName={item.zone.name}
 						isLoading={item.sslLoading}
 						currentMode={item.sslMode}
+						error={item.sslError}
 						onModeChange={handleRefreshDNS}
 					/>
 				</TableCell>
 			</ActivityBoundary>
+			<ActivityBoundary mode={visibleColumns.requests24h ? 'visible' : 'hidden'}>
+				<TableCell>
+					{typeof item.requests24h === 'number' ? (
+						<button
+							type="button"
+							className="text-sm font-mono hover:underline"
+							onClick={() => setIsAnalyticsDialogOpen(true)}
+							title={`${item.requests24h.toLocaleString()} requests in the last 24 hours`}
+						>
+							{formatCount(item.requests24h)}
+						</button>
+					) : (
+						<span
+							className="text-sm text-muted-foreground"
+							title={item.requests24h === null ? 'Analytics unavailable' : 'Not loaded'}
+						>
+							—
+						</span>
+					)}
+				</TableCell>
+			</ActivityBoundary>
 			<ActivityBoundary mode={visibleColumns.account ? 'visible' : 'hidden'}>
 				<TableCell>
 					<span className="text-sm">{item.accountEmail}</span>
@@ -300,7 +347,7 @@ export const DomainRow = memo(function DomainRow({
 			<ActivityBoundary mode={visibleColumns.created ? 'visible' : 'hidden'}>
 				<TableCell>
 					<span className="text-sm text-muted-foreground">
-						{new Date(item.zone.created_on).toLocaleDateString()}
+						{item.zone.created_on ? new Date(item.zone.created_on).toLocaleDateString() : '—'}
 					</span>
 				</TableCell>
 			</ActivityBoundary>
@@ -341,7 +388,8 @@ export const DomainRow = memo(function DomainRow({
 						<DropdownMenuContent align="end">
 							<DropdownMenuItem
 								onClick={handleCreateWWWCNAME}
-								disabled={isCreatingCNAME}
+								disabled={isCreatingCNAME || !can('dnsEdit')}
+								title={reason('dnsEdit')}
 								className={cn(
 									"cursor-pointer",
 									isCreatingCNAME && "opacity-50 cursor-not-allowed"
@@ -361,20 +409,69 @@ export const DomainRow = memo(function DomainRow({
 								<Server className="mr-2 h-4 w-4" />
 								Set Nameservers
 							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => setIsMigrateDialogOpen(true)}
+								disabled={!can('zoneEdit')}
+								title={reason('zoneEdit')}
+							>
+								<ArrowRightLeft className="mr-2 h-4 w-4" />
+								Move to Account
+							</DropdownMenuItem>
 							<DropdownMenuItem
 								className="text-destructive"
 								onClick={() => setIsDeleteDialogOpen(true)}
-								disabled={isCreatingCNAME}
+								disabled={isCreatingCNAME || !can('zoneEdit')}
+								title={reason('zoneEdit')}
 							>
 								<Trash2 className="mr-2 h-4 w-4" />
 								Delete Domain
 							</DropdownMenuItem>
 							<DropdownMenuItem
 								onClick={() => setIsAIBotsDialogOpen(true)}
+								disabled={!can('botManagement')}
+								title={reason('botManagement')}
 							>
 								<ShieldCheck className="mr-2 h-4 w-4" />
 								AI Bots Protection
 							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => setIsWAFDialogOpen(true)}
+								disabled={!can('wafEdit')}
+								title={reason('wafEdit')}
+							>
+								<Shield className="mr-2 h-4 w-4" />
+								WAF Custom Rules
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => setIsRedirectsDialogOpen(true)}
+							>
+								<CornerUpRight className="mr-2 h-4 w-4" />
+								Redirect Rules
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => setIsAnalyticsDialogOpen(true)}
+								disabled={!can('analyticsRead')}
+								title={reason('analyticsRead')}
+							>
+								<BarChart3 className="mr-2 h-4 w-4" />
+								Traffic Analytics
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => setIsSecurityEventsDialogOpen(true)}
+								disabled={!can('analyticsRead')}
+								title={reason('analyticsRead')}
+							>
+								<ShieldAlert className="mr-2 h-4 w-4" />
+								Security Events
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => setIsEmailRoutingDialogOpen(true)}
+								disabled={!can('emailRoutingEdit')}
+								title={reason('emailRoutingEdit')}
+							>
+								<Mail className="mr-2 h-4 w-4" />
+								Email Routing
+							</DropdownMenuItem>
 						</DropdownMenuContent>
 					</DropdownMenu>
 					<AIBotsProtectionDialog
@@ -382,12 +479,51 @@ export const DomainRow = memo(function DomainRow({
 						open={isAIBotsDialogOpen}
 						onOpenChange={setIsAIBotsDialogOpen}
 					/>
+					<ZoneWAFRulesDialog
+						open={isWAFDialogOpen}
+						onOpenChange={setIsWAFDialogOpen}
+						account={accounts.find(acc => acc.id === item.accountId)}
+						zoneId={item.zone.id}
+						zoneName={item.zone.name}
+					/>
+					<ZoneRedirectRulesDialog
+						open={isRedirectsDialogOpen}
+						onOpenChange={setIsRedirectsDialogOpen}
+						account={accounts.find(acc => acc.id === item.accountId)}
+						zoneId={item.zone.id}
+						zoneName={item.zone.name}
+					/>
 					<SetNameserversDialog
 						open={isSetNSDialogOpen}
 						onOpenChange={setIsSetNSDialogOpen}
 						domain={item.zone.name}
 						nameservers={nameservers}
 					/>
+					<MigrateZoneDialog
+						open={isMigrateDialogOpen}
+						onOpenChange={setIsMigrateDialogOpen}
+						zone={item.zone}
+						sourceAccountId={item.accountId}
+					/>
+					<ZoneAnalyticsDialog
+						open={isAnalyticsDialogOpen}
+						onOpenChange={setIsAnalyticsDialogOpen}
+						zones={analyticsZones}
+					/>
+					<SecurityEventsDialog
+						open={isSecurityEventsDialogOpen}
+						onOpenChange={setIsSecurityEventsDialogOpen}
+						zones={analyticsZones}
+					/>
+					<EmailRoutingDialog
+						open={isEmailRoutingDialogOpen}
+						onOpenChange={setIsEmailRoutingDialogOpen}
+						account={accounts.find(acc => acc.id === item.accountId)}
+						cfAccountId={item.zone.account?.id}
+						zoneId={item.zone.id}
+						zoneName={item.zone.name}
+						onChanged={handleRefreshDNS}
+					/>
 					<AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
 						<AlertDialogContent>
 							<AlertDialogHeader>
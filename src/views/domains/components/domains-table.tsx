@@ -123,6 +123,17 @@ export const DomainsTable = memo(function DomainsTable({
 														</div>
 												</TableHead>
 										</ActivityBoundary>
+										<ActivityBoundary mode={visibleColumns.requests24h ? 'visible' : 'hidden'}>
+												<TableHead
+														className="cursor-pointer hover:bg-muted/50"
+														onClick={() => onSort('requests24h')}
+												>
+														<div className="flex items-center space-x-2">
+																<span>{DOMAIN_COLUMN_LABELS.requests24h}</span>
+																{getSortIcon('requests24h')}
+														</div>
+												</TableHead>
+										</ActivityBoundary>
 										<ActivityBoundary mode={visibleColumns.account ? 'visible' : 'hidden'}>
 												<TableHead
 														className="cursor-pointer hover:bg-muted/50"
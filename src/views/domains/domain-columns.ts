@@ -1,4 +1,4 @@
-export type DomainColumnKey = 'status' | 'proxied' | 'rootARecord' | 'account' | 'created' | 'sslTls';
+export type DomainColumnKey = 'status' | 'proxied' | 'rootARecord' | 'account' | 'created' | 'sslTls' | 'requests24h';
 
 export type DomainColumnVisibility = Record<DomainColumnKey, boolean>;
 
@@ -8,7 +8,8 @@ export const DOMAIN_COLUMN_LABELS: Record<DomainColumnKey, string> = {
 	rootARecord: 'A Record',
 	account: 'Account',
 	created: 'Created',
-	sslTls: 'SSL/TLS'
+	sslTls: 'SSL/TLS',
+	requests24h: 'Requests 24h'
 };
 
 export const DOMAIN_COLUMN_KEYS: DomainColumnKey[] = [
@@ -16,13 +17,17 @@ export const DOMAIN_COLUMN_KEYS: DomainColumnKey[] = [
 	'proxied',
 	'rootARecord',
 	'sslTls',
+	'requests24h',
 	'account',
 	'created'
 ];
 
+// Opt-in columns cost extra API calls to fill
+const HIDDEN_BY_DEFAULT: DomainColumnKey[] = ['requests24h'];
+
 export const DEFAULT_DOMAIN_COLUMN_VISIBILITY: DomainColumnVisibility = DOMAIN_COLUMN_KEYS.reduce(
 		(acc, key) => {
-				acc[key] = true;
+				acc[key] = !HIDDEN_BY_DEFAULT.includes(key);
 				return acc;
 		},
 		{} as DomainColumnVisibility
@@ -1,11 +1,12 @@
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, type Dispatch, type SetStateAction } from 'react';
 import { useAccountStore } from '@/store/account-store';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
-import { useTaskStore } from '@/store/task-store';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
-import { getRootARecordsFromDNS, processInParallel } from '@/lib/utils';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { formatCloudflareError, getRootARecordsFromDNS, processInParallel } from '@/lib/utils';
 import { toast } from 'sonner';
-import type { DNSRecord, Zone } from '@/types/cloudflare';
+import type { DNSRecord, SSLCertificate, SSLSetting, Zone } from '@/types/cloudflare';
 
 export interface ZoneWithDNS {
 	zone: Zone;
@@ -15,10 +16,28 @@ export interface ZoneWithDNS {
 	dnsRecords?: DNSRecord[];
 	rootARecords?: DNSRecord[];
 	dnsLoading?: boolean;
+	dnsError?: string;
 	sslMode?: 'off' | 'flexible' | 'full' | 'strict';
 	sslLoading?: boolean;
+	sslError?: string;
+	requests24h?: number | null; // undefined until loaded, null when analytics are unavailable
 }
 
+// Records (or clears, without an error) why a zone's data failed to load, so the row can say so
+const setLoadError = (
+	setErrors: Dispatch<SetStateAction<Record<string, string>>>,
+	cacheKey: string,
+	error?: unknown
+) => {
+	setErrors(prev => {
+		if (error) return { ...prev, [cacheKey]: formatCloudflareError(error) };
+		if (!(cacheKey in prev)) return prev;
+		const next = { ...prev };
+		delete next[cacheKey];
+		return next;
+	});
+};
+
 export function useDomainsData() {
 	const { accounts: allAccounts, isLoading: accountsLoading } = useAccountStore();
 	const accounts = allAccounts.filter(account => account.category === 'cloudflare');
@@ -29,14 +48,18 @@ export function useDomainsData() {
 		setLoading,
 		isCacheValid,
 		getDNSRecords,
-		getSSLData
+		getSSLData,
+		zoneRequests
 	} = useCloudflareCache();
 
 	// const [dnsRecordsCache, setDnsRecordsCache] = useState<Record<string, DNSRecord[]>>({}); // Removed in favor of global store
 	const [dnsLoadingStates, setDnsLoadingStates] = useState<Record<string, boolean>>({});
 	const [sslLoadingStates, setSSLLoadingStates] = useState<Record<string, boolean>>({});
+	const [dnsErrors, setDnsErrors] = useState<Record<string, string>>({});
+	const [sslErrors, setSSLErrors] = useState<Record<string, string>>({});
 	const [isDnsLoading, setIsDnsLoading] = useState(false);
 	const [isSSLLoading, setIsSSLLoading] = useState(false);
+	const [isRequestsLoading, setIsRequestsLoading] = useState(false);
 	const loadingZonesRef = useRef<Set<string>>(new Set()); // Track zones currently being loaded
 	const loadingSSLRef = useRef<Set<string>>(new Set()); // Track SSL loads in progress
 	const hasLoadedZones = useRef(false);
@@ -59,14 +82,17 @@ export function useDomainsData() {
 				dnsRecords: records,
 				rootARecords,
 				dnsLoading: dnsLoadingStates[cacheKey] || false,
+				dnsError: dnsErrors[cacheKey],
 				sslMode,
-				sslLoading: sslLoadingStates[cacheKey] || false
+				sslLoading: sslLoadingStates[cacheKey] || false,
+				sslError: sslErrors[cacheKey],
+				requests24h: zoneRequests[cacheKey]?.requests
 			};
 
 			return enriched;
 		});
 		// Removed dnsRecordsCache dependency
-	}, [zones, accounts, dnsLoadingStates, sslLoadingStates, getDNSRecords, getSSLData]);
+	}, [zones, accounts, dnsLoadingStates, sslLoadingStates, dnsErrors, sslErrors, zoneRequests, getDNSRecords, getSSLData]);
 
 	const loadDNSForZone = useCallback(async (zoneId: string, accountId: string, skipStoreUpdate = false) => {
 		const cacheKey = `${zoneId}-${accountId}`;
@@ -84,7 +110,7 @@ export function useDomainsData() {
 		setSSLLoadingStates(prev => ({ ...prev, [cacheKey]: true }));
 
 		try {
-			const api = new CloudflareAPI(account.apiToken);
+			const api = new CloudflareAPI(account);
 
 			// Fetch DNS records, SSL mode, and zone details (for status updates) in parallel
 			const [records, sslSetting, zoneDetails] = await Promise.all([
@@ -93,6 +119,7 @@ export function useDomainsData() {
 					console.error(`Error loading SSL setting for zone ${zoneId}:`, err);
 					const { addLog } = useTaskStore.getState();
 					addLog(`Failed to load SSL for zone ${zoneId}`, 'error');
+					setLoadError(setSSLErrors, cacheKey, err);
 					return null;
 				}),
 				api.getZone(zoneId).catch(err => {
@@ -119,9 +146,13 @@ export function useDomainsData() {
 				setDNSRecords(zoneId, accountId, records);
 			}
 
+			setLoadError(setDnsErrors, cacheKey);
+			if (sslSetting) setLoadError(setSSLErrors, cacheKey);
+
 			return { records, sslSetting, zoneDetails };
 		} catch (error) {
 			console.error(`Error loading DNS records for zone ${zoneId}:`, error);
+			setLoadError(setDnsErrors, cacheKey, error);
 			const { setDNSRecords } = useCloudflareCache.getState();
 			setDNSRecords(zoneId, accountId, []);
 			return null;
@@ -132,27 +163,6 @@ export function useDomainsData() {
 		}
 	}, [accounts]);
 
-	// Helper to check task status and handle pause/stop
-	const checkTaskStatus = async () => {
-		const { status } = useTaskStore.getState();
-
-		if (status === 'stopped') {
-			throw new Error('Task stopped by user');
-		}
-
-		if (status === 'paused') {
-			// Poll until resumed or stopped
-			while (useTaskStore.getState().status === 'paused') {
-				await new Promise(resolve => setTimeout(resolve, 500));
-			}
-			// Check again after pause loop
-			if (useTaskStore.getState().status === 'stopped') {
-				throw new Error('Task stopped by user');
-			}
-		}
-	};
-
-
 	const loadDNSRecordsProgressively = useCallback(async (forceRefresh = false, targetAccountId?: string) => {
 		// Read zones directly from store to avoid stale closure values
 		const currentZones = useCloudflareCache.getState().zones;
@@ -238,7 +248,7 @@ export function useDomainsData() {
 				let processedZones = 0;
 				const totalZones = zonesToLoad.length;
 				// Shared buffer for batching updates
-				const pendingUpdates: { zoneId: string; accountId: string; records: any[] }[] = [];
+				const pendingUpdates: { zoneId: string; accountId: string; records: DNSRecord[] }[] = [];
 				const { batchSetDNSRecords } = useCloudflareCache.getState();
 
 				// Group zones by account to optimize API usage
@@ -373,7 +383,7 @@ export function useDomainsData() {
 					if (forceRefresh) await checkTaskStatus();
 
 					try {
-						const api = new CloudflareAPI(account.apiToken);
+						const api = new CloudflareAPI(account);
 						const zonesData = await api.getZones();
 
 						if (forceRefresh) {
@@ -481,7 +491,7 @@ export function useDomainsData() {
 				accountsToLoad,
 				async (account) => {
 					try {
-						const api = new CloudflareAPI(account.apiToken);
+						const api = new CloudflareAPI(account);
 						const zonesData = await api.getZones();
 						addLog(`Loaded ${zonesData.length} zones for ${account.name || account.email}`, 'info');
 
@@ -550,7 +560,7 @@ export function useDomainsData() {
 		// Clear old DNS data and set loading states for zones being refreshed
 		const loadingStates: Record<string, boolean> = {};
 		const cacheKeysToClear: string[] = [];
-		const pendingUpdates: { zoneId: string; accountId: string; records: any[] }[] = [];
+		const pendingUpdates: { zoneId: string; accountId: string; records: DNSRecord[] }[] = [];
 		const { batchSetDNSRecords } = useCloudflareCache.getState();
 
 		zonesToRefresh.forEach(({ zone, accountId }) => {
@@ -601,7 +611,7 @@ export function useDomainsData() {
 							setDnsLoadingStates(prev => ({ ...prev, [cacheKey]: true }));
 
 							try {
-								const api = new CloudflareAPI(account.apiToken);
+								const api = new CloudflareAPI(account);
 								const records = await api.getDNSRecords(zone.id);
 
 								processedZones++;
@@ -610,6 +620,7 @@ export function useDomainsData() {
 									updateProgress(percent, processedZones);
 								}
 
+								setLoadError(setDnsErrors, cacheKey);
 								// Add to batch
 								pendingUpdates.push({ zoneId: zone.id, accountId, records });
 
@@ -620,6 +631,7 @@ export function useDomainsData() {
 									batchSetDNSRecords(batch);
 								}
 							} catch (error) {
+								setLoadError(setDnsErrors, cacheKey, error);
 								addLog(`Error loading DNS for ${zone.name}: ${error instanceof Error ? error.message : String(error)}`, 'error');
 								console.error(`Error loading DNS for ${zone.name}:`, error);
 							} finally {
@@ -694,7 +706,7 @@ export function useDomainsData() {
 		try {
 			let processedZones = 0;
 			const totalZones = zonesToRefresh.length;
-			const pendingUpdates: { zoneId: string; accountId: string; certificates: any[]; sslSetting: any }[] = [];
+			const pendingUpdates: { zoneId: string; accountId: string; certificates: SSLCertificate[]; sslSetting: SSLSetting | null }[] = [];
 			const { batchSetSSLData } = useCloudflareCache.getState();
 
 			// Group zones by account
@@ -726,7 +738,7 @@ export function useDomainsData() {
 							loadingSSLRef.current.add(cacheKey);
 
 							try {
-								const api = new CloudflareAPI(account.apiToken);
+								const api = new CloudflareAPI(account);
 								// Fetch SSL setting
 								const sslSetting = await api.getSSLSetting(zone.id);
 
@@ -738,6 +750,7 @@ export function useDomainsData() {
 									updateProgress(percent, processedZones);
 								}
 
+								setLoadError(setSSLErrors, cacheKey);
 								if (sslSetting) {
 									// Add to batch
 									pendingUpdates.push({ zoneId: zone.id, accountId, certificates: [], sslSetting });
@@ -752,6 +765,7 @@ export function useDomainsData() {
 							} catch (error) {
 								// Explicit log for individual failures to ensure visibility
 								console.error(`Error fetching SSL for ${zone.name}:`, error);
+								setLoadError(setSSLErrors, cacheKey, error);
 								// Don't show toast for every error to avoid spamming
 								addLog(`Failed SSL fetch for ${zone.name}: ${error instanceof Error ? error.message : String(error)}`, 'error');
 							} finally {
@@ -787,6 +801,99 @@ export function useDomainsData() {
 		}
 	}, [accounts]);
 
+	// Load the last 24 hours of requests for all zones, one batched GraphQL query per 10 zones
+	const refreshRequests24h = useCallback(async (targetAccountId?: string) => {
+		const currentZones = useCloudflareCache.getState().zones;
+		if (currentZones.length === 0) {
+			toast.error('No zones to refresh. Load zones first.');
+			return;
+		}
+
+		const zonesToRefresh = currentZones.filter(item =>
+			!targetAccountId || item.accountId === targetAccountId
+		);
+
+		if (zonesToRefresh.length === 0) return;
+
+		const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+		const { batchSetZoneRequests } = useCloudflareCache.getState();
+		startTask('refresh_requests', 'Loading requests for the last 24 hours', zonesToRefresh.length);
+		setIsRequestsLoading(true);
+
+		try {
+			let processedZones = 0;
+			let failedAccounts = 0;
+
+			const zonesByAccount: Record<string, typeof zonesToRefresh> = {};
+			zonesToRefresh.forEach(z => {
+				if (!zonesByAccount[z.accountId]) {
+					zonesByAccount[z.accountId] = [];
+				}
+				zonesByAccount[z.accountId].push(z);
+			});
+
+			await processInParallel(
+				Object.entries(zonesByAccount),
+				async ([accountId, accountZones]) => {
+					await checkTaskStatus();
+
+					const account = accounts.find(acc => acc.id === accountId);
+					if (!account) return;
+
+					// The GraphQL query would only fail for tokens without Analytics Read
+					if (!canPerform(await loadTokenCapabilities(account), 'analyticsRead')) {
+						batchSetZoneRequests(accountZones.map(({ zone }) => ({ zoneId: zone.id, accountId, requests: null })));
+						addLog(`Skipped requests for ${account.name || account.email}: ${getMissingCapabilityMessage('analyticsRead')}`, 'info');
+						processedZones += accountZones.length;
+						updateProgress(Math.round((processedZones / zonesToRefresh.length) * 100), processedZones);
+						return;
+					}
+
+					const api = new CloudflareAPI(account);
+					// Smaller slices than the query batch so progress moves on accounts with many zones
+					for (let i = 0; i < accountZones.length; i += 50) {
+						await checkTaskStatus();
+						const slice = accountZones.slice(i, i + 50);
+						try {
+							const counts = await api.getZoneRequestCounts(slice.map(({ zone }) => zone.id));
+							batchSetZoneRequests(slice.map(({ zone }) => ({
+								zoneId: zone.id,
+								accountId,
+								requests: counts[zone.id] ?? null,
+							})));
+						} catch (error) {
+							batchSetZoneRequests(slice.map(({ zone }) => ({ zoneId: zone.id, accountId, requests: null })));
+							addLog(`Failed to load requests for ${account.name || account.email}: ${formatCloudflareError(error)}`, 'error');
+							failedAccounts++;
+							break;
+						}
+						processedZones += slice.length;
+						updateProgress(Math.round((processedZones / zonesToRefresh.length) * 100), processedZones);
+					}
+				},
+				5 // Concurrency of accounts
+			);
+
+			if (failedAccounts > 0) {
+				toast.warning(`Requests could not be loaded for ${failedAccounts} account${failedAccounts !== 1 ? 's' : ''}`);
+			} else {
+				toast.success(`Loaded requests for ${zonesToRefresh.length} zone${zonesToRefresh.length !== 1 ? 's' : ''}`);
+			}
+			addLog(`Loaded requests for ${processedZones} zones`, 'success');
+			completeTask();
+		} catch (error) {
+			const errorMsg = error instanceof Error ? error.message : String(error);
+			if (errorMsg === 'Task stopped by user') {
+				useTaskStore.getState().addLog('Task stopped by user', 'error');
+			} else {
+				failTask(`Failed to load requests: ${errorMsg}`);
+				toast.error('Failed to load requests');
+			}
+		} finally {
+			setIsRequestsLoading(false);
+		}
+	}, [accounts]);
+
 	useEffect(() => {
 		if (!accountsLoading && accounts.length > 0) {
 			// Only load DNS records progressively if zones are already cached
@@ -800,15 +907,17 @@ export function useDomainsData() {
 
 	return {
 		enrichedZones,
-		isLoading: isLoading.zones || isDnsLoading || isSSLLoading,
+		isLoading: isLoading.zones || isDnsLoading || isSSLLoading || isRequestsLoading,
 		isZonesLoading: isLoading.zones,
 		isDnsLoading,
 		isSSLLoading,
+		isRequestsLoading,
 		loadZones,
 		loadDNSForZone,
 		refreshZonesOnly,
 		refreshAllDNS,
 		refreshAllSSL,
+		refreshRequests24h,
 		accountsLoading,
 		accounts
 	};
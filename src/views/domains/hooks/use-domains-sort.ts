@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import type { ZoneWithDNS } from './use-domains-data';
 
-export type SortField = 'name' | 'status' | 'account' | 'created' | 'rootARecord' | 'proxied' | 'sslTls';
+export type SortField = 'name' | 'status' | 'account' | 'created' | 'rootARecord' | 'proxied' | 'sslTls' | 'requests24h';
 export type SortDirection = 'asc' | 'desc';
 
 export function useDomainsSort(zones: ZoneWithDNS[], sortField: SortField, sortDirection: SortDirection) {
@@ -24,8 +24,8 @@ export function useDomainsSort(zones: ZoneWithDNS[], sortField: SortField, sortD
 										bValue = b.accountEmail.toLowerCase();
 										break;
 								case 'created':
-										aValue = new Date(a.zone.created_on).getTime();
-										bValue = new Date(b.zone.created_on).getTime();
+										aValue = a.zone.created_on ? new Date(a.zone.created_on).getTime() : 0;
+										bValue = b.zone.created_on ? new Date(b.zone.created_on).getTime() : 0;
 										break;
 								case 'rootARecord':
 										aValue = a.rootARecords?.[0]?.content || '';
@@ -39,6 +39,11 @@ export function useDomainsSort(zones: ZoneWithDNS[], sortField: SortField, sortD
 										aValue = a.sslMode || 'strict';
 										bValue = b.sslMode || 'strict';
 										break;
+								case 'requests24h':
+										// Zones without data sort below zones with no traffic
+										aValue = a.requests24h ?? -1;
+										bValue = b.requests24h ?? -1;
+										break;
 								default:
 										return 0;
 						}
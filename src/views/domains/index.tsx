@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Globe, Search, RefreshCw, CheckCircle2, X, Copy, ShieldCheck, Network, Lock } from 'lucide-react';
+import { Globe, Search, RefreshCw, CheckCircle2, X, Copy, ShieldCheck, Network, Lock, Eraser, BarChart3, ShieldAlert } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ButtonGroup } from '@/components/ui/button-group';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -30,6 +30,11 @@ import { BulkDeleteDomainsDialog } from './components/bulk-delete-domains-dialog
 import { BulkEditSSLDialog } from './components/bulk-edit-ssl-dialog';
 import { AIBotsProtectionDialog } from './components/ai-bots-protection-dialog';
 import { BulkSetNameserversDialog } from './components/bulk-set-nameservers-dialog';
+import { BulkApplyProfileDialog } from './components/bulk-apply-profile-dialog';
+import { BulkWAFRulesDialog } from './components/bulk-waf-rules-dialog';
+import { PurgeCacheDialog } from '@/components/cache/purge-cache-dialog';
+import { ZoneAnalyticsDialog } from '@/components/analytics/zone-analytics-dialog';
+import { SecurityEventsDialog } from '@/components/security/security-events-dialog';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { toast } from 'sonner';
 import { cn, createRateLimiter, copyToClipboard } from '@/lib/utils';
@@ -45,7 +50,7 @@ import {
 
 export default function DomainsPage() {
   const router = useRouter();
-  const { enrichedZones, isLoading, isZonesLoading, isDnsLoading, isSSLLoading, loadZones, loadDNSForZone, refreshZonesOnly, refreshAllDNS, refreshAllSSL, accountsLoading, accounts } = useDomainsData();
+  const { enrichedZones, isLoading, isZonesLoading, isDnsLoading, isSSLLoading, loadZones, loadDNSForZone, refreshZonesOnly, refreshAllDNS, refreshAllSSL, refreshRequests24h, accountsLoading, accounts } = useDomainsData();
   const { zones, isCacheValid, clearCache } = useCloudflareCache();
   const refreshToastId = useRef<string | number | null>(null);
 
@@ -229,6 +234,14 @@ export default function DomainsPage() {
     }
   }, [refreshAllSSL, selectedAccount]);
 
+  const handleRefreshRequests = useCallback(() => {
+    if (selectedAccount && selectedAccount !== 'all') {
+      refreshRequests24h(selectedAccount);
+    } else {
+      refreshRequests24h();
+    }
+  }, [refreshRequests24h, selectedAccount]);
+
   const handleDomainDeleted = useCallback((zoneId: string, accountId: string) => {
     const { removeZone } = useCloudflareCache.getState();
     removeZone(zoneId, accountId);
@@ -444,6 +457,23 @@ export default function DomainsPage() {
                     <TooltipContent>Refresh SSL settings</TooltipContent>
                   </Tooltip>
 
+                  {columnVisibility.requests24h && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          onClick={handleRefreshRequests}
+                          disabled={isLoading}
+                          variant="outline"
+                          size="sm"
+                          className="px-2"
+                        >
+                          <BarChart3 className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Refresh requests (24h)</TooltipContent>
+                    </Tooltip>
+                  )}
+
                 </TooltipProvider>
               </ButtonGroup>
 
@@ -520,6 +550,42 @@ export default function DomainsPage() {
                     </Button>
                   }
                 />
+                <BulkApplyProfileDialog
+                  selectedZones={selectedZones}
+                  onComplete={() => clear()}
+                />
+                <BulkWAFRulesDialog
+                  selectedZones={selectedZones}
+                  onComplete={() => clear()}
+                />
+                <PurgeCacheDialog
+                  zones={selectedZones.map(item => ({ zoneId: item.zone.id, zoneName: item.zone.name, accountId: item.accountId }))}
+                  onComplete={() => clear()}
+                  trigger={
+                    <Button size="sm" variant="outline" className="gap-2">
+                      <Eraser className="h-3.5 w-3.5" />
+                      Purge cache
+                    </Button>
+                  }
+                />
+                <ZoneAnalyticsDialog
+                  zones={selectedZones.map(item => ({ zoneId: item.zone.id, zoneName: item.zone.name, accountId: item.accountId }))}
+                  trigger={
+                    <Button size="sm" variant="outline" className="gap-2">
+                      <BarChart3 className="h-3.5 w-3.5" />
+                      Analytics
+                    </Button>
+                  }
+                />
+                <SecurityEventsDialog
+                  zones={selectedZones.map(item => ({ zoneId: item.zone.id, zoneName: item.zone.name, accountId: item.accountId }))}
+                  trigger={
+                    <Button size="sm" variant="outline" className="gap-2">
+                      <ShieldAlert className="h-3.5 w-3.5" />
+                      Security events
+                    </Button>
+                  }
+                />
                 <BulkDeleteDomainsDialog
                   selectedZones={selectedZones}
                   onComplete={() => {
@@ -0,0 +1,179 @@
+import { useCallback, useMemo } from 'react';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import {
+  REJECT_ALL_DMARC,
+  REJECT_ALL_SPF,
+  auditEmailRecords,
+  canApplyRejectAllTemplate,
+  unquoteTXT,
+  type EmailHygieneReport,
+} from '@/lib/email-hygiene';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { processInParallel, formatCloudflareError } from '@/lib/utils';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import type { DNSRecord, TokenCapability } from '@/types/cloudflare';
+
+export interface EmailHygieneRow {
+  key: string;
+  zone: any;
+  accountId: string;
+  accountName: string;
+  report: EmailHygieneReport;
+  lastChecked: number | null;
+}
+
+// DNS listing is paginated, so large zones cost several requests each
+const LOAD_CONCURRENCY = 4;
+
+export function useEmailHygiene() {
+  const { accounts } = useAccountStore();
+  const zones = useCloudflareCache((s) => s.zones);
+  const dnsRecords = useCloudflareCache((s) => s.dnsRecords);
+  const dnsRecordsLastUpdated = useCloudflareCache((s) => s.dnsRecordsLastUpdated);
+
+  const rows = useMemo<EmailHygieneRow[]>(() => zones.map((zoneData) => {
+    const key = `${zoneData.zone.id}-${zoneData.accountId}`;
+    return {
+      key,
+      zone: zoneData.zone,
+      accountId: zoneData.accountId,
+      accountName: zoneData.accountName,
+      report: auditEmailRecords(zoneData.zone.name, dnsRecords[key]?.records),
+      lastChecked: dnsRecordsLastUpdated[key] ?? null,
+    };
+  }), [zones, dnsRecords, dnsRecordsLastUpdated]);
+
+  const getAPI = useCallback((row: EmailHygieneRow) => {
+    const account = accounts.find(acc => acc.id === row.accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    return new CloudflareAPI(account);
+  }, [accounts]);
+
+  // Throws so the bulk loop logs the zone as failed, like any other API error
+  const requireCapability = useCallback(async (row: { accountId: string }, capability: TokenCapability) => {
+    const account = accounts.find(acc => acc.id === row.accountId);
+    if (account && !canPerform(await loadTokenCapabilities(account), capability)) {
+      throw new Error(getMissingCapabilityMessage(capability));
+    }
+  }, [accounts]);
+
+  const loadDNS = useCallback(async (targetRows: EmailHygieneRow[]) => {
+    if (targetRows.length === 0) return;
+
+    const { startTask, addLog, updateProgress, completeTask } = useTaskStore.getState();
+    startTask('refresh_dns', `Loading DNS records of ${targetRows.length} zone${targetRows.length !== 1 ? 's' : ''}`, targetRows.length);
+
+    let processed = 0;
+    let failCount = 0;
+
+    await processInParallel(targetRows, async (row) => {
+      await checkTaskStatus();
+      try {
+        const records = await getAPI(row).getDNSRecords(row.zone.id);
+        useCloudflareCache.getState().setDNSRecords(row.zone.id, row.accountId, records);
+      } catch (error) {
+        failCount++;
+        addLog(`${row.zone.name}: ${formatCloudflareError(error)}`, 'error');
+      } finally {
+        processed++;
+        updateProgress(Math.round((processed / targetRows.length) * 100), processed);
+      }
+    }, LOAD_CONCURRENCY);
+
+    if (useTaskStore.getState().status === 'stopped') return;
+
+    addLog(`Loaded ${processed - failCount} zones, ${failCount} failed`, failCount > 0 ? 'info' : 'success');
+    completeTask();
+  }, [getAPI]);
+
+  /**
+   * Makes sure exactly one record of a kind exists at `name` with `content`: the first match
+   * is updated, extra matches are deleted and a record is created if there was none.
+   */
+  const upsertTXT = useCallback(async (
+    api: CloudflareAPI,
+    zoneId: string,
+    records: DNSRecord[],
+    name: string,
+    matches: (content: string) => boolean,
+    content: string
+  ) => {
+    const existing = records.filter(record => record.type === 'TXT' && record.name.toLowerCase() === name && matches(unquoteTXT(record.content)));
+    const [first, ...extra] = existing;
+
+    if (!first) {
+      await api.createDNSRecord(zoneId, { type: 'TXT', name, content, ttl: 1 });
+    } else if (unquoteTXT(first.content) !== content) {
+      await api.updateDNSRecord(zoneId, first.id, { ...first, content });
+    }
+    for (const record of extra) {
+      await api.deleteDNSRecord(zoneId, record.id);
+    }
+  }, []);
+
+  const applyRejectAll = useCallback(async (targetRows: EmailHygieneRow[]) => {
+    if (targetRows.length === 0) return;
+
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+    startTask('apply_email_template', `Applying reject-all SPF/DMARC to ${targetRows.length} zone${targetRows.length !== 1 ? 's' : ''}`, targetRows.length);
+
+    let successCount = 0;
+    let skipCount = 0;
+    let failCount = 0;
+
+    try {
+      for (let i = 0; i < targetRows.length; i++) {
+        await checkTaskStatus();
+
+        const row = targetRows[i];
+        try {
+          await requireCapability(row, 'dnsEdit');
+          const api = getAPI(row);
+          const zoneName = row.zone.name.toLowerCase();
+          // The cache can be stale; never put a reject-all policy on a zone that has started receiving mail
+          const records = await api.getDNSRecords(row.zone.id);
+          const report = auditEmailRecords(zoneName, records);
+
+          if (!canApplyRejectAllTemplate(report)) {
+            skipCount++;
+            addLog(`${row.zone.name}: skipped, ${report.state === 'parked' ? 'already parked' : 'has MX records'}`, 'info');
+            useCloudflareCache.getState().setDNSRecords(row.zone.id, row.accountId, records);
+          } else {
+            await upsertTXT(api, row.zone.id, records, zoneName, content => /^v=spf1(\s|$)/i.test(content), REJECT_ALL_SPF);
+            await upsertTXT(api, row.zone.id, records, `_dmarc.${zoneName}`, content => /^v=DMARC1\s*(;|$)/i.test(content), REJECT_ALL_DMARC);
+            useCloudflareCache.getState().setDNSRecords(row.zone.id, row.accountId, await api.getDNSRecords(row.zone.id));
+            successCount++;
+            addLog(`${row.zone.name}: reject-all template applied`, 'success');
+          }
+        } catch (error) {
+          addLog(`${row.zone.name}: ${formatCloudflareError(error)}`, 'error');
+          failCount++;
+        }
+
+        updateProgress(Math.round(((i + 1) / targetRows.length) * 100), i + 1);
+      }
+
+      addLog(
+        `Done: ${successCount} parked, ${skipCount} skipped, ${failCount} failed`,
+        failCount > 0 ? 'error' : 'success'
+      );
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        return;
+      }
+      console.error('Email template error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to apply email template');
+    }
+  }, [getAPI, requireCapability, upsertTXT]);
+
+  return {
+    rows,
+    loadDNS,
+    applyRejectAll,
+  };
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Mail, MailX, RefreshCw, Search, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { EmailRoutingDialog } from '@/components/email/email-routing-dialog';
+import {
+  EMAIL_HYGIENE_STATE_LABELS,
+  REJECT_ALL_DMARC,
+  REJECT_ALL_SPF,
+  canApplyRejectAllTemplate,
+  type EmailHygieneState,
+} from '@/lib/email-hygiene';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore } from '@/store/task-store';
+import { useEmailHygiene, type EmailHygieneRow } from './hooks/use-email-hygiene';
+
+const STATE_BADGE_VARIANTS: Record<EmailHygieneState, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  unknown: 'outline',
+  ok: 'default',
+  parked: 'secondary',
+  warning: 'outline',
+  error: 'destructive',
+};
+
+const renderValues = (values: string[]) =>
+  values.length === 0 ? (
+    <span className="text-muted-foreground">—</span>
+  ) : (
+    <div className="space-y-0.5">
+      {values.map((value, index) => (
+        <div key={index} className="truncate max-w-[240px]" title={value}>{value}</div>
+      ))}
+    </div>
+  );
+
+export default function EmailPage() {
+  const router = useRouter();
+  const { accounts } = useAccountStore();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedAccount, setSelectedAccount] = useState('all');
+  const [stateFilter, setStateFilter] = useState<EmailHygieneState | 'all'>('all');
+  const [routingRow, setRoutingRow] = useState<EmailHygieneRow | null>(null);
+  const tokenCapabilities = useCloudflareCache((s) => s.tokenCapabilities);
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+  const { rows, loadDNS, applyRejectAll } = useEmailHygiene();
+
+  // Rows span every credential, so check the ones that have never been introspected
+  useEffect(() => {
+    accounts
+      .filter(account => account.category === 'cloudflare')
+      .forEach(account => { void loadTokenCapabilities(account); });
+  }, [accounts]);
+
+  const filteredRows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return rows
+      .filter(row => selectedAccount === 'all' || row.accountId === selectedAccount)
+      .filter(row => stateFilter === 'all' || row.report.state === stateFilter)
+      .filter(row => !term || row.zone.name.toLowerCase().includes(term) || row.accountName?.toLowerCase().includes(term))
+      .sort((a, b) => a.zone.name.localeCompare(b.zone.name));
+  }, [rows, selectedAccount, stateFilter, searchTerm]);
+
+  const stats = useMemo(() => ({
+    total: rows.length,
+    checked: rows.filter(row => row.report.state !== 'unknown').length,
+    errors: rows.filter(row => row.report.state === 'error').length,
+    parked: rows.filter(row => row.report.state === 'parked').length,
+  }), [rows]);
+
+  // Capabilities belong to the row's credential, so the routing button is gated per row
+  const routingBlockedReason = (row: EmailHygieneRow) =>
+    canPerform(tokenCapabilities[row.accountId], 'emailRoutingEdit') ? undefined : getMissingCapabilityMessage('emailRoutingEdit');
+
+  const parkTargets = filteredRows.filter(row => canApplyRejectAllTemplate(row.report));
+
+  const handlePark = () => {
+    const confirmed = window.confirm(
+      `Set SPF to "${REJECT_ALL_SPF}" and DMARC to "${REJECT_ALL_DMARC}" on ${parkTargets.length} zone${parkTargets.length !== 1 ? 's' : ''} without MX records? Existing SPF and DMARC records are replaced.`
+    );
+    if (confirmed) {
+      void applyRejectAll(parkTargets);
+    }
+  };
+
+  if (accounts.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">No Cloudflare Accounts</h2>
+            <p className="text-muted-foreground mb-4">
+              Add a Cloudflare credential and load zones on the Cloudflare page before checking email records.
+            </p>
+            <Button onClick={() => router.push('/credentials')}>
+              Manage Credentials
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sticky top-0 z-20 bg-background/95 backdrop-blur-sm border-b py-3 -mx-6 px-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-bold">Email</h1>
+            <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+              <span className="px-2 py-0.5 bg-muted/50 rounded border border-border/50">
+                <span className="text-foreground font-semibold">{stats.checked}</span>
+                <span className="text-muted-foreground">/</span>
+                <span>{stats.total}</span>
+                <span className="text-muted-foreground ml-1">checked</span>
+              </span>
+              <span className="px-2 py-0.5 bg-muted/50 rounded border border-border/50">
+                <span className="text-foreground font-semibold">{stats.parked}</span>
+                <span className="text-muted-foreground ml-1">parked</span>
+              </span>
+              {stats.errors > 0 && (
+                <span className="px-2 py-0.5 bg-destructive/10 text-destructive rounded border border-destructive/20">
+                  <span className="font-semibold">{stats.errors}</span>
+                  <span className="ml-1">with problems</span>
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2 flex-nowrap">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Search domains, Cloudflare accounts"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-10 w-72"
+              />
+              {searchTerm && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-6 w-6 p-0 hover:bg-muted"
+                  onClick={() => setSearchTerm('')}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+
+            <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+              <SelectTrigger className="w-xsh-9">
+                <SelectValue placeholder="All Accounts" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                <SelectItem value="all">All Accounts</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name || account.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={stateFilter} onValueChange={(value) => setStateFilter(value as EmailHygieneState | 'all')}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                <SelectItem value="all">All states</SelectItem>
+                {(Object.keys(EMAIL_HYGIENE_STATE_LABELS) as EmailHygieneState[]).map(state => (
+                  <SelectItem key={state} value={state}>{EMAIL_HYGIENE_STATE_LABELS[state]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => { void loadDNS(filteredRows); }}
+              disabled={isTaskRunning || filteredRows.length === 0}
+              title="Reload DNS records of the listed zones"
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+              Load DNS {filteredRows.length}
+            </Button>
+            <Button
+              size="sm"
+              onClick={handlePark}
+              disabled={isTaskRunning || parkTargets.length === 0}
+              title="Apply the reject-all SPF/DMARC template to listed zones without MX records"
+            >
+              <MailX className="h-3.5 w-3.5" />
+              Park {parkTargets.length}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {filteredRows.length === 0 ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <Mail className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>{rows.length === 0 ? 'No cached zones' : 'No zones match'}</EmptyTitle>
+            <EmptyDescription>
+              {rows.length === 0
+                ? 'Load zones on the Cloudflare page first; email records are checked against cached DNS records.'
+                : 'Adjust the search, account or state filter.'}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <Card className="p-0">
+          <div className="overflow-x-auto">
+            <TooltipProvider>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[200px]">Domain</TableHead>
+                    <TableHead>MX</TableHead>
+                    <TableHead>SPF</TableHead>
+                    <TableHead>DMARC</TableHead>
+                    <TableHead>DKIM</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[110px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRows.map(row => (
+                    <TableRow key={row.key}>
+                      <TableCell>
+                        <div className="font-medium">{row.zone.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.accountName}
+                          {row.lastChecked && (
+                            <span className="ml-2">· {new Date(row.lastChecked).toLocaleString()}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {renderValues(row.report.mx)}
+                        {row.report.usesEmailRouting && (
+                          <Badge variant="outline" className="text-[10px] mt-1">Email Routing</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">{renderValues(row.report.spf)}</TableCell>
+                      <TableCell className="text-xs font-mono">{renderValues(row.report.dmarc)}</TableCell>
+                      <TableCell className="text-xs font-mono">{renderValues(row.report.dkimSelectors)}</TableCell>
+                      <TableCell>
+                        {row.report.issues.length > 0 ? (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant={STATE_BADGE_VARIANTS[row.report.state]}>
+                                {EMAIL_HYGIENE_STATE_LABELS[row.report.state]} ({row.report.issues.length})
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent className="text-xs">
+                              {row.report.issues.map((issue, index) => (
+                                <div key={index}>{issue.severity === 'error' ? '✕' : '!'} {issue.message}</div>
+                              ))}
+                            </TooltipContent>
+                          </Tooltip>
+                        ) : (
+                          <Badge variant={STATE_BADGE_VARIANTS[row.report.state]}>{EMAIL_HYGIENE_STATE_LABELS[row.report.state]}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRoutingRow(row)}
+                          disabled={!!routingBlockedReason(row)}
+                          title={routingBlockedReason(row)}
+                        >
+                          <Mail className="h-3.5 w-3.5" />
+                          Routing
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TooltipProvider>
+          </div>
+        </Card>
+      )}
+
+      {routingRow && (
+        <EmailRoutingDialog
+          open={!!routingRow}
+          onOpenChange={(open) => { if (!open) setRoutingRow(null); }}
+          account={accounts.find(acc => acc.id === routingRow.accountId)}
+          cfAccountId={routingRow.zone.account?.id}
+          zoneId={routingRow.zone.id}
+          zoneName={routingRow.zone.name}
+          onChanged={() => { void loadDNS([routingRow]); }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	CONTACT_FIELD_LABELS,
+	EMPTY_CONTACT,
+	normalizeRegistrarContact,
+	validateRegistrarContact,
+} from '@/lib/registrar-contacts';
+import { useContactProfileStore } from '@/store/contact-profile-store';
+import type { RegistrarContact, RegistrarContactProfile } from '@/types/registrar';
+
+interface ContactProfileDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	// Edits this profile when set, otherwise creates a new one
+	profile?: RegistrarContactProfile;
+	onSaved?: (profile: RegistrarContactProfile) => void;
+}
+
+const FIELD_LAYOUT: { field: keyof RegistrarContact; placeholder?: string; wide?: boolean }[] = [
+	{ field: 'firstName' },
+	{ field: 'lastName' },
+	{ field: 'organization', placeholder: 'Optional', wide: true },
+	{ field: 'address1', wide: true },
+	{ field: 'address2', placeholder: 'Optional', wide: true },
+	{ field: 'city' },
+	{ field: 'stateProvince' },
+	{ field: 'postalCode' },
+	{ field: 'country', placeholder: 'US' },
+	{ field: 'phone', placeholder: '+1.5555550100' },
+	{ field: 'email', placeholder: 'hostmaster@example.com' },
+];
+
+export function ContactProfileDialog({ open, onOpenChange, profile, onSaved }: ContactProfileDialogProps) {
+	const { addProfile, updateProfile } = useContactProfileStore();
+	const [name, setName] = useState('');
+	const [contact, setContact] = useState<RegistrarContact>(EMPTY_CONTACT);
+
+	useEffect(() => {
+		if (!open) return;
+		setName(profile?.name ?? '');
+		setContact({ ...EMPTY_CONTACT, ...profile?.contact });
+	}, [open, profile]);
+
+	const setField = (field: keyof RegistrarContact, value: string) =>
+		setContact((prev) => ({ ...prev, [field]: value }));
+
+	const handleSave = () => {
+		if (!name.trim()) {
+			toast.error('Please name the contact profile');
+			return;
+		}
+
+		const normalized = normalizeRegistrarContact(contact);
+		const error = validateRegistrarContact(normalized);
+		if (error) {
+			toast.error(error);
+			return;
+		}
+
+		let saved: RegistrarContactProfile;
+		if (profile) {
+			updateProfile(profile.id, { name: name.trim(), contact: normalized });
+			saved = { ...profile, name: name.trim(), contact: normalized };
+		} else {
+			saved = addProfile(name.trim(), normalized);
+		}
+		toast.success(`Saved contact profile "${saved.name}"`);
+		onSaved?.(saved);
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-xl">
+				<DialogHeader>
+					<DialogTitle>{profile ? 'Edit Contact Profile' : 'New Contact Profile'}</DialogTitle>
+					<DialogDescription>
+						Used as the registrant, admin, tech and billing contact. Registrars publish or verify these
+						details, so they must be real.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="contact-profile-name">Profile name</Label>
+						<Input
+							id="contact-profile-name"
+							placeholder="Company contact"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+						/>
+					</div>
+
+					<div className="grid grid-cols-2 gap-3">
+						{FIELD_LAYOUT.map(({ field, placeholder, wide }) => (
+							<div key={field} className={wide ? 'col-span-2 space-y-1.5' : 'space-y-1.5'}>
+								<Label htmlFor={`contact-${field}`} className="text-xs">{CONTACT_FIELD_LABELS[field]}</Label>
+								<Input
+									id={`contact-${field}`}
+									placeholder={placeholder}
+									value={contact[field] ?? ''}
+									onChange={(e) => setField(field, e.target.value)}
+								/>
+							</div>
+						))}
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleSave}>Save Profile</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,432 @@
+'use client';
+
+import { useState } from 'react';
+import { Edit, FileDiff, ListTree, Loader2, Plus, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import {
+	Drawer,
+	DrawerContent,
+	DrawerDescription,
+	DrawerHeader,
+	DrawerTitle,
+} from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { getRegistrarLabel } from '@/lib/registrars';
+import {
+	DEFAULT_HOST_RECORD_TTL,
+	HOST_RECORD_TYPES,
+	type HostRecordChange,
+	type HostRecordChangeAction,
+} from '@/lib/registrar-host-records';
+import type { RegistrarHostRecord, UnifiedDomain } from '@/types/registrar';
+import { useHostRecords } from '../hooks/use-host-records';
+
+type HostRecordsDrawerProps = {
+	domain: UnifiedDomain;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+const TTL_OPTIONS = [
+	{ value: DEFAULT_HOST_RECORD_TTL, label: 'Automatic' },
+	{ value: 60, label: '1 min' },
+	{ value: 300, label: '5 min' },
+	{ value: 1200, label: '20 min' },
+	{ value: 1800, label: '30 min' },
+	{ value: 3600, label: '1 hour' },
+	{ value: 43200, label: '12 hours' },
+];
+
+const ACTION_VARIANTS: Record<HostRecordChangeAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+	add: 'default',
+	change: 'secondary',
+	remove: 'destructive',
+	keep: 'outline',
+};
+
+const emptyRecord = (): RegistrarHostRecord => ({
+	name: '@',
+	type: 'A',
+	address: '',
+	ttl: DEFAULT_HOST_RECORD_TTL,
+	mxPref: 10,
+});
+
+const formatTTL = (ttl: number) => TTL_OPTIONS.find((option) => option.value === ttl)?.label ?? `${ttl}s`;
+
+const formatAddress = (record: RegistrarHostRecord) =>
+	record.type === 'MX' && record.mxPref !== undefined ? `${record.mxPref} ${record.address}` : record.address;
+
+export function HostRecordsDrawer({ domain, open, onOpenChange }: HostRecordsDrawerProps) {
+	const {
+		account,
+		isUsingOurDNS,
+		draft,
+		changes,
+		hasChanges,
+		isLoading,
+		isSaving,
+		error,
+		load,
+		save,
+		addRecord,
+		updateRecord,
+		removeRecord,
+		resetDraft,
+	} = useHostRecords(domain);
+
+	// Index into the draft being edited, 'new' while adding, null when the form is closed
+	const [editing, setEditing] = useState<number | 'new' | null>(null);
+	const [formData, setFormData] = useState<RegistrarHostRecord>(emptyRecord);
+	const [isReviewOpen, setIsReviewOpen] = useState(false);
+
+	const registrarLabel = getRegistrarLabel(domain.registrar);
+	const pendingChanges = changes.filter((change) => change.action !== 'keep');
+
+	const handleOpenChange = (nextOpen: boolean) => {
+		if (!nextOpen && hasChanges && !window.confirm('Discard unsaved host record changes?')) return;
+		onOpenChange(nextOpen);
+	};
+
+	const openForm = (index: number | 'new') => {
+		setFormData(index === 'new' ? emptyRecord() : { mxPref: 10, ...draft[index] });
+		setEditing(index);
+	};
+
+	const handleFormSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!formData.name.trim() || !formData.address.trim()) return;
+
+		const record: RegistrarHostRecord = {
+			...formData,
+			name: formData.name.trim(),
+			address: formData.address.trim(),
+			mxPref: formData.type === 'MX' ? formData.mxPref ?? 10 : undefined,
+		};
+		if (editing === 'new') addRecord(record);
+		else if (editing !== null) updateRecord(editing, record);
+		setEditing(null);
+	};
+
+	const handleSave = async () => {
+		if (await save()) setIsReviewOpen(false);
+	};
+
+	// planHostRecordChanges lists draft records first, in draft order
+	const getRowAction = (index: number) => changes[index]?.action ?? 'keep';
+
+	const renderChangeRow = (change: HostRecordChange, index: number) => (
+		<TableRow key={index} className={change.action === 'keep' ? 'opacity-60' : undefined}>
+			<TableCell>
+				<Badge variant={ACTION_VARIANTS[change.action]} className="text-xs capitalize">
+					{change.action}
+				</Badge>
+			</TableCell>
+			<TableCell className="text-xs font-mono">{change.record.type}</TableCell>
+			<TableCell className="text-xs font-mono break-all">{change.record.name}</TableCell>
+			<TableCell className="text-xs font-mono break-all">
+				{change.previous && !(change.previous.address === change.record.address && change.previous.mxPref === change.record.mxPref) && (
+					<span className="block text-muted-foreground line-through">{formatAddress(change.previous)}</span>
+				)}
+				<span className={change.action === 'remove' ? 'line-through' : undefined}>{formatAddress(change.record)}</span>
+			</TableCell>
+			<TableCell className="text-xs">
+				{change.previous && change.previous.ttl !== change.record.ttl && (
+					<span className="block text-muted-foreground line-through">{formatTTL(change.previous.ttl)}</span>
+				)}
+				{formatTTL(change.record.ttl)}
+			</TableCell>
+		</TableRow>
+	);
+
+	return (
+		<Drawer open={open} onOpenChange={handleOpenChange}>
+			<DrawerContent className="max-h-[96vh] max-w-6xl m-auto flex flex-col" closeDuration={100}>
+				<DrawerHeader className="border-b pb-3 px-4 shrink-0">
+					<DrawerTitle className="text-xl font-bold flex items-center gap-2">
+						<ListTree className="h-5 w-5 shrink-0" />
+						<span className="truncate">Host Records</span>
+					</DrawerTitle>
+					<DrawerDescription className="mt-1.5 line-clamp-2 text-sm">
+						{registrarLabel} DNS records for <strong className="font-semibold">{domain.name}</strong>
+						{account && (
+							<span className="text-muted-foreground"> ({account.name || account.email})</span>
+						)}
+					</DrawerDescription>
+				</DrawerHeader>
+
+				<div className="flex-1 min-h-0 px-4 overflow-hidden flex flex-col" style={{ height: 0 }}>
+					<div className="py-3 overflow-y-auto flex-1 space-y-3">
+						<div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+							<div className="flex items-center gap-2 text-xs">
+								<h3 className="text-base font-semibold shrink-0">Records</h3>
+								{hasChanges && (
+									<Badge variant="secondary">{pendingChanges.length} unsaved change{pendingChanges.length !== 1 ? 's' : ''}</Badge>
+								)}
+							</div>
+							<div className="flex items-center gap-2 shrink-0">
+								<Button onClick={() => void load()} disabled={isLoading || isSaving || hasChanges} variant="outline" size="sm">
+									<RefreshCw className={`h-3 w-3 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+									Refresh
+								</Button>
+								<Button onClick={resetDraft} disabled={!hasChanges || isSaving} variant="outline" size="sm">
+									<RotateCcw className="h-3 w-3 mr-1.5" />
+									Discard
+								</Button>
+								<Button onClick={() => openForm('new')} disabled={isLoading || !isUsingOurDNS} variant="outline" size="sm">
+									<Plus className="h-4 w-4 mr-1.5" />
+									Add Record
+								</Button>
+								<Button onClick={() => setIsReviewOpen(true)} disabled={!hasChanges || draft.length === 0} size="sm">
+									<FileDiff className="h-4 w-4 mr-1.5" />
+									Review Changes
+								</Button>
+							</div>
+						</div>
+
+						{isLoading && draft.length === 0 ? (
+							<div className="py-8 text-center">
+								<RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2 text-muted-foreground" />
+								<p className="text-xs text-muted-foreground">Loading host records...</p>
+							</div>
+						) : error ? (
+							<Empty className="border">
+								<EmptyHeader>
+									<EmptyTitle>Could not load host records</EmptyTitle>
+									<EmptyDescription>{error}</EmptyDescription>
+								</EmptyHeader>
+							</Empty>
+						) : isUsingOurDNS === false ? (
+							<Empty className="border">
+								<EmptyMedia variant="icon">
+									<ListTree className="h-6 w-6" />
+								</EmptyMedia>
+								<EmptyHeader>
+									<EmptyTitle>Custom nameservers</EmptyTitle>
+									<EmptyDescription>
+										{domain.name} is delegated to other nameservers, so {registrarLabel} host records have no effect.
+									</EmptyDescription>
+								</EmptyHeader>
+							</Empty>
+						) : draft.length === 0 ? (
+							<div className="py-8 flex flex-col items-center justify-center text-center">
+								<ListTree className="h-10 w-10 text-muted-foreground mb-2" />
+								<p className="text-sm font-medium mb-1">No host records</p>
+								<Button onClick={() => openForm('new')} size="sm">
+									<Plus className="h-4 w-4 mr-1.5" />
+									Add First Record
+								</Button>
+							</div>
+						) : (
+							<div className="overflow-hidden rounded-lg border">
+								<div className="overflow-y-auto max-h-[50vh]">
+									<Table>
+										<TableHeader className="sticky top-0 bg-background z-10 border-b">
+											<TableRow>
+												<TableHead className="w-[80px] bg-background">Type</TableHead>
+												<TableHead className="min-w-[120px] bg-background">Host</TableHead>
+												<TableHead className="min-w-[150px] bg-background">Value</TableHead>
+												<TableHead className="w-[90px] bg-background">TTL</TableHead>
+												<TableHead className="w-[80px] bg-background" />
+												<TableHead className="w-[90px] text-right bg-background">Actions</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{draft.map((record, index) => {
+												const action = getRowAction(index);
+												return (
+													<TableRow key={record.id ?? `new-${index}`}>
+														<TableCell>
+															<Badge variant="outline" className="text-xs">{record.type}</Badge>
+														</TableCell>
+														<TableCell className="font-medium font-mono text-sm">{record.name}</TableCell>
+														<TableCell className="font-mono text-sm">
+															<span className="break-all block" title={record.address}>{formatAddress(record)}</span>
+														</TableCell>
+														<TableCell className="text-sm">{formatTTL(record.ttl)}</TableCell>
+														<TableCell>
+															{action !== 'keep' && (
+																<Badge variant={ACTION_VARIANTS[action]} className="text-xs capitalize">{action}</Badge>
+															)}
+														</TableCell>
+														<TableCell className="text-right">
+															<div className="flex items-center justify-end gap-1">
+																<Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openForm(index)} title="Edit record">
+																	<Edit className="h-4 w-4" />
+																</Button>
+																<Button
+																	size="icon"
+																	variant="ghost"
+																	className="h-8 w-8 text-destructive hover:text-destructive"
+																	onClick={() => removeRecord(index)}
+																	title="Remove record"
+																>
+																	<Trash2 className="h-4 w-4" />
+																</Button>
+															</div>
+														</TableCell>
+													</TableRow>
+												);
+											})}
+										</TableBody>
+									</Table>
+								</div>
+							</div>
+						)}
+					</div>
+				</div>
+			</DrawerContent>
+
+			{/* Add/Edit host record */}
+			<Dialog open={editing !== null} onOpenChange={(isOpen) => !isOpen && setEditing(null)}>
+				<DialogContent className="max-w-md">
+					<DialogHeader>
+						<DialogTitle>{editing === 'new' ? 'Add Host Record' : 'Edit Host Record'}</DialogTitle>
+						<DialogDescription>Changes stay local until you review and save them.</DialogDescription>
+					</DialogHeader>
+					<form onSubmit={handleFormSubmit} className="space-y-4">
+						<div className="space-y-2">
+							<Label htmlFor="host-type">Type</Label>
+							<Select value={formData.type} onValueChange={(value) => setFormData({ ...formData, type: value })}>
+								<SelectTrigger id="host-type">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{HOST_RECORD_TYPES.map((type) => (
+										<SelectItem key={type} value={type}>{type}</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor="host-name">Host</Label>
+							<Input
+								id="host-name"
+								placeholder="@ or subdomain"
+								value={formData.name}
+								onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+							/>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor="host-address">Value</Label>
+							<Input
+								id="host-address"
+								placeholder="IP address, hostname or text"
+								value={formData.address}
+								onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+							/>
+						</div>
+
+						{formData.type === 'MX' && (
+							<div className="space-y-2">
+								<Label htmlFor="host-mx-pref">Priority</Label>
+								<Input
+									id="host-mx-pref"
+									type="number"
+									min="0"
+									max="65535"
+									value={formData.mxPref ?? 10}
+									onChange={(e) => setFormData({ ...formData, mxPref: parseInt(e.target.value) || 0 })}
+								/>
+							</div>
+						)}
+
+						<div className="space-y-2">
+							<Label htmlFor="host-ttl">TTL</Label>
+							<Select
+								value={String(formData.ttl)}
+								onValueChange={(value) => setFormData({ ...formData, ttl: parseInt(value) })}
+							>
+								<SelectTrigger id="host-ttl">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{!TTL_OPTIONS.some((option) => option.value === formData.ttl) && (
+										<SelectItem value={String(formData.ttl)}>{formData.ttl}s</SelectItem>
+									)}
+									{TTL_OPTIONS.map((option) => (
+										<SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+
+						<DialogFooter>
+							<Button type="button" variant="outline" onClick={() => setEditing(null)}>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={!formData.name.trim() || !formData.address.trim()}>
+								{editing === 'new' ? 'Add' : 'Update'}
+							</Button>
+						</DialogFooter>
+					</form>
+				</DialogContent>
+			</Dialog>
+
+			{/* Diff preview: setHosts replaces every record */}
+			<Dialog open={isReviewOpen} onOpenChange={(isOpen) => !isSaving && setIsReviewOpen(isOpen)}>
+				<DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+					<DialogHeader>
+						<DialogTitle>Review Host Record Changes</DialogTitle>
+						<DialogDescription>
+							{registrarLabel} replaces the whole record set for <strong>{domain.name}</strong>: after saving, exactly
+							the {draft.length} record{draft.length !== 1 ? 's' : ''} below marked keep, add or change will exist.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="flex flex-wrap items-center gap-2 text-xs">
+						{(['add', 'change', 'remove', 'keep'] as const).map((action) => (
+							<Badge key={action} variant={ACTION_VARIANTS[action]}>
+								{changes.filter((change) => change.action === action).length} {action}
+							</Badge>
+						))}
+					</div>
+
+					<div className="overflow-hidden rounded-lg border">
+						<div className="overflow-y-auto max-h-[50vh]">
+							<Table>
+								<TableHeader className="sticky top-0 bg-background z-10 border-b">
+									<TableRow>
+										<TableHead className="w-[80px] bg-background">Action</TableHead>
+										<TableHead className="w-[70px] bg-background">Type</TableHead>
+										<TableHead className="bg-background">Host</TableHead>
+										<TableHead className="bg-background">Value</TableHead>
+										<TableHead className="w-[90px] bg-background">TTL</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{[...pendingChanges, ...changes.filter((change) => change.action === 'keep')].map(renderChangeRow)}
+								</TableBody>
+							</Table>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setIsReviewOpen(false)} disabled={isSaving}>
+							Cancel
+						</Button>
+						<Button onClick={() => void handleSave()} disabled={isSaving || !hasChanges}>
+							{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+							Replace With {draft.length} Record{draft.length !== 1 ? 's' : ''}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</Drawer>
+	);
+}
@@ -5,6 +5,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Badge } from '@/components/ui/badge';
 import type { UnifiedDomain } from '@/types/registrar';
 import { copyToClipboard } from '@/lib/utils';
+import { REGISTRARS } from '@/lib/registrars';
 
 interface NameserversCellProps {
     domain: UnifiedDomain;
@@ -24,13 +25,7 @@ export function NameserversCell({
     onEdit,
 }: NameserversCellProps) {
     const [copied, setCopied] = useState(false);
-    const effectiveIsUsingOurDNS =
-        isUsingOurDNS ??
-        (domain.registrar === 'namecheap'
-            ? domain.ncDomain?.IsOurDNS ?? null
-            : domain.registrar === 'dynadot'
-                ? domain.dynadotDomain?.isUsingOurDNS ?? null
-                : null);
+    const effectiveIsUsingOurDNS = isUsingOurDNS ?? domain.isUsingOurDNS ?? null;
 
     const handleCopy = useCallback(async (ns: string[]) => {
         await copyToClipboard(
@@ -50,7 +45,7 @@ export function NameserversCell({
         onEdit(domain);
     }, [domain, onEdit]);
 
-    if (domain.registrar !== 'namecheap' && domain.registrar !== 'njalla' && domain.registrar !== 'dynadot') {
+    if (!(domain.registrar in REGISTRARS)) {
         return <div className="text-center text-muted-foreground">—</div>;
     }
 
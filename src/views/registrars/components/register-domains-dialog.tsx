@@ -0,0 +1,558 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Loader2, Pencil, Plus, Search, ShoppingCart } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ConfigurationConsole } from '@/components/configuration-console';
+import { ZoneProfileSelect } from '@/components/zone-profiles/zone-profile-select';
+import { formatPrice, parseBulkDomains, validateIPAddress } from '@/lib/utils';
+import { getRegistrarLabel, registrarSupports } from '@/lib/registrars';
+import { useAccountStore } from '@/store/account-store';
+import { useContactProfileStore } from '@/store/contact-profile-store';
+import { useTaskStore } from '@/store/task-store';
+import { useZoneProfileStore, DEFAULT_PROFILE_ID } from '@/store/zone-profile-store';
+import { useBulkDomainCreation } from '@/hooks/use-bulk-domain-creation';
+import { useCloudflareDestinationAccount } from '@/hooks/use-cloudflare-destination-account';
+import { AccountSelectors, RegistrarIcon } from '@/views/domains/components/add-domain-dialog/AccountSelectors';
+import { RootARecordInput } from '@/views/domains/components/add-domain-dialog/RootARecordInput';
+import type { CloudflareAccount } from '@/types/cloudflare';
+import type { RegistrarAvailability, RegistrarContactProfile, RegistrarType } from '@/types/registrar';
+import { useDomainRegistration } from '../hooks/use-domain-registration';
+import { ContactProfileDialog } from './contact-profile-dialog';
+
+interface RegisterDomainsDialogProps {
+	registrarAccounts: CloudflareAccount[];
+	// Called with the registrar account whose domain list changed
+	onComplete?: (accountId: string) => void;
+}
+
+const YEAR_OPTIONS = [1, 2, 3, 5, 10];
+
+const isRegistrable = (result: RegistrarAvailability) => result.available && !result.premium && !result.error;
+
+function AvailabilityBadge({ result }: { result: RegistrarAvailability }) {
+	if (result.error) return <Badge variant="outline" className="text-destructive" title={result.error}>Unchecked</Badge>;
+	if (!result.available) return <Badge variant="secondary">Taken</Badge>;
+	if (result.premium) return <Badge variant="outline" title="Premium names can't be registered through the API">Premium</Badge>;
+	return <Badge className="bg-green-600 hover:bg-green-600">Available</Badge>;
+}
+
+/**
+ * Checks candidate names at a registrar account, registers the chosen ones with a saved
+ * contact profile, then runs them through the Add Domain pipeline: zone, root A record
+ * and nameservers at the registrar.
+ */
+export function RegisterDomainsDialog({ registrarAccounts, onComplete }: RegisterDomainsDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [registrarAccountId, setRegistrarAccountId] = useState('');
+	const [years, setYears] = useState(1);
+	const [candidates, setCandidates] = useState('');
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [contactProfileId, setContactProfileId] = useState('');
+	const [contactDialog, setContactDialog] = useState<{ open: boolean; profile?: RegistrarContactProfile }>({ open: false });
+	const [isRegistering, setIsRegistering] = useState(false);
+	const [acknowledged, setAcknowledged] = useState(false);
+
+	const [selectedAccountId, setSelectedAccountId] = useState('');
+	const [rootIPAddress, setRootIPAddress] = useState('');
+	const [proxied, setProxied] = useState(true);
+	const [zoneProfileId, setZoneProfileId] = useState(DEFAULT_PROFILE_ID);
+	const zoneProfile = useZoneProfileStore((s) => s.getProfile(zoneProfileId));
+
+	const contactProfiles = useContactProfileStore((s) => s.profiles);
+	const contactProfile = contactProfiles.find((profile) => profile.id === contactProfileId);
+
+	const taskStatus = useTaskStore((s) => s.status);
+	const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+	const { accounts: allAccounts, proxyAccounts } = useAccountStore();
+	const accounts = useMemo(() => allAccounts.filter((account) => account.category === 'cloudflare'), [allAccounts]);
+	const eligibleAccounts = useMemo(
+		() => registrarAccounts.filter((account) => registrarSupports(account.registrarName!, 'register')),
+		[registrarAccounts]
+	);
+	const registrarAccount = eligibleAccounts.find((account) => account.id === registrarAccountId);
+
+	const {
+		accountsToUse,
+		selectedAccount,
+		cloudflareAccounts,
+		selectedCloudflareAccountId,
+		setSelectedCloudflareAccountId,
+		isLoadingAccounts,
+		hasAvailableCloudflareAccounts,
+		destinationAccountMessage,
+	} = useCloudflareDestinationAccount({
+		selectedAccountId,
+		accounts,
+	});
+
+	const { results, balance, isChecking, checkError, check, register, reset } = useDomainRegistration(registrarAccount);
+
+	const bulkDomainCreation = useBulkDomainCreation({
+		account: selectedAccount || accountsToUse[0] || accounts[0],
+		cloudflareAccountId: selectedCloudflareAccountId,
+		// Nameservers go to the account the domains were just registered at
+		registrarAccountId: registrarAccountId || undefined,
+		registrarAccounts: allAccounts,
+		proxyAccounts,
+		zoneSettings: zoneProfile.settings,
+		onSuccess: () => {
+			if (registrarAccountId) onComplete?.(registrarAccountId);
+		},
+	});
+	const isOnboarding = bulkDomainCreation.isCreating || bulkDomainCreation.isConfiguring;
+	const isBusy = isRegistering || isOnboarding;
+
+	const candidateDomains = parseBulkDomains(candidates);
+	const selectedResults = results.filter((result) => selected.has(result.domain));
+
+	// Sum in the registrar's currency; null when a selected name has no price or the prices mix currencies
+	const total = useMemo(() => {
+		const currency = selectedResults[0]?.currency ?? 'USD';
+		let sum = 0;
+		for (const result of selectedResults) {
+			if (result.price === undefined || (result.currency ?? 'USD') !== currency) return null;
+			sum += result.price;
+		}
+		return { amount: sum, currency };
+	}, [selectedResults]);
+	const isShort = !!total && !!balance && 'amount' in balance && total.currency === balance.currency && total.amount > balance.amount;
+
+	// Nothing is charged until the balance has either loaded or failed
+	const isQuoting = balance === undefined;
+	const balanceError = balance && 'error' in balance ? balance.error : null;
+	const isCurrencyMismatch = !!total && !!balance && 'currency' in balance && total.currency !== balance.currency;
+	// Short or failed balances and totals that can't be checked against the balance must be acknowledged
+	const needsAcknowledgement =
+		selectedResults.length > 0 && (isShort || !!balanceError || total === null || isCurrencyMismatch);
+
+	useEffect(() => {
+		if (open && eligibleAccounts.length > 0 && !registrarAccountId) {
+			setRegistrarAccountId(eligibleAccounts[0].id);
+		}
+	}, [open, eligibleAccounts, registrarAccountId]);
+
+	useEffect(() => {
+		if (open && accountsToUse.length > 0 && !selectedAccountId) {
+			setSelectedAccountId(accountsToUse[0].id);
+		}
+	}, [open, accountsToUse, selectedAccountId]);
+
+	useEffect(() => {
+		if (open && !contactProfile && contactProfiles.length > 0) {
+			setContactProfileId(contactProfiles[0].id);
+		}
+	}, [open, contactProfile, contactProfiles]);
+
+	// Prices and availability belong to one account and term
+	useEffect(() => {
+		reset();
+	}, [registrarAccountId, years, reset]);
+
+	useEffect(() => {
+		setSelected(new Set(results.filter(isRegistrable).map((result) => result.domain)));
+		setAcknowledged(false);
+	}, [results]);
+
+	const toggleDomain = (domain: string, checked: boolean) => {
+		setAcknowledged(false);
+		setSelected((prev) => {
+			const next = new Set(prev);
+			if (checked) next.add(domain);
+			else next.delete(domain);
+			return next;
+		});
+	};
+
+	const handleCheck = () => {
+		if (candidateDomains.length === 0) {
+			toast.error('No valid domains found. Please enter valid domain names (one per line)');
+			return;
+		}
+		void check(candidateDomains, years);
+	};
+
+	const handleRegister = async () => {
+		if (!registrarAccount) {
+			toast.error('Please select a registrar account');
+			return;
+		}
+		if (!contactProfile) {
+			toast.error('Please select or create a contact profile');
+			return;
+		}
+		if (!selectedAccount || !selectedCloudflareAccountId) {
+			if (!selectedAccountId) {
+				toast.error('Please select a Cloudflare API credential');
+			} else if (isLoadingAccounts) {
+				toast.error('Cloudflare accounts are still loading for this credential');
+			} else if (!hasAvailableCloudflareAccounts) {
+				toast.error(destinationAccountMessage);
+			} else {
+				toast.error('Please select a destination Cloudflare account');
+			}
+			return;
+		}
+		if (rootIPAddress.trim() && !validateIPAddress(rootIPAddress)) {
+			toast.error('Please enter a valid IP address');
+			return;
+		}
+
+		const domains = selectedResults.map((result) => result.domain);
+		setIsRegistering(true);
+		try {
+			const registered = await register(domains, years, contactProfile.contact);
+			if (registered.length === 0) {
+				toast.error('No domains were registered');
+				return;
+			}
+
+			onComplete?.(registrarAccount.id);
+			const registeredSet = new Set(registered);
+			setCandidates(candidateDomains.filter((domain) => !registeredSet.has(domain)).join('\n'));
+			reset();
+
+			toast.success(`Registered ${registered.length} domain${registered.length !== 1 ? 's' : ''}, adding to Cloudflare`);
+			await bulkDomainCreation.createDomains(registered, rootIPAddress.trim(), proxied);
+		} finally {
+			setIsRegistering(false);
+		}
+	};
+
+	const handleClose = () => {
+		bulkDomainCreation.resetQueue();
+		reset();
+		setOpen(false);
+		setCandidates('');
+		setSelectedAccountId('');
+		setRootIPAddress('');
+		setProxied(true);
+		setZoneProfileId(DEFAULT_PROFILE_ID);
+	};
+
+	const handleOpenChange = (isOpen: boolean) => {
+		if (!isOpen) {
+			handleClose();
+			return;
+		}
+		setOpen(true);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button size="sm" variant="outline" className="gap-2" disabled={eligibleAccounts.length === 0}>
+					<ShoppingCart className="h-3.5 w-3.5" />
+					Register
+				</Button>
+			</DialogTrigger>
+			<DialogContent
+				className="max-w-3xl max-h-[90vh] flex flex-col p-0"
+				onInteractOutside={(e) => e.preventDefault()}
+				onEscapeKeyDown={(e) => e.preventDefault()}
+			>
+				<DialogHeader className="px-6 pt-6 pb-4 flex-shrink-0">
+					<DialogTitle>Register Domains</DialogTitle>
+					<DialogDescription>
+						Check availability, register the chosen names and add them to Cloudflare in one run.
+						Registrations are charged to the registrar account&apos;s balance and cannot be undone.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex-1 overflow-y-auto px-6 space-y-4 min-h-0">
+					<div className="flex flex-wrap items-end gap-3">
+						<div className="flex-1 min-w-[240px] space-y-2">
+							<Label htmlFor="register-account">Registrar account</Label>
+							<Select value={registrarAccountId} onValueChange={setRegistrarAccountId} disabled={isBusy}>
+								<SelectTrigger id="register-account">
+									<SelectValue placeholder="Select registrar account" />
+								</SelectTrigger>
+								<SelectContent>
+									{eligibleAccounts.map((account) => (
+										<SelectItem key={account.id} value={account.id}>
+											<span className="flex items-center gap-2">
+												<RegistrarIcon registrar={account.registrarName as RegistrarType} className="h-4 w-4" />
+												{account.name || account.email}
+												<span className="text-muted-foreground">{getRegistrarLabel(account.registrarName!)}</span>
+											</span>
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="register-years">Register for</Label>
+							<Select value={String(years)} onValueChange={(value) => setYears(Number(value))} disabled={isBusy}>
+								<SelectTrigger id="register-years" className="w-32">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{YEAR_OPTIONS.map((option) => (
+										<SelectItem key={option} value={String(option)}>
+											{option} year{option !== 1 ? 's' : ''}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+
+					<div className="space-y-2">
+						<Label htmlFor="register-candidates">Candidate domains (one per line)</Label>
+						<Textarea
+							id="register-candidates"
+							placeholder="example.com"
+							value={candidates}
+							onChange={(e) => setCandidates(e.target.value)}
+							className="min-h-[100px] font-mono text-sm"
+							disabled={isBusy}
+						/>
+						<div className="flex items-center justify-between gap-2">
+							<p className="text-sm text-muted-foreground">
+								{candidates.trim() ? `Valid domains: ${candidateDomains.length}` : 'Invalid domains will be skipped.'}
+							</p>
+							<Button
+								size="sm"
+								variant="outline"
+								className="gap-2"
+								onClick={handleCheck}
+								disabled={!registrarAccount || candidateDomains.length === 0 || isChecking || isBusy}
+							>
+								{isChecking ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Search className="h-3.5 w-3.5" />}
+								Check Availability
+							</Button>
+						</div>
+					</div>
+
+					{checkError && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>{checkError}</AlertDescription>
+						</Alert>
+					)}
+
+					{results.length > 0 && (
+						<div className="space-y-2">
+							<div className="flex items-center justify-between gap-2 text-sm">
+								<span className="font-medium">
+									{selectedResults.length} of {results.filter(isRegistrable).length} available selected
+								</span>
+								<span className="text-xs text-muted-foreground">
+									Total {total
+										? <span className="font-mono text-foreground">{formatPrice(total.amount, total.currency)}</span>
+										: '—'}
+									{balance !== null && (
+										<>
+											{' · '}Balance{' '}
+											{balance === undefined ? (
+												<Loader2 className="h-3.5 w-3.5 animate-spin inline" />
+											) : 'error' in balance ? (
+												<span className="text-destructive" title={balance.error}>unavailable</span>
+											) : (
+												<span className="font-mono">{formatPrice(balance.amount, balance.currency)}</span>
+											)}
+										</>
+									)}
+								</span>
+							</div>
+							<div className="overflow-hidden rounded-lg border">
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead className="w-10" />
+											<TableHead>Domain</TableHead>
+											<TableHead className="w-[120px]">Status</TableHead>
+											<TableHead className="w-[120px] text-right">Price</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{results.map((result) => (
+											<TableRow key={result.domain}>
+												<TableCell>
+													<Checkbox
+														checked={selected.has(result.domain)}
+														onCheckedChange={(checked) => toggleDomain(result.domain, checked === true)}
+														disabled={!isRegistrable(result) || isBusy}
+														aria-label={`Select ${result.domain}`}
+													/>
+												</TableCell>
+												<TableCell className="font-mono text-sm">{result.domain}</TableCell>
+												<TableCell>
+													<AvailabilityBadge result={result} />
+												</TableCell>
+												<TableCell className="text-right text-sm">
+													{result.price !== undefined
+														? <span className="font-mono">{formatPrice(result.price, result.currency ?? 'USD')}</span>
+														: <span className="text-muted-foreground">{result.available ? 'Not quoted' : '—'}</span>}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
+							{isShort && (
+								<Alert variant="destructive">
+									<AlertCircle className="h-4 w-4" />
+									<AlertDescription>
+										The account balance does not cover these registrations; the registrar will reject the
+										ones it can&apos;t charge.
+									</AlertDescription>
+								</Alert>
+							)}
+							{balanceError && (
+								<Alert variant="destructive">
+									<AlertCircle className="h-4 w-4" />
+									<AlertDescription>
+										Could not load the account balance ({balanceError}), so it is unknown whether it covers these registrations.
+									</AlertDescription>
+								</Alert>
+							)}
+							{selectedResults.length > 0 && (total === null || isCurrencyMismatch) && (
+								<Alert variant="destructive">
+									<AlertCircle className="h-4 w-4" />
+									<AlertDescription>
+										{total === null
+											? 'Some selected names have no price or are priced in different currencies, so the final charge is unknown.'
+											: "The prices are in another currency than the balance, so they can't be checked against it."}
+									</AlertDescription>
+								</Alert>
+							)}
+							{needsAcknowledgement && !isQuoting && (
+								<label className="flex items-center gap-2 text-sm cursor-pointer">
+									<Checkbox
+										checked={acknowledged}
+										onCheckedChange={(checked) => setAcknowledged(checked === true)}
+										disabled={isBusy}
+									/>
+									Register anyway, despite the warnings above
+								</label>
+							)}
+						</div>
+					)}
+
+					<div className="space-y-2">
+						<Label htmlFor="register-contact">Contact profile</Label>
+						<div className="flex items-center gap-2">
+							<Select value={contactProfileId} onValueChange={setContactProfileId} disabled={isBusy || contactProfiles.length === 0}>
+								<SelectTrigger id="register-contact" className="flex-1">
+									<SelectValue placeholder="No contact profiles yet" />
+								</SelectTrigger>
+								<SelectContent>
+									{contactProfiles.map((profile) => (
+										<SelectItem key={profile.id} value={profile.id}>
+											{profile.name}
+											<span className="text-muted-foreground ml-2">{profile.contact.email}</span>
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<Button
+								variant="outline"
+								size="icon"
+								title="Edit contact profile"
+								onClick={() => setContactDialog({ open: true, profile: contactProfile })}
+								disabled={!contactProfile || isBusy}
+							>
+								<Pencil className="h-4 w-4" />
+							</Button>
+							<Button
+								variant="outline"
+								size="icon"
+								title="New contact profile"
+								onClick={() => setContactDialog({ open: true })}
+								disabled={isBusy}
+							>
+								<Plus className="h-4 w-4" />
+							</Button>
+						</div>
+					</div>
+
+					<RootARecordInput
+						ipAddress={rootIPAddress}
+						proxied={proxied}
+						onIPChange={setRootIPAddress}
+						onProxiedChange={setProxied}
+						onSubmit={() => undefined}
+						disabled={isBusy}
+					/>
+
+					<AccountSelectors
+						accounts={accountsToUse}
+						cloudflareAccounts={cloudflareAccounts}
+						selectedAccountId={selectedAccountId}
+						selectedCloudflareAccountId={selectedCloudflareAccountId}
+						isLoadingAccounts={isLoadingAccounts}
+						onAccountChange={setSelectedAccountId}
+						onCloudflareAccountChange={setSelectedCloudflareAccountId}
+						disabled={isBusy}
+						destinationAccountMessage={destinationAccountMessage}
+					/>
+
+					<ZoneProfileSelect
+						value={zoneProfileId}
+						onChange={setZoneProfileId}
+					/>
+
+					{bulkDomainCreation.domainQueue.length > 0 && (
+						<div className="pb-4">
+							<ConfigurationConsole
+								domainQueue={bulkDomainCreation.domainQueue}
+								title="Cloudflare Onboarding"
+								className="min-h-[320px]"
+								maxHeight="50vh"
+								dense
+								onRetryStep={bulkDomainCreation.retryStep}
+							/>
+						</div>
+					)}
+				</div>
+
+				<DialogFooter className="px-6 py-4 border-t flex-shrink-0">
+					{isOnboarding ? (
+						<Button variant="outline" onClick={bulkDomainCreation.cancel}>
+							Stop run
+						</Button>
+					) : (
+						<Button variant="outline" onClick={handleClose} disabled={isRegistering}>
+							Close
+						</Button>
+					)}
+					<Button
+						onClick={() => void handleRegister()}
+						disabled={
+							selectedResults.length === 0 || !contactProfile || isBusy || isTaskRunning ||
+							isQuoting || (needsAcknowledgement && !acknowledged)
+						}
+					>
+						{isRegistering || isQuoting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingCart className="mr-2 h-4 w-4" />}
+						Register {selectedResults.length} Domain{selectedResults.length !== 1 ? 's' : ''}
+						{total && total.amount > 0 ? ` for ${formatPrice(total.amount, total.currency)}` : ''}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+
+			<ContactProfileDialog
+				open={contactDialog.open}
+				onOpenChange={(isOpen) => setContactDialog((prev) => ({ ...prev, open: isOpen }))}
+				profile={contactDialog.profile}
+				onSaved={(profile) => setContactProfileId(profile.id)}
+			/>
+		</Dialog>
+	);
+}
@@ -1,9 +1,11 @@
 import { memo, useCallback } from 'react';
-import { ArrowUpDown, ArrowUp, ArrowDown, Shield, ShieldCheck, ShieldX } from 'lucide-react';
+import { ArrowUpDown, ArrowUp, ArrowDown, ListTree, Shield, ShieldCheck, ShieldX } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
 import type { UnifiedDomain } from '@/types/registrar';
 import { ActivityBoundary } from '@/components/activity-boundary';
+import { getRegistrarLabel, registrarSupports } from '@/lib/registrars';
 import { NameserversCell } from './nameservers-cell';
 
 import { REGISTRAR_COLUMN_LABELS, type RegistrarColumnVisibility } from '../registrar-columns';
@@ -25,6 +27,7 @@ type RegistrarDomainsTableProps = {
 	nameserversLoading: Record<string, boolean>;
 	onRefreshNameservers: (domain: string) => void;
 	onEditNameservers: (domain: UnifiedDomain) => void;
+	onEditHostRecords: (domain: UnifiedDomain) => void;
 	visibleColumns: RegistrarColumnVisibility;
 	accountEmails: Record<string, string>;
 };
@@ -43,6 +46,7 @@ export const RegistrarDomainsTable = memo(function RegistrarDomainsTable({
 	nameserversLoading,
 	onRefreshNameservers,
 	onEditNameservers,
+	onEditHostRecords,
 	visibleColumns,
 	accountEmails,
 }: RegistrarDomainsTableProps) {
@@ -63,33 +67,16 @@ export const RegistrarDomainsTable = memo(function RegistrarDomainsTable({
 	}, []);
 
 	const getWhoisGuardIcon = useCallback((domain: UnifiedDomain) => {
-		// Namecheap domains have WhoisGuard info
-		if (domain.ncDomain?.WhoisGuard) {
-			switch (domain.ncDomain.WhoisGuard) {
-				case 'ENABLED':
-					return <ShieldCheck className="h-4 w-4" />;
-				case 'NOTPRESENT':
-					return <ShieldX className="h-4 w-4" />;
-				default:
-					return <Shield className="h-4 w-4" />;
-			}
-		}
-		// Njalla doesn't have privacy info, return neutral icon
-		if (domain.dynadotDomain) {
+		// Only some registrars report privacy; show a neutral icon for the rest
+		if (domain.privacy === undefined) {
 			return <Shield className="h-4 w-4 opacity-50" />;
 		}
-		return <Shield className="h-4 w-4 opacity-50" />;
+		return domain.privacy ? <ShieldCheck className="h-4 w-4" /> : <ShieldX className="h-4 w-4" />;
 	}, []);
 
 	const formatDate = useCallback((dateString: string) => {
 		try {
-			// Try MM/DD/YYYY format first (Namecheap)
-			if (dateString.includes('/')) {
-				const [month, day, year] = dateString.split('/');
-				const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-				return date.toLocaleDateString();
-			}
-			// Try ISO 8601 format (Njalla)
+			// Adapters normalize expiry dates to ISO 8601
 			const date = new Date(dateString);
 			return date.toLocaleDateString();
 		} catch {
@@ -253,24 +240,29 @@ export const RegistrarDomainsTable = memo(function RegistrarDomainsTable({
 							</ActivityBoundary>
 							<ActivityBoundary mode={visibleColumns.premium ? 'visible' : 'hidden'}>
 								<TableCell className="text-center">
-									{domain.ncDomain?.IsPremium ? 'Premium' : domain.ncDomain ? 'Standard' : '—'}
+									{domain.premium === undefined ? '—' : domain.premium ? 'Premium' : 'Standard'}
 								</TableCell>
 							</ActivityBoundary>
 							<ActivityBoundary mode={visibleColumns.dns ? 'visible' : 'hidden'}>
 								<TableCell className="text-center">
-									{nameserversCache[domain.name]
-										? (nameserversCache[domain.name].isUsingOurDNS
-											? (domain.registrar === 'namecheap'
-												? 'Namecheap'
-												: domain.registrar === 'njalla'
-													? 'Njalla'
-													: 'Dynadot')
-											: 'External')
-										: (domain.registrar === 'namecheap' && domain.ncDomain
-											? (domain.ncDomain.IsOurDNS ? 'Namecheap' : 'External')
-											: domain.registrar === 'dynadot' && domain.dynadotDomain
-												? (domain.dynadotDomain.isUsingOurDNS ? 'Dynadot' : 'External')
-											: '—')}
+									{(() => {
+										const isUsingOurDNS = nameserversCache[domain.name]?.isUsingOurDNS ?? domain.isUsingOurDNS;
+										if (isUsingOurDNS === undefined) return '—';
+										if (!isUsingOurDNS) return 'External';
+										if (!registrarSupports(domain.registrar, 'hosts')) return getRegistrarLabel(domain.registrar);
+										return (
+											<Button
+												variant="ghost"
+												size="sm"
+												className="h-7 px-2"
+												onClick={() => onEditHostRecords(domain)}
+												title="Edit host records"
+											>
+												<ListTree className="h-3.5 w-3.5" />
+												{getRegistrarLabel(domain.registrar)}
+											</Button>
+										);
+									})()}
 								</TableCell>
 							</ActivityBoundary>
 
@@ -11,11 +11,11 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from '@/components/ui/select';
-import type { NamecheapAccount } from '@/types/namecheap';
-import type { NjallaAccount } from '@/types/njalla';
-import type { DynadotAccount } from '@/types/dynadot';
+import { REGISTRARS, REGISTRAR_TYPES } from '@/lib/registrars';
+import type { CloudflareAccount } from '@/types/cloudflare';
 import type { RegistrarType } from '@/types/registrar';
 import { ColumnVisibilityMenu, type ColumnVisibilityItem } from '@/components/table/column-visibility-menu';
+import { RegisterDomainsDialog } from './register-domains-dialog';
 
 interface Stats {
 	visible: number;
@@ -33,15 +33,14 @@ interface RegistrarPageHeaderProps {
 	onRefreshNameservers: () => void;
 	isRefreshing: boolean;
 	isNameserversLoading?: boolean;
-	namecheapAccounts: NamecheapAccount[];
-	njallaAccounts: NjallaAccount[];
-	dynadotAccounts: DynadotAccount[];
+	registrarAccounts: CloudflareAccount[];
 	selectedAccount: string;
 	onAccountChange: (value: string) => void;
 	selectedRegistrar: RegistrarType | 'all';
 	onRegistrarChange: (value: RegistrarType | 'all') => void;
 	domainCounts: Record<string, number>;
 	columnVisibilityItems: ColumnVisibilityItem[];
+	onRegisterComplete?: (accountId: string) => void;
 }
 
 export function RegistrarPageHeader({
@@ -54,47 +53,30 @@ export function RegistrarPageHeader({
 	onRefreshNameservers,
 	isRefreshing,
 	isNameserversLoading = false,
-	namecheapAccounts,
-	njallaAccounts,
-	dynadotAccounts,
+	registrarAccounts,
 	selectedAccount,
 	onAccountChange,
 	selectedRegistrar,
 	onRegistrarChange,
 	domainCounts,
 	columnVisibilityItems,
+	onRegisterComplete,
 }: RegistrarPageHeaderProps) {
-	// Filter accounts based on selected registrar
-	const filteredNamecheapAccounts =
-		selectedRegistrar === 'all' || selectedRegistrar === 'namecheap'
-			? namecheapAccounts
-			: [];
-	const filteredNjallaAccounts =
-		selectedRegistrar === 'all' || selectedRegistrar === 'njalla'
-			? njallaAccounts
-			: [];
-	const filteredDynadotAccounts =
-		selectedRegistrar === 'all' || selectedRegistrar === 'dynadot'
-			? dynadotAccounts
-			: [];
+	// Group accounts by registrar, limited to the selected registrar
+	const accountGroups = REGISTRAR_TYPES
+		.filter((registrar) => selectedRegistrar === 'all' || selectedRegistrar === registrar)
+		.map((registrar) => {
+			const accounts = registrarAccounts.filter((account) => account.registrarName === registrar);
+			return {
+				registrar,
+				accounts,
+				totalDomains: accounts.reduce((total, account) => total + (domainCounts[account.id] || 0), 0),
+			};
+		})
+		.filter((group) => group.accounts.length > 0);
 
-	const allAccounts = [...filteredNamecheapAccounts, ...filteredNjallaAccounts, ...filteredDynadotAccounts];
 	const totalDomains = Object.values(domainCounts).reduce((a, b) => a + b, 0);
 
-	// Calculate total domains for filtered accounts
-	const namecheapTotalDomains = filteredNamecheapAccounts.reduce(
-		(total, account) => total + (domainCounts[account.id] || 0),
-		0
-	);
-	const njallaTotalDomains = filteredNjallaAccounts.reduce(
-		(total, account) => total + (domainCounts[account.id] || 0),
-		0
-	);
-	const dynadotTotalDomains = filteredDynadotAccounts.reduce(
-		(total, account) => total + (domainCounts[account.id] || 0),
-		0
-	);
-
 	return (
 		<div className="sticky top-0 z-20 bg-background/95 backdrop-blur-sm border-b py-3 -mx-6 px-6">
 			<div className="flex items-center justify-between gap-4">
@@ -121,6 +103,7 @@ export function RegistrarPageHeader({
 				</div>
 
 				<div className="flex items-center space-x-2 flex-nowrap">
+					<RegisterDomainsDialog registrarAccounts={registrarAccounts} onComplete={onRegisterComplete} />
 
 					<div className="relative">
 						<Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
@@ -148,9 +131,9 @@ export function RegistrarPageHeader({
 						</SelectTrigger>
 						<SelectContent>
 							<SelectItem value="all">All Registrars</SelectItem>
-							<SelectItem value="namecheap">Namecheap</SelectItem>
-							<SelectItem value="njalla">Njalla</SelectItem>
-							<SelectItem value="dynadot">Dynadot</SelectItem>
+							{REGISTRAR_TYPES.map((registrar) => (
+								<SelectItem key={registrar} value={registrar}>{REGISTRARS[registrar].label}</SelectItem>
+							))}
 						</SelectContent>
 					</Select>
 
@@ -163,13 +146,12 @@ export function RegistrarPageHeader({
 								All Accounts <span className="text-muted-foreground ml-1">({totalDomains})</span>
 							</SelectItem>
 
-							{/* Namecheap Accounts Group */}
-							{filteredNamecheapAccounts.length > 0 && (
-								<>
+							{accountGroups.map(({ registrar, accounts, totalDomains: groupTotal }) => (
+								<div key={registrar}>
 									<div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
-										Namecheap <span className="text-muted-foreground/60">({namecheapTotalDomains})</span>
+										{REGISTRARS[registrar].label} <span className="text-muted-foreground/60">({groupTotal})</span>
 									</div>
-									{filteredNamecheapAccounts.map((account) => (
+									{accounts.map((account) => (
 										<SelectItem key={account.id} value={account.id} className="pl-4">
 											{account.name || account.email}
 											<span className="text-muted-foreground ml-2">
@@ -177,41 +159,8 @@ export function RegistrarPageHeader({
 											</span>
 										</SelectItem>
 									))}
-								</>
-							)}
-
-							{/* Njalla Accounts Group */}
-							{filteredNjallaAccounts.length > 0 && (
-								<>
-									<div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
-										Njalla <span className="text-muted-foreground/60">({njallaTotalDomains})</span>
-									</div>
-									{filteredNjallaAccounts.map((account) => (
-										<SelectItem key={account.id} value={account.id} className="pl-4">
-											{account.name || account.email}
-											<span className="text-muted-foreground ml-2">
-												({domainCounts[account.id] || 0})
-											</span>
-										</SelectItem>
-									))}
-								</>
-							)}
-
-							{filteredDynadotAccounts.length > 0 && (
-								<>
-									<div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
-										Dynadot <span className="text-muted-foreground/60">({dynadotTotalDomains})</span>
-									</div>
-									{filteredDynadotAccounts.map((account) => (
-										<SelectItem key={account.id} value={account.id} className="pl-4">
-											{account.name || account.email}
-											<span className="text-muted-foreground ml-2">
-												({domainCounts[account.id] || 0})
-											</span>
-										</SelectItem>
-									))}
-								</>
-							)}
+								</div>
+							))}
 						</SelectContent>
 					</Select>
 
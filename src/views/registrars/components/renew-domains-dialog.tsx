@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { AlertCircle, CalendarClock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getRegistrarLabel } from '@/lib/registrars';
+import { formatPrice } from '@/lib/utils';
+import { useTaskStore } from '@/store/task-store';
+import type { UnifiedDomain } from '@/types/registrar';
+import { useDomainRenewal, type RenewalAccountGroup, type RenewalPrice } from '../hooks/use-domain-renewal';
+
+interface RenewDomainsDialogProps {
+	selectedDomains: UnifiedDomain[];
+	onComplete?: (accountIds: string[]) => void;
+}
+
+const YEAR_OPTIONS = [1, 2, 3, 5, 10];
+
+function PriceCell({ price }: { price: RenewalPrice }) {
+	if (price === undefined) return <Loader2 className="h-3.5 w-3.5 animate-spin ml-auto" />;
+	if (price === null) return <span className="text-muted-foreground">Not quoted</span>;
+	if ('error' in price) return <span className="text-destructive" title={price.error}>Unavailable</span>;
+	return <span className="font-mono">{formatPrice(price.price, price.currency)}</span>;
+}
+
+function BalanceText({ balance }: { balance: RenewalAccountGroup['balance'] }) {
+	if (balance === undefined) return <Loader2 className="h-3.5 w-3.5 animate-spin inline" />;
+	if (balance === null) return <span>unknown</span>;
+	if ('error' in balance) return <span className="text-destructive" title={balance.error}>unavailable</span>;
+	return <span className="font-mono">{formatPrice(balance.amount, balance.currency)}</span>;
+}
+
+export function RenewDomainsDialog({ selectedDomains, onComplete }: RenewDomainsDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [years, setYears] = useState(1);
+	const [isRenewing, setIsRenewing] = useState(false);
+	const [acknowledged, setAcknowledged] = useState(false);
+	const taskStatus = useTaskStore((s) => s.status);
+	const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+	const { groups, unsupported, prices, renew } = useDomainRenewal(selectedDomains, years, open);
+	const renewableDomains = groups.flatMap((group) => group.domains);
+	const renewableCount = renewableDomains.length;
+	const shortGroups = groups.filter((group) => group.isShort);
+
+	// Nothing is charged until every price and balance has either loaded or failed
+	const isQuoting =
+		groups.some((group) => group.balance === undefined) ||
+		renewableDomains.some((domain) => prices[domain.id] === undefined);
+	const failedQuotes = [
+		...renewableDomains.filter((domain) => {
+			const price = prices[domain.id];
+			return !!price && 'error' in price;
+		}).map((domain) => domain.name),
+		...groups.filter((group) => group.balance && 'error' in group.balance)
+			.map((group) => `${group.account.name || group.account.email} balance`),
+	];
+	const unpricedDomains = groups.flatMap((group) => group.unpriced);
+	// Short balances, failed quotes and domains without a comparable price must be acknowledged before renewing
+	const needsAcknowledgement = shortGroups.length > 0 || failedQuotes.length > 0 || unpricedDomains.length > 0;
+
+	const handleOpenChange = (next: boolean) => {
+		setOpen(next);
+		if (next) setAcknowledged(false);
+	};
+
+	const handleYearsChange = (value: string) => {
+		setYears(Number(value));
+		setAcknowledged(false);
+	};
+
+	const handleRenew = async () => {
+		setIsRenewing(true);
+		setOpen(false);
+		try {
+			const accountIds = await renew();
+			if (accountIds.length > 0) onComplete?.(accountIds);
+		} finally {
+			setIsRenewing(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button size="sm" variant="outline" className="gap-2" disabled={isRenewing || isTaskRunning}>
+					<CalendarClock className="h-3.5 w-3.5" />
+					Renew
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Renew Domains</DialogTitle>
+					<DialogDescription>
+						Renewals are charged to each registrar account&apos;s balance and cannot be undone.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="flex items-center gap-3">
+						<Label htmlFor="renew-years">Renew for</Label>
+						<Select value={String(years)} onValueChange={handleYearsChange}>
+							<SelectTrigger id="renew-years" className="w-32">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{YEAR_OPTIONS.map((option) => (
+									<SelectItem key={option} value={String(option)}>
+										{option} year{option !== 1 ? 's' : ''}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					{groups.map((group) => (
+						<div key={group.account.id} className="space-y-2">
+							<div className="flex items-center justify-between gap-2 text-sm">
+								<span className="font-medium">
+									{getRegistrarLabel(group.account.registrarName!)} · {group.account.name || group.account.email}
+								</span>
+								<span className="text-xs text-muted-foreground">
+									Total {group.total !== null && group.balance && 'currency' in group.balance
+										? <span className="font-mono text-foreground">{formatPrice(group.total, group.balance.currency)}</span>
+										: '—'}
+									{' · '}Balance <BalanceText balance={group.balance} />
+								</span>
+							</div>
+							<div className="overflow-hidden rounded-lg border">
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Domain</TableHead>
+											<TableHead className="w-[140px]">Expires</TableHead>
+											<TableHead className="w-[120px] text-right">Price</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{group.domains.map((domain) => (
+											<TableRow key={domain.id}>
+												<TableCell className="font-mono text-sm">{domain.name}</TableCell>
+												<TableCell className="text-sm text-muted-foreground">
+													{domain.expiry ? new Date(domain.expiry).toLocaleDateString() : '—'}
+												</TableCell>
+												<TableCell className="text-right text-sm">
+													<PriceCell price={prices[domain.id]} />
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
+						</div>
+					))}
+
+					{shortGroups.length > 0 && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>
+								The balance of {shortGroups.map((group) => group.account.name || group.account.email).join(', ')} does
+								not cover these renewals; the registrar will reject the ones it can&apos;t charge.
+							</AlertDescription>
+						</Alert>
+					)}
+
+					{failedQuotes.length > 0 && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>
+								Could not be quoted: {failedQuotes.join(', ')}. The final charge may differ from the totals above.
+							</AlertDescription>
+						</Alert>
+					)}
+
+					{unpricedDomains.length > 0 && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>
+								No price to check against the balance for {unpricedDomains.join(', ')}: the registrar doesn&apos;t quote
+								renewals or quotes them in another currency.
+							</AlertDescription>
+						</Alert>
+					)}
+
+					{unsupported.length > 0 && (
+						<Alert>
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>
+								{unsupported.length} domain{unsupported.length !== 1 ? 's' : ''} will be skipped because
+								their registrar can&apos;t renew through the API: {unsupported.map((domain) => domain.name).join(', ')}
+							</AlertDescription>
+						</Alert>
+					)}
+
+					{needsAcknowledgement && !isQuoting && (
+						<label className="flex items-center gap-2 text-sm cursor-pointer">
+							<Checkbox checked={acknowledged} onCheckedChange={(checked) => setAcknowledged(checked === true)} />
+							Renew anyway, despite the warnings above
+						</label>
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => setOpen(false)}>
+						Cancel
+					</Button>
+					<Button
+						onClick={() => void handleRenew()}
+						disabled={renewableCount === 0 || isTaskRunning || isQuoting || (needsAcknowledgement && !acknowledged)}
+					>
+						{isQuoting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="mr-2 h-4 w-4" />}
+						Renew {renewableCount} Domain{renewableCount !== 1 ? 's' : ''}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { BulkImportDialog } from './bulk-import-dialog';
 import { SetNameserversDialog } from './set-nameservers-dialog';
+import { RenewDomainsDialog } from './renew-domains-dialog';
 import type { UnifiedDomain } from '@/types/registrar';
 
 interface SelectionToolbarProps {
@@ -11,6 +12,7 @@ interface SelectionToolbarProps {
 	onCopySelected: () => void;
 	onClearSelection: () => void;
 	onSetNameservers: (domains: string[], nameservers: string[]) => Promise<boolean>;
+	onRenewComplete: (accountIds: string[]) => void;
 }
 
 export function SelectionToolbar({
@@ -19,6 +21,7 @@ export function SelectionToolbar({
 	onCopySelected,
 	onClearSelection,
 	onSetNameservers,
+	onRenewComplete,
 }: SelectionToolbarProps) {
 	if (selectedCount === 0) return null;
 
@@ -68,6 +71,7 @@ export function SelectionToolbar({
 							selectedDomains={selectedDomains}
 							onSetNameservers={onSetNameservers}
 						/>
+						<RenewDomainsDialog selectedDomains={selectedDomains} onComplete={onRenewComplete} />
 						<BulkImportDialog selectedDomains={selectedDomains} onComplete={onClearSelection} />
 						<Button size="sm" variant="outline" onClick={onClearSelection} className="gap-2">
 							<X className="h-3.5 w-3.5" />
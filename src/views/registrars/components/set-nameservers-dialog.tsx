@@ -5,6 +5,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { AlertCircle, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { REGISTRARS } from '@/lib/registrars';
 import type { UnifiedDomain } from '@/types/registrar';
 
 interface SetNameserversDialogProps {
@@ -27,9 +28,7 @@ export function SetNameserversDialog({
     const [nameserversInput, setNameserversInput] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const updatableDomains = selectedDomains.filter(
-        (d) => d.registrar === 'namecheap' || d.registrar === 'njalla' || d.registrar === 'dynadot'
-    );
+    const updatableDomains = selectedDomains.filter((d) => d.registrar in REGISTRARS);
     const isBulk = updatableDomains.length > 1;
 
     // Pre-fill with current nameservers when dialog opens
@@ -0,0 +1,121 @@
+import { useCallback, useState } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import { getRegistrarLabel, registrarRequest, registrarSupports } from '@/lib/registrars';
+import type { CloudflareAccount } from '@/types/cloudflare';
+import type {
+	RegistrarAvailability,
+	RegistrarBalance,
+	RegistrarContact,
+	RegistrarRegisterResult,
+} from '@/types/registrar';
+
+/**
+ * Availability check and registration runner for one registrar account. Registration
+ * charges the account's balance, so it runs one domain at a time in the task window.
+ */
+export function useDomainRegistration(account: CloudflareAccount | undefined) {
+	const { proxyAccounts } = useAccountStore();
+	const [results, setResults] = useState<RegistrarAvailability[]>([]);
+	// undefined while loading, null when the registrar can't tell
+	const [balance, setBalance] = useState<RegistrarBalance | { error: string } | null | undefined>(null);
+	const [isChecking, setIsChecking] = useState(false);
+	const [checkError, setCheckError] = useState<string | null>(null);
+
+	const reset = useCallback(() => {
+		setResults([]);
+		setBalance(null);
+		setCheckError(null);
+	}, []);
+
+	const check = useCallback(async (domains: string[], years: number) => {
+		if (!account || domains.length === 0) return;
+
+		setIsChecking(true);
+		setCheckError(null);
+		setResults([]);
+
+		if (registrarSupports(account.registrarName!, 'balance')) {
+			setBalance(undefined);
+			registrarRequest<RegistrarBalance>(account, proxyAccounts, 'balance')
+				.then(setBalance)
+				.catch((error) => setBalance({ error: error instanceof Error ? error.message : 'Failed to load balance' }));
+		} else {
+			setBalance(null);
+		}
+
+		try {
+			const availability = await registrarRequest<RegistrarAvailability[]>(account, proxyAccounts, 'availability', {
+				query: { domains: domains.join(','), years: String(years) },
+			});
+			setResults(availability);
+		} catch (error) {
+			console.error('Availability check failed:', error);
+			setCheckError(error instanceof Error ? error.message : 'Availability check failed');
+		} finally {
+			setIsChecking(false);
+		}
+	}, [account, proxyAccounts]);
+
+	// Returns the names that were registered
+	const register = useCallback(async (domains: string[], years: number, contact: RegistrarContact): Promise<string[]> => {
+		if (!account || domains.length === 0) return [];
+
+		const label = getRegistrarLabel(account.registrarName!);
+		const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+		startTask(
+			'register_domains',
+			`Registering ${domains.length} domain${domains.length !== 1 ? 's' : ''} at ${label}`,
+			domains.length
+		);
+
+		const registered: string[] = [];
+		try {
+			for (let i = 0; i < domains.length; i++) {
+				await checkTaskStatus();
+
+				const domain = domains[i];
+				try {
+					const result = await registrarRequest<RegistrarRegisterResult>(account, proxyAccounts, 'register', {
+						body: { domain, years, contact },
+					});
+					registered.push(domain);
+
+					const details = [
+						result.chargedAmount !== undefined && `charged ${result.chargedAmount.toFixed(2)}`,
+						result.orderId && `order ${result.orderId}`,
+					].filter(Boolean).join(', ');
+					addLog(`${domain}: registered at ${label}${details ? ` (${details})` : ''}`, 'success');
+				} catch (error) {
+					addLog(`${domain}: ${error instanceof Error ? error.message : `${label} registration failed`}`, 'error');
+				}
+
+				updateProgress(Math.round(((i + 1) / domains.length) * 100), i + 1);
+			}
+
+			const failCount = domains.length - registered.length;
+			addLog(
+				`Done: ${registered.length} registered, ${failCount} failed`,
+				failCount > 0 ? 'error' : 'success'
+			);
+			completeTask();
+		} catch (error) {
+			if (!(error instanceof Error && error.message === 'Task stopped by user')) {
+				console.error('Domain registration error:', error);
+				failTask(error instanceof Error ? error.message : 'Failed to register domains');
+			}
+		}
+
+		return registered;
+	}, [account, proxyAccounts]);
+
+	return {
+		results,
+		balance,
+		isChecking,
+		checkError,
+		check,
+		register,
+		reset,
+	};
+}
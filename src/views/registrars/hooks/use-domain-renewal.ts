@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAccountStore } from '@/store/account-store';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import { getRegistrarLabel, registrarRequest, registrarSupports } from '@/lib/registrars';
+import { processInParallel } from '@/lib/utils';
+import type { CloudflareAccount } from '@/types/cloudflare';
+import type { RegistrarBalance, RegistrarRenewalPrice, RegistrarRenewResult, UnifiedDomain } from '@/types/registrar';
+
+// undefined while loading, null when the registrar can't tell
+export type RenewalPrice = { price: number; currency: string } | { error: string } | null | undefined;
+
+export interface RenewalAccountGroup {
+	account: CloudflareAccount;
+	domains: UnifiedDomain[];
+	balance: RegistrarBalance | { error: string } | null | undefined;
+	// Sum of the known prices in the balance currency; null if any price is missing
+	total: number | null;
+	isShort: boolean;
+	// Domains without a price to check against the balance: not quoted, or quoted in another currency
+	unpriced: string[];
+}
+
+const PRICE_CONCURRENCY = 3;
+
+/**
+ * Renewal preview and runner for the registrar table: prices each renewable domain and
+ * loads the balance of every account involved, then renews in the task window.
+ */
+export function useDomainRenewal(domains: UnifiedDomain[], years: number, enabled: boolean) {
+	const { accounts, proxyAccounts } = useAccountStore();
+	const [prices, setPrices] = useState<Record<string, RenewalPrice>>({});
+	const [balances, setBalances] = useState<Record<string, RenewalAccountGroup['balance']>>({});
+
+	const { groups, unsupported } = useMemo(() => {
+		const byAccount = new Map<string, RenewalAccountGroup>();
+		const skipped: UnifiedDomain[] = [];
+
+		for (const domain of domains) {
+			const account = accounts.find((acc) => acc.id === domain.accountId);
+			if (!account || !registrarSupports(domain.registrar, 'renew')) {
+				skipped.push(domain);
+				continue;
+			}
+			const group = byAccount.get(account.id) ?? { account, domains: [], balance: undefined, total: null, isShort: false, unpriced: [] };
+			group.domains.push(domain);
+			byAccount.set(account.id, group);
+		}
+
+		return { groups: [...byAccount.values()], unsupported: skipped };
+	}, [domains, accounts]);
+
+	useEffect(() => {
+		if (!enabled) return;
+		let cancelled = false;
+		setPrices({});
+		setBalances({});
+
+		for (const { account } of groups) {
+			if (!registrarSupports(account.registrarName!, 'balance')) {
+				setBalances((prev) => ({ ...prev, [account.id]: null }));
+				continue;
+			}
+			registrarRequest<RegistrarBalance>(account, proxyAccounts, 'balance')
+				.then((balance) => !cancelled && setBalances((prev) => ({ ...prev, [account.id]: balance })))
+				.catch((error) => !cancelled && setBalances((prev) => ({
+					...prev,
+					[account.id]: { error: error instanceof Error ? error.message : 'Failed to load balance' },
+				})));
+		}
+
+		const targets = groups.flatMap(({ account, domains: accountDomains }) =>
+			accountDomains.map((domain) => ({ account, domain }))
+		);
+		void processInParallel(targets, async ({ account, domain }) => {
+			if (cancelled) return;
+			let price: RenewalPrice = null;
+			if (registrarSupports(domain.registrar, 'renewalPrice')) {
+				try {
+					const quote = await registrarRequest<RegistrarRenewalPrice>(account, proxyAccounts, 'renewal-price', {
+						query: { domain: domain.name, years: String(years) },
+					});
+					price = { price: quote.price, currency: quote.currency };
+				} catch (error) {
+					price = { error: error instanceof Error ? error.message : 'Failed to get price' };
+				}
+			}
+			if (!cancelled) setPrices((prev) => ({ ...prev, [domain.id]: price }));
+		}, PRICE_CONCURRENCY);
+
+		return () => {
+			cancelled = true;
+		};
+	}, [enabled, groups, years, proxyAccounts]);
+
+	const summaries = useMemo(() => groups.map((group): RenewalAccountGroup => {
+		const balance = balances[group.account.id];
+		const known = group.domains.map((domain) => prices[domain.id]);
+		const currency = balance && 'currency' in balance ? balance.currency : undefined;
+
+		let total: number | null = 0;
+		for (const price of known) {
+			if (!price || !('price' in price) || (currency && price.currency !== currency)) {
+				total = null;
+				break;
+			}
+			total += price.price;
+		}
+
+		const unpriced = group.domains
+			.filter((domain) => {
+				const price = prices[domain.id];
+				return price === null || (!!price && 'price' in price && !!currency && price.currency !== currency);
+			})
+			.map((domain) => domain.name);
+
+		const amount = balance && 'amount' in balance ? balance.amount : null;
+		return { ...group, balance, total, isShort: total !== null && amount !== null && total > amount, unpriced };
+	}), [groups, balances, prices]);
+
+	const renew = useCallback(async (): Promise<string[]> => {
+		const targets = groups.flatMap(({ account, domains: accountDomains }) =>
+			accountDomains.map((domain) => ({ account, domain }))
+		);
+		if (targets.length === 0) return [];
+
+		const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+		startTask(
+			'renew_domains',
+			`Renewing ${targets.length} domain${targets.length !== 1 ? 's' : ''} for ${years} year${years !== 1 ? 's' : ''}`,
+			targets.length
+		);
+
+		const renewedAccountIds = new Set<string>();
+		let failCount = 0;
+
+		try {
+			for (let i = 0; i < targets.length; i++) {
+				await checkTaskStatus();
+
+				const { account, domain } = targets[i];
+				const label = getRegistrarLabel(domain.registrar);
+				try {
+					const result = await registrarRequest<RegistrarRenewResult>(account, proxyAccounts, 'renew', {
+						body: { domain: domain.name, years },
+					});
+					renewedAccountIds.add(account.id);
+
+					const details = [
+						result.expiry && `until ${new Date(result.expiry).toLocaleDateString()}`,
+						result.chargedAmount !== undefined && `charged ${result.chargedAmount.toFixed(2)}`,
+						result.orderId && `order ${result.orderId}`,
+					].filter(Boolean).join(', ');
+					addLog(`${domain.name}: renewed at ${label}${details ? ` (${details})` : ''}`, 'success');
+				} catch (error) {
+					failCount++;
+					addLog(`${domain.name}: ${error instanceof Error ? error.message : `${label} renewal failed`}`, 'error');
+				}
+
+				updateProgress(Math.round(((i + 1) / targets.length) * 100), i + 1);
+			}
+
+			addLog(
+				`Done: ${targets.length - failCount} renewed, ${failCount} failed`,
+				failCount > 0 ? 'error' : 'success'
+			);
+			completeTask();
+		} catch (error) {
+			if (!(error instanceof Error && error.message === 'Task stopped by user')) {
+				console.error('Domain renewal error:', error);
+				failTask(error instanceof Error ? error.message : 'Failed to renew domains');
+			}
+		}
+
+		return [...renewedAccountIds];
+	}, [groups, years, proxyAccounts]);
+
+	return {
+		groups: summaries,
+		unsupported,
+		prices,
+		renew,
+	};
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { useAccountStore } from '@/store/account-store';
+import {
+	fetchRegistrarHostRecords,
+	hostRecordsMatch,
+	planHostRecordChanges,
+	setRegistrarHostRecords,
+} from '@/lib/registrar-host-records';
+import type { RegistrarHostRecord, RegistrarHostRecords, UnifiedDomain } from '@/types/registrar';
+
+/**
+ * Loads a domain's host records and keeps an editable draft next to them. Nothing is
+ * sent until `save`, which writes the whole draft in one setHosts call.
+ */
+export function useHostRecords(domain: UnifiedDomain | null) {
+	const { accounts, proxyAccounts } = useAccountStore();
+	const account = domain ? accounts.find((acc) => acc.id === domain.accountId) : undefined;
+
+	const [loaded, setLoaded] = useState<RegistrarHostRecords | null>(null);
+	const [draft, setDraft] = useState<RegistrarHostRecord[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const load = useCallback(async () => {
+		if (!domain || !account) return;
+
+		setIsLoading(true);
+		setError(null);
+		try {
+			const result = await fetchRegistrarHostRecords(domain.name, account, proxyAccounts);
+			setLoaded(result);
+			setDraft(result.records);
+		} catch (err) {
+			console.error(`Error loading host records for ${domain.name}:`, err);
+			setError(err instanceof Error ? err.message : 'Failed to load host records');
+		} finally {
+			setIsLoading(false);
+		}
+	}, [domain, account, proxyAccounts]);
+
+	useEffect(() => {
+		setLoaded(null);
+		setDraft([]);
+		void load();
+	}, [load]);
+
+	const changes = useMemo(
+		() => planHostRecordChanges(loaded?.records ?? [], draft),
+		[loaded, draft]
+	);
+	const hasChanges = changes.some((change) => change.action !== 'keep');
+
+	const addRecord = (record: RegistrarHostRecord) => setDraft((prev) => [...prev, record]);
+
+	const updateRecord = (index: number, record: RegistrarHostRecord) =>
+		setDraft((prev) => prev.map((item, i) => (i === index ? { ...record, id: item.id } : item)));
+
+	const removeRecord = (index: number) => setDraft((prev) => prev.filter((_, i) => i !== index));
+
+	const resetDraft = () => setDraft(loaded?.records ?? []);
+
+	/**
+	 * Writes the draft. Re-reads the records first: if they changed since loading, the
+	 * preview would be wrong, so the new records become the baseline and nothing is saved.
+	 */
+	const save = async (): Promise<boolean> => {
+		if (!domain || !account || !loaded) return false;
+
+		setIsSaving(true);
+		try {
+			const latest = await fetchRegistrarHostRecords(domain.name, account, proxyAccounts);
+			if (!hostRecordsMatch(latest.records, loaded.records)) {
+				setLoaded(latest);
+				toast.warning(`Host records for ${domain.name} changed since they were loaded. Review the updated changes and save again.`);
+				return false;
+			}
+
+			await setRegistrarHostRecords(domain.name, draft, account, proxyAccounts);
+			toast.success(`Saved ${draft.length} host record${draft.length !== 1 ? 's' : ''} for ${domain.name}`);
+			await load();
+			return true;
+		} catch (err) {
+			console.error(`Error saving host records for ${domain.name}:`, err);
+			toast.error(err instanceof Error ? err.message : 'Failed to save host records');
+			return false;
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return {
+		account,
+		isUsingOurDNS: loaded?.isUsingOurDNS ?? null,
+		draft,
+		changes,
+		hasChanges,
+		isLoading,
+		isSaving,
+		error,
+		load,
+		save,
+		addRecord,
+		updateRecord,
+		removeRecord,
+		resetDraft,
+	};
+}
@@ -12,6 +12,7 @@ import { useAccountStore } from '@/store/account-store';
 import { useCloudflareCache } from '@/store/cloudflare-cache';
 import { CloudflareAPI } from '@/lib/cloudflare-api';
 import { toast } from 'sonner';
+import { OriginCertificatesCard } from '@/components/origin-certificates/origin-certificates-card';
 
 export default function SSLCertificatesPage() {
   const params = useParams();
@@ -81,7 +82,7 @@ export default function SSLCertificatesPage() {
 
     setLoading('sslData', cacheKey, true);
     try {
-      const api = new CloudflareAPI(account.apiToken);
+      const api = new CloudflareAPI(account);
       
       const [certificatesData, sslSettingData, zoneData] = await Promise.all([
         api.getSSLCertificates(zoneId),
@@ -112,7 +113,7 @@ export default function SSLCertificatesPage() {
 
     setIsUpdatingSetting(true);
     try {
-      const api = new CloudflareAPI(account.apiToken);
+      const api = new CloudflareAPI(account);
       const updatedSetting = await api.updateSSLSetting(zoneId, value);
       setSslSetting(updatedSetting);
       
@@ -275,6 +276,11 @@ export default function SSLCertificatesPage() {
         </Card>
       )}
 
+      {/* Origin CA Certificates */}
+      {zone && (
+        <OriginCertificatesCard account={account} zoneId={zoneId} zoneName={zone.name} />
+      )}
+
       {/* Certificates */}
       {isLoading.sslData[`${zoneId}-${accountId}`] ? (
         <Card>
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface CreateTunnelDialogProps {
+  disabled?: boolean;
+  // Tooltip for the trigger, e.g. why it is disabled
+  title?: string;
+  onCreate: (name: string) => Promise<unknown>;
+}
+
+export function CreateTunnelDialog({ disabled, title, onCreate }: CreateTunnelDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isSaving) return;
+    setOpen(next);
+    if (next) {
+      setName('');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+      toast.error('Use letters, numbers, dots, dashes and underscores only');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onCreate(name);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error creating tunnel:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={disabled} title={title}>
+          <Plus className="h-3.5 w-3.5" />
+          New tunnel
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Tunnel</DialogTitle>
+          <DialogDescription>
+            The tunnel is managed remotely: public hostnames are edited here and pushed to the connector.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="tunnel-name">Name</Label>
+          <Input
+            id="tunnel-name"
+            value={name}
+            onChange={(e) => setName(e.target.value.trim())}
+            placeholder="web-01"
+            className="font-mono"
+            disabled={isSaving}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={() => { void handleCreate(); }} disabled={isSaving || !name}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Globe, Loader2, Plus, Save, Server, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  TUNNEL_CATCH_ALL,
+  TUNNEL_DNS_STATE_LABELS,
+  findZoneForHostname,
+  getTunnelDNSState,
+  type TunnelDNSState,
+} from '@/lib/cloudflare-tunnels';
+import { formatCloudflareError } from '@/lib/utils';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { toast } from 'sonner';
+import type { CloudflareTunnel, SSHAccount, TunnelIngressRule, Zone } from '@/types/cloudflare';
+
+const DNS_STATE_BADGE_VARIANTS: Record<TunnelDNSState, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  routed: 'default',
+  exposed: 'destructive',
+  other: 'secondary',
+  missing: 'outline',
+  unknown: 'outline',
+};
+
+interface TunnelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tunnel: CloudflareTunnel | null;
+  accountZones: { zone: Zone; accountId: string }[];
+  isBusy: boolean;
+  isTaskRunning: boolean;
+  // Set when the token lacks Tunnel Edit; the dialog is then read-only
+  editBlockedReason?: string;
+  loadIngress: (tunnel: CloudflareTunnel) => Promise<TunnelIngressRule[]>;
+  onSaveIngress: (rules: TunnelIngressRule[]) => Promise<TunnelIngressRule[]>;
+  onRouteHostnames: (hostnames: string[]) => Promise<void>;
+  onInstallConnector: (sshAccount: SSHAccount) => Promise<void>;
+}
+
+export function TunnelDialog({
+  open,
+  onOpenChange,
+  tunnel,
+  accountZones,
+  isBusy,
+  isTaskRunning,
+  editBlockedReason,
+  loadIngress,
+  onSaveIngress,
+  onRouteHostnames,
+  onInstallConnector,
+}: TunnelDialogProps) {
+  const { sshAccounts, loadSSHAccounts } = useAccountStore();
+  const dnsRecords = useCloudflareCache((s) => s.dnsRecords);
+  const [tab, setTab] = useState('hostnames');
+  const [rules, setRules] = useState<TunnelIngressRule[]>([]);
+  const [catchAll, setCatchAll] = useState<TunnelIngressRule>(TUNNEL_CATCH_ALL);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sshAccountId, setSSHAccountId] = useState('');
+
+  const applyIngress = (ingress: TunnelIngressRule[]) => {
+    setRules(ingress.filter(rule => rule.hostname));
+    setCatchAll(ingress.find(rule => !rule.hostname) ?? TUNNEL_CATCH_ALL);
+    setSelected(new Set());
+    setIsDirty(false);
+  };
+
+  useEffect(() => {
+    if (!open || !tunnel) return;
+    setTab('hostnames');
+    setSSHAccountId('');
+    applyIngress([]);
+    if (sshAccounts.length === 0) {
+      loadSSHAccounts();
+    }
+
+    setIsLoading(true);
+    loadIngress(tunnel)
+      .then(applyIngress)
+      .catch(error => toast.error(formatCloudflareError(error)))
+      .finally(() => setIsLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, tunnel?.id]);
+
+  const dnsStates = useMemo(() => rules.map(rule => {
+    const hostname = rule.hostname?.trim() ?? '';
+    const match = hostname ? findZoneForHostname(hostname, accountZones) : undefined;
+    if (!tunnel || !match) return null;
+    return getTunnelDNSState(hostname, tunnel.id, dnsRecords[`${match.zone.id}-${match.accountId}`]?.records);
+  }), [rules, accountZones, dnsRecords, tunnel]);
+
+  if (!tunnel) return null;
+
+  const updateRule = (index: number, patch: Partial<TunnelIngressRule>) => {
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...patch } : rule));
+    setIsDirty(true);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index));
+    setSelected(new Set());
+    setIsDirty(true);
+  };
+
+  const toggleSelected = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      applyIngress(await onSaveIngress([...rules, catchAll]));
+    } catch {
+      // Toast is shown by the hook; keep the edits so they can be fixed
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hostnamesToRoute = [...new Set(
+    [...selected].map(index => rules[index]?.hostname?.trim().toLowerCase()).filter((hostname): hostname is string => !!hostname)
+  )];
+
+  const handleRoute = () => {
+    const exposedCount = [...selected].filter(index => dnsStates[index] === 'exposed').length;
+    const confirmed = window.confirm(
+      `Point ${hostnamesToRoute.length} hostname${hostnamesToRoute.length !== 1 ? 's' : ''} at ${tunnel.name} with proxied CNAME records?` +
+      (exposedCount > 0 ? ` A/AAAA records on ${exposedCount} of them will be deleted.` : '')
+    );
+    if (confirmed) {
+      void onRouteHostnames(hostnamesToRoute);
+    }
+  };
+
+  const sshAccount = sshAccounts.find(acc => acc.id === sshAccountId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{tunnel.name}</DialogTitle>
+          <DialogDescription className="font-mono text-xs">{tunnel.id}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="hostnames">Public hostnames</TabsTrigger>
+            <TabsTrigger value="connector">Connector ({tunnel.connections.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="hostnames" className="space-y-3">
+            {tunnel.config_src === 'local' && (
+              <p className="text-xs text-muted-foreground">
+                This tunnel reads its ingress rules from a config file on the server; changes saved here are ignored until it is migrated to remote management.
+              </p>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Hostname</TableHead>
+                    <TableHead className="w-[140px]">Path</TableHead>
+                    <TableHead>Service</TableHead>
+                    <TableHead className="w-[130px]">DNS</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule, index) => {
+                    const state = dnsStates[index];
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(index)}
+                            onCheckedChange={(checked) => toggleSelected(index, checked === true)}
+                            disabled={!state || state === 'routed'}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={rule.hostname ?? ''}
+                            onChange={(e) => updateRule(index, { hostname: e.target.value })}
+                            placeholder="app.example.com"
+                            className="h-8 font-mono text-xs"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={rule.path ?? ''}
+                            onChange={(e) => updateRule(index, { path: e.target.value })}
+                            placeholder="Optional"
+                            className="h-8 font-mono text-xs"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={rule.service}
+                            onChange={(e) => updateRule(index, { service: e.target.value })}
+                            placeholder="http://localhost:8080"
+                            className="h-8 font-mono text-xs"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {state ? (
+                            <Badge variant={DNS_STATE_BADGE_VARIANTS[state]} className="text-[10px]">
+                              {TUNNEL_DNS_STATE_LABELS[state]}
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">No zone</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => removeRule(index)}>
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  <TableRow>
+                    <TableCell />
+                    <TableCell colSpan={2} className="text-xs text-muted-foreground">Everything else</TableCell>
+                    <TableCell>
+                      <Input
+                        value={catchAll.service}
+                        onChange={(e) => { setCatchAll({ ...catchAll, service: e.target.value }); setIsDirty(true); }}
+                        className="h-8 font-mono text-xs"
+                      />
+                    </TableCell>
+                    <TableCell colSpan={2} />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => { setRules(prev => [...prev, { hostname: '', service: '' }]); setIsDirty(true); }}
+                disabled={isLoading || !!editBlockedReason}
+                title={editBlockedReason}
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add hostname
+              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleRoute}
+                  disabled={isDirty || isTaskRunning || hostnamesToRoute.length === 0 || !!editBlockedReason}
+                  title={editBlockedReason ?? (isDirty ? 'Save the hostnames first' : 'Create proxied CNAME records pointing at this tunnel')}
+                >
+                  <Globe className="h-3.5 w-3.5" />
+                  Route DNS {hostnamesToRoute.length > 0 ? hostnamesToRoute.length : ''}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => { void handleSave(); }}
+                  disabled={!isDirty || isSaving || isLoading || !!editBlockedReason}
+                  title={editBlockedReason}
+                >
+                  {isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              DNS state comes from cached records; load DNS on the Cloudflare page to refresh it. Hostnames in zones of other Cloudflare accounts cannot be routed to this tunnel.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="connector" className="space-y-4">
+            {tunnel.connections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No connector is running for this tunnel.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data center</TableHead>
+                    <TableHead>Origin IP</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Connected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tunnel.connections.map(connection => (
+                    <TableRow key={connection.id}>
+                      <TableCell className="font-mono text-xs">{connection.colo_name}</TableCell>
+                      <TableCell className="font-mono text-xs">{connection.origin_ip || '—'}</TableCell>
+                      <TableCell className="font-mono text-xs">{connection.client_version || '—'}</TableCell>
+                      <TableCell className="text-xs">
+                        {connection.opened_at ? new Date(connection.opened_at).toLocaleString() : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="space-y-1.5">
+              <Label>Install connector over SSH</Label>
+              <div className="flex items-center gap-2">
+                <Select value={sshAccountId} onValueChange={setSSHAccountId}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue placeholder={sshAccounts.length > 0 ? 'Select a server' : 'No SSH accounts configured'} />
+                  </SelectTrigger>
+                  <SelectContent position="popper">
+                    {sshAccounts.map(acc => (
+                      <SelectItem key={acc.id} value={acc.id}>
+                        {acc.name} ({acc.username}@{acc.host})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => { if (sshAccount) void onInstallConnector(sshAccount); }}
+                  disabled={!sshAccount || isBusy || !!editBlockedReason}
+                  title={editBlockedReason}
+                >
+                  {isBusy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Server className="h-3.5 w-3.5" />}
+                  Install
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Installs cloudflared if missing and runs it as a systemd service with the tunnel token in a root-only file. The SSH user needs root privileges.
+              </p>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { buildConnectorInstall, findZoneForHostname, getTunnelCNAME, normalizeTunnelIngress } from '@/lib/cloudflare-tunnels';
+import { formatCloudflareError } from '@/lib/utils';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import type { CloudflareAccount, CloudflareTunnel, DNSRecord, SSHAccount, TunnelIngressRule, Zone } from '@/types/cloudflare';
+
+interface AccountZone {
+  zone: Zone;
+  accountId: string;
+}
+
+// `enabled` is false when the credential's token cannot read tunnels, so nothing is loaded
+export function useTunnels(account: CloudflareAccount | undefined, cloudflareAccountId: string, accountZones: AccountZone[], enabled: boolean) {
+  const [tunnels, setTunnels] = useState<CloudflareTunnel[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyTunnelId, setBusyTunnelId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!account || !cloudflareAccountId || !enabled) return;
+    setIsLoading(true);
+    try {
+      const api = new CloudflareAPI(account);
+      const all = await api.getTunnels(cloudflareAccountId);
+      setTunnels(all.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Error loading tunnels:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, cloudflareAccountId, enabled]);
+
+  useEffect(() => {
+    setTunnels([]);
+    void refresh();
+  }, [refresh]);
+
+  const createTunnel = async (name: string) => {
+    if (!account || !cloudflareAccountId) return;
+    try {
+      const tunnel = await new CloudflareAPI(account).createTunnel(cloudflareAccountId, name);
+      setTunnels(prev => [...prev, tunnel].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`Created tunnel ${name}`);
+      return tunnel;
+    } catch (error) {
+      toast.error(formatCloudflareError(error));
+      throw error;
+    }
+  };
+
+  const deleteTunnel = async (tunnel: CloudflareTunnel) => {
+    if (!account || !cloudflareAccountId) return;
+    setBusyTunnelId(tunnel.id);
+    try {
+      await new CloudflareAPI(account).deleteTunnel(cloudflareAccountId, tunnel.id);
+      setTunnels(prev => prev.filter(item => item.id !== tunnel.id));
+      toast.success(`Deleted tunnel ${tunnel.name}`);
+    } catch (error) {
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setBusyTunnelId(null);
+    }
+  };
+
+  const loadIngress = useCallback(async (tunnel: CloudflareTunnel) => {
+    if (!account || !cloudflareAccountId) return [];
+    return new CloudflareAPI(account).getTunnelIngress(cloudflareAccountId, tunnel.id);
+  }, [account, cloudflareAccountId]);
+
+  const saveIngress = async (tunnel: CloudflareTunnel, rules: TunnelIngressRule[]) => {
+    if (!account || !cloudflareAccountId) return [];
+    try {
+      const saved = await new CloudflareAPI(account).updateTunnelIngress(cloudflareAccountId, tunnel.id, normalizeTunnelIngress(rules));
+      toast.success('Public hostnames saved');
+      return saved;
+    } catch (error) {
+      toast.error(formatCloudflareError(error));
+      throw error;
+    }
+  };
+
+  /**
+   * Points each hostname at the tunnel with a proxied CNAME. A and AAAA records at the same
+   * name are deleted, since leaving them would keep the origin IP published. If the CNAME
+   * write then fails, the deleted records are put back so the hostname doesn't go dark.
+   */
+  const routeHostnames = async (tunnel: CloudflareTunnel, hostnames: string[]) => {
+    if (!account || hostnames.length === 0) return;
+
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+    startTask('route_tunnel_dns', `Routing ${hostnames.length} hostname${hostnames.length !== 1 ? 's' : ''} to ${tunnel.name}`, hostnames.length);
+
+    const api = new CloudflareAPI(account);
+    const target = getTunnelCNAME(tunnel.id);
+    let routedCount = 0;
+    let failCount = 0;
+    let processed = 0;
+
+    const advance = () => {
+      processed++;
+      updateProgress(Math.round((processed / hostnames.length) * 100), processed);
+    };
+
+    // Returns the zone's records after routing, so each zone is only fetched once
+    const routeHostname = async (zoneId: string, hostname: string, records: DNSRecord[]): Promise<{ records: DNSRecord[]; error?: unknown }> => {
+      const atName = records.filter(record => record.name.toLowerCase() === hostname);
+      const cname = atName.find(record => record.type === 'CNAME');
+      const addresses = atName.filter(record => record.type === 'A' || record.type === 'AAAA');
+      let next = records;
+      const removed: DNSRecord[] = [];
+
+      try {
+        // Cloudflare rejects a CNAME next to A/AAAA records, so those go first
+        for (const record of addresses) {
+          await api.deleteDNSRecord(zoneId, record.id);
+          removed.push(record);
+          next = next.filter(item => item.id !== record.id);
+          addLog(`${hostname}: removed ${record.type} ${record.content}`, 'info');
+        }
+
+        if (cname?.content.toLowerCase() === target && cname.proxied) {
+          addLog(`${hostname}: already routed`, 'info');
+        } else if (cname) {
+          const updated = await api.updateDNSRecord(zoneId, cname.id, { ...cname, content: target, proxied: true });
+          next = next.map(item => (item.id === cname.id ? updated : item));
+          addLog(`${hostname}: CNAME changed from ${cname.content}`, 'success');
+        } else {
+          const created = await api.createDNSRecord(zoneId, { type: 'CNAME', name: hostname, content: target, proxied: true, ttl: 1 });
+          next = [...next, created];
+          addLog(`${hostname}: CNAME created`, 'success');
+        }
+        return { records: next };
+      } catch (error) {
+        for (const record of removed) {
+          try {
+            next = [...next, await api.createDNSRecord(zoneId, record)];
+            addLog(`${hostname}: restored ${record.type} ${record.content}`, 'info');
+          } catch (restoreError) {
+            addLog(`${hostname}: could not restore ${record.type} ${record.content}: ${formatCloudflareError(restoreError)}`, 'error');
+          }
+        }
+        return { records: next, error };
+      }
+    };
+
+    try {
+      const byZone = new Map<string, { match: AccountZone; hostnames: string[] }>();
+      for (const raw of hostnames) {
+        const hostname = raw.toLowerCase();
+        const match = findZoneForHostname(hostname, accountZones);
+        if (!match) {
+          addLog(`${hostname}: no zone for this hostname in the tunnel's Cloudflare account`, 'error');
+          failCount++;
+          advance();
+          continue;
+        }
+        const group = byZone.get(match.zone.id) ?? { match, hostnames: [] };
+        group.hostnames.push(hostname);
+        byZone.set(match.zone.id, group);
+      }
+
+      for (const { match, hostnames: zoneHostnames } of byZone.values()) {
+        await checkTaskStatus();
+
+        let records: DNSRecord[];
+        try {
+          records = await api.getDNSRecords(match.zone.id);
+        } catch (error) {
+          for (const hostname of zoneHostnames) {
+            addLog(`${hostname}: ${formatCloudflareError(error)}`, 'error');
+            failCount++;
+            advance();
+          }
+          continue;
+        }
+
+        try {
+          for (const hostname of zoneHostnames) {
+            await checkTaskStatus();
+            const result = await routeHostname(match.zone.id, hostname, records);
+            records = result.records;
+            if (result.error) {
+              addLog(`${hostname}: ${formatCloudflareError(result.error)}`, 'error');
+              failCount++;
+            } else {
+              routedCount++;
+            }
+            advance();
+          }
+        } finally {
+          useCloudflareCache.getState().setDNSRecords(match.zone.id, match.accountId, records);
+        }
+      }
+
+      addLog(`Done: ${routedCount} routed, ${failCount} failed`, failCount > 0 ? 'error' : 'success');
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        return;
+      }
+      console.error('Tunnel DNS routing error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to route hostnames');
+    }
+  };
+
+  const installConnector = async (tunnel: CloudflareTunnel, sshAccount: SSHAccount) => {
+    if (!account || !cloudflareAccountId) return;
+    setBusyTunnelId(tunnel.id);
+    try {
+      const token = await new CloudflareAPI(account).getTunnelToken(cloudflareAccountId, tunnel.id);
+      const { unit, files, command } = buildConnectorInstall(tunnel, token);
+
+      const response = await fetch('/api/ssh-deploy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          credentials: {
+            host: sshAccount.host,
+            port: sshAccount.port,
+            username: sshAccount.username,
+            privateKey: sshAccount.privateKey,
+            passphrase: sshAccount.passphrase,
+          },
+          files,
+          command,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to install connector');
+      }
+
+      toast.success(`Connector running on ${sshAccount.name} as ${unit}`, {
+        description: data.output?.trim() || undefined,
+      });
+      // The new connection takes a few seconds to register
+      setTimeout(() => { void refresh(); }, 5000);
+    } catch (error) {
+      console.error('Connector install error:', error);
+      toast.error(formatCloudflareError(error));
+    } finally {
+      setBusyTunnelId(null);
+    }
+  };
+
+  return {
+    tunnels,
+    isLoading,
+    busyTunnelId,
+    refresh,
+    createTunnel,
+    deleteTunnel,
+    loadIngress,
+    saveIngress,
+    routeHostnames,
+    installConnector,
+  };
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Eye, Loader2, RefreshCw, Trash2, Waypoints } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { useCloudflareDestinationAccount } from '@/hooks/use-cloudflare-destination-account';
+import { useTokenCapabilities } from '@/hooks/use-token-capabilities';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore } from '@/store/task-store';
+import type { CloudflareTunnel } from '@/types/cloudflare';
+import { CreateTunnelDialog } from './components/create-tunnel-dialog';
+import { TunnelDialog } from './components/tunnel-dialog';
+import { useTunnels } from './hooks/use-tunnels';
+
+const STATUS_BADGE_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  healthy: 'default',
+  degraded: 'secondary',
+  down: 'destructive',
+  inactive: 'outline',
+};
+
+export default function TunnelsPage() {
+  const router = useRouter();
+  const { accounts } = useAccountStore();
+  const cachedZones = useCloudflareCache((s) => s.zones);
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+  const [openTunnelId, setOpenTunnelId] = useState<string | null>(null);
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+  const {
+    accountsToUse,
+    selectedAccount,
+    cloudflareAccounts,
+    selectedCloudflareAccountId,
+    setSelectedCloudflareAccountId,
+    isLoadingAccounts,
+  } = useCloudflareDestinationAccount({ selectedAccountId });
+  const { can, reason } = useTokenCapabilities(selectedAccount?.id);
+  const canReadTunnels = can('tunnelRead');
+  const canEditTunnels = can('tunnelEdit');
+
+  // A tunnel can only serve hostnames in zones of its own Cloudflare account
+  const accountZones = useMemo(
+    () => cachedZones.filter(({ zone }) => zone.account?.id === selectedCloudflareAccountId),
+    [cachedZones, selectedCloudflareAccountId]
+  );
+
+  const {
+    tunnels,
+    isLoading,
+    busyTunnelId,
+    refresh,
+    createTunnel,
+    deleteTunnel,
+    loadIngress,
+    saveIngress,
+    routeHostnames,
+    installConnector,
+  } = useTunnels(selectedAccount, selectedCloudflareAccountId, accountZones, canReadTunnels);
+
+  const openTunnel = tunnels.find(tunnel => tunnel.id === openTunnelId) || null;
+  const healthyCount = tunnels.filter(tunnel => tunnel.status === 'healthy').length;
+
+  const handleDelete = (tunnel: CloudflareTunnel) => {
+    if (tunnel.connections.length > 0) {
+      window.alert(`Stop the connectors of ${tunnel.name} before deleting it.`);
+      return;
+    }
+    if (!window.confirm(`Delete tunnel ${tunnel.name}? Hostnames routed to it stop resolving.`)) return;
+    void deleteTunnel(tunnel);
+  };
+
+  if (accounts.filter(account => account.category === 'cloudflare').length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">No Cloudflare Accounts</h2>
+            <p className="text-muted-foreground mb-4">
+              Add a Cloudflare credential to manage tunnels.
+            </p>
+            <Button onClick={() => router.push('/credentials')}>
+              Manage Credentials
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sticky top-0 z-20 bg-background/95 backdrop-blur-sm border-b py-3 -mx-6 px-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-bold">Tunnels</h1>
+            {selectedCloudflareAccountId && (
+              <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+                <span className="px-2 py-0.5 bg-muted/50 rounded border border-border/50">
+                  <span className="text-foreground font-semibold">{healthyCount}</span>
+                  <span className="text-muted-foreground">/</span>
+                  <span>{tunnels.length}</span>
+                  <span className="text-muted-foreground ml-1">healthy</span>
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2 flex-nowrap">
+            <Select value={selectedAccountId} onValueChange={setSelectedAccountId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select credential" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {accountsToUse.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name || account.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={selectedCloudflareAccountId}
+              onValueChange={setSelectedCloudflareAccountId}
+              disabled={!selectedAccountId || isLoadingAccounts || cloudflareAccounts.length === 0}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder={isLoadingAccounts ? 'Loading accounts...' : 'Cloudflare account'} />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {cloudflareAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => { void refresh(); }}
+              disabled={!selectedCloudflareAccountId || isLoading || !canReadTunnels}
+              title={reason('tunnelRead')}
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <CreateTunnelDialog
+              disabled={!selectedCloudflareAccountId || !canEditTunnels}
+              title={reason('tunnelEdit')}
+              onCreate={async (name) => {
+                const tunnel = await createTunnel(name);
+                if (tunnel) setOpenTunnelId(tunnel.id);
+              }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {!selectedCloudflareAccountId ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <Waypoints className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>Pick an account</EmptyTitle>
+            <EmptyDescription>
+              Tunnels belong to the Cloudflare account and can serve any of its zones.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : !canReadTunnels ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <Waypoints className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>Tunnels unavailable</EmptyTitle>
+            <EmptyDescription>{reason('tunnelRead')}</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : isLoading && tunnels.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : tunnels.length === 0 ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <Waypoints className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No tunnels</EmptyTitle>
+            <EmptyDescription>
+              Create a tunnel to publish origins without exposing their IP addresses.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <Card className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tunnel</TableHead>
+                <TableHead className="w-[110px]">Status</TableHead>
+                <TableHead>Connectors</TableHead>
+                <TableHead className="w-[160px]">Created</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tunnels.map(tunnel => {
+                const colos = [...new Set(tunnel.connections.map(connection => connection.colo_name))];
+                return (
+                  <TableRow key={tunnel.id}>
+                    <TableCell>
+                      <div className="font-medium font-mono">{tunnel.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {tunnel.id}
+                        {tunnel.config_src === 'local' && <span className="ml-2 font-sans">· locally configured</span>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGE_VARIANTS[tunnel.status] ?? 'outline'}>{tunnel.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {tunnel.connections.length === 0 ? (
+                        <span className="text-muted-foreground">None</span>
+                      ) : (
+                        <span className="font-mono">{tunnel.connections.length} via {colos.join(', ')}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {new Date(tunnel.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-0.5">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setOpenTunnelId(tunnel.id)}>
+                          <Eye className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          onClick={() => handleDelete(tunnel)}
+                          disabled={!!busyTunnelId || !canEditTunnels}
+                          title={reason('tunnelEdit')}
+                        >
+                          {busyTunnelId === tunnel.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <TunnelDialog
+        open={!!openTunnel}
+        onOpenChange={(open) => !open && setOpenTunnelId(null)}
+        tunnel={openTunnel}
+        accountZones={accountZones}
+        isBusy={!!openTunnel && busyTunnelId === openTunnel.id}
+        isTaskRunning={isTaskRunning}
+        editBlockedReason={reason('tunnelEdit')}
+        loadIngress={loadIngress}
+        onSaveIngress={async (rules) => openTunnel ? saveIngress(openTunnel, rules) : []}
+        onRouteHostnames={async (hostnames) => {
+          if (openTunnel) await routeHostnames(openTunnel, hostnames);
+        }}
+        onInstallConnector={async (sshAccount) => {
+          if (openTunnel) await installConnector(openTunnel, sshAccount);
+        }}
+      />
+    </div>
+  );
+}
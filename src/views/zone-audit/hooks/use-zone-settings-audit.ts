@@ -0,0 +1,192 @@
+import { useCallback, useMemo, useState } from 'react';
+import { CloudflareAPI } from '@/lib/cloudflare-api';
+import { canPerform, getMissingCapabilityMessage, loadTokenCapabilities } from '@/lib/token-capabilities';
+import { processInParallel, formatCloudflareError } from '@/lib/utils';
+import { diffZoneSettings, type ZoneSettingKey } from '@/lib/zone-settings';
+import { useAccountStore } from '@/store/account-store';
+import { useCloudflareCache } from '@/store/cloudflare-cache';
+import { useTaskStore, checkTaskStatus } from '@/store/task-store';
+import { toast } from 'sonner';
+import type { ZoneSettingsValues } from '@/types/cloudflare';
+
+export interface ZoneAuditRow {
+  key: string;
+  zone: any;
+  accountId: string;
+  accountName: string;
+  current: Partial<ZoneSettingsValues> | null;
+  drift: ZoneSettingKey[];
+  lastChecked: number | null;
+}
+
+// Two requests per zone (settings + bot management), keep well under the API limit
+const AUDIT_CONCURRENCY = 4;
+
+export function useZoneSettingsAudit(target: ZoneSettingsValues) {
+  const { accounts } = useAccountStore();
+  const zones = useCloudflareCache((s) => s.zones);
+  const zoneSettings = useCloudflareCache((s) => s.zoneSettings);
+  const zoneSettingsLastUpdated = useCloudflareCache((s) => s.zoneSettingsLastUpdated);
+  const [reconcilingKeys, setReconcilingKeys] = useState<Record<string, boolean>>({});
+
+  const rows = useMemo<ZoneAuditRow[]>(() => zones.map((zoneData) => {
+    const key = `${zoneData.zone.id}-${zoneData.accountId}`;
+    const current = zoneSettings[key]?.settings || null;
+    return {
+      key,
+      zone: zoneData.zone,
+      accountId: zoneData.accountId,
+      accountName: zoneData.accountName,
+      current,
+      drift: current ? diffZoneSettings(current, target) : [],
+      lastChecked: zoneSettingsLastUpdated[key] ?? null,
+    };
+  }), [zones, zoneSettings, zoneSettingsLastUpdated, target]);
+
+  const readZone = useCallback(async (row: ZoneAuditRow) => {
+    const account = accounts.find(acc => acc.id === row.accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    const api = new CloudflareAPI(account);
+    const settings = await api.getZoneSettings(row.zone.id);
+
+    const { setZoneSettings, getSSLData, setSSLData } = useCloudflareCache.getState();
+    setZoneSettings(row.zone.id, row.accountId, settings);
+
+    // Keep the SSL column on the Cloudflare page in sync with what we just read
+    if (settings.sslMode) {
+      const existingData = getSSLData(row.zone.id, row.accountId);
+      setSSLData(row.zone.id, row.accountId, existingData?.certificates || [], {
+        id: 'ssl',
+        ...existingData?.sslSetting,
+        value: settings.sslMode,
+      });
+    }
+
+    return settings;
+  }, [accounts]);
+
+  const scan = useCallback(async (targetRows: ZoneAuditRow[]) => {
+    if (targetRows.length === 0) return;
+
+    const { startTask, addLog, updateProgress, completeTask } = useTaskStore.getState();
+    startTask('audit_settings', `Reading settings of ${targetRows.length} zone${targetRows.length !== 1 ? 's' : ''}`, targetRows.length);
+
+    let processed = 0;
+    let driftCount = 0;
+    let failCount = 0;
+
+    await processInParallel(targetRows, async (row) => {
+      await checkTaskStatus();
+      try {
+        const settings = await readZone(row);
+        const drift = diffZoneSettings(settings, target);
+        if (drift.length > 0) {
+          driftCount++;
+          addLog(`${row.zone.name}: ${drift.length} setting${drift.length !== 1 ? 's' : ''} differ`, 'error');
+        }
+      } catch (error) {
+        failCount++;
+        addLog(`${row.zone.name}: ${formatCloudflareError(error)}`, 'error');
+      } finally {
+        processed++;
+        updateProgress(Math.round((processed / targetRows.length) * 100), processed);
+      }
+    }, AUDIT_CONCURRENCY);
+
+    if (useTaskStore.getState().status === 'stopped') return;
+
+    addLog(
+      `Scanned ${processed - failCount} zone${processed - failCount !== 1 ? 's' : ''}: ${driftCount} drifted, ${failCount} failed`,
+      driftCount > 0 || failCount > 0 ? 'info' : 'success'
+    );
+    completeTask();
+  }, [readZone, target]);
+
+  const reconcileRow = useCallback(async (row: ZoneAuditRow) => {
+    const account = accounts.find(acc => acc.id === row.accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    if (!canPerform(await loadTokenCapabilities(account), 'zoneSettingsEdit')) {
+      throw new Error(getMissingCapabilityMessage('zoneSettingsEdit'));
+    }
+
+    const api = new CloudflareAPI(account);
+    const result = await api.applyZoneSettings(row.zone.id, target, undefined, row.drift);
+    await readZone(row);
+    return result;
+  }, [accounts, readZone, target]);
+
+  const reconcile = useCallback(async (row: ZoneAuditRow) => {
+    if (row.drift.length === 0) return;
+
+    setReconcilingKeys(prev => ({ ...prev, [row.key]: true }));
+    try {
+      const result = await reconcileRow(row);
+      if (result.failureCount === 0) {
+        toast.success(`Reconciled ${result.successCount} setting${result.successCount !== 1 ? 's' : ''} on ${row.zone.name}`);
+      } else {
+        toast.error(`Failed to update ${result.errors.join(', ')} on ${row.zone.name}`);
+      }
+    } catch (error) {
+      console.error(`Error reconciling ${row.zone.name}:`, error);
+      toast.error(`Failed to reconcile ${row.zone.name}: ${formatCloudflareError(error)}`);
+    } finally {
+      setReconcilingKeys(prev => ({ ...prev, [row.key]: false }));
+    }
+  }, [reconcileRow]);
+
+  const reconcileAll = useCallback(async (targetRows: ZoneAuditRow[]) => {
+    const drifted = targetRows.filter(row => row.drift.length > 0);
+    if (drifted.length === 0) return;
+
+    const { startTask, addLog, updateProgress, completeTask, failTask } = useTaskStore.getState();
+    startTask('reconcile_settings', `Reconciling ${drifted.length} zone${drifted.length !== 1 ? 's' : ''}`, drifted.length);
+
+    let successCount = 0;
+    let failCount = 0;
+
+    try {
+      for (let i = 0; i < drifted.length; i++) {
+        await checkTaskStatus();
+
+        const row = drifted[i];
+        try {
+          const result = await reconcileRow(row);
+          if (result.failureCount === 0) {
+            addLog(`${row.zone.name}: updated ${row.drift.length} setting${row.drift.length !== 1 ? 's' : ''}`, 'success');
+            successCount++;
+          } else {
+            addLog(`${row.zone.name}: failed ${result.errors.join(', ')}`, 'error');
+            failCount++;
+          }
+        } catch (error) {
+          addLog(`${row.zone.name}: ${formatCloudflareError(error)}`, 'error');
+          failCount++;
+        }
+
+        updateProgress(Math.round(((i + 1) / drifted.length) * 100), i + 1);
+      }
+
+      addLog(`Done: ${successCount} reconciled, ${failCount} failed`, failCount > 0 ? 'error' : 'success');
+      completeTask();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Task stopped by user') {
+        return;
+      }
+      console.error('Reconcile error:', error);
+      failTask(error instanceof Error ? error.message : 'Failed to reconcile zones');
+    }
+  }, [reconcileRow]);
+
+  return {
+    rows,
+    scan,
+    reconcile,
+    reconcileAll,
+    reconcilingKeys,
+  };
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ListChecks, Loader2, RefreshCw, Search, Wrench, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { ZoneProfileSelect } from '@/components/zone-profiles/zone-profile-select';
+import { AUDITED_ZONE_SETTING_FIELDS, formatZoneSettingValue } from '@/lib/zone-settings';
+import { cn } from '@/lib/utils';
+import { useAccountStore } from '@/store/account-store';
+import { useTaskStore } from '@/store/task-store';
+import { useZoneProfileStore, DEFAULT_PROFILE_ID } from '@/store/zone-profile-store';
+import { useZoneSettingsAudit } from './hooks/use-zone-settings-audit';
+
+export default function ZoneAuditPage() {
+  const router = useRouter();
+  const { accounts } = useAccountStore();
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const profile = useZoneProfileStore((s) => s.getProfile(profileId));
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedAccount, setSelectedAccount] = useState('all');
+  const [driftOnly, setDriftOnly] = useState(false);
+  const taskStatus = useTaskStore((s) => s.status);
+  const isTaskRunning = taskStatus === 'running' || taskStatus === 'paused';
+
+  const { rows, scan, reconcile, reconcileAll, reconcilingKeys } = useZoneSettingsAudit(profile.settings);
+
+  const filteredRows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return rows
+      .filter(row => selectedAccount === 'all' || row.accountId === selectedAccount)
+      .filter(row => !term || row.zone.name.toLowerCase().includes(term) || row.accountName?.toLowerCase().includes(term))
+      .filter(row => !driftOnly || row.drift.length > 0)
+      .sort((a, b) => b.drift.length - a.drift.length || a.zone.name.localeCompare(b.zone.name));
+  }, [rows, selectedAccount, searchTerm, driftOnly]);
+
+  const stats = useMemo(() => ({
+    total: rows.length,
+    scanned: rows.filter(row => row.current).length,
+    drifted: rows.filter(row => row.drift.length > 0).length,
+  }), [rows]);
+
+  const driftedVisible = filteredRows.filter(row => row.drift.length > 0);
+
+  if (accounts.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">No Cloudflare Accounts</h2>
+            <p className="text-muted-foreground mb-4">
+              Add a Cloudflare credential and load zones on the Cloudflare page before running an audit.
+            </p>
+            <Button onClick={() => router.push('/credentials')}>
+              Manage Credentials
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sticky top-0 z-20 bg-background/95 backdrop-blur-sm border-b py-3 -mx-6 px-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-bold">Settings Audit</h1>
+            <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+              <span className="px-2 py-0.5 bg-muted/50 rounded border border-border/50">
+                <span className="text-foreground font-semibold">{stats.scanned}</span>
+                <span className="text-muted-foreground">/</span>
+                <span>{stats.total}</span>
+                <span className="text-muted-foreground ml-1">scanned</span>
+              </span>
+              {stats.drifted > 0 && (
+                <span className="px-2 py-0.5 bg-destructive/10 text-destructive rounded border border-destructive/20">
+                  <span className="font-semibold">{stats.drifted}</span>
+                  <span className="ml-1">drifted</span>
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2 flex-nowrap">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Search domains, Cloudflare accounts"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-10 w-72"
+              />
+              {searchTerm && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-6 w-6 p-0 hover:bg-muted"
+                  onClick={() => setSearchTerm('')}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+
+            <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+              <SelectTrigger className="w-xsh-9">
+                <SelectValue placeholder="All Accounts" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                <SelectItem value="all">All Accounts</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name || account.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => { void scan(filteredRows); }}
+              disabled={isTaskRunning || filteredRows.length === 0}
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+              Scan {filteredRows.length}
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => { void reconcileAll(driftedVisible); }}
+              disabled={isTaskRunning || driftedVisible.length === 0}
+            >
+              <Wrench className="h-3.5 w-3.5" />
+              Reconcile {driftedVisible.length}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-end justify-between gap-6">
+        <div className="w-80">
+          <ZoneProfileSelect
+            value={profileId}
+            onChange={setProfileId}
+            label="Compare against profile"
+          />
+        </div>
+        <div className="flex items-center gap-2 pb-1">
+          <Switch id="audit-drift-only" checked={driftOnly} onCheckedChange={setDriftOnly} />
+          <Label htmlFor="audit-drift-only" className="text-sm">Only show drifted zones</Label>
+        </div>
+      </div>
+
+      {filteredRows.length === 0 ? (
+        <Empty className="border">
+          <EmptyMedia variant="icon">
+            <ListChecks className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>{rows.length === 0 ? 'No cached zones' : 'No zones match'}</EmptyTitle>
+            <EmptyDescription>
+              {rows.length === 0
+                ? 'Load zones on the Cloudflare page first; the audit runs against cached zones.'
+                : 'Adjust the search, account filter or drift toggle.'}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <Card className="p-0">
+          <div className="overflow-x-auto">
+            <TooltipProvider>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[200px]">Domain</TableHead>
+                    {AUDITED_ZONE_SETTING_FIELDS.map(field => (
+                      <TableHead key={field.key} className="text-xs whitespace-nowrap">
+                        <div>{field.label}</div>
+                        <div className="font-mono font-normal text-muted-foreground">
+                          {formatZoneSettingValue(field, profile.settings[field.key])}
+                        </div>
+                      </TableHead>
+                    ))}
+                    <TableHead className="w-[120px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRows.map(row => (
+                    <TableRow key={row.key}>
+                      <TableCell>
+                        <div className="font-medium">{row.zone.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.accountName}
+                          {row.lastChecked && (
+                            <span className="ml-2">· {new Date(row.lastChecked).toLocaleString()}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      {AUDITED_ZONE_SETTING_FIELDS.map(field => {
+                        const value = row.current?.[field.key];
+                        const isDrifted = row.drift.includes(field.key);
+                        return (
+                          <TableCell
+                            key={field.key}
+                            className={cn(
+                              'text-xs font-mono whitespace-nowrap',
+                              !row.current && 'text-muted-foreground',
+                              isDrifted && 'bg-destructive/10 text-destructive font-semibold'
+                            )}
+                          >
+                            {isDrifted ? (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <span>{formatZoneSettingValue(field, value)}</span>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  Expected {formatZoneSettingValue(field, profile.settings[field.key])}
+                                </TooltipContent>
+                              </Tooltip>
+                            ) : (
+                              formatZoneSettingValue(field, value)
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant={row.drift.length > 0 ? 'default' : 'ghost'}
+                          onClick={() => { void reconcile(row); }}
+                          disabled={row.drift.length === 0 || reconcilingKeys[row.key] || isTaskRunning}
+                        >
+                          {reconcilingKeys[row.key] ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <Wrench className="h-3.5 w-3.5" />
+                          )}
+                          {row.drift.length > 0 ? `Fix ${row.drift.length}` : row.current ? 'In sync' : 'Not scanned'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TooltipProvider>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}